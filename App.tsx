@@ -9,6 +9,7 @@ import Accounting from './pages/Accounting';
 import Settings from './pages/Settings';
 import Login from './pages/Login';
 import Reports from './pages/Reports';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
 import { AppProvider, useAppContext } from './AppContext';
 import type { Permission } from './types';
 import { MenuIcon } from './components/icons';
@@ -92,6 +93,7 @@ const AppContent: React.FC = () => {
           {renderActiveView()}
         </div>
       </main>
+      <SyncStatusIndicator />
     </div>
   );
 };
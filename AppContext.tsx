@@ -1,18 +1,44 @@
 
-import React, { createContext, useContext, ReactNode, useState, useEffect } from 'react';
+import React, { createContext, useContext, ReactNode, useState, useEffect, useCallback } from 'react';
 import type {
     Product, ProductBatch, SaleInvoice, PurchaseInvoice, PurchaseInvoiceItem, InvoiceItem,
     Customer, Supplier, Employee, Expense, Service, StoreSettings, CartItem,
     CustomerTransaction, SupplierTransaction, PayrollTransaction, ActivityLog,
-    User, Role, Permission, AppState
+    User, Role, Permission, AppState, SyncOperation, Branch, StockTransfer, StockTransferItem, Stocktake,
+    StockMovement, StockAdjustmentReason, PaymentLine, CreditOverride, CashShift, CashMovement, CashMovementReason, ParkedCart, Quotation, CustomerOrder, OrderReservation, Promotion, PriceList, Voucher, ReturnLine, ExchangeReturn
 } from './types';
 import { formatCurrency } from './utils/formatters';
 import { ALL_PERMISSIONS } from './utils/permissions';
+import { getAllowedBranches, getBranchBatches } from './utils/branches';
+import { STOCK_MOVEMENT_REASONS } from './utils/stockMovements';
+import { getDeductionOrder, getAverageCost } from './utils/costing';
+import { isCashPayment, getOnAccountAmount, getNetCash } from './utils/payments';
+import { getOpenShift, getShiftSummary, CASH_MOVEMENT_REASONS } from './utils/shifts';
+import { isQuotationExpired, toDateInputValue } from './utils/quotations';
+import { applyPromotions, getPromotionIds } from './utils/promotions';
+import { applyPriceList, getUnitPrice } from './utils/priceLists';
+import { getLoyaltyAmount, getPointsForAmount, getEarnedPoints, getAvailablePoints, getReturnPoints, getInvoiceLoyaltyTransactions, getLoyaltyBalanceChange } from './utils/loyalty';
+import { getReturnItems, getReturnTotal, getReturnRefunds, getPreviousReturns } from './utils/returns';
+import { DEFAULT_NUMBERING } from './utils/numbering';
+import { isVoided, getVoidProblem } from './utils/revisions';
+import { generateVoucherCode, findVoucher, getVoucherProblem, getVoucherAmounts, getInvoiceVoucherChanges, applyVoucherChanges } from './utils/vouchers';
+import { getReservedQuantities, getUnreservedStock, getUnreservedBatchStock, planReservations, getOrderBalanceDue } from './utils/orders';
 import { api } from './services/supabaseService';
+import type { StockDeduction, CustomerBalanceUpdate, TransferReceiptLine } from './services/supabaseService';
+import { PermissionDeniedError } from './services/errors';
+import { loginRequest, approveCreditOverrideRequest, getStoredSession, getSessionUser, storeSession, clearSession } from './services/authService';
+import { subscribeToSyncQueue, flushSyncQueue, retrySyncOperation, discardSyncOperation, clearOfflineMirror } from './services/syncService';
+import Toast from './components/Toast';
 
 interface AppContextType extends AppState {
     showToast: (message: string) => void;
     isLoading: boolean;
+
+    // Offline Sync
+    isOnline: boolean;
+    syncQueue: SyncOperation[];
+    retrySyncOperation: (id: number) => Promise<void>;
+    discardSyncOperation: (id: number) => Promise<void>;
     
     // Auth
     login: (username: string, password: string) => Promise<{ success: boolean; message: string }>;
@@ -27,12 +53,19 @@ interface AppContextType extends AppState {
     updateRole: (role: Role) => Promise<{ success: boolean; message: string }>;
     deleteRole: (roleId: string) => Promise<void>;
 
+    // Branches
+    allowedBranches: Branch[];
+    setActiveBranch: (branchId: string) => void;
+    addBranch: (branch: Omit<Branch, 'id'>) => Promise<{ success: boolean; message: string }>;
+    updateBranch: (branch: Branch) => Promise<{ success: boolean; message: string }>;
+    deleteBranch: (branchId: string) => Promise<void>;
+
     // Backup & Restore
     exportData: () => void;
     importData: (file: File) => void;
 
     // Inventory Actions
-    addProduct: (product: Omit<Product, 'id' | 'batches'>, firstBatch: Omit<ProductBatch, 'id'>) => { success: boolean; message: string }; // kept sync signature for UI, but triggers async
+    addProduct: (product: Omit<Product, 'id' | 'batches'>, firstBatch: Omit<ProductBatch, 'id' | 'branchId'>) => { success: boolean; message: string }; // kept sync signature for UI, but triggers async
     updateProduct: (product: Product) => { success: boolean; message: string };
     deleteProduct: (productId: string) => void;
     
@@ -41,60 +74,131 @@ interface AppContextType extends AppState {
     updateCartItemQuantity: (itemId: string, itemType: 'product' | 'service', newQuantity: number) => { success: boolean; message: string };
     updateCartItemFinalPrice: (itemId: string, itemType: 'product' | 'service', finalPrice: number) => void;
     removeFromCart: (itemId: string, itemType: 'product' | 'service') => void;
-    completeSale: (cashier: string, customerId?: string) => { success: boolean; invoice?: SaleInvoice; message: string };
-    beginEditSale: (invoiceId: string) => { success: boolean; message: string; customerId?: string; };
+    setCartCustomer: (customerId?: string) => void;
+    completeSale: (cashier: string, customerId?: string, payments?: PaymentLine[], creditOverride?: CreditOverride, exchange?: ExchangeReturn) => { success: boolean; invoice?: SaleInvoice; message: string; needsCreditOverride?: boolean };
+    approveCreditOverride: (username: string, password: string, customerId: string, amount: number) => Promise<{ success: boolean; message: string; override?: CreditOverride }>;
+    beginEditSale: (invoiceId: string, reason: string) => { success: boolean; message: string; customerId?: string; };
     cancelEditSale: () => void;
-    addSaleReturn: (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], cashier: string) => { success: boolean, message: string };
+    voidSale: (invoiceId: string, reason: string) => Promise<{ success: boolean; message: string }>;
+    addSaleReturn: (originalInvoiceId: string, returnItems: ReturnLine[], cashier: string, refundAsVoucher?: boolean) => { success: boolean, message: string, voucher?: Voucher };
     setInvoiceTransientCustomer: (invoiceId: string, customerName: string) => Promise<void>;
     
     // Purchase Actions
-    addPurchaseInvoice: (invoiceData: Omit<PurchaseInvoice, 'id' | 'totalAmount' | 'items' | 'type' | 'originalInvoiceId'> & { items: Omit<PurchaseInvoiceItem, 'productName'>[] }) => { success: boolean, message: string };
+    addPurchaseInvoice: (invoiceData: Omit<PurchaseInvoice, 'id' | 'totalAmount' | 'items' | 'type' | 'originalInvoiceId' | 'branchId'> & { items: Omit<PurchaseInvoiceItem, 'productName'>[] }) => { success: boolean, message: string };
     beginEditPurchase: (invoiceId: string) => { success: boolean, message: string };
     cancelEditPurchase: () => void;
-    updatePurchaseInvoice: (invoiceData: Omit<PurchaseInvoice, 'id' | 'totalAmount' | 'items' | 'type' | 'originalInvoiceId'> & { items: Omit<PurchaseInvoiceItem, 'productName'>[] }) => { success: boolean, message: string };
+    updatePurchaseInvoice: (invoiceData: Omit<PurchaseInvoice, 'id' | 'totalAmount' | 'items' | 'type' | 'originalInvoiceId' | 'branchId'> & { items: Omit<PurchaseInvoiceItem, 'productName'>[] }) => { success: boolean, message: string };
     addPurchaseReturn: (originalInvoiceId: string, returnItems: { productId: string; quantity: number }[]) => { success: boolean; message: string };
 
+    // Stock Transfers
+    sendStockTransfer: (destinationBranchId: string, items: { batchId: string; quantity: number }[], notes?: string) => { success: boolean; message: string };
+    receiveStockTransfer: (transferId: string, receivedQuantities: Record<string, number>) => { success: boolean; message: string }; // keyed by transfer item id
+
+    // Stocktake
+    startStocktake: () => { success: boolean; message: string };
+    setStocktakeCount: (batchId: string, countedStock: number | undefined) => void;
+    cancelStocktake: () => void;
+    postStocktake: () => { success: boolean; message: string };
+
+    // Stock Movements
+    refreshStockMovements: () => Promise<void>;
+    adjustStock: (batchId: string, delta: number, reason: StockAdjustmentReason, note: string) => { success: boolean; message: string };
+
+    // Customer Orders (layaway)
+    placeCustomerOrder: (customerId: string, deposit: number, dueDate?: string, note?: string) => { success: boolean; message: string; order?: CustomerOrder };
+    addOrderDeposit: (orderId: string, amount: number) => { success: boolean; message: string };
+    pickUpCustomerOrder: (orderId: string) => { success: boolean; message: string; customerId?: string };
+    cancelCustomerOrder: (orderId: string, refundDeposit: boolean) => { success: boolean; message: string };
+
+    // Quotations
+    saveQuotation: (validUntil: string, customerId?: string, customerName?: string, note?: string) => { success: boolean; message: string; quotation?: Quotation };
+    convertQuotation: (id: string) => { success: boolean; message: string; customerId?: string };
+    cancelQuotation: (id: string) => { success: boolean; message: string };
+
+    // Parked Carts
+    refreshParkedCarts: () => Promise<void>;
+    parkCart: (label: string, customerId?: string) => { success: boolean; message: string };
+    recallParkedCart: (id: string) => { success: boolean; message: string; customerId?: string };
+    discardParkedCart: (id: string) => { success: boolean; message: string };
+
+    // Cash Shifts
+    openShift: (openingFloat: number) => { success: boolean; message: string };
+    closeShift: (countedCash: number, note: string) => { success: boolean; message: string; shift?: CashShift };
+    addCashMovement: (type: CashMovement['type'], amount: number, reason: CashMovementReason, note: string, expenseCategory?: Expense['category']) => { success: boolean; message: string };
+
+    // Vouchers
+    issueVoucher: (source: 'sale' | 'manual', amount: number, expiryDate?: string, customerId?: string, note?: string) => Promise<{ success: boolean; message: string; voucher?: Voucher }>;
+
     // Settings
     updateSettings: (newSettings: StoreSettings) => void;
     
     // Services
     addService: (service: Omit<Service, 'id'>) => void;
     deleteService: (serviceId: string) => void;
+    savePriceList: (list: Omit<PriceList, 'id'> & { id?: string }) => Promise<{ success: boolean; message: string }>;
+    deletePriceList: (priceListId: string) => Promise<{ success: boolean; message: string }>;
+    addPromotion: (promotion: Omit<Promotion, 'id'>) => Promise<{ success: boolean; message: string }>;
+    updatePromotion: (promotion: Promotion) => Promise<{ success: boolean; message: string }>;
+    deletePromotion: (promotionId: string) => Promise<{ success: boolean; message: string }>;
     
     // Accounting
     addSupplier: (supplier: Omit<Supplier, 'id' | 'balance'>, initialBalance?: { amount: number, type: 'creditor' | 'debtor', currency: 'AFN' | 'USD', exchangeRate?: number }) => void;
     deleteSupplier: (id: string) => void;
     addSupplierPayment: (supplierId: string, amount: number, description: string, currency?: 'AFN' | 'USD', exchangeRate?: number) => SupplierTransaction;
     
-    addCustomer: (customer: Omit<Customer, 'id' | 'balance'>, initialBalance?: { amount: number, type: 'creditor' | 'debtor', currency: 'AFN' | 'USD', exchangeRate?: number }) => void;
+    addCustomer: (customer: Omit<Customer, 'id' | 'balance' | 'loyaltyPoints'>, initialBalance?: { amount: number, type: 'creditor' | 'debtor', currency: 'AFN' | 'USD', exchangeRate?: number }) => void;
     deleteCustomer: (id: string) => void;
+    setCustomerCreditLimit: (customerId: string, creditLimit?: number) => void;
+    setCustomerPriceList: (customerId: string, priceListId?: string) => void;
     addCustomerPayment: (customerId: string, amount: number, description: string) => CustomerTransaction;
     
     addEmployee: (employee: Omit<Employee, 'id'|'balance'>) => void;
     addEmployeeAdvance: (employeeId: string, amount: number) => void;
     processAndPaySalaries: () => { success: boolean; message: string };
-    addExpense: (expense: Omit<Expense, 'id'>) => void;
+    addExpense: (expense: Omit<Expense, 'id' | 'branchId'>) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 const getDefaultState = (): AppState => {
     return {
-        products: [], saleInvoices: [], purchaseInvoices: [], customers: [],
+        products: [], saleInvoices: [], saleInvoiceRevisions: [], purchaseInvoices: [], customers: [],
         suppliers: [], employees: [], expenses: [], services: [],
         storeSettings: {
             storeName: 'کتابستان', address: '', phone: '', lowStockThreshold: 10,
-            expiryThresholdMonths: 3, currencyName: 'افغانی', currencySymbol: 'AFN'
+            expiryThresholdMonths: 3, currencyName: 'افغانی', currencySymbol: 'AFN',
+            costingMethod: 'fefo',
+            loyalty: { enabled: false, earnMode: 'per_amount', earnPoints: 1, earnAmount: 100, pointValue: 1 },
+            numbering: DEFAULT_NUMBERING
         },
-        cart: [], customerTransactions: [], supplierTransactions: [], payrollTransactions: [],
-        activities: [], saleInvoiceCounter: 0, editingSaleInvoiceId: null, editingPurchaseInvoiceId: null,
+        cart: [], customerTransactions: [], loyaltyTransactions: [], supplierTransactions: [], payrollTransactions: [],
+        activities: [], saleInvoiceCounter: 0, editingSaleInvoiceId: null, editingSaleReason: null, editingPurchaseInvoiceId: null,
         isAuthenticated: false, currentUser: null,
         users: [],
         roles: [],
+        branches: [],
+        activeBranchId: null,
+        stockTransfers: [],
+        transferDiscrepancies: [],
+        stocktakes: [],
+        activeStocktake: null,
+        stockMovements: [],
+        cashShifts: [],
+        cashMovements: [],
+        parkedCarts: [],
+        quotations: [],
+        promotions: [],
+        priceLists: [],
+        cartPriceListId: null,
+        convertingQuotationId: null,
+        customerOrders: [],
+        vouchers: [],
+        voucherTransactions: [],
+        pickingUpOrderId: null,
     };
 };
 
-// Helper to generate short sequential IDs (F1, F2, etc.)
+// Helper to generate short sequential IDs (Q1, Q2, etc.)
 const generateNextId = (prefix: string, ids: string[]): string => {
     let max = 0;
     const regex = new RegExp(`^${prefix}(\\d+)$`); // Strict regex: Prefix + Digits ONLY
@@ -111,6 +215,87 @@ const generateNextId = (prefix: string, ids: string[]): string => {
     return `${prefix}${max + 1}`;
 };
 
+// Key for an invoice the server numbers as it is saved (see next_document_number): unique on
+// every till without looking at the other invoices, and shown until the number arrives
+const generateDocumentId = (prefix: string): string =>
+    `${prefix}-${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+// Prices (the customer's price list, then promotions) are worked out again whenever the cart
+// changes; an invoice being edited and an order being collected keep the prices they were agreed at
+const repriceCart = (prev: AppState, cart: CartItem[]): CartItem[] => {
+    if (prev.editingSaleInvoiceId || prev.pickingUpOrderId) return cart;
+    const priceList = prev.priceLists.find(l => l.id === prev.cartPriceListId);
+    return applyPromotions(applyPriceList(cart, prev.products, priceList), prev.promotions);
+};
+
+// Maps server errors (typed errors and the exceptions raised by the functions in supabase/migrations) to user messages
+const describeError = (error: any, fallback: string): string => {
+    if (error instanceof PermissionDeniedError) {
+        return `⛔ دسترسی رد شد: شما مجوز «${error.permissionName || error.permission || 'این عملیات'}» را ندارید.`;
+    }
+    const message = String(error?.message || '');
+    if (message.startsWith('insufficient_stock')) return '❌ موجودی کافی نیست (احتمالاً همزمان در صندوق دیگری فروخته شده). فاکتور ثبت نشد.';
+    if (message.startsWith('invalid_quantity')) return '❌ مقدار کالا باید بیشتر از صفر باشد.';
+    if (message.startsWith('stock_mismatch')) return '❌ کسر یا برگشت موجودی با اقلام فاکتور مطابقت ندارد. اطلاعات را دوباره بارگذاری کنید.';
+    if (message.startsWith('return_exceeds_sold')) return '❌ تعداد مرجوعی بیشتر از مقدار فروخته شده است.';
+    if (message.startsWith('customer_not_found')) return '❌ مشتری یافت نشد. فاکتور ثبت نشد.';
+    if (message.startsWith('branch_denied')) return '⛔ شما به این شعبه دسترسی ندارید.';
+    if (message.startsWith('branch_mismatch')) return '❌ کالاها باید از موجودی همین شعبه کسر شوند. اطلاعات را دوباره بارگذاری کنید.';
+    if (message.startsWith('transfer_already_received')) return '❌ این حواله قبلاً دریافت شده است.';
+    if (message.startsWith('transfer_not_found')) return '❌ حواله انتقال یافت نشد.';
+    if (message.startsWith('invalid_reason')) return '❌ دلیل تعدیل موجودی معتبر نیست.';
+    if (message.startsWith('invalid_payment')) return '❌ روش پرداخت معتبر نیست (پرداخت نسیه به مشتری نیاز دارد).';
+    if (message.startsWith('payment_mismatch')) return '❌ مجموع پرداخت‌ها با مبلغ فاکتور برابر نیست. فاکتور ثبت نشد.';
+    if (message.startsWith('credit_limit_exceeded')) return '❌ این فروش از سقف اعتبار مشتری بیشتر است و به تأیید مدیر نیاز دارد. فاکتور ثبت نشد.';
+    if (message.startsWith('insufficient_points')) return '❌ امتیاز باشگاه مشتریان کافی نیست. فاکتور ثبت نشد.';
+    if (message.startsWith('invalid_points')) return '❌ امتیاز فاکتور معتبر نیست (بیشتر از قاعده امتیازدهی یا امتیاز فاکتور اصلی است، یا مشتری ندارد). اطلاعات را دوباره بارگذاری کنید.';
+    if (message.startsWith('voucher_not_found')) return '❌ کارت هدیه با این کد یافت نشد. فاکتور ثبت نشد.';
+    if (message.startsWith('voucher_expired')) return '❌ کارت هدیه منقضی شده است. فاکتور ثبت نشد.';
+    if (message.startsWith('insufficient_voucher_balance')) return '❌ مانده کارت هدیه کافی نیست (احتمالاً همزمان در صندوق دیگری خرج شده). فاکتور ثبت نشد.';
+    if (message.startsWith('invalid_voucher')) return '❌ اطلاعات کارت هدیه معتبر نیست.';
+    if (message.startsWith('invalid_exchange')) return '❌ اطلاعات تعویض کالا معتبر نیست (مرجوعی و فروش باید از یک شعبه و یک مشتری باشند). اطلاعات را دوباره بارگذاری کنید.';
+    if (message.startsWith('reason_required')) return '❌ دلیل تغییر فاکتور را وارد کنید.';
+    if (message.startsWith('invoice_void')) return '❌ این فاکتور باطل شده است و قابل تغییر یا مرجوعی نیست.';
+    if (message.startsWith('invoice_not_editable')) return '❌ فاکتور تعویض کالا و مرجوعی قابل ویرایش نیست.';
+    if (message.startsWith('invoice_not_voidable')) return '❌ این فاکتور قابل ابطال نیست (مرجوعی، تعویض یا تحویل سفارش دارد).';
+    if (message.startsWith('credit_override_invalid')) return '❌ تأیید مدیر منقضی شده یا با این فاکتور مطابقت ندارد. دوباره تأیید بگیرید.';
+    if (message.startsWith('order_not_open')) return '❌ این سفارش قبلاً تحویل یا لغو شده است.';
+    if (message.startsWith('order_mismatch')) return '❌ فاکتور باید در شعبه سفارش و برای مشتری همان سفارش ثبت شود.';
+    if (message.startsWith('invalid_deposit')) return '❌ مبلغ پیش‌پرداخت معتبر نیست (بیشتر از مبلغ سفارش).';
+    if (message.startsWith('batch_not_found')) return '❌ بچ کالا در این شعبه یافت نشد. اطلاعات را دوباره بارگذاری کنید.';
+    if (message.startsWith('parked_cart_not_found')) return '❌ این سبد قبلاً توسط صندوق دیگری برداشته شده است.';
+    if (message.startsWith('shift_not_open')) return '❌ شیفت صندوق باز نیست. ابتدا شیفت را باز کنید.';
+    if (message.startsWith('invalid_cash_movement')) return '❌ فقط برداشت از صندوق می‌تواند به عنوان هزینه ثبت شود.';
+    if (message.startsWith('invalid_void_refund')) return '❌ مبلغ نقد برگشتی با فاکتور یا شیفت باز شما مطابقت ندارد. اطلاعات را دوباره بارگذاری کنید.';
+    if (message.startsWith('session_expired')) return '⚠️ نشست شما منقضی شده است. پس از برقراری اتصال دوباره وارد شوید.';
+    if (message.startsWith('invalid_received_quantity')) return '❌ مقدار دریافتی نمی‌تواند بیشتر از مقدار ارسالی باشد.';
+    return fallback;
+};
+
+// The till remembers its branch between sessions
+const ACTIVE_BRANCH_KEY = 'stationery_active_branch';
+
+// A stocktake in progress survives reloads on the device where it was started
+const STOCKTAKE_DRAFT_KEY = 'stationery_stocktake_draft';
+
+const readStocktakeDraft = (): Stocktake | null => {
+    try {
+        const draft = localStorage.getItem(STOCKTAKE_DRAFT_KEY);
+        return draft ? JSON.parse(draft) : null;
+    } catch {
+        return null;
+    }
+};
+
+const pickActiveBranch = (allowed: Branch[], ...preferred: (string | null | undefined)[]): string | null =>
+    preferred.find(id => id && allowed.some(b => b.id === id)) || allowed[0]?.id || null;
+
+// Sales are made from the active branch; an edited invoice stays in its own branch
+const getSaleBranchId = (state: AppState): string => {
+    const editing = state.editingSaleInvoiceId ? state.saleInvoices.find(i => i.id === state.editingSaleInvoiceId) : undefined;
+    return editing?.branchId || state.activeBranchId || '';
+};
+
 const checkOnline = (): boolean => {
     if (!navigator.onLine) {
         return false;
@@ -122,37 +307,52 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const [state, setState] = useState<AppState>(getDefaultState());
     const [isLoading, setIsLoading] = useState(true);
     const [toastMessage, setToastMessage] = useState('');
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    const [syncQueue, setSyncQueue] = useState<SyncOperation[]>([]);
 
     const showToast = (message: string) => setToastMessage(message);
+    const hideToast = useCallback(() => setToastMessage(''), []);
 
     // --- Initial Data Load from Supabase ---
     const fetchData = async () => {
+        // Every table is behind RLS now, so there is nothing to load before login. An expired
+        // session stays open read-only while offline, from the offline mirror.
+        const sessionUser = getStoredSession()?.user ?? (navigator.onLine ? null : getSessionUser());
+        if (!sessionUser) {
+            if (getSessionUser()) logout(); // Expired while the till was closed
+            setIsLoading(false);
+            return;
+        }
         setIsLoading(true);
         try {
-            const [settings, users, roles, products, services, entities, transactions, invoices, activity] = await Promise.all([
+            const [settings, users, roles, branches, products, services, entities, transactions, invoices, activity, transfers, stocktakes, stockMovements, cashShifts, cashMovements, parkedCarts, quotations, customerOrders, promotions, priceLists, vouchers, saleInvoiceRevisions] = await Promise.all([
                 api.getSettings(),
                 api.getUsers(),
                 api.getRoles(),
+                api.getBranches(),
                 api.getProducts(),
                 api.getServices(),
                 api.getEntities(),
                 api.getTransactions(),
                 api.getInvoices(),
-                api.getActivities()
+                api.getActivities(),
+                api.getTransfers(),
+                api.getStocktakes(),
+                api.getStockMovements(),
+                api.getCashShifts(),
+                api.getCashMovements(),
+                api.getParkedCarts(),
+                api.getQuotations(),
+                api.getCustomerOrders(),
+                api.getPromotions(),
+                api.getPriceLists(),
+                api.getVouchers(),
+                api.getSaleInvoiceRevisions()
             ]);
 
             // --- Persistent Login Logic ---
-            const storedUserId = localStorage.getItem('stationery_user_id');
-            let restoredUser = null;
-            let isAuth = false;
-
-            if (storedUserId) {
-                const foundUser = users.find(u => u.id === storedUserId);
-                if (foundUser) {
-                    restoredUser = foundUser;
-                    isAuth = true;
-                }
-            }
+            // The signed session token survives reloads (and works offline) until it expires
+            const restoredUser = users.find(u => u.id === sessionUser.id) || sessionUser;
             // ------------------------------
 
             // --- HYDRATION: Re-link Product Details to Invoices ---
@@ -174,11 +374,15 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 })
             }));
 
+            const allowedBranches = getAllowedBranches(restoredUser, roles, branches);
+
             setState(prev => ({
                 ...prev,
                 storeSettings: settings,
                 users,
                 roles,
+                branches,
+                activeBranchId: pickActiveBranch(allowedBranches, prev.activeBranchId, localStorage.getItem(ACTIVE_BRANCH_KEY), restoredUser?.branchId),
                 products,
                 services,
                 customers: entities.customers,
@@ -186,14 +390,30 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 employees: entities.employees,
                 expenses: entities.expenses,
                 customerTransactions: transactions.customerTransactions,
+                loyaltyTransactions: transactions.loyaltyTransactions,
                 supplierTransactions: transactions.supplierTransactions,
                 payrollTransactions: transactions.payrollTransactions,
                 saleInvoices: hydratedSaleInvoices, // Use hydrated invoices
+                saleInvoiceRevisions,
                 purchaseInvoices: invoices.purchaseInvoices,
                 activities: activity,
+                stockTransfers: transfers.stockTransfers,
+                transferDiscrepancies: transfers.transferDiscrepancies,
+                stocktakes,
+                activeStocktake: prev.activeStocktake || readStocktakeDraft(),
+                stockMovements,
+                cashShifts,
+                cashMovements,
+                parkedCarts,
+                quotations,
+                customerOrders,
+                promotions,
+                priceLists,
+                vouchers: vouchers.vouchers,
+                voucherTransactions: vouchers.voucherTransactions,
                 saleInvoiceCounter: invoices.saleInvoices.length,
                 // Restore session
-                isAuthenticated: isAuth,
+                isAuthenticated: true,
                 currentUser: restoredUser
             }));
         } catch (error) {
@@ -208,6 +428,43 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         fetchData();
     }, []);
 
+    // --- Offline Sync: replay queued writes once the connection is back ---
+    useEffect(() => {
+        const unsubscribe = subscribeToSyncQueue(setSyncQueue);
+
+        const handleOnline = async () => {
+            setIsOnline(true);
+            // The session expired while offline: its queued operations wait for the next login
+            if (!getStoredSession() && getSessionUser()) {
+                logout();
+                showToast("⚠️ نشست شما منقضی شد. لطفاً دوباره وارد شوید.");
+                return;
+            }
+            await flushSyncQueue();
+            fetchData(); // Pick up the replayed writes (and anything other tills did meanwhile)
+        };
+        const handleOffline = () => {
+            setIsOnline(false);
+            showToast("⚠️ اتصال قطع شد. عملیات به صورت محلی ذخیره و بعداً همگام‌سازی می‌شود.");
+        };
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        // Anything left over from a previous session
+        if (navigator.onLine) flushSyncQueue();
+
+        return () => {
+            unsubscribe();
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    const conflictCount = syncQueue.filter(op => op.status === 'conflict').length;
+    useEffect(() => {
+        if (conflictCount > 0) showToast(`⚠️ ${conflictCount} عملیات هنگام همگام‌سازی با خطا مواجه شد.`);
+    }, [conflictCount]);
+
     const addActivityLocal = async (type: ActivityLog['type'], description: string, user: string, refId?: string, refType?: ActivityLog['refType']) => {
         const newActivity: ActivityLog = {
             id: crypto.randomUUID(), type, description, timestamp: new Date().toISOString(), user, refId, refType
@@ -223,33 +480,47 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     
     // AUTH & RBAC LOGIC
     const login = async (username: string, password: string): Promise<{ success: boolean; message: string }> => {
-        // Since we are using custom auth table, we check against loaded users or fetch specific one.
-        // We already loaded users in fetchData, so we check local state which mirrors DB.
-        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. لطفاً اتصال اینترنت را بررسی کنید.' };
+        // Credentials are verified by /api/login; an existing session keeps working offline,
+        // but a new login needs the server.
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. برای ورود به اتصال اینترنت نیاز است.' };
         try {
-            const users = await api.getUsers();
-            const user = users.find(u => u.username === username);
-            
-            if (user && user.password === password) {
-                // Save session to localStorage
-                localStorage.setItem('stationery_user_id', user.id);
-                
-                setState(prev => ({ ...prev, isAuthenticated: true, currentUser: user, users }));
-                return { success: true, message: '✅ ورود موفق' };
-            }
-        } catch (e) {
+            const session = await loginRequest(username, password);
+            storeSession(session);
+            setState(prev => ({ ...prev, isAuthenticated: true, currentUser: session.user }));
+            await flushSyncQueue(); // What this user queued offline in an earlier session
+            await fetchData(); // Data is only readable with the session token
+            return { success: true, message: '✅ ورود موفق' };
+        } catch (e: any) {
             console.error(e);
-            return { success: false, message: '❌ خطا در برقراری ارتباط.' };
+            return { success: false, message: e?.message || '❌ خطا در برقراری ارتباط.' };
         }
-        return { success: false, message: 'نام کاربری یا رمز عبور اشتباه است.' };
     };
 
     const logout = () => {
-        // Clear session from localStorage
-        localStorage.removeItem('stationery_user_id');
-        setState(prev => ({ ...prev, isAuthenticated: false, currentUser: null }));
+        clearSession();
+        // Drop everything that was loaded with the old session, here and in the offline mirror
+        clearOfflineMirror().catch(e => console.error('Failed to clear the offline mirror', e));
+        setState(getDefaultState());
     };
 
+    // Log out when the session token expires. Offline the till could not log in again, so the
+    // session stays open read-only until the connection is back (handleOnline logs out then).
+    useEffect(() => {
+        if (!state.currentUser) return;
+        const expire = () => {
+            if (!navigator.onLine) {
+                showToast("⚠️ نشست شما منقضی شد. تا برقراری اتصال فقط مشاهده اطلاعات ممکن است.");
+                return;
+            }
+            logout();
+            showToast("⚠️ نشست شما منقضی شد. لطفاً دوباره وارد شوید.");
+        };
+        const session = getStoredSession();
+        if (!session) { expire(); return; }
+        const timer = setTimeout(expire, new Date(session.expiresAt).getTime() - Date.now());
+        return () => clearTimeout(timer);
+    }, [state.currentUser?.id]);
+
     const hasPermission = (permission: Permission): boolean => {
         if (!state.currentUser) return false;
         const userRole = state.roles.find(r => r.id === state.currentUser!.roleId);
@@ -267,7 +538,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             addActivityLocal('inventory', `کاربر جدید "${userData.username}" را اضافه کرد`, state.currentUser!.username);
             setState(prev => ({ ...prev, users: [...prev.users, newUser] }));
             return { success: true, message: '✅ کاربر جدید با موفقیت افزوده شد.' };
-        } catch (e) { console.error(e); return { success: false, message: '❌ خطا در ذخیره کاربر.' }; }
+        } catch (e: any) { console.error(e); return { success: false, message: describeError(e, `❌ خطا در ذخیره کاربر. ${e?.message || ''}`) }; }
     };
 
     const updateUser = async (userData: Partial<User> & { id: string }) => {
@@ -275,9 +546,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         try {
              await api.updateUser(userData);
              addActivityLocal('inventory', `کاربر "${userData.username || '?'}" را ویرایش کرد`, state.currentUser!.username);
-             setState(prev => ({ ...prev, users: prev.users.map(u => u.id === userData.id ? { ...u, ...userData } : u) }));
+             const { password, ...publicFields } = userData;
+             setState(prev => ({ ...prev, users: prev.users.map(u => u.id === userData.id ? { ...u, ...publicFields } : u) }));
              return { success: true, message: '✅ کاربر با موفقیت بروزرسانی شد.' };
-        } catch (e) { return { success: false, message: '❌ خطا در بروزرسانی.' }; }
+        } catch (e: any) { return { success: false, message: describeError(e, `❌ خطا در بروزرسانی. ${e?.message || ''}`) }; }
     };
 
     const deleteUser = async (userId: string) => {
@@ -288,7 +560,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             addActivityLocal('inventory', `کاربر "${user?.username}" را حذف کرد`, state.currentUser!.username);
             setState(prev => ({ ...prev, users: prev.users.filter(u => u.id !== userId) }));
             showToast("✅ کاربر حذف شد.");
-         } catch (e) { showToast("❌ خطا در حذف کاربر."); }
+         } catch (e) { showToast(describeError(e, "❌ خطا در حذف کاربر.")); }
     };
 
     // --- Role Management ---
@@ -299,7 +571,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             addActivityLocal('inventory', `نقش جدید "${roleData.name}" را ایجاد کرد`, state.currentUser!.username);
             setState(prev => ({ ...prev, roles: [...prev.roles, newRole] }));
             return { success: true, message: '✅ نقش جدید افزوده شد.' };
-        } catch (e) { return { success: false, message: '❌ خطا در افزودن نقش.' }; }
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در افزودن نقش.') }; }
     };
 
     const updateRole = async (roleData: Role) => {
@@ -309,7 +581,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             addActivityLocal('inventory', `نقش "${roleData.name}" را ویرایش کرد`, state.currentUser!.username);
             setState(prev => ({ ...prev, roles: prev.roles.map(r => r.id === roleData.id ? roleData : r) }));
             return { success: true, message: '✅ نقش بروزرسانی شد.' };
-        } catch (e) { return { success: false, message: '❌ خطا.' }; }
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا.') }; }
     };
 
     const deleteRole = async (roleId: string) => {
@@ -323,7 +595,66 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             await api.deleteRole(roleId);
             addActivityLocal('inventory', `نقش "${role?.name}" را حذف کرد`, state.currentUser!.username);
             setState(prev => ({ ...prev, roles: prev.roles.filter(r => r.id !== roleId) }));
-        } catch(e) { showToast("❌ خطا در حذف نقش."); }
+        } catch(e) { showToast(describeError(e, "❌ خطا در حذف نقش.")); }
+    };
+
+    // --- Branches ---
+    const allowedBranches = getAllowedBranches(state.currentUser, state.roles, state.branches);
+
+    const setActiveBranch = (branchId: string) => {
+        if (!allowedBranches.some(b => b.id === branchId)) return;
+        localStorage.setItem(ACTIVE_BRANCH_KEY, branchId);
+        setState(prev => ({ ...prev, activeBranchId: branchId }));
+    };
+
+    const addBranch = async (branchData: Omit<Branch, 'id'>) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
+        if (state.branches.some(b => b.name.trim() === branchData.name.trim())) {
+            return { success: false, message: 'شعبه‌ای با این نام از قبل وجود دارد.' };
+        }
+        if (state.branches.some(b => b.code === branchData.code)) {
+            return { success: false, message: 'شعبه‌ای با این کد از قبل وجود دارد.' };
+        }
+        try {
+            const newBranch = await api.addBranch(branchData);
+            addActivityLocal('inventory', `شعبه جدید "${newBranch.name}" را اضافه کرد`, state.currentUser!.username);
+            setState(prev => ({ ...prev, branches: [...prev.branches, newBranch], activeBranchId: prev.activeBranchId || newBranch.id }));
+            return { success: true, message: '✅ شعبه جدید افزوده شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در افزودن شعبه.') }; }
+    };
+
+    const updateBranch = async (branch: Branch) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
+        if (state.branches.some(b => b.id !== branch.id && b.code === branch.code)) {
+            return { success: false, message: 'شعبه‌ای با این کد از قبل وجود دارد.' };
+        }
+        try {
+            await api.updateBranch(branch);
+            setState(prev => ({ ...prev, branches: prev.branches.map(b => b.id === branch.id ? branch : b) }));
+            return { success: true, message: '✅ شعبه بروزرسانی شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در بروزرسانی شعبه.') }; }
+    };
+
+    const deleteBranch = async (branchId: string) => {
+        if (!checkOnline()) { showToast("⚠️ شما آفلاین هستید."); return; }
+        const hasRecords = state.products.some(p => p.batches.some(b => b.branchId === branchId))
+            || state.saleInvoices.some(i => i.branchId === branchId)
+            || state.purchaseInvoices.some(i => i.branchId === branchId)
+            || state.expenses.some(e => e.branchId === branchId);
+        if (hasRecords) {
+            showToast("❌ این شعبه دارای موجودی یا فاکتور است و قابل حذف نیست.");
+            return;
+        }
+        try {
+            const branch = state.branches.find(b => b.id === branchId);
+            await api.deleteBranch(branchId);
+            addActivityLocal('inventory', `شعبه "${branch?.name}" را حذف کرد`, state.currentUser!.username);
+            setState(prev => ({
+                ...prev,
+                branches: prev.branches.filter(b => b.id !== branchId),
+                activeBranchId: prev.activeBranchId === branchId ? null : prev.activeBranchId
+            }));
+        } catch (e) { showToast(describeError(e, "❌ خطا در حذف شعبه.")); }
     };
 
     // BACKUP & RESTORE (Kept local for now, but data comes from state)
@@ -373,21 +704,23 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     // INVENTORY LOGIC
-    const addProduct = (productData: Omit<Product, 'id' | 'batches'>, firstBatchData: Omit<ProductBatch, 'id'>) => {
+    const addProduct = (productData: Omit<Product, 'id' | 'batches'>, firstBatchData: Omit<ProductBatch, 'id' | 'branchId'>) => {
         if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. اتصال اینترنت را بررسی کنید.' };
+        if (!state.activeBranchId) return { success: false, message: 'ابتدا شعبه فعال را انتخاب کنید.' };
         
         const trimmedName = productData.name.trim();
         if (state.products.some(p => p.name.trim().toLowerCase() === trimmedName.toLowerCase())) {
              return { success: false, message: 'خطا: محصولی با این نام از قبل وجود دارد.' };
         }
 
-        api.addProduct(productData, firstBatchData).then(newProduct => {
+        // The opening stock is placed in the active branch
+        api.addProduct(productData, { ...firstBatchData, branchId: state.activeBranchId }).then(newProduct => {
              addActivityLocal('inventory', `محصول جدید "${trimmedName}" را اضافه کرد`, state.currentUser!.username, newProduct.id, 'product');
              setState(prev => ({ ...prev, products: [...prev.products, newProduct] }));
              showToast('✅ محصول جدید ذخیره شد.');
         }).catch(err => {
             console.error(err);
-            showToast('❌ خطا در ذخیره محصول در پایگاه داده.');
+            showToast(describeError(err, '❌ خطا در ذخیره محصول در پایگاه داده.'));
         });
 
         return { success: true, message: 'در حال ذخیره سازی...' };
@@ -399,7 +732,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
              addActivityLocal('inventory', `محصول "${productData.name}" را ویرایش کرد`, state.currentUser!.username, productData.id, 'product');
              setState(prev => ({ ...prev, products: prev.products.map(p => p.id === productData.id ? productData : p) }));
              showToast('✅ محصول ویرایش شد.');
-         }).catch(err => showToast('❌ خطا در ویرایش محصول.'));
+         }).catch(err => showToast(describeError(err, '❌ خطا در ویرایش محصول.')));
          
         return { success: true, message: 'در حال ویرایش...' };
     };
@@ -421,7 +754,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             addActivityLocal('inventory', `محصول "${product?.name}" را حذف کرد`, state.currentUser!.username);
             setState(prev => ({ ...prev, products: prev.products.filter(p => p.id !== productId) }));
             showToast('✅ محصول حذف شد.');
-        }).catch(() => showToast('❌ خطا در حذف محصول.'));
+        }).catch(err => showToast(describeError(err, '❌ خطا در حذف محصول.')));
     };
 
     // POS LOGIC (State manipulation kept local until 'completeSale')
@@ -429,7 +762,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         let success = false, message = '';
         setState(prev => {
             const existingItemIndex = prev.cart.findIndex(item => item.id === itemToAdd.id && item.type === type);
-            const totalStock = type === 'product' ? (itemToAdd as Product).batches.reduce((sum, b) => sum + b.stock, 0) : Infinity;
+            // Units reserved for customer orders are not for sale (except the order being collected)
+            const reserved = getReservedQuantities(prev.customerOrders, prev.pickingUpOrderId);
+            const totalStock = type === 'product' ? getUnreservedStock(itemToAdd as Product, getSaleBranchId(prev), reserved) : Infinity;
             if (existingItemIndex > -1) {
                 const updatedCart = [...prev.cart];
                 const existingItem = updatedCart[existingItemIndex];
@@ -438,14 +773,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 }
                 updatedCart[existingItemIndex] = { ...existingItem, quantity: existingItem.quantity + 1 };
                 success = true;
-                return { ...prev, cart: updatedCart };
+                return { ...prev, cart: repriceCart(prev, updatedCart) };
             } else {
                 if (type === 'product' && totalStock < 1) {
                     message = `موجودی محصول "${itemToAdd.name}" تمام شده است.`; return prev; 
                 }
                 const productWithPurchasePrice = type === 'product' ? { ...itemToAdd, purchasePrice: 0 } : itemToAdd;
                 success = true;
-                return { ...prev, cart: [...prev.cart, { ...(productWithPurchasePrice as any), quantity: 1, type }] };
+                return { ...prev, cart: repriceCart(prev, [...prev.cart, { ...(productWithPurchasePrice as any), quantity: 1, type }]) };
             }
         });
         return { success, message };
@@ -460,34 +795,51 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             if (itemIndex === -1) return prev;
             if (itemType === 'product') {
                  const productInStock = prev.products.find(p => p.id === itemId);
-                 const totalStock = productInStock?.batches.reduce((sum, b) => sum + b.stock, 0) || 0;
+                 const reserved = getReservedQuantities(prev.customerOrders, prev.pickingUpOrderId);
+                 const totalStock = productInStock ? getUnreservedStock(productInStock, getSaleBranchId(prev), reserved) : 0;
                  if (newQuantity > totalStock) {
                     message = `موجودی محصول فقط ${totalStock} عدد است.`;
                     cart[itemIndex] = { ...cart[itemIndex], quantity: totalStock };
-                    return { ...prev, cart };
+                    return { ...prev, cart: repriceCart(prev, cart) };
                  }
             }
             cart[itemIndex] = { ...cart[itemIndex], quantity: newQuantity };
             if (newQuantity === 0) {
-                return { ...prev, cart: cart.filter(i => !(i.id === itemId && i.type === itemType)) };
+                const remaining = cart.filter(i => !(i.id === itemId && i.type === itemType));
+                return remaining.length > 0 ? { ...prev, cart: repriceCart(prev, remaining) } : { ...prev, cart: remaining, convertingQuotationId: null, pickingUpOrderId: null };
             }
-            return { ...prev, cart };
+            return { ...prev, cart: repriceCart(prev, cart) };
         });
         return { success, message };
     };
 
     const updateCartItemFinalPrice = (itemId: string, itemType: 'product' | 'service', finalPrice: number) => {
+        // A price entered by hand replaces any promotion on the line
         setState(prev => ({
-            ...prev, cart: prev.cart.map(item =>
+            ...prev, cart: repriceCart(prev, prev.cart.map(item =>
                 (item.id === itemId && item.type === itemType && item.type === 'product')
-                    ? { ...item, finalPrice: finalPrice } // Removed Math.round()
+                    ? { ...item, finalPrice: finalPrice, promotionId: undefined, promotionName: undefined } // Removed Math.round()
                     : item
-            )
+            ))
         }));
     };
     
+    // The POS tells which customer the cart is for, so it can be priced at their price list
+    const setCartCustomer = (customerId?: string) => {
+        setState(prev => {
+            const priceListId = prev.customers.find(c => c.id === customerId)?.priceListId || null;
+            if (priceListId === prev.cartPriceListId) return prev;
+            const next = { ...prev, cartPriceListId: priceListId };
+            return { ...next, cart: repriceCart(next, prev.cart) };
+        });
+    };
+
     const removeFromCart = (itemId: string, itemType: 'product' | 'service') => {
-        setState(prev => ({ ...prev, cart: prev.cart.filter(item => !(item.id === itemId && item.type === itemType)) }));
+        setState(prev => {
+            const remaining = prev.cart.filter(item => !(item.id === itemId && item.type === itemType));
+            // An emptied cart no longer belongs to the quotation or order it was loaded from
+            return remaining.length > 0 ? { ...prev, cart: repriceCart(prev, remaining) } : { ...prev, cart: remaining, convertingQuotationId: null, pickingUpOrderId: null };
+        });
     };
 
     const getPrice = (item: CartItem): { final: number; original: number } => {
@@ -498,12 +850,35 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return { final: item.price, original: item.price };
     };
     
-    const completeSale = (cashier: string, customerId?: string): { success: boolean; invoice?: SaleInvoice; message: string } => {
-        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. امکان ثبت فاکتور وجود ندارد.' };
-        
+    // Brings in the numbers the server gave invoices just saved online, for the receipt and the lists
+    const loadDocumentNumbers = (kind: 'sale' | 'purchase', ids: string[]) => {
+        api.getDocumentNumbers(kind === 'sale' ? 'sale_invoices' : 'purchase_invoices', ids).then(numbers => {
+            const withNumber = <T extends SaleInvoice | PurchaseInvoice>(invoice: T): T =>
+                numbers.has(invoice.id) ? { ...invoice, documentNumber: numbers.get(invoice.id) } : invoice;
+            setState(prev => kind === 'sale'
+                ? { ...prev, saleInvoices: prev.saleInvoices.map(withNumber) }
+                : { ...prev, purchaseInvoices: prev.purchaseInvoices.map(withNumber) });
+        }).catch(err => console.error(err));
+    };
+
+    const completeSale = (cashier: string, customerId?: string, payments?: PaymentLine[], creditOverride?: CreditOverride, exchange?: ExchangeReturn): { success: boolean; invoice?: SaleInvoice; message: string; needsCreditOverride?: boolean } => {
         const { cart, products, storeSettings, editingSaleInvoiceId, customers, saleInvoices } = state;
+        // Editing needs the server state of the original invoice, so only new sales work offline
+        if (editingSaleInvoiceId && !checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. ویرایش فاکتور فقط در حالت آنلاین ممکن است.' };
+
+        // An exchange takes goods of an earlier invoice back against a new sale to the same customer
+        const exchangeOriginal = exchange ? saleInvoices.find(i => i.id === exchange.originalInvoiceId) : undefined;
+        if (exchange) {
+            if (editingSaleInvoiceId || state.pickingUpOrderId) return { success: false, message: "تعویض کالا فقط همراه یک فروش جدید ممکن است." };
+            if (!exchangeOriginal) return { success: false, message: "فاکتور اصلی یافت نشد." };
+            if (isVoided(exchangeOriginal)) return { success: false, message: "فاکتور باطل شده قابل مرجوعی نیست." };
+            if (!exchange.returnItems.some(i => i.quantity > 0)) return { success: false, message: "کالایی برای مرجوعی انتخاب نشده است." };
+            if ((customerId || '') !== (exchangeOriginal.customerId || '')) return { success: false, message: "مشتری فروش باید همان مشتری فاکتور اصلی باشد." };
+        }
 
         if (cart.length === 0) return { success: false, message: "سبد خرید خالی است!" };
+        const branchId = getSaleBranchId(state);
+        if (!branchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
         
         const newSubtotal = cart.reduce((total, item) => getPrice(item).original * item.quantity + total, 0);
         const newTotalAmount = cart.reduce((total, item) => getPrice(item).final * item.quantity + total, 0);
@@ -511,7 +886,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         // 1. Prepare Updates
         const updatedProducts = JSON.parse(JSON.stringify(products));
-        const stockUpdates: {batchId: string, newStock: number}[] = [];
+        const stockDeductions: StockDeduction[] = [];
+        // Reserved units stay on the shelf; an order being collected takes its own batches first
+        const pickupOrder = !editingSaleInvoiceId && state.pickingUpOrderId ? state.customerOrders.find(o => o.id === state.pickingUpOrderId) : undefined;
+        const reserved = getReservedQuantities(state.customerOrders, pickupOrder?.id);
         const saleItemsWithPurchasePrice: CartItem[] = [];
 
         for (const item of cart) {
@@ -524,31 +902,84 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             
             const product = updatedProducts[productIndex];
             
-            // Stock Deduction Logic
-            const batchesWithExpiry = product.batches.filter((b: ProductBatch) => b.expiryDate && b.stock > 0).sort((a: ProductBatch, b: ProductBatch) => new Date(a.expiryDate!).getTime() - new Date(b.expiryDate!).getTime());
-            const batchesWithoutExpiry = product.batches.filter((b: ProductBatch) => !b.expiryDate && b.stock > 0).sort((a: ProductBatch, b: ProductBatch) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime());
-            const deductionOrder = [...batchesWithExpiry, ...batchesWithoutExpiry];
+            // Stock Deduction Logic (only batches held in this branch, in the order of the costing method)
+            const branchBatches = getBranchBatches(product, branchId);
+            const pickupBatchIds = new Set(pickupOrder?.reservations.filter(r => r.productId === item.id).map(r => r.batchId));
+            const deductionOrder = getDeductionOrder(branchBatches, state.storeSettings.costingMethod)
+                .sort((a, b) => Number(pickupBatchIds.has(b.id)) - Number(pickupBatchIds.has(a.id)));
+            // Taken before the deduction: the average of what is on the shelf right now
+            const averageCost = getAverageCost(branchBatches);
             
             let quantityToDeduct = item.quantity;
             let totalPurchaseValue = 0;
             
             for (const batch of deductionOrder) {
                 if (quantityToDeduct <= 0) break;
-                const deductAmount = Math.min(quantityToDeduct, batch.stock);
+                const deductAmount = Math.min(quantityToDeduct, getUnreservedBatchStock(batch, reserved));
+                if (deductAmount <= 0) continue;
                 batch.stock -= deductAmount; 
                 quantityToDeduct -= deductAmount; 
                 totalPurchaseValue += deductAmount * batch.purchasePrice;
                 
-                stockUpdates.push({ batchId: batch.id, newStock: batch.stock });
+                stockDeductions.push({ batchId: batch.id, quantity: deductAmount });
             }
             
             if (quantityToDeduct > 0) return { success: false, message: `موجودی محصول "${item.name}" کافی نیست!` };
             
-            saleItemsWithPurchasePrice.push({ ...item, purchasePrice: totalPurchaseValue / item.quantity });
+            const purchasePrice = state.storeSettings.costingMethod === 'average' ? averageCost : totalPurchaseValue / item.quantity;
+            saleItemsWithPurchasePrice.push({ ...item, purchasePrice });
         }
 
-        // Use sequential ID for new invoices, or keep existing ID for edits
-        const invoiceId = editingSaleInvoiceId || generateNextId('F', saleInvoices.map(i => i.id));
+        const exchangeId = exchange ? generateDocumentId('E') : undefined;
+        const exchangeReturn = exchange && exchangeOriginal
+            ? prepareSaleReturn(exchangeOriginal, exchange.returnItems, cashier, branchId, exchange.refundAsVoucher, { id: exchangeId!, saleTotal: newTotalAmount })
+            : undefined;
+
+        // Without tenders the whole amount is paid in cash, or put on the customer's account; in an
+        // exchange the returned goods pay first and the tenders only cover the difference
+        const tenders: PaymentLine[] = exchangeReturn
+            ? [{ method: 'exchange' as const, amount: exchangeReturn.exchangeCredit }, ...(payments || [])].filter(p => p.amount > 0)
+            : payments && payments.length > 0
+                ? payments.filter(p => p.amount > 0)
+                : [{ method: customerId ? 'on_account' : 'cash_afn', amount: newTotalAmount }];
+        const paidAmount = tenders.reduce((sum, p) => sum + p.amount, 0);
+        const cashAmount = tenders.filter(p => isCashPayment(p.method)).reduce((sum, p) => sum + p.amount, 0);
+        const onAccountAmount = tenders.filter(p => p.method === 'on_account').reduce((sum, p) => sum + p.amount, 0);
+        const loyaltyAmount = getLoyaltyAmount(tenders);
+        const changeAmount = Math.max(0, paidAmount - newTotalAmount);
+        if (onAccountAmount > 0 && !customerId) return { success: false, message: "برای پرداخت نسیه ابتدا مشتری را انتخاب کنید." };
+        if (loyaltyAmount > 0 && !customerId) return { success: false, message: "برای پرداخت با امتیاز ابتدا مشتری را انتخاب کنید." };
+        if (paidAmount < newTotalAmount - 0.01) return { success: false, message: "مجموع پرداخت‌ها کمتر از مبلغ فاکتور است." };
+        if (changeAmount > cashAmount + 0.01) return { success: false, message: "باقی‌مانده فقط از پرداخت نقدی قابل برگشت است." };
+
+        // Credit limit: an edit first takes back the credit of the invoice being edited
+        const customer = customers.find(c => c.id === customerId);
+        const editedInvoice = editingSaleInvoiceId ? saleInvoices.find(i => i.id === editingSaleInvoiceId) : undefined;
+
+        // Loyalty: points are spent whole, and only registered customers earn them
+        const pointsRedeemed = getPointsForAmount(loyaltyAmount, storeSettings.loyalty);
+        if (pointsRedeemed > 0 && (!storeSettings.loyalty.enabled || !customer || getAvailablePoints(customer, editedInvoice) < pointsRedeemed)) {
+            return { success: false, message: "امتیاز باشگاه مشتریان برای این پرداخت کافی نیست." };
+        }
+        const pointsEarned = customer ? getEarnedPoints(cart, newTotalAmount, loyaltyAmount, storeSettings.loyalty) : 0;
+
+        // Vouchers must hold the amount on the day of the sale; an edit first gets back what it spent
+        const saleDate = editedInvoice ? new Date(editedInvoice.timestamp) : new Date();
+        const editedVoucherAmounts = getVoucherAmounts(editedInvoice?.payments || []);
+        for (const [code, amount] of getVoucherAmounts(tenders)) {
+            const voucher = findVoucher(state.vouchers, code);
+            const problem = getVoucherProblem(voucher && { ...voucher, balance: voucher.balance + (editedVoucherAmounts.get(code) || 0) }, amount, saleDate);
+            if (problem) return { success: false, message: problem };
+        }
+        const revertedCredit = editedInvoice && editedInvoice.customerId === customerId ? getOnAccountAmount(editedInvoice) : 0;
+        const isOverLimit = !!customer && onAccountAmount > 0 && customer.creditLimit !== undefined
+            && customer.balance - revertedCredit + onAccountAmount > customer.creditLimit + 0.01;
+        if (isOverLimit && !creditOverride) {
+            return { success: false, message: `⚠️ سقف اعتبار «${customer!.name}» (${formatCurrency(customer!.creditLimit!, storeSettings)}) رعایت نمی‌شود. برای ادامه تأیید مدیر لازم است.`, needsCreditOverride: true };
+        }
+
+        // New invoices get a key of their own (the server numbers them); edits keep theirs
+        const invoiceId = editingSaleInvoiceId || generateDocumentId('F');
         
         const finalInvoice: SaleInvoice = { 
             id: invoiceId, 
@@ -560,29 +991,60 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             timestamp: editingSaleInvoiceId ? saleInvoices.find(i=>i.id===invoiceId)!.timestamp : new Date().toISOString(), 
             cashier, 
             customerId, 
+            branchId,
+            payments: tenders,
+            changeAmount,
+            documentNumber: editedInvoice?.documentNumber,
+            promotionIds: getPromotionIds(saleItemsWithPurchasePrice),
+            pointsEarned,
+            pointsRedeemed,
+            exchangeId,
         };
 
-        // Customer Update
-        let customerUpdate;
-        if (customerId) {
-            const customer = customers.find(c => c.id === customerId);
-            if(customer) {
-                customerUpdate = {
-                    id: customerId,
-                    newBalance: customer.balance + finalInvoice.totalAmount, // For new, this is right. For edit, service handles revert.
-                    transaction: { 
-                        id: crypto.randomUUID(), 
-                        customerId, 
-                        type: 'credit_sale' as const, 
-                        amount: finalInvoice.totalAmount, 
-                        date: new Date().toISOString(), 
-                        description: `فاکتور فروش #${finalInvoice.id}`, 
-                        invoiceId: finalInvoice.id 
-                    }
-                };
-            }
+        // Customer Update: only the on-account part is credit (the server adds the amount to the current balance; for edits it reverts the old credit first).
+        // The statement shows the whole invoice as the charge and what was paid now as a payment against it.
+        let customerUpdate: CustomerBalanceUpdate | undefined;
+        if (customerId && onAccountAmount > 0 && customers.some(c => c.id === customerId)) {
+            const date = new Date().toISOString();
+            const paidNow = newTotalAmount - onAccountAmount;
+            customerUpdate = {
+                id: customerId,
+                amount: onAccountAmount,
+                transaction: { 
+                    id: crypto.randomUUID(), 
+                    customerId, 
+                    type: 'credit_sale' as const, 
+                    amount: newTotalAmount, 
+                    date, 
+                    description: editingSaleInvoiceId ? `فاکتور فروش #${finalInvoice.id} (ویرایش شده)` : `فاکتور فروش #${finalInvoice.id}`, 
+                    invoiceId: finalInvoice.id 
+                },
+                payment: paidNow > 0.01 ? {
+                    id: crypto.randomUUID(),
+                    customerId,
+                    type: 'payment' as const,
+                    amount: paidNow,
+                    date,
+                    description: `پرداخت هنگام خرید، فاکتور فروش #${finalInvoice.id}`,
+                    invoiceId: finalInvoice.id
+                } : undefined,
+                overrideId: isOverLimit ? creditOverride?.id : undefined
+            };
         }
 
+        const quotationId = editingSaleInvoiceId ? null : state.convertingQuotationId;
+        const markQuotationConverted = (id: string, invoiceId: string) => {
+            api.updateQuotationStatus(id, 'converted', invoiceId).then(() => {
+                setState(prev => ({ ...prev, quotations: prev.quotations.map(q => q.id === id ? { ...q, status: 'converted', convertedInvoiceId: invoiceId } : q) }));
+            }).catch(err => console.error('Failed to mark quotation converted', err));
+        };
+
+        const logCreditOverride = () => {
+            if (isOverLimit && creditOverride) {
+                addActivityLocal('sale', `فاکتور فروش #${finalInvoice.id} بیش از سقف اعتبار «${customer!.name}» با تأیید ${creditOverride.approvedBy} ثبت شد`, cashier, finalInvoice.id, 'saleInvoice');
+            }
+        };
+
         if (editingSaleInvoiceId) {
             // --- EDIT MODE ---
             const oldInvoice = saleInvoices.find(inv => inv.id === editingSaleInvoiceId)!;
@@ -593,135 +1055,269 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 stockRestores.push({ productId: item.id, quantity: item.quantity });
             });
             
-            // 2. Calculate "Deductions" (these are in `stockUpdates` calculated above)
-            const stockDeductions = stockUpdates.map(u => ({ batchId: u.batchId, quantity: (products.find(p => p.batches.some(b=>b.id===u.batchId))?.batches.find(b=>b.id===u.batchId)?.stock || 0) - u.newStock })); 
-
-            // 3. Customer Update Params
-            let custUpdateParams;
-            if (customerId && oldInvoice.customerId === customerId) {
-                const customer = customers.find(c => c.id === customerId)!;
-                custUpdateParams = {
-                    id: customerId,
-                    oldAmount: oldInvoice.totalAmount,
-                    newAmount: finalInvoice.totalAmount,
-                    transactionDescription: `فاکتور فروش #${finalInvoice.id} (ویرایش شده)`
-                };
-            } else if (customerId) {
-                 custUpdateParams = {
-                    id: customerId,
-                    oldAmount: 0, 
-                    newAmount: finalInvoice.totalAmount,
-                    transactionDescription: `فاکتور فروش #${finalInvoice.id}`
-                };
-            }
-            
-            api.updateSale(invoiceId, finalInvoice, stockRestores, stockUpdates.map(u => {
-                 const p = products.find(p => p.batches.some(b => b.id === u.batchId));
-                 const b = p?.batches.find(b => b.id === u.batchId);
-                 return { batchId: u.batchId, quantity: b ? b.stock - u.newStock : 0 };
-            }), custUpdateParams).then(() => {
-                 addActivityLocal('sale', `فاکتور فروش #${finalInvoice.id} را ویرایش کرد`, cashier, finalInvoice.id, 'saleInvoice');
+            // 2. Deductions were planned above against the current batches
+            const reason = state.editingSaleReason || '';
+            api.updateSale(invoiceId, finalInvoice, stockRestores, stockDeductions, customerUpdate, reason).then(() => {
+                 addActivityLocal('sale', `فاکتور فروش #${finalInvoice.id} را ویرایش کرد (دلیل: ${reason})`, cashier, finalInvoice.id, 'saleInvoice');
+                 logCreditOverride();
                  fetchData(); // Reload all data to be safe
                  showToast("✅ فاکتور ویرایش شد.");
+            }).catch(err => {
+                console.error(err);
+                showToast(describeError(err, "❌ خطا در ویرایش فاکتور. هیچ تغییری ذخیره نشد."));
             });
 
-            setState(prev => ({ ...prev, editingSaleInvoiceId: null, cart: [] }));
+            setState(prev => ({ ...prev, editingSaleInvoiceId: null, editingSaleReason: null, cart: [] }));
 
         } else {
             // --- CREATE MODE ---
-            api.createSale(finalInvoice, stockUpdates, customerUpdate).then(() => {
-                 addActivityLocal('sale', `فاکتور فروش #${finalInvoice.id} به مبلغ ${formatCurrency(finalInvoice.totalAmount, storeSettings)} ثبت کرد`, cashier, finalInvoice.id, 'saleInvoice');
+            const request = exchangeReturn
+                ? api.createExchange(exchangeReturn.returnInvoice, exchangeReturn.stockRestores, exchangeReturn.customerRefund, finalInvoice, stockDeductions, customerUpdate)
+                : api.createSale(finalInvoice, stockDeductions, customerUpdate, pickupOrder?.id);
+            request.then(({ queued }) => {
+                 if (exchangeReturn) {
+                     addActivityLocal('sale', `تعویض کالا #${exchangeId}: مرجوعی #${exchangeReturn.returnInvoice.id} از فاکتور #${exchangeOriginal!.id} و فاکتور فروش #${finalInvoice.id} را ثبت کرد`, cashier, finalInvoice.id, 'saleInvoice');
+                 } else {
+                     addActivityLocal('sale', `فاکتور فروش #${finalInvoice.id} به مبلغ ${formatCurrency(finalInvoice.totalAmount, storeSettings)} ثبت کرد`, cashier, finalInvoice.id, 'saleInvoice');
+                 }
+                 logCreditOverride();
+                 if (quotationId) markQuotationConverted(quotationId, finalInvoice.id);
+                 if (pickupOrder) addActivityLocal('sale', `سفارش #${pickupOrder.id} با فاکتور #${finalInvoice.id} تحویل داده شد`, cashier, finalInvoice.id, 'saleInvoice');
                  
                  // Optimistic Update (Simplified)
                  setState(prev => {
                      const newSaleInvoices = [finalInvoice, ...prev.saleInvoices];
                      const newProducts = updatedProducts;
-                     const newCustomers = customerId ? prev.customers.map(c => c.id === customerId ? {...c, balance: c.balance + finalInvoice.totalAmount} : c) : prev.customers;
-                     const newTransactions = customerId ? [customerUpdate!.transaction, ...prev.customerTransactions] : prev.customerTransactions;
+                     const newCustomers = prev.customers.map(c => {
+                         if (c.id !== finalInvoice.customerId) return c;
+                         const balance = customerUpdate ? c.balance + customerUpdate.amount : c.balance;
+                         return { ...c, balance, loyaltyPoints: c.loyaltyPoints + getLoyaltyBalanceChange(finalInvoice) };
+                     });
+                     const newTransactions = customerUpdate
+                         ? [...(customerUpdate.payment ? [customerUpdate.payment] : []), customerUpdate.transaction, ...prev.customerTransactions]
+                         : prev.customerTransactions;
+                     const voucherChanges = getInvoiceVoucherChanges(finalInvoice, prev.vouchers);
                      
                      return {
                          ...prev,
                          saleInvoices: newSaleInvoices,
+                         customerOrders: pickupOrder ? prev.customerOrders.map(o => o.id === pickupOrder.id ? { ...o, status: 'completed', invoiceId: finalInvoice.id } : o) : prev.customerOrders,
                          products: newProducts,
                          customers: newCustomers,
                          customerTransactions: newTransactions,
-                         cart: []
+                         loyaltyTransactions: [...getInvoiceLoyaltyTransactions(finalInvoice), ...prev.loyaltyTransactions],
+                         vouchers: applyVoucherChanges(prev.vouchers, voucherChanges),
+                         voucherTransactions: [...voucherChanges.transactions, ...prev.voucherTransactions],
+                         cart: [],
+                         convertingQuotationId: null,
+                         pickingUpOrderId: null
                      }
                  });
-                 showToast("✅ فاکتور با موفقیت ثبت شد.");
+                 // The returned goods: online the server has the stock as it now is, offline it is mirrored
+                 if (exchangeReturn) {
+                     if (queued) setState(prev => applySaleReturnLocally(prev, exchangeReturn));
+                     else fetchData();
+                 } else if (!queued) {
+                     loadDocumentNumbers('sale', [finalInvoice.id]);
+                 }
+                 showToast(queued ? "📥 فاکتور به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ فاکتور با موفقیت ثبت شد.");
             }).catch(err => {
                 console.error(err);
-                showToast("❌ خطا در ثبت فاکتور در سرور.");
+                showToast(describeError(err, "❌ خطا در ثبت فاکتور در سرور."));
+                fetchData(); // Stock may have changed on another till
             });
         }
 
         return { success: true, invoice: finalInvoice, message: 'در حال ثبت فاکتور...' };
     };
 
-    const beginEditSale = (invoiceId: string) => {
+    // A manager approves a credit sale above the limit with their own credentials
+    const approveCreditOverride = async (username: string, password: string, customerId: string, amount: number): Promise<{ success: boolean; message: string; override?: CreditOverride }> => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. تأیید مدیر به اتصال اینترنت نیاز دارد.' };
+        try {
+            const override = await approveCreditOverrideRequest(username, password, customerId, amount);
+            return { success: true, message: `✅ تأیید شد توسط ${override.approvedBy}`, override };
+        } catch (e: any) {
+            console.error(e);
+            return { success: false, message: e instanceof PermissionDeniedError ? describeError(e, '') : (e?.message || '❌ خطا در برقراری ارتباط.') };
+        }
+    };
+
+    // The reason is kept with the revision the server stores when the edit is saved
+    const beginEditSale = (invoiceId: string, reason: string) => {
         const invoice = state.saleInvoices.find(i => i.id === invoiceId);
         if (!invoice) return { success: false, message: "فاکتور یافت نشد." };
+        if (isVoided(invoice)) return { success: false, message: "فاکتور باطل شده قابل ویرایش نیست." };
+        // The sale of an exchange is paid with the returned goods, so it is not changed on its own
+        if (invoice.exchangeId) return { success: false, message: "فاکتور تعویض کالا قابل ویرایش نیست." };
+        if (!reason.trim()) return { success: false, message: "دلیل ویرایش فاکتور را وارد کنید." };
         
         setState(prev => ({
             ...prev,
             editingSaleInvoiceId: invoiceId,
+            editingSaleReason: reason.trim(),
             cart: invoice.items.map(i => ({ ...i } as CartItem)),
         }));
         return { success: true, message: "فاکتور جهت ویرایش بارگذاری شد.", customerId: invoice.customerId };
     };
 
     const cancelEditSale = () => {
-        setState(prev => ({ ...prev, editingSaleInvoiceId: null, cart: [] }));
+        setState(prev => ({ ...prev, editingSaleInvoiceId: null, editingSaleReason: null, cart: [] }));
     };
 
-    const addSaleReturn = (originalInvoiceId: string, returnItems: { id: string; type: 'product' | 'service'; quantity: number }[], cashier: string) => {
-        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
-        
-        const originalInvoice = state.saleInvoices.find(i => i.id === originalInvoiceId);
-        if (!originalInvoice) return { success: false, message: "فاکتور اصلی یافت نشد." };
-        
-        // Calculate return amounts
-        let returnSubtotal = 0;
-        let returnTotal = 0;
-        
-        // Map return items to full details
-        const detailedReturnItems = returnItems.map(ri => {
-            const originalItem = originalInvoice.items.find(i => i.id === ri.id && i.type === ri.type);
-            if (!originalItem) return null;
-            const price = (originalItem.type === 'product' && originalItem.finalPrice !== undefined) ? originalItem.finalPrice : (originalItem.type === 'product' ? originalItem.salePrice : originalItem.price);
-            returnSubtotal += price * ri.quantity;
-            returnTotal += price * ri.quantity;
-            return { ...originalItem, quantity: ri.quantity };
-        }).filter(Boolean) as CartItem[];
-
-        const returnInvoiceId = generateNextId('R', state.saleInvoices.map(i => i.id));
+    // Cancels a sale on the server: its stock, credit, points and vouchers go back and it stays listed as void
+    const voidSale = async (invoiceId: string, reason: string) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. ابطال فاکتور به اتصال اینترنت نیاز دارد.' };
+        const invoice = state.saleInvoices.find(i => i.id === invoiceId);
+        if (!invoice) return { success: false, message: "فاکتور یافت نشد." };
+        const problem = getVoidProblem(invoice, state.saleInvoices, state.customerOrders);
+        if (problem) return { success: false, message: problem };
+        if (!reason.trim()) return { success: false, message: "دلیل ابطال فاکتور را وارد کنید." };
+
+        // The cash goes back out of the drawer open now, not out of the shift of the sale
+        const user = state.currentUser!.username;
+        const cashBack = getNetCash(invoice);
+        const shift = getOpenShift(state.cashShifts, user, invoice.branchId);
+        if (cashBack > 0 && !shift) return { success: false, message: "برای پس دادن نقد این فاکتور ابتدا شیفت صندوق را در شعبه فاکتور باز کنید." };
+        const movement: CashMovement | undefined = cashBack > 0 ? {
+            id: crypto.randomUUID(),
+            shiftId: shift!.id,
+            branchId: invoice.branchId,
+            type: 'out',
+            amount: cashBack,
+            reason: 'sale_void',
+            note: invoiceId,
+            user,
+            timestamp: new Date().toISOString()
+        } : undefined;
+
+        try {
+            await api.voidSale(invoiceId, reason.trim(), movement);
+            addActivityLocal('sale', `فاکتور فروش #${invoiceId} را باطل کرد (دلیل: ${reason.trim()})`, user, invoiceId, 'saleInvoice');
+            fetchData(); // Stock, balances, points and vouchers all moved
+            return { success: true, message: '✅ فاکتور باطل شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در ابطال فاکتور.') }; }
+    };
+
+    // Builds a return of `returnItems` from an invoice. What does not go back to the account or
+    // as points is first put towards the new goods of an exchange (the "exchange" tender), and
+    // the rest is paid back in cash or as a voucher.
+    const prepareSaleReturn = (
+        originalInvoice: SaleInvoice,
+        returnItems: ReturnLine[],
+        cashier: string,
+        branchId: string,
+        refundAsVoucher?: boolean,
+        exchange?: { id: string; saleTotal: number }
+    ) => {
+        const detailedReturnItems = getReturnItems(originalInvoice, returnItems);
+        const returnTotal = getReturnTotal(detailedReturnItems);
+        const returnInvoiceId = generateDocumentId('R');
 
         const returnInvoice: SaleInvoice = {
             id: returnInvoiceId,
             type: 'return',
-            originalInvoiceId,
+            originalInvoiceId: originalInvoice.id,
             items: detailedReturnItems,
-            subtotal: returnSubtotal,
+            subtotal: returnTotal,
             totalAmount: returnTotal,
             totalDiscount: 0,
             timestamp: new Date().toISOString(),
             cashier,
-            customerId: originalInvoice.customerId
+            customerId: originalInvoice.customerId,
+            branchId, // Goods come back into the branch that takes the return
+            exchangeId: exchange?.id
         };
 
         const stockRestores = detailedReturnItems
             .filter(i => i.type === 'product')
             .map(i => ({ productId: i.id, quantity: i.quantity }));
 
-        const customerRefund = originalInvoice.customerId ? { id: originalInvoice.customerId, amount: returnTotal } : undefined;
+        const customerId = originalInvoice.customerId;
+        const previousReturns = getPreviousReturns(state.saleInvoices, originalInvoice.id);
+        const { accountRefund, loyaltyRefund, rest } = getReturnRefunds(originalInvoice, previousReturns, returnTotal);
+        const exchangeCredit = exchange ? Math.min(rest, exchange.saleTotal) : 0;
+        const restRefund = rest - exchangeCredit;
+        const voucherCode = refundAsVoucher && restRefund > 0 ? generateVoucherCode() : undefined;
+        returnInvoice.payments = [
+            { method: 'on_account' as const, amount: accountRefund },
+            { method: 'loyalty_points' as const, amount: loyaltyRefund },
+            { method: 'exchange' as const, amount: exchangeCredit },
+            voucherCode ? { method: 'voucher' as const, amount: restRefund, reference: voucherCode } : { method: 'cash_afn' as const, amount: restRefund }
+        ].filter(p => p.amount > 0);
+        returnInvoice.changeAmount = 0;
+        // The points the returned goods earned are taken back
+        if (customerId) Object.assign(returnInvoice, getReturnPoints(originalInvoice, previousReturns, returnTotal, loyaltyRefund));
+
+        const customerRefund: CustomerBalanceUpdate | undefined = customerId && accountRefund > 0 ? {
+            id: customerId,
+            amount: -accountRefund,
+            transaction: {
+                id: crypto.randomUUID(),
+                customerId,
+                type: 'sale_return',
+                amount: accountRefund,
+                date: new Date().toISOString(),
+                description: `مرجوعی فاکتور #${originalInvoice.id}`,
+                invoiceId: returnInvoice.id
+            }
+        } : undefined;
+
+        // The server issues the voucher with the return (see apply_invoice_vouchers)
+        const voucherChanges = getInvoiceVoucherChanges(returnInvoice, state.vouchers);
 
-        api.createSaleReturn(returnInvoice, stockRestores, customerRefund).then(() => {
+        return { returnInvoice, stockRestores, customerRefund, voucherChanges, exchangeCredit };
+    };
+
+    // Offline: mirror what the server does with a return (stock goes back to the newest batch in the branch)
+    const applySaleReturnLocally = (prev: AppState, prepared: ReturnType<typeof prepareSaleReturn>): AppState => {
+        const { returnInvoice, stockRestores, customerRefund, voucherChanges } = prepared;
+        return {
+            ...prev,
+            saleInvoices: [returnInvoice, ...prev.saleInvoices],
+            products: prev.products.map(p => {
+                const restore = stockRestores.find(r => r.productId === p.id);
+                const newest = getBranchBatches(p, returnInvoice.branchId)
+                    .sort((a, b) => new Date(b.purchaseDate).getTime() - new Date(a.purchaseDate).getTime())[0];
+                if (!restore || !newest) return p;
+                return { ...p, batches: p.batches.map(b => b.id === newest.id ? { ...b, stock: b.stock + restore.quantity } : b) };
+            }),
+            customers: prev.customers.map(c => c.id !== returnInvoice.customerId ? c : {
+                ...c,
+                balance: customerRefund ? c.balance + customerRefund.amount : c.balance,
+                loyaltyPoints: c.loyaltyPoints + getLoyaltyBalanceChange(returnInvoice)
+            }),
+            customerTransactions: customerRefund ? [customerRefund.transaction, ...prev.customerTransactions] : prev.customerTransactions,
+            loyaltyTransactions: [...getInvoiceLoyaltyTransactions(returnInvoice), ...prev.loyaltyTransactions],
+            vouchers: applyVoucherChanges(prev.vouchers, voucherChanges),
+            voucherTransactions: [...voucherChanges.transactions, ...prev.voucherTransactions],
+        };
+    };
+
+    const addSaleReturn = (originalInvoiceId: string, returnItems: ReturnLine[], cashier: string, refundAsVoucher?: boolean) => {
+        const originalInvoice = state.saleInvoices.find(i => i.id === originalInvoiceId);
+        if (!originalInvoice) return { success: false, message: "فاکتور اصلی یافت نشد." };
+        if (isVoided(originalInvoice)) return { success: false, message: "فاکتور باطل شده قابل مرجوعی نیست." };
+        if (!state.activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+
+        const prepared = prepareSaleReturn(originalInvoice, returnItems, cashier, state.activeBranchId, refundAsVoucher);
+        const { returnInvoice, stockRestores, customerRefund, voucherChanges } = prepared;
+
+        api.createSaleReturn(returnInvoice, stockRestores, customerRefund).then(({ queued }) => {
             addActivityLocal('sale', `مرجوعی فاکتور #${originalInvoiceId} را ثبت کرد`, cashier, returnInvoice.id, 'saleInvoice');
-            fetchData();
-            showToast("✅ مرجوعی با موفقیت ثبت شد.");
-        }).catch(err => showToast("❌ خطا در ثبت مرجوعی."));
+            if (!queued) {
+                fetchData();
+                showToast("✅ مرجوعی با موفقیت ثبت شد.");
+                return;
+            }
+            setState(prev => applySaleReturnLocally(prev, prepared));
+            showToast("📥 مرجوعی به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در ثبت مرجوعی."));
+        });
 
-        return { success: true, message: "در حال ثبت مرجوعی..." };
+        return { success: true, message: "در حال ثبت مرجوعی...", voucher: voucherChanges.issued[0] };
     };
 
     const setInvoiceTransientCustomer = async (invoiceId: string, customerName: string) => {
@@ -743,14 +1339,12 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     // PURCHASE ACTIONS
     const addPurchaseInvoice = (invoiceData: any) => {
-        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
-        
         const { products, suppliers, purchaseInvoices } = state;
         const supplier = suppliers.find(s => s.id === invoiceData.supplierId);
         if(!supplier) return { success: false, message: "تأمین کننده نامعتبر" };
+        if (!state.activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
 
-        // Generate a clean sequential ID (P1, P2...) instead of timestamp
-        const invoiceId = generateNextId('P', purchaseInvoices.map(i => i.id));
+        const invoiceId = generateDocumentId('P');
 
         // Currency Logic: Convert to Base if needed for Stock Valuation, but keep track of original
         const isUSD = invoiceData.currency === 'USD';
@@ -778,7 +1372,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
              items: finalItems, 
              totalAmount: totalAmount,
              currency: invoiceData.currency,
-             exchangeRate: rate
+             exchangeRate: rate,
+             branchId: state.activeBranchId // Goods are received into the active branch
         };
 
         // Prepare Batches
@@ -794,7 +1389,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 stock: item.quantity,
                 purchasePrice: item.purchasePrice, // Stored in AFN
                 purchaseDate: invoice.timestamp,
-                expiryDate: item.expiryDate
+                expiryDate: item.expiryDate,
+                branchId: invoice.branchId
             };
             newBatches.push(newBatch);
             
@@ -803,6 +1399,19 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             if(p) p.batches.push(newBatch);
         }
 
+        // Weighted average: stock already in the branch and the new batches end up at one cost
+        // (the server does the same when it saves the purchase; this is the local preview)
+        if (state.storeSettings.costingMethod === 'average') {
+            const productIds = [...new Set<string>(invoice.items.map(item => item.productId))];
+            for (const productId of productIds) {
+                const p = localProducts.find((p: Product) => p.id === productId);
+                if (!p) continue;
+                const branchBatches = getBranchBatches(p, invoice.branchId);
+                const purchasePrice = getAverageCost(branchBatches);
+                branchBatches.forEach(b => { b.purchasePrice = purchasePrice; });
+            }
+        }
+
         const supplierUpdate = {
             id: supplier.id,
             newBalance: supplier.balance + invoice.totalAmount, // Balance tracks total liability in AFN
@@ -818,7 +1427,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
         };
 
-        api.createPurchase(invoice, supplierUpdate, newBatches).then(() => {
+        api.createPurchase(invoice, supplierUpdate, newBatches).then(({ queued }) => {
             addActivityLocal('purchase', `فاکتور خرید ثبت کرد`, state.currentUser!.username, invoice.id, 'purchaseInvoice');
             setState(prev => ({
                 ...prev,
@@ -827,10 +1436,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 suppliers: prev.suppliers.map(s => s.id === supplier.id ? {...s, balance: s.balance + invoice.totalAmount} : s),
                 supplierTransactions: [supplierUpdate.transaction, ...prev.supplierTransactions]
             }));
-            showToast("✅ فاکتور خرید ثبت شد.");
+            if (!queued) loadDocumentNumbers('purchase', [invoice.id]);
+            showToast(queued ? "📥 فاکتور خرید به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ فاکتور خرید ثبت شد.");
         }).catch(err => {
             console.error(err);
-            showToast("❌ خطا در ثبت فاکتور خرید.");
+            showToast(describeError(err, "❌ خطا در ثبت فاکتور خرید."));
         });
 
         return { success: true, message: "در حال ثبت..." };
@@ -863,23 +1473,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
              totalAmount
         };
 
-        const supplierUpdate = {
-            id: newInvoice.supplierId,
-            oldAmount: oldInvoice.totalAmount,
-            newAmount: totalAmount
-        };
-
-        api.updatePurchase(invoiceId, newInvoice, [], supplierUpdate).then(() => {
+        // The server moves the supplier's balance and transaction to the new total
+        api.updatePurchase(invoiceId, newInvoice).then(() => {
             showToast("✅ فاکتور خرید ویرایش شد. (توجه: موجودی کالاها را در صورت نیاز دستی اصلاح کنید)");
             fetchData();
             setState(prev => ({ ...prev, editingPurchaseInvoiceId: null }));
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در ویرایش فاکتور خرید.")));
 
         return { success: true, message: "در حال بروزرسانی..." };
     };
 
     const addPurchaseReturn = (originalInvoiceId: string, returnItems: { productId: string; quantity: number }[]) => {
-        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
         const originalInvoice = state.purchaseInvoices.find(i => i.id === originalInvoiceId);
         if (!originalInvoice) return { success: false, message: "فاکتور یافت نشد" };
 
@@ -897,7 +1501,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             }
         });
 
-        const returnInvoiceId = generateNextId('PR', state.purchaseInvoices.map(i => i.id));
+        const returnInvoiceId = generateDocumentId('PR');
 
         const returnInvoice: PurchaseInvoice = {
             id: returnInvoiceId,
@@ -907,37 +1511,899 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             invoiceNumber: originalInvoice.invoiceNumber,
             items: fullReturnItems,
             totalAmount: returnTotal,
-            timestamp: new Date().toISOString()
+            timestamp: new Date().toISOString(),
+            branchId: originalInvoice.branchId // Goods leave the branch that received them
         };
 
         const supplierRefund = { id: originalInvoice.supplierId, amount: returnTotal };
 
-        api.createPurchaseReturn(returnInvoice, stockDeductions, supplierRefund).then(() => {
+        api.createPurchaseReturn(returnInvoice, stockDeductions, supplierRefund).then(({ queued }) => {
             addActivityLocal('purchase', `مرجوعی خرید ثبت کرد`, state.currentUser!.username, returnInvoice.id, 'purchaseInvoice');
-            fetchData();
-            showToast("✅ مرجوعی خرید ثبت شد.");
+            if (!queued) {
+                fetchData();
+                showToast("✅ مرجوعی خرید ثبت شد.");
+                return;
+            }
+            // Offline: mirror what the server will do (stock is taken from the batch with the same lot number)
+            setState(prev => ({
+                ...prev,
+                purchaseInvoices: [returnInvoice, ...prev.purchaseInvoices],
+                products: prev.products.map(p => {
+                    const deduct = stockDeductions.find(d => d.productId === p.id);
+                    if (!deduct) return p;
+                    const batchIndex = p.batches.findIndex(b => b.lotNumber === deduct.lotNumber && b.branchId === returnInvoice.branchId);
+                    return { ...p, batches: p.batches.map((b, index) => index === batchIndex ? { ...b, stock: Math.max(0, b.stock - deduct.quantity) } : b) };
+                }),
+                suppliers: prev.suppliers.map(s => s.id === supplierRefund.id ? { ...s, balance: s.balance - supplierRefund.amount } : s),
+            }));
+            showToast("📥 مرجوعی خرید به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود.");
+        }).catch(err => showToast(describeError(err, "❌ خطا در ثبت مرجوعی خرید.")));
+
+        return { success: true, message: "در حال ثبت..." };
+    };
+
+    // STOCK TRANSFERS
+    // Sent from the active branch; the chosen batches keep their lot, cost and expiry at the destination
+    const sendStockTransfer = (destinationBranchId: string, items: { batchId: string; quantity: number }[], notes?: string) => {
+        const { products, branches, stockTransfers, activeBranchId } = state;
+        if (!activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+        if (destinationBranchId === activeBranchId) return { success: false, message: "شعبه مقصد باید با شعبه مبدأ متفاوت باشد." };
+        if (!branches.some(b => b.id === destinationBranchId)) return { success: false, message: "شعبه مقصد نامعتبر است." };
+        if (items.length === 0) return { success: false, message: "هیچ کالایی برای انتقال انتخاب نشده است." };
+
+        const localProducts: Product[] = JSON.parse(JSON.stringify(products));
+        const transferItems: StockTransferItem[] = [];
+
+        for (const item of items) {
+            const product = localProducts.find(p => p.batches.some(b => b.id === item.batchId));
+            const batch = product?.batches.find(b => b.id === item.batchId);
+            if (!product || !batch || batch.branchId !== activeBranchId) return { success: false, message: "دسته کالا در این شعبه یافت نشد." };
+            if (item.quantity <= 0) return { success: false, message: `مقدار انتقال "${product.name}" نامعتبر است.` };
+            if (item.quantity > batch.stock) return { success: false, message: `موجودی لات ${batch.lotNumber} از "${product.name}" کافی نیست!` };
+
+            batch.stock -= item.quantity;
+            transferItems.push({
+                id: crypto.randomUUID(),
+                productId: product.id,
+                productName: product.name,
+                sourceBatchId: batch.id,
+                lotNumber: batch.lotNumber,
+                purchasePrice: batch.purchasePrice,
+                purchaseDate: batch.purchaseDate,
+                expiryDate: batch.expiryDate,
+                quantity: item.quantity
+            });
+        }
+
+        const transfer: StockTransfer = {
+            id: generateNextId('T', stockTransfers.map(t => t.id)),
+            sourceBranchId: activeBranchId,
+            destinationBranchId,
+            status: 'sent',
+            items: transferItems,
+            sentAt: new Date().toISOString(),
+            sentBy: state.currentUser!.username,
+            notes
+        };
+
+        api.sendStockTransfer(transfer).then(({ queued }) => {
+            addActivityLocal('transfer', `حواله انتقال #${transfer.id} را ارسال کرد`, transfer.sentBy, transfer.id, 'stockTransfer');
+            setState(prev => ({
+                ...prev,
+                products: localProducts,
+                stockTransfers: [transfer, ...prev.stockTransfers]
+            }));
+            showToast(queued ? "📥 حواله انتقال به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ حواله انتقال ارسال شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در ارسال حواله انتقال."));
+        });
+
+        return { success: true, message: "در حال ارسال..." };
+    };
+
+    // Received at the destination; anything short of the sent quantity becomes a discrepancy
+    const receiveStockTransfer = (transferId: string, receivedQuantities: Record<string, number>) => {
+        const transfer = state.stockTransfers.find(t => t.id === transferId);
+        if (!transfer) return { success: false, message: "حواله انتقال یافت نشد." };
+        if (transfer.status !== 'sent') return { success: false, message: "این حواله قبلاً دریافت شده است." };
+        if (state.activeBranchId !== transfer.destinationBranchId) return { success: false, message: "حواله فقط در شعبه مقصد قابل دریافت است." };
+
+        const localProducts: Product[] = JSON.parse(JSON.stringify(state.products));
+        const receipt: TransferReceiptLine[] = [];
+
+        for (const item of transfer.items) {
+            const receivedQuantity = receivedQuantities[item.id] ?? item.quantity;
+            if (receivedQuantity < 0 || receivedQuantity > item.quantity) {
+                return { success: false, message: `مقدار دریافتی "${item.productName}" باید بین ۰ و ${item.quantity} باشد.` };
+            }
+
+            // Same lot at the same cost goes into the existing batch, otherwise a new batch is opened
+            const product = localProducts.find(p => p.id === item.productId);
+            const existingBatch = product?.batches.find(b =>
+                b.branchId === transfer.destinationBranchId && b.lotNumber === item.lotNumber &&
+                b.purchasePrice === item.purchasePrice && b.expiryDate === item.expiryDate
+            );
+            const batchId = existingBatch?.id || crypto.randomUUID();
+            receipt.push({ itemId: item.id, receivedQuantity, batchId });
+
+            if (receivedQuantity === 0 || !product) continue;
+            if (existingBatch) {
+                existingBatch.stock += receivedQuantity;
+            } else {
+                product.batches.push({
+                    id: batchId,
+                    lotNumber: item.lotNumber,
+                    stock: receivedQuantity,
+                    purchasePrice: item.purchasePrice,
+                    purchaseDate: item.purchaseDate,
+                    expiryDate: item.expiryDate,
+                    branchId: transfer.destinationBranchId
+                });
+            }
+        }
+
+        const receivedAt = new Date().toISOString();
+        const receivedBy = state.currentUser!.username;
+        const receivedTransfer: StockTransfer = {
+            ...transfer,
+            status: 'received',
+            receivedAt,
+            receivedBy,
+            items: transfer.items.map(item => ({ ...item, receivedQuantity: receipt.find(r => r.itemId === item.id)!.receivedQuantity }))
+        };
+        const discrepancies = receivedTransfer.items
+            .filter(item => item.receivedQuantity! < item.quantity)
+            .map(item => ({
+                id: item.id,
+                transferId: transfer.id,
+                productId: item.productId,
+                productName: item.productName,
+                lotNumber: item.lotNumber,
+                sentQuantity: item.quantity,
+                receivedQuantity: item.receivedQuantity!,
+                createdAt: receivedAt,
+                reportedBy: receivedBy
+            }));
+
+        api.receiveStockTransfer(transfer.id, receipt, receivedAt, receivedBy).then(({ queued }) => {
+            addActivityLocal('transfer', `حواله انتقال #${transfer.id} را دریافت کرد${discrepancies.length > 0 ? ` (${discrepancies.length} قلم کسری)` : ''}`, receivedBy, transfer.id, 'stockTransfer');
+            setState(prev => ({
+                ...prev,
+                products: localProducts,
+                stockTransfers: prev.stockTransfers.map(t => t.id === transfer.id ? receivedTransfer : t),
+                transferDiscrepancies: [...discrepancies, ...prev.transferDiscrepancies]
+            }));
+            if (queued) showToast("📥 دریافت حواله به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود.");
+            else showToast(discrepancies.length > 0 ? `⚠️ حواله دریافت شد. ${discrepancies.length} قلم کسری ثبت شد.` : "✅ حواله انتقال دریافت شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در دریافت حواله انتقال."));
+        });
+
+        return { success: true, message: "در حال ثبت..." };
+    };
+
+    // STOCKTAKE
+    const saveStocktakeDraft = (draft: Stocktake | null) => {
+        if (draft) localStorage.setItem(STOCKTAKE_DRAFT_KEY, JSON.stringify(draft));
+        else localStorage.removeItem(STOCKTAKE_DRAFT_KEY);
+        setState(prev => ({ ...prev, activeStocktake: draft }));
+    };
+
+    // Freezes the current stock of every batch in the active branch
+    const startStocktake = () => {
+        const { products, activeBranchId, activeStocktake, stocktakes } = state;
+        if (activeStocktake) return { success: false, message: "یک شمارش انبار در حال انجام است." };
+        if (!activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+
+        const lines = products.flatMap(p => getBranchBatches(p, activeBranchId).map(b => ({
+            batchId: b.id,
+            productId: p.id,
+            productName: p.name,
+            lotNumber: b.lotNumber,
+            purchasePrice: b.purchasePrice,
+            expectedStock: b.stock
+        })));
+        if (lines.length === 0) return { success: false, message: "در این شعبه کالایی برای شمارش وجود ندارد." };
+
+        saveStocktakeDraft({
+            id: generateNextId('ST', stocktakes.map(s => s.id)),
+            branchId: activeBranchId,
+            status: 'counting',
+            lines,
+            startedAt: new Date().toISOString(),
+            startedBy: state.currentUser!.username
+        });
+        return { success: true, message: "شمارش انبار شروع شد." };
+    };
+
+    const setStocktakeCount = (batchId: string, countedStock: number | undefined) => {
+        const draft = state.activeStocktake;
+        if (!draft) return;
+        saveStocktakeDraft({ ...draft, lines: draft.lines.map(l => l.batchId === batchId ? { ...l, countedStock } : l) });
+    };
+
+    const cancelStocktake = () => saveStocktakeDraft(null);
+
+    const postStocktake = () => {
+        const draft = state.activeStocktake;
+        if (!draft) return { success: false, message: "شمارشی در حال انجام نیست." };
+
+        const varianceLines = draft.lines.filter(l => l.countedStock !== undefined && l.countedStock !== l.expectedStock);
+        const shrinkageCost = varianceLines.reduce((sum, l) => sum + Math.max(0, l.expectedStock - l.countedStock!) * l.purchasePrice, 0);
+        const postedAt = new Date().toISOString();
+        const postedBy = state.currentUser!.username;
+
+        const shrinkageExpense: Expense | undefined = shrinkageCost > 0 ? {
+            id: crypto.randomUUID(),
+            category: 'shrinkage',
+            description: `کسری شمارش انبار #${draft.id}`,
+            amount: shrinkageCost,
+            date: postedAt,
+            branchId: draft.branchId
+        } : undefined;
+
+        const stocktake: Stocktake = { ...draft, status: 'posted', postedAt, postedBy, shrinkageExpenseId: shrinkageExpense?.id };
+        const activities: ActivityLog[] = varianceLines.map(l => ({
+            id: crypto.randomUUID(),
+            type: 'inventory',
+            description: `شمارش انبار #${draft.id}: موجودی "${l.productName}" (لات ${l.lotNumber}) از ${l.expectedStock} به ${l.countedStock} اصلاح شد`,
+            timestamp: postedAt,
+            user: postedBy,
+            refId: l.productId,
+            refType: 'product'
+        }));
+
+        api.postStocktake(stocktake, shrinkageExpense, activities).then(({ queued }) => {
+            saveStocktakeDraft(null);
+            setState(prev => ({
+                ...prev,
+                stocktakes: [stocktake, ...prev.stocktakes],
+                // Same rule as the server: the variance goes on top of the current stock
+                products: prev.products.map(p => ({
+                    ...p,
+                    batches: p.batches.map(b => {
+                        const line = varianceLines.find(l => l.batchId === b.id);
+                        return line ? { ...b, stock: Math.max(0, b.stock + line.countedStock! - line.expectedStock) } : b;
+                    })
+                })),
+                expenses: shrinkageExpense ? [...prev.expenses, shrinkageExpense] : prev.expenses,
+                activities: [...activities, ...prev.activities]
+            }));
+            showToast(queued
+                ? "📥 شمارش انبار به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود."
+                : `✅ شمارش انبار ثبت شد. ${varianceLines.length} ردیف اصلاح شد.`);
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در ثبت شمارش انبار. هیچ تغییری اعمال نشد."));
         });
 
         return { success: true, message: "در حال ثبت..." };
     };
 
+    // STOCK MOVEMENTS
+    // Sales, purchases and transfers are logged on the server, so reports reload the ledger when opened
+    const refreshStockMovements = async () => {
+        try {
+            const stockMovements = await api.getStockMovements();
+            setState(prev => ({ ...prev, stockMovements }));
+        } catch (error) {
+            console.error("Error fetching stock movements:", error);
+        }
+    };
+
+    // Manual correction of one batch (damage, theft, internal use, ...)
+    const adjustStock = (batchId: string, delta: number, reason: StockAdjustmentReason, note: string) => {
+        if (!delta) return { success: false, message: "مقدار تعدیل نمی‌تواند صفر باشد." };
+        const product = state.products.find(p => p.batches.some(b => b.id === batchId));
+        const batch = product?.batches.find(b => b.id === batchId);
+        if (!product || !batch) return { success: false, message: "بچ مورد نظر یافت نشد." };
+        if (batch.stock + delta < 0) return { success: false, message: `موجودی این بچ فقط ${batch.stock} است.` };
+
+        const movement: StockMovement = {
+            id: crypto.randomUUID(),
+            batchId,
+            productId: product.id,
+            branchId: batch.branchId,
+            lotNumber: batch.lotNumber,
+            delta,
+            stockAfter: batch.stock + delta,
+            unitCost: batch.purchasePrice,
+            reason,
+            note: note.trim() || undefined,
+            user: state.currentUser!.username,
+            timestamp: new Date().toISOString()
+        };
+
+        api.adjustStock(movement).then(({ queued }) => {
+            addActivityLocal('inventory', `موجودی "${product.name}" (لات ${batch.lotNumber}) به دلیل «${STOCK_MOVEMENT_REASONS[reason]}» ${delta > 0 ? '+' : ''}${delta} تعدیل شد`, movement.user, product.id, 'product');
+            setState(prev => ({
+                ...prev,
+                products: prev.products.map(p => p.id !== product.id ? p : {
+                    ...p,
+                    batches: p.batches.map(b => b.id === batchId ? { ...b, stock: b.stock + delta } : b)
+                }),
+                stockMovements: [movement, ...prev.stockMovements]
+            }));
+            showToast(queued ? "📥 تعدیل موجودی به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ موجودی تعدیل شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در تعدیل موجودی."));
+        });
+
+        return { success: true, message: "در حال ثبت..." };
+    };
+
+    // CUSTOMER ORDERS
+    const placeCustomerOrder = (customerId: string, deposit: number, dueDate?: string, note?: string) => {
+        const { cart, currentUser, activeBranchId, editingSaleInvoiceId, customerOrders, customers, products } = state;
+        if (!currentUser) return { success: false, message: "خطا: کاربر فعلی مشخص نیست." };
+        if (!activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+        if (cart.length === 0) return { success: false, message: "سبد خرید خالی است!" };
+        if (editingSaleInvoiceId || state.pickingUpOrderId) return { success: false, message: "این سبد قابل ثبت به عنوان سفارش نیست." };
+        const customer = customers.find(c => c.id === customerId);
+        if (!customer) return { success: false, message: "برای سفارش، مشتری را انتخاب کنید." };
+
+        const subtotal = cart.reduce((total, item) => getPrice(item).original * item.quantity + total, 0);
+        const totalAmount = cart.reduce((total, item) => getPrice(item).final * item.quantity + total, 0);
+        if (deposit < 0 || deposit > totalAmount + 0.01) return { success: false, message: "مبلغ پیش‌پرداخت باید بین صفر و مبلغ سفارش باشد." };
+
+        const reserved = getReservedQuantities(customerOrders);
+        const reservations: OrderReservation[] = [];
+        for (const item of cart) {
+            if (item.type !== 'product') continue;
+            const product = products.find(p => p.id === item.id);
+            const planned = product && planReservations(product, activeBranchId, item.quantity, reserved, state.storeSettings.costingMethod);
+            if (!planned) return { success: false, message: `موجودی آزاد "${item.name}" برای رزرو کافی نیست.` };
+            reservations.push(...planned);
+        }
+
+        const createdAt = new Date().toISOString();
+        const order: CustomerOrder = {
+            id: generateNextId('O', customerOrders.map(o => o.id)),
+            customerId,
+            branchId: activeBranchId,
+            items: cart,
+            reservations,
+            subtotal,
+            totalDiscount: subtotal - totalAmount,
+            totalAmount,
+            depositPaid: deposit,
+            status: 'open',
+            createdAt,
+            cashier: currentUser.username,
+            dueDate: dueDate || undefined,
+            note: note?.trim() || undefined
+        };
+        const depositUpdate = deposit > 0 ? buildDepositUpdate(order, deposit, createdAt) : undefined;
+
+        api.createCustomerOrder(order, depositUpdate).then(({ queued }) => {
+            addActivityLocal('sale', `سفارش #${order.id} برای «${customer.name}» به مبلغ ${formatCurrency(totalAmount, state.storeSettings)} با پیش‌پرداخت ${formatCurrency(deposit, state.storeSettings)} ثبت کرد`, currentUser.username);
+            setState(prev => ({
+                ...prev,
+                cart: [],
+                convertingQuotationId: null,
+                customerOrders: [order, ...prev.customerOrders],
+                ...applyDepositLocally(prev, depositUpdate)
+            }));
+            showToast(queued ? "📥 سفارش به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ سفارش ثبت و کالاها رزرو شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در ثبت سفارش."));
+            fetchData(); // Stock may have been sold or reserved on another till
+        });
+
+        return { success: true, message: "در حال ثبت سفارش...", order };
+    };
+
+    // A deposit is a customer payment into the current drawer (negative balance update);
+    // a refund puts it back on the balance and takes the cash out again
+    const buildDepositUpdate = (order: CustomerOrder, amount: number, date: string, refund = false): CustomerBalanceUpdate => ({
+        id: order.customerId,
+        amount: refund ? amount : -amount,
+        transaction: {
+            id: crypto.randomUUID(),
+            customerId: order.customerId,
+            type: refund ? 'deposit_refund' : 'payment',
+            amount,
+            date,
+            description: refund ? `بازپرداخت پیش‌پرداخت سفارش #${order.id}` : `پیش‌پرداخت سفارش #${order.id}`,
+            shiftId: getOpenShift(state.cashShifts, state.currentUser?.username, state.activeBranchId)?.id,
+            orderId: order.id
+        }
+    });
+
+    const applyDepositLocally = (prev: AppState, update?: CustomerBalanceUpdate): Partial<AppState> => update ? {
+        customers: prev.customers.map(c => c.id === update.id ? { ...c, balance: c.balance + update.amount } : c),
+        customerTransactions: [update.transaction, ...prev.customerTransactions]
+    } : {};
+
+    const addOrderDeposit = (orderId: string, amount: number) => {
+        const order = state.customerOrders.find(o => o.id === orderId);
+        if (!order || order.status !== 'open') return { success: false, message: "سفارش باز یافت نشد." };
+        if (!(amount > 0) || order.depositPaid + amount > order.totalAmount + 0.01) return { success: false, message: `مبلغ باید بین صفر و ${formatCurrency(getOrderBalanceDue(order), state.storeSettings)} باشد.` };
+
+        const update = buildDepositUpdate(order, amount, new Date().toISOString());
+        api.addOrderDeposit(orderId, amount, update).then(({ queued }) => {
+            addActivityLocal('sale', `پیش‌پرداخت ${formatCurrency(amount, state.storeSettings)} برای سفارش #${orderId} دریافت کرد`, state.currentUser!.username);
+            setState(prev => ({
+                ...prev,
+                customerOrders: prev.customerOrders.map(o => o.id === orderId ? { ...o, depositPaid: o.depositPaid + amount } : o),
+                ...applyDepositLocally(prev, update)
+            }));
+            showToast(queued ? "📥 پیش‌پرداخت به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ پیش‌پرداخت ثبت شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در ثبت پیش‌پرداخت."));
+        });
+
+        return { success: true, message: "در حال ثبت..." };
+    };
+
+    // Loads the order at the agreed prices; the sale releases the reservation
+    const pickUpCustomerOrder = (orderId: string) => {
+        const order = state.customerOrders.find(o => o.id === orderId);
+        if (!order || order.status !== 'open') return { success: false, message: "سفارش باز یافت نشد." };
+        if (order.branchId !== state.activeBranchId) return { success: false, message: "سفارش در شعبه دیگری ثبت شده است." };
+        if (state.cart.length > 0 || state.editingSaleInvoiceId) return { success: false, message: "ابتدا سبد فعلی را تکمیل یا پارک کنید." };
+
+        setState(prev => ({ ...prev, cart: order.items, pickingUpOrderId: order.id, convertingQuotationId: null }));
+        return { success: true, message: `سفارش #${order.id} در سبد خرید بارگذاری شد.`, customerId: order.customerId };
+    };
+
+    const cancelCustomerOrder = (orderId: string, refundDeposit: boolean) => {
+        const order = state.customerOrders.find(o => o.id === orderId);
+        if (!order || order.status !== 'open') return { success: false, message: "سفارش باز یافت نشد." };
+
+        const refund = refundDeposit && order.depositPaid > 0 ? buildDepositUpdate(order, order.depositPaid, new Date().toISOString(), true) : undefined;
+        api.cancelCustomerOrder(orderId, refund).then(({ queued }) => {
+            addActivityLocal('sale', `سفارش #${orderId} را لغو کرد${order.depositPaid > 0 ? (refund ? ' (پیش‌پرداخت بازپرداخت شد)' : ' (پیش‌پرداخت به حساب مشتری ماند)') : ''}`, state.currentUser!.username);
+            setState(prev => ({
+                ...prev,
+                customerOrders: prev.customerOrders.map(o => o.id === orderId ? { ...o, status: 'cancelled', depositRefunded: !!refund } : o),
+                pickingUpOrderId: prev.pickingUpOrderId === orderId ? null : prev.pickingUpOrderId,
+                ...applyDepositLocally(prev, refund)
+            }));
+            showToast(queued ? "📥 لغو سفارش به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ سفارش لغو و رزرو آزاد شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در لغو سفارش."));
+        });
+
+        return { success: true, message: "در حال لغو..." };
+    };
+
+    // QUOTATIONS
+    // The cart becomes a priced offer and is cleared; nothing is taken from stock
+    const saveQuotation = (validUntil: string, customerId?: string, customerName?: string, note?: string) => {
+        const { cart, currentUser, activeBranchId, editingSaleInvoiceId, quotations } = state;
+        if (!currentUser) return { success: false, message: "خطا: کاربر فعلی مشخص نیست." };
+        if (!activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+        if (cart.length === 0) return { success: false, message: "سبد خرید خالی است!" };
+        if (editingSaleInvoiceId) return { success: false, message: "فاکتوری که در حال ویرایش است قابل ذخیره به عنوان پیش‌فاکتور نیست." };
+        if (!validUntil || validUntil < toDateInputValue(new Date())) return { success: false, message: "تاریخ اعتبار باید امروز یا بعد از آن باشد." };
+
+        const subtotal = cart.reduce((total, item) => getPrice(item).original * item.quantity + total, 0);
+        const totalAmount = cart.reduce((total, item) => getPrice(item).final * item.quantity + total, 0);
+        const quotation: Quotation = {
+            id: generateNextId('Q', quotations.map(q => q.id)),
+            items: cart,
+            subtotal,
+            totalDiscount: subtotal - totalAmount,
+            totalAmount,
+            timestamp: new Date().toISOString(),
+            cashier: currentUser.username,
+            customerId: customerId || undefined,
+            customerName: customerName?.trim() || undefined,
+            branchId: activeBranchId,
+            validUntil,
+            note: note?.trim() || undefined,
+            status: 'open'
+        };
+
+        api.addQuotation(quotation).then(({ queued }) => {
+            addActivityLocal('sale', `پیش‌فاکتور #${quotation.id} به مبلغ ${formatCurrency(totalAmount, state.storeSettings)} ثبت کرد`, currentUser.username);
+            setState(prev => ({ ...prev, quotations: [quotation, ...prev.quotations], cart: [] }));
+            showToast(queued ? "📥 پیش‌فاکتور به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ پیش‌فاکتور ثبت شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در ثبت پیش‌فاکتور."));
+        });
+
+        return { success: true, message: "در حال ثبت پیش‌فاکتور...", quotation };
+    };
+
+    // Loads the quoted items into the cart at today's prices and stock; a discounted price
+    // is kept only for products whose catalogue price has not changed since the quotation
+    const convertQuotation = (id: string) => {
+        const quotation = state.quotations.find(q => q.id === id);
+        if (!quotation) return { success: false, message: "پیش‌فاکتور یافت نشد." };
+        if (quotation.status !== 'open') return { success: false, message: "این پیش‌فاکتور قبلاً تبدیل یا لغو شده است." };
+        if (isQuotationExpired(quotation)) return { success: false, message: "مدت اعتبار این پیش‌فاکتور تمام شده است." };
+        if (state.cart.length > 0 || state.editingSaleInvoiceId) return { success: false, message: "ابتدا سبد فعلی را تکمیل یا پارک کنید." };
+        const branchId = state.activeBranchId;
+        if (!branchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+
+        const items: CartItem[] = [];
+        const problems: string[] = [];
+        let repricedCount = 0;
+        const quotationPriceList = state.priceLists.find(l => l.id === state.customers.find(c => c.id === quotation.customerId)?.priceListId);
+        for (const item of quotation.items) {
+            if (item.type === 'service') {
+                const service = state.services.find(s => s.id === item.id);
+                if (!service) { problems.push(`خدمت "${item.name}" دیگر وجود ندارد`); continue; }
+                if (service.price !== item.price) repricedCount++;
+                items.push({ ...service, quantity: item.quantity, type: 'service' });
+                continue;
+            }
+            const product = state.products.find(p => p.id === item.id);
+            if (!product) { problems.push(`محصول "${item.name}" دیگر وجود ندارد`); continue; }
+            const stock = getUnreservedStock(product, branchId, getReservedQuantities(state.customerOrders));
+            if (stock < item.quantity) { problems.push(`"${product.name}": موجودی ${stock} از ${item.quantity}`); continue; }
+            // Compared with the price the quotation's customer would pay today
+            const salePrice = getUnitPrice(product, item.quantity, quotationPriceList);
+            const priceChanged = Math.abs(salePrice - item.salePrice) > 0.001;
+            if (priceChanged) repricedCount++;
+            items.push({
+                ...product,
+                salePrice,
+                purchasePrice: 0,
+                quantity: item.quantity,
+                type: 'product',
+                finalPrice: priceChanged ? undefined : item.finalPrice,
+                promotionId: priceChanged ? undefined : item.promotionId,
+                promotionName: priceChanged ? undefined : item.promotionName
+            });
+        }
+        if (problems.length > 0) return { success: false, message: `پیش‌فاکتور قابل تبدیل نیست: ${problems.join('، ')}` };
+
+        setState(prev => ({ ...prev, cart: items, convertingQuotationId: quotation.id }));
+        return {
+            success: true,
+            message: repricedCount > 0 ? `⚠️ قیمت ${repricedCount} قلم از زمان صدور پیش‌فاکتور تغییر کرده و به قیمت فعلی محاسبه شد.` : "پیش‌فاکتور در سبد خرید بارگذاری شد.",
+            customerId: quotation.customerId
+        };
+    };
+
+    const cancelQuotation = (id: string) => {
+        const quotation = state.quotations.find(q => q.id === id);
+        if (!quotation) return { success: false, message: "پیش‌فاکتور یافت نشد." };
+        if (quotation.status !== 'open') return { success: false, message: "این پیش‌فاکتور قبلاً تبدیل یا لغو شده است." };
+
+        api.updateQuotationStatus(id, 'cancelled').then(({ queued }) => {
+            addActivityLocal('sale', `پیش‌فاکتور #${id} را لغو کرد`, state.currentUser!.username);
+            setState(prev => ({
+                ...prev,
+                quotations: prev.quotations.map(q => q.id === id ? { ...q, status: 'cancelled' } : q),
+                convertingQuotationId: prev.convertingQuotationId === id ? null : prev.convertingQuotationId
+            }));
+            showToast(queued ? "📥 لغو پیش‌فاکتور به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ پیش‌فاکتور لغو شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در لغو پیش‌فاکتور."));
+        });
+
+        return { success: true, message: "در حال لغو..." };
+    };
+
+    // PARKED CARTS
+    // Other tills of the branch park carts too, so the list is reloaded when opened
+    const refreshParkedCarts = async () => {
+        try {
+            const parkedCarts = await api.getParkedCarts();
+            setState(prev => ({ ...prev, parkedCarts }));
+        } catch (error) {
+            console.error("Error fetching parked carts:", error);
+        }
+    };
+
+    const parkCart = (label: string, customerId?: string) => {
+        const user = state.currentUser?.username;
+        if (!user) return { success: false, message: "خطا: کاربر فعلی مشخص نیست." };
+        if (!state.activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+        if (state.cart.length === 0) return { success: false, message: "سبد خرید خالی است." };
+        if (state.editingSaleInvoiceId) return { success: false, message: "سبد فاکتوری که در حال ویرایش است قابل پارک نیست." };
+
+        const parkedAt = new Date().toISOString();
+        const parked: ParkedCart = {
+            id: crypto.randomUUID(),
+            branchId: state.activeBranchId,
+            label: label.trim() || `سبد ${new Date(parkedAt).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}`,
+            items: state.cart,
+            customerId: customerId || undefined,
+            parkedBy: user,
+            parkedAt
+        };
+
+        api.parkCart(parked).then(({ queued }) => {
+            setState(prev => ({ ...prev, cart: [], convertingQuotationId: null, pickingUpOrderId: null, parkedCarts: [parked, ...prev.parkedCarts] }));
+            showToast(queued ? "📥 سبد به صورت محلی پارک شد و پس از اتصال همگام‌سازی می‌شود." : `✅ سبد «${parked.label}» پارک شد.`);
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در پارک کردن سبد."));
+        });
+
+        return { success: true, message: "در حال پارک کردن سبد..." };
+    };
+
+    // The cart is loaded only after the server confirms nobody else recalled it
+    const recallParkedCart = (id: string) => {
+        const parked = state.parkedCarts.find(c => c.id === id);
+        if (!parked) return { success: false, message: "سبد پارک شده یافت نشد." };
+        if (state.cart.length > 0 || state.editingSaleInvoiceId) return { success: false, message: "ابتدا سبد فعلی را تکمیل یا پارک کنید." };
+
+        api.takeParkedCart(id).then(({ queued }) => {
+            setState(prev => ({
+                ...prev,
+                cart: repriceCart(prev, parked.items), // The rules may have started or ended since it was parked
+                parkedCarts: prev.parkedCarts.filter(c => c.id !== id)
+            }));
+            showToast(queued ? "📥 سبد به صورت محلی بارگذاری شد و پس از اتصال همگام‌سازی می‌شود." : `✅ سبد «${parked.label}» بارگذاری شد.`);
+        }).catch(err => {
+            console.error(err);
+            setState(prev => ({ ...prev, parkedCarts: prev.parkedCarts.filter(c => c.id !== id) }));
+            showToast(describeError(err, "❌ خطا در بارگذاری سبد پارک شده."));
+        });
+
+        return { success: true, message: "در حال بارگذاری سبد...", customerId: parked.customerId };
+    };
+
+    const discardParkedCart = (id: string) => {
+        const parked = state.parkedCarts.find(c => c.id === id);
+        if (!parked) return { success: false, message: "سبد پارک شده یافت نشد." };
+
+        api.takeParkedCart(id).then(({ queued }) => {
+            setState(prev => ({ ...prev, parkedCarts: prev.parkedCarts.filter(c => c.id !== id) }));
+            showToast(queued ? "📥 حذف سبد به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : `✅ سبد «${parked.label}» حذف شد.`);
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در حذف سبد پارک شده."));
+        });
+
+        return { success: true, message: "در حال حذف..." };
+    };
+
+    // CASH SHIFTS
+    const openShift = (openingFloat: number) => {
+        const cashier = state.currentUser?.username;
+        if (!cashier) return { success: false, message: "خطا: کاربر فعلی مشخص نیست." };
+        if (!state.activeBranchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+        if (openingFloat < 0) return { success: false, message: "موجودی اولیه صندوق نمی‌تواند منفی باشد." };
+        if (getOpenShift(state.cashShifts, cashier, state.activeBranchId)) return { success: false, message: "شیفت شما در این شعبه از قبل باز است." };
+
+        const shift: CashShift = {
+            id: crypto.randomUUID(),
+            branchId: state.activeBranchId,
+            cashier,
+            status: 'open',
+            openedAt: new Date().toISOString(),
+            openingFloat
+        };
+
+        api.openShift(shift).then(({ queued }) => {
+            addActivityLocal('sale', `شیفت صندوق را با موجودی اولیه ${formatCurrency(openingFloat, state.storeSettings)} باز کرد`, cashier);
+            setState(prev => ({ ...prev, cashShifts: [shift, ...prev.cashShifts] }));
+            showToast(queued ? "📥 شیفت به صورت محلی باز شد و پس از اتصال همگام‌سازی می‌شود." : "✅ شیفت صندوق باز شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در باز کردن شیفت."));
+        });
+
+        return { success: true, message: "در حال باز کردن شیفت..." };
+    };
+
+    const closeShift = (countedCash: number, note: string) => {
+        const cashier = state.currentUser?.username;
+        const current = getOpenShift(state.cashShifts, cashier, state.activeBranchId);
+        if (!cashier || !current) return { success: false, message: "شیفت بازی برای بستن وجود ندارد." };
+        if (countedCash < 0) return { success: false, message: "مبلغ شمارش شده نمی‌تواند منفی باشد." };
+
+        const closedAt = new Date().toISOString();
+        const summary = getShiftSummary({ ...current, closedAt }, state.saleInvoices, state.customerTransactions, state.expenses, state.cashMovements);
+        const shift: CashShift = {
+            ...current,
+            status: 'closed',
+            closedAt,
+            countedCash,
+            expectedCash: summary.expectedCash,
+            note: note.trim() || undefined
+        };
+        const difference = countedCash - summary.expectedCash;
+
+        api.closeShift(shift).then(({ queued }) => {
+            addActivityLocal('sale', `شیفت صندوق را بست (شمارش ${formatCurrency(countedCash, state.storeSettings)}، ${difference >= 0 ? 'اضافه' : 'کسری'} ${formatCurrency(Math.abs(difference), state.storeSettings)})`, cashier);
+            setState(prev => ({ ...prev, cashShifts: prev.cashShifts.map(s => s.id === shift.id ? shift : s) }));
+            showToast(queued ? "📥 بستن شیفت به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ شیفت صندوق بسته شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در بستن شیفت."));
+        });
+
+        return { success: true, message: "در حال بستن شیفت...", shift };
+    };
+
+    // A cash-out can also be booked as an expense; that expense carries no shift id
+    // because the movement already takes it out of the drawer
+    const addCashMovement = (type: CashMovement['type'], amount: number, reason: CashMovementReason, note: string, expenseCategory?: Expense['category']) => {
+        const user = state.currentUser?.username;
+        const shift = getOpenShift(state.cashShifts, user, state.activeBranchId);
+        if (!user || !shift) return { success: false, message: "ابتدا شیفت صندوق را باز کنید." };
+        if (!(amount > 0)) return { success: false, message: "مبلغ باید بیشتر از صفر باشد." };
+        if (expenseCategory && type !== 'out') return { success: false, message: "فقط برداشت از صندوق می‌تواند به عنوان هزینه ثبت شود." };
+
+        const timestamp = new Date().toISOString();
+        const description = note.trim() || CASH_MOVEMENT_REASONS[reason];
+        const expense: Expense | undefined = expenseCategory ? {
+            id: crypto.randomUUID(),
+            category: expenseCategory,
+            description,
+            amount,
+            date: timestamp,
+            branchId: shift.branchId
+        } : undefined;
+        const movement: CashMovement = {
+            id: crypto.randomUUID(),
+            shiftId: shift.id,
+            branchId: shift.branchId,
+            type,
+            amount,
+            reason,
+            note: note.trim() || undefined,
+            user,
+            timestamp,
+            expenseId: expense?.id
+        };
+
+        api.recordCashMovement(movement, expense).then(({ queued }) => {
+            addActivityLocal('sale', `${type === 'in' ? 'ورود وجه به صندوق' : 'برداشت از صندوق'} (${CASH_MOVEMENT_REASONS[reason]}): ${formatCurrency(amount, state.storeSettings)}`, user);
+            setState(prev => ({
+                ...prev,
+                cashMovements: [movement, ...prev.cashMovements],
+                expenses: expense ? [...prev.expenses, expense] : prev.expenses
+            }));
+            showToast(queued ? "📥 جابجایی وجه به صورت محلی ذخیره شد و پس از اتصال همگام‌سازی می‌شود." : "✅ جابجایی وجه صندوق ثبت شد.");
+        }).catch(err => {
+            console.error(err);
+            showToast(describeError(err, "❌ خطا در ثبت جابجایی وجه صندوق."));
+        });
+
+        return { success: true, message: "در حال ثبت..." };
+    };
+
+    // A sold voucher is paid in cash into the cashier's open shift; a manual one is given away
+    const issueVoucher = async (source: 'sale' | 'manual', amount: number, expiryDate?: string, customerId?: string, note?: string) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید. صدور کارت هدیه به اتصال اینترنت نیاز دارد.' };
+        const user = state.currentUser?.username;
+        const branchId = state.activeBranchId;
+        if (!user || !branchId) return { success: false, message: "ابتدا شعبه فعال را انتخاب کنید." };
+        if (!(amount > 0)) return { success: false, message: "مبلغ باید بیشتر از صفر باشد." };
+        const shift = getOpenShift(state.cashShifts, user, branchId);
+        if (source === 'sale' && !shift) return { success: false, message: "ابتدا شیفت صندوق را باز کنید." };
+
+        const timestamp = new Date().toISOString();
+        const voucher: Voucher = {
+            id: crypto.randomUUID(),
+            code: generateVoucherCode(),
+            issuedAmount: amount,
+            balance: amount,
+            expiryDate: expiryDate || undefined,
+            source,
+            customerId: customerId || undefined,
+            branchId,
+            issuedAt: timestamp,
+            issuedBy: user,
+            note: note?.trim() || undefined
+        };
+        const movement: CashMovement | undefined = source === 'sale' ? {
+            id: crypto.randomUUID(),
+            shiftId: shift!.id,
+            branchId,
+            type: 'in',
+            amount,
+            reason: 'voucher_sale',
+            note: voucher.code,
+            user,
+            timestamp
+        } : undefined;
+
+        try {
+            await api.issueVoucher(voucher, movement);
+            addActivityLocal('sale', `کارت هدیه ${voucher.code} به مبلغ ${formatCurrency(amount, state.storeSettings)} را ${source === 'sale' ? 'فروخت' : 'صادر کرد'}`, user);
+            setState(prev => ({
+                ...prev,
+                vouchers: [voucher, ...prev.vouchers],
+                voucherTransactions: [{ id: `${voucher.id}:issue`, voucherId: voucher.id, type: 'issue', amount, date: timestamp }, ...prev.voucherTransactions],
+                cashMovements: movement ? [movement, ...prev.cashMovements] : prev.cashMovements
+            }));
+            return { success: true, message: '✅ کارت هدیه صادر شد.', voucher };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در صدور کارت هدیه.') }; }
+    };
+
     // SETTINGS
     const updateSettings = (newSettings: StoreSettings) => {
         if (!checkOnline()) { showToast('⚠️ شما آفلاین هستید.'); return; }
         api.updateSettings(newSettings).then(() => {
             setState(prev => ({ ...prev, storeSettings: newSettings }));
             showToast("✅ تنظیمات ذخیره شد.");
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در ذخیره تنظیمات.")));
     };
 
     // SERVICES
     const addService = (service: any) => {
         if (!checkOnline()) { showToast('⚠️ شما آفلاین هستید.'); return; }
-        api.addService(service).then(newS => setState(prev => ({ ...prev, services: [...prev.services, newS] })));
+        api.addService(service).then(newS => setState(prev => ({ ...prev, services: [...prev.services, newS] })))
+            .catch(err => showToast(describeError(err, "❌ خطا در افزودن خدمت.")));
     };
     const deleteService = (id: string) => {
         if (!checkOnline()) { showToast('⚠️ شما آفلاین هستید.'); return; }
-        api.deleteService(id).then(() => setState(prev => ({ ...prev, services: prev.services.filter(s => s.id !== id) })));
+        api.deleteService(id).then(() => setState(prev => ({ ...prev, services: prev.services.filter(s => s.id !== id) })))
+            .catch(err => showToast(describeError(err, "❌ خطا در حذف خدمت.")));
+    };
+
+    const savePriceList = async (list: Omit<PriceList, 'id'> & { id?: string }) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
+        if (state.priceLists.some(l => l.id !== list.id && l.name.trim() === list.name.trim())) {
+            return { success: false, message: 'لیست قیمتی با این نام از قبل وجود دارد.' };
+        }
+        const priceList: PriceList = { ...list, id: list.id || crypto.randomUUID() };
+        try {
+            await api.savePriceList(priceList);
+            addActivityLocal('inventory', `لیست قیمت "${priceList.name}" را ${list.id ? 'ویرایش' : 'تعریف'} کرد`, state.currentUser!.username);
+            setState(prev => ({
+                ...prev,
+                priceLists: list.id ? prev.priceLists.map(l => l.id === priceList.id ? priceList : l) : [...prev.priceLists, priceList]
+            }));
+            return { success: true, message: '✅ لیست قیمت ذخیره شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در ذخیره لیست قیمت.') }; }
+    };
+
+    // Customers on the list go back to retail prices (price_list_id is set to null on the server)
+    const deletePriceList = async (priceListId: string) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
+        try {
+            const priceList = state.priceLists.find(l => l.id === priceListId);
+            await api.deletePriceList(priceListId);
+            addActivityLocal('inventory', `لیست قیمت "${priceList?.name}" را حذف کرد`, state.currentUser!.username);
+            setState(prev => ({
+                ...prev,
+                priceLists: prev.priceLists.filter(l => l.id !== priceListId),
+                customers: prev.customers.map(c => c.priceListId === priceListId ? { ...c, priceListId: undefined } : c)
+            }));
+            return { success: true, message: '✅ لیست قیمت حذف شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در حذف لیست قیمت.') }; }
+    };
+
+    const addPromotion = async (promotion: Omit<Promotion, 'id'>) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
+        try {
+            const newPromotion = await api.addPromotion(promotion);
+            addActivityLocal('inventory', `طرح تخفیف "${newPromotion.name}" را تعریف کرد`, state.currentUser!.username);
+            setState(prev => ({ ...prev, promotions: [...prev.promotions, newPromotion] }));
+            return { success: true, message: '✅ طرح تخفیف افزوده شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در افزودن طرح تخفیف.') }; }
+    };
+
+    const updatePromotion = async (promotion: Promotion) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
+        try {
+            await api.updatePromotion(promotion);
+            addActivityLocal('inventory', `طرح تخفیف "${promotion.name}" را ویرایش کرد`, state.currentUser!.username);
+            setState(prev => ({ ...prev, promotions: prev.promotions.map(p => p.id === promotion.id ? promotion : p) }));
+            return { success: true, message: '✅ طرح تخفیف بروزرسانی شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در بروزرسانی طرح تخفیف.') }; }
+    };
+
+    // Invoices keep the id of a deleted promotion; only the rule itself goes
+    const deletePromotion = async (promotionId: string) => {
+        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
+        try {
+            const promotion = state.promotions.find(p => p.id === promotionId);
+            await api.deletePromotion(promotionId);
+            addActivityLocal('inventory', `طرح تخفیف "${promotion?.name}" را حذف کرد`, state.currentUser!.username);
+            setState(prev => ({ ...prev, promotions: prev.promotions.filter(p => p.id !== promotionId) }));
+            return { success: true, message: '✅ طرح تخفیف حذف شد.' };
+        } catch (e) { return { success: false, message: describeError(e, '❌ خطا در حذف طرح تخفیف.') }; }
     };
 
     // ACCOUNTING
@@ -990,7 +2456,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 }
             }
             showToast("تامین کننده افزوده شد");
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در افزودن تامین کننده.")));
     };
 
     const deleteSupplier = async (id: string) => {
@@ -1001,7 +2467,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             showToast("✅ تامین کننده حذف شد.");
         } catch (e) {
             console.error(e);
-            showToast("❌ خطا: امکان حذف وجود ندارد (شاید تراکنش وابسته دارد).");
+            showToast(describeError(e, "❌ خطا: امکان حذف وجود ندارد (شاید تراکنش وابسته دارد)."));
         }
     };
 
@@ -1051,7 +2517,23 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 }
             }
             showToast("مشتری افزوده شد");
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در افزودن مشتری.")));
+    };
+
+    const setCustomerCreditLimit = (customerId: string, creditLimit?: number) => {
+        if (!checkOnline()) { showToast("⚠️ شما آفلاین هستید."); return; }
+        api.updateCustomerCreditLimit(customerId, creditLimit).then(() => {
+            setState(prev => ({ ...prev, customers: prev.customers.map(c => c.id === customerId ? { ...c, creditLimit } : c) }));
+            showToast("✅ سقف اعتبار ذخیره شد.");
+        }).catch(err => showToast(describeError(err, "❌ خطا در ذخیره سقف اعتبار.")));
+    };
+
+    const setCustomerPriceList = (customerId: string, priceListId?: string) => {
+        if (!checkOnline()) { showToast("⚠️ شما آفلاین هستید."); return; }
+        api.updateCustomerPriceList(customerId, priceListId).then(() => {
+            setState(prev => ({ ...prev, customers: prev.customers.map(c => c.id === customerId ? { ...c, priceListId } : c) }));
+            showToast("✅ لیست قیمت مشتری ذخیره شد.");
+        }).catch(err => showToast(describeError(err, "❌ خطا در ذخیره لیست قیمت مشتری.")));
     };
 
     const deleteCustomer = async (id: string) => {
@@ -1062,16 +2544,20 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             showToast("✅ مشتری حذف شد.");
         } catch (e) {
             console.error(e);
-            showToast("❌ خطا: امکان حذف وجود ندارد (شاید فاکتور وابسته دارد).");
+            showToast(describeError(e, "❌ خطا: امکان حذف وجود ندارد (شاید فاکتور وابسته دارد)."));
         }
     };
 
-    const addEmployee = (e: any) => api.addEmployee(e).then(newE => { setState(prev => ({...prev, employees: [...prev.employees, newE]})); showToast("کارمند افزوده شد"); });
-    const addExpense = (e: any) => api.addExpense(e).then(newE => { setState(prev => ({...prev, expenses: [...prev.expenses, newE]})); showToast("هزینه ثبت شد"); });
+    const addEmployee = (e: any) => api.addEmployee(e).then(newE => { setState(prev => ({...prev, employees: [...prev.employees, newE]})); showToast("کارمند افزوده شد"); })
+        .catch(err => showToast(describeError(err, "❌ خطا در افزودن کارمند.")));
+    const addExpense = (e: Omit<Expense, 'id' | 'branchId'>) => {
+        if (!state.activeBranchId) { showToast("ابتدا شعبه فعال را انتخاب کنید."); return; }
+        const shiftId = getOpenShift(state.cashShifts, state.currentUser?.username, state.activeBranchId)?.id;
+        api.addExpense({ ...e, branchId: state.activeBranchId, shiftId }).then(newE => { setState(prev => ({...prev, expenses: [...prev.expenses, newE]})); showToast("هزینه ثبت شد"); })
+            .catch(err => showToast(describeError(err, "❌ خطا در ثبت هزینه.")));
+    };
 
     const addSupplierPayment = (supplierId: string, amount: number, description: string, currency: 'AFN' | 'USD' = 'AFN', exchangeRate: number = 1) => {
-        if (!checkOnline()) { showToast('⚠️ شما آفلاین هستید.'); return {} as any; }
-        
         // Transaction stores the exact currency paid
         const transaction: SupplierTransaction = { 
             id: crypto.randomUUID(), 
@@ -1094,13 +2580,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 suppliers: prev.suppliers.map(s => s.id === supplierId ? {...s, balance: newBalance} : s),
                 supplierTransactions: [transaction, ...prev.supplierTransactions]
             }));
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در ثبت پرداخت.")));
         return transaction;
     };
 
     const addCustomerPayment = (customerId: string, amount: number, description: string) => {
-        if (!checkOnline()) { showToast('⚠️ شما آفلاین هستید.'); return {} as any; }
-        const transaction = { id: crypto.randomUUID(), customerId, type: 'payment' as const, amount, date: new Date().toISOString(), description };
+        // Cash received at a till goes into the drawer of the open shift
+        const shiftId = getOpenShift(state.cashShifts, state.currentUser?.username, state.activeBranchId)?.id;
+        const transaction = { id: crypto.randomUUID(), customerId, type: 'payment' as const, amount, date: new Date().toISOString(), description, shiftId };
         const customer = state.customers.find(c => c.id === customerId)!;
         const newBalance = customer.balance - amount;
         
@@ -1110,12 +2597,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 customers: prev.customers.map(c => c.id === customerId ? {...c, balance: newBalance} : c),
                 customerTransactions: [transaction, ...prev.customerTransactions]
             }));
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در ثبت دریافت.")));
         return transaction;
     };
 
     const addEmployeeAdvance = (employeeId: string, amount: number) => {
-        if (!checkOnline()) { showToast('⚠️ شما آفلاین هستید.'); return; }
         const transaction = { id: crypto.randomUUID(), employeeId, type: 'advance' as const, amount, date: new Date().toISOString(), description: 'مساعده' };
         const employee = state.employees.find(e => e.id === employeeId)!;
         const newBalance = employee.balance + amount;
@@ -1126,11 +2612,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 employees: prev.employees.map(e => e.id === employeeId ? {...e, balance: newBalance} : e),
                 payrollTransactions: [transaction, ...prev.payrollTransactions]
             }));
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در ثبت مساعده.")));
     };
 
     const processAndPaySalaries = () => {
-        if (!checkOnline()) return { success: false, message: '⚠️ شما آفلاین هستید.' };
         const { employees, storeSettings } = state;
         const newTransactions: PayrollTransaction[] = [];
         let totalPaid = 0;
@@ -1146,8 +2631,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         });
         
         if(totalPaid === 0) return { success: false, message: 'حقوقی برای پرداخت نیست.' };
+        if (!state.activeBranchId) return { success: false, message: 'ابتدا شعبه فعال را انتخاب کنید.' };
 
-        const expense: Expense = { id: crypto.randomUUID(), category: 'salary', description: 'حقوق ماهانه', amount: totalPaid, date: new Date().toISOString() };
+        const expense: Expense = { id: crypto.randomUUID(), category: 'salary', description: 'حقوق ماهانه', amount: totalPaid, date: new Date().toISOString(), branchId: state.activeBranchId };
 
         api.processPayroll(employeeUpdates, newTransactions, expense).then(() => {
              addActivityLocal('payroll', `پرداخت حقوق کل: ${formatCurrency(totalPaid, storeSettings)}`, state.currentUser!.username);
@@ -1158,23 +2644,37 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                  expenses: [expense, ...prev.expenses]
              }));
              showToast("✅ حقوق‌ها پرداخت شد.");
-        });
+        }).catch(err => showToast(describeError(err, "❌ خطا در پرداخت حقوق.")));
 
         return { success: true, message: 'در حال پردازش...' };
     };
 
 
+    const retrySync = async (id: number) => {
+        await retrySyncOperation(id);
+        fetchData();
+    };
+
     if (isLoading) {
         return <div className="flex items-center justify-center h-screen text-xl font-bold text-blue-600">در حال دریافت اطلاعات از سرور...</div>;
     }
 
     return <AppContext.Provider value={{
-        ...state, showToast, isLoading, login, logout, hasPermission, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole, exportData, importData,
-        addProduct, updateProduct, deleteProduct, addToCart, updateCartItemQuantity, updateCartItemFinalPrice, removeFromCart, completeSale,
-        beginEditSale, cancelEditSale, addSaleReturn, addPurchaseInvoice, beginEditPurchase, cancelEditPurchase, updatePurchaseInvoice, addPurchaseReturn,
-        updateSettings, addService, deleteService, addSupplier, deleteSupplier, addSupplierPayment, addCustomer, deleteCustomer, addCustomerPayment,
+        ...state, showToast, isLoading, isOnline, syncQueue, retrySyncOperation: retrySync, discardSyncOperation, login, logout, hasPermission, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole, exportData, importData,
+        allowedBranches, setActiveBranch, addBranch, updateBranch, deleteBranch,
+        addProduct, updateProduct, deleteProduct, addToCart, updateCartItemQuantity, updateCartItemFinalPrice, removeFromCart, setCartCustomer, completeSale, approveCreditOverride,
+        beginEditSale, cancelEditSale, voidSale, addSaleReturn, addPurchaseInvoice, beginEditPurchase, cancelEditPurchase, updatePurchaseInvoice, addPurchaseReturn,
+        sendStockTransfer, receiveStockTransfer, startStocktake, setStocktakeCount, cancelStocktake, postStocktake,
+        refreshStockMovements, adjustStock, placeCustomerOrder, addOrderDeposit, pickUpCustomerOrder, cancelCustomerOrder,
+        saveQuotation, convertQuotation, cancelQuotation,
+        refreshParkedCarts, parkCart, recallParkedCart, discardParkedCart,
+        openShift, closeShift, addCashMovement, issueVoucher,
+        updateSettings, addService, deleteService, savePriceList, deletePriceList, addPromotion, updatePromotion, deletePromotion, addSupplier, deleteSupplier, addSupplierPayment, addCustomer, deleteCustomer, setCustomerCreditLimit, setCustomerPriceList, addCustomerPayment,
         addEmployee, addEmployeeAdvance, processAndPaySalaries, addExpense, setInvoiceTransientCustomer
-    }}>{children}</AppContext.Provider>;
+    }}>
+        {children}
+        {toastMessage && <Toast message={toastMessage} onClose={hideToast} />}
+    </AppContext.Provider>;
 };
 
 export const useAppContext = (): AppContextType => {
@@ -3,6 +3,7 @@ import type { ActivityLog, SaleInvoice, PurchaseInvoice, Product } from '../type
 import { useAppContext } from '../AppContext';
 import { XIcon, POSIcon, PurchaseIcon, InventoryIcon } from './icons';
 import { formatCurrency, formatStockToPackagesAndUnits } from '../utils/formatters';
+import { getDocumentNumber } from '../utils/numbering';
 
 interface ActivityDetailModalProps {
     activity: ActivityLog;
@@ -20,7 +21,7 @@ const SaleInvoiceDetails: React.FC<{ invoice: SaleInvoice }> = ({ invoice }) =>
     const { storeSettings } = useAppContext();
     return (
         <div className="space-y-4">
-            <DetailRow label="شماره فاکتور" value={<span className="font-mono">{invoice.id}</span>} />
+            <DetailRow label="شماره فاکتور" value={<span className="font-mono">{getDocumentNumber(invoice)}</span>} />
             <DetailRow label="تاریخ" value={new Date(invoice.timestamp).toLocaleString('fa-IR')} />
             <DetailRow label="صندوق‌دار" value={invoice.cashier} />
             
@@ -50,7 +51,8 @@ const PurchaseInvoiceDetails: React.FC<{ invoice: PurchaseInvoice }> = ({ invoic
     const supplier = suppliers.find(s => s.id === invoice.supplierId);
     return (
         <div className="space-y-4">
-            <DetailRow label="شماره فاکتور" value={<span className="font-mono">{invoice.invoiceNumber || invoice.id}</span>} />
+            <DetailRow label="شماره سند" value={<span className="font-mono">{getDocumentNumber(invoice)}</span>} />
+            {invoice.invoiceNumber && <DetailRow label="شماره فاکتور تأمین کننده" value={<span className="font-mono">{invoice.invoiceNumber}</span>} />}
             <DetailRow label="تأمین کننده" value={supplier?.name || 'ناشناس'} />
             <DetailRow label="تاریخ" value={new Date(invoice.timestamp).toLocaleDateString('fa-IR')} />
             
@@ -0,0 +1,23 @@
+import React from 'react';
+import { useAppContext } from '../AppContext';
+import { ALL_BRANCHES } from '../utils/branches';
+
+interface BranchSelectorProps {
+    value: string;
+    onChange: (branchId: string) => void;
+}
+
+// Branch filter for reports; "all branches" shows the consolidated figures of every branch the user can see
+const BranchSelector: React.FC<BranchSelectorProps> = ({ value, onChange }) => {
+    const { allowedBranches } = useAppContext();
+    if (allowedBranches.length < 2) return null;
+
+    return (
+        <select value={value} onChange={e => onChange(e.target.value)} className="p-2 border rounded-lg bg-white/80 form-input text-sm font-semibold">
+            <option value={ALL_BRANCHES}>همه شعب</option>
+            {allowedBranches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+    );
+};
+
+export default BranchSelector;
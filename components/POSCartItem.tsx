@@ -89,6 +89,11 @@ const POSCartItem: React.FC<POSCartItemProps> = ({
                             </button>
                         )}
                     </div>
+                    {item.type === 'product' && item.promotionId && (
+                        <span className="self-start mt-1 text-[10px] md:text-xs font-bold px-1.5 py-0.5 rounded-full bg-green-100 text-green-800" title="طرح تخفیف خودکار">
+                            🏷️ {item.promotionName || 'طرح تخفیف'}
+                        </span>
+                    )}
                 </div>
 
                 {/* Right Side: Quantity, Delete, Edit (Mobile) */}
@@ -1,21 +1,41 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { SaleInvoice, StoreSettings, CartItem, InvoiceItem } from '../types';
+import type { SaleInvoice, Quotation, StoreSettings, CartItem, InvoiceItem } from '../types';
 import { XIcon, EditIcon, CheckIcon } from './icons';
 import { useAppContext } from '../AppContext';
 import { formatCurrency } from '../utils/formatters';
+import { PAYMENT_METHODS } from '../utils/payments';
+import { getSoldPrice } from '../utils/returns';
+import { getDocumentNumber } from '../utils/numbering';
+import { isVoided } from '../utils/revisions';
 
 
 interface PrintPreviewModalProps {
-    invoice: SaleInvoice;
+    invoice: SaleInvoice | Quotation; // A quotation prints as a pro-forma invoice
     onClose: () => void;
 }
 
+const isQuotation = (doc: SaleInvoice | Quotation): doc is Quotation => 'validUntil' in doc;
+
 const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose }) => {
-    const { storeSettings, customers, setInvoiceTransientCustomer } = useAppContext();
+    const { storeSettings, customers, saleInvoices, setInvoiceTransientCustomer } = useAppContext();
     const [customCustomerName, setCustomCustomerName] = useState('');
     const [isEditingName, setIsEditingName] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
+    const quotation = isQuotation(invoice) ? invoice : undefined;
+    const sale = isQuotation(invoice) ? undefined : invoice;
+    const loyaltyCustomer = sale && (storeSettings.loyalty.enabled || sale.pointsEarned || sale.pointsRedeemed)
+        ? customers.find(c => c.id === sale.customerId)
+        : undefined;
+    // An exchange prints as one receipt: the new goods, and the returned goods that paid for them
+    const exchangeReturn = sale?.exchangeId && sale.type === 'sale'
+        ? saleInvoices.find(i => i.type === 'return' && i.exchangeId === sale.exchangeId)
+        : undefined;
+    const exchangeOriginal = exchangeReturn && saleInvoices.find(i => i.id === exchangeReturn.originalInvoiceId);
+    // A receipt opened as the sale is saved shows the number once the server has given it
+    const storedSale = sale && (saleInvoices.find(i => i.id === sale.id) || sale);
+    const documentNumber = quotation ? quotation.id : getDocumentNumber(storedSale!);
+    const exchangeRefunds = (exchangeReturn?.payments || []).filter(p => p.method !== 'exchange' && p.amount > 0);
 
     // Initialize name from registered customer if exists, OR from stored originalInvoiceId if type is 'sale'
     useEffect(() => {
@@ -27,8 +47,10 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                 // Fallback if customer was deleted but ID remains on invoice
                 setCustomCustomerName('مشتری حذف شده');
             }
-        } else if (invoice.type === 'sale') {
-            setCustomCustomerName(invoice.originalInvoiceId || '');
+        } else if (quotation) {
+            setCustomCustomerName(quotation.customerName || '');
+        } else if (sale?.type === 'sale') {
+            setCustomCustomerName(sale.originalInvoiceId || '');
         }
     }, [invoice, customers]);
 
@@ -41,13 +63,13 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
 
     const saveCustomerName = async () => {
         // Only save for transient customers (no customerId) on sale invoices
-        if (!invoice.customerId && invoice.type === 'sale') {
+        if (sale && !sale.customerId && sale.type === 'sale') {
             const nameToSave = customCustomerName.trim();
-            const currentSavedName = invoice.originalInvoiceId || '';
+            const currentSavedName = sale.originalInvoiceId || '';
             
             // Save only if the name has changed
             if (nameToSave !== currentSavedName) {
-                await setInvoiceTransientCustomer(invoice.id, nameToSave);
+                await setInvoiceTransientCustomer(sale.id, nameToSave);
             }
         }
     };
@@ -130,7 +152,12 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                         <h1 className="text-xl print:text-3xl font-extrabold text-blue-600">{storeSettings.storeName}</h1>
                         <p className="text-xs print:text-sm text-slate-500">{storeSettings.address}</p>
                         <p className="text-xs print:text-sm text-slate-500">تلفن: {storeSettings.phone}</p>
-                        <p className="text-sm print:text-lg text-slate-800 mt-1 print:mt-2 font-bold bg-slate-100 inline-block px-4 py-1 rounded-full border">فاکتور فروش</p>
+                        <p className="text-sm print:text-lg text-slate-800 mt-1 print:mt-2 font-bold bg-slate-100 inline-block px-4 py-1 rounded-full border">{quotation ? 'پیش‌فاکتور' : exchangeReturn ? 'فاکتور تعویض کالا' : 'فاکتور فروش'}</p>
+                        {storedSale && isVoided(storedSale) && (
+                            <p className="text-sm print:text-lg text-red-700 mt-2 font-bold border-2 border-red-600 rounded-lg px-3 py-1">
+                                باطل شده{storedSale.voidedAt ? ` در ${new Date(storedSale.voidedAt).toLocaleDateString('fa-IR')}` : ''}{storedSale.voidedBy ? ` توسط ${storedSale.voidedBy}` : ''} - دلیل: {storedSale.voidReason}
+                            </p>
+                        )}
                     </div>
                     
                     <div className="flex justify-between text-xs print:text-sm mb-2 print:mb-4 bg-slate-50 p-2 print:p-3 rounded-lg border">
@@ -166,12 +193,14 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                                     </div>
                                 )}
                             </div>
-                            <p><strong>شماره فاکتور:</strong> <span className="font-mono font-bold">{invoice.id}</span></p>
+                            <p><strong>{quotation ? 'شماره پیش‌فاکتور:' : 'شماره فاکتور:'}</strong> <span className="font-mono font-bold">{documentNumber}</span></p>
+                            {exchangeReturn && <p><strong>مرجوعی از فاکتور:</strong> <span className="font-mono font-bold">{exchangeOriginal ? getDocumentNumber(exchangeOriginal) : exchangeReturn.originalInvoiceId}</span></p>}
                             <p><strong>فروشنده:</strong> {invoice.cashier}</p>
                         </div>
                         <div className="text-left space-y-0.5 print:space-y-1">
                             <p><strong>تاریخ:</strong> {new Date(invoice.timestamp).toLocaleDateString('fa-IR')}</p>
                             <p><strong>ساعت:</strong> {new Date(invoice.timestamp).toLocaleTimeString('fa-IR')}</p>
+                            {quotation && <p><strong>معتبر تا:</strong> <span className="font-bold">{new Date(`${quotation.validUntil}T00:00:00`).toLocaleDateString('fa-IR')}</span></p>}
                         </div>
                     </div>
 
@@ -243,6 +272,28 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                                 })}
                             </tbody>
                         </table>
+                        {exchangeReturn && (
+                            <table className="min-w-full text-xs print:text-sm border-collapse mt-2">
+                                <thead className="bg-orange-50">
+                                    <tr>
+                                        <th className="p-1 print:p-2 text-right font-bold border border-slate-400">کالاهای مرجوعی</th>
+                                        <th className="p-1 print:p-2 text-center font-bold border border-slate-400 w-16 print:w-20">تعداد</th>
+                                        <th className="p-1 print:p-2 text-center font-bold border border-slate-400 w-16 print:w-20">فی</th>
+                                        <th className="p-1 print:p-2 text-center font-bold border border-slate-400 w-20 print:w-24">قیمت کل</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {exchangeReturn.items.map(item => (
+                                        <tr key={`${item.id}-${item.type}`} className="border-b border-slate-300">
+                                            <td className="p-1 print:p-2 text-right border border-slate-300 font-semibold text-slate-800">{item.name}</td>
+                                            <td className="p-1 print:p-2 text-center border border-slate-300">{item.quantity.toLocaleString('fa-IR')}</td>
+                                            <td className="p-1 print:p-2 text-center border border-slate-300">{getSoldPrice(item).toLocaleString('fa-IR', { maximumFractionDigits: 3 })}</td>
+                                            <td className="p-1 print:p-2 text-center border border-slate-300 font-bold">{(getSoldPrice(item) * item.quantity).toLocaleString('fa-IR', { maximumFractionDigits: 3 })}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
                     </div>
                     <div className="mt-2 pt-2 print:mt-4 text-left space-y-1 text-sm">
                         {/* We hide the Subtotal/Discount rows if the discount is negative (surcharge), 
@@ -264,6 +315,65 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({ invoice, onClose
                             <span>مبلغ نهایی:</span>
                             <span className="text-blue-700">{formatCurrency(invoice.totalAmount, storeSettings)}</span>
                         </div>
+                        {sale?.payments && sale.payments.length > 0 && (
+                            <div className="pt-1 px-2 space-y-0.5 text-slate-600">
+                                {sale.payments.map((p, index) => (
+                                    <div key={index} className="flex justify-between">
+                                        <span>{PAYMENT_METHODS[p.method]}{p.provider ? ` (${p.provider})` : ''}{p.method === 'voucher' && p.reference ? ` (${p.reference})` : ''}:</span>
+                                        <span>
+                                            {p.method === 'cash_usd' && p.foreignAmount ? `$${p.foreignAmount} × ${p.exchangeRate} = ` : ''}
+                                            {formatCurrency(p.amount, storeSettings)}
+                                        </span>
+                                    </div>
+                                ))}
+                                {(sale.changeAmount || 0) > 0 && (
+                                    <div className="flex justify-between font-semibold text-slate-800">
+                                        <span>باقی پول:</span>
+                                        <span>{formatCurrency(sale.changeAmount!, storeSettings)}</span>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {exchangeReturn && (
+                            <div className="pt-1 mt-1 px-2 border-t border-dashed space-y-0.5 text-slate-600">
+                                <div className="flex justify-between font-semibold text-slate-800">
+                                    <span>ارزش کالاهای مرجوعی:</span>
+                                    <span>{formatCurrency(exchangeReturn.totalAmount, storeSettings)}</span>
+                                </div>
+                                {exchangeRefunds.map((p, index) => (
+                                    <div key={index} className="flex justify-between">
+                                        <span>بازپرداخت {PAYMENT_METHODS[p.method]}{p.method === 'voucher' && p.reference ? ` (${p.reference})` : ''}:</span>
+                                        <span>{formatCurrency(p.amount, storeSettings)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {sale && loyaltyCustomer && (
+                            <div className="pt-1 mt-1 px-2 border-t border-dashed space-y-0.5 text-slate-600">
+                                {(sale.pointsEarned || 0) > 0 && (
+                                    <div className="flex justify-between">
+                                        <span>{sale.type === 'return' ? 'امتیاز کسر شده:' : 'امتیاز این خرید:'}</span>
+                                        <span>{sale.type === 'return' ? '-' : '+'}{sale.pointsEarned!.toLocaleString()}</span>
+                                    </div>
+                                )}
+                                {(sale.pointsRedeemed || 0) > 0 && (
+                                    <div className="flex justify-between">
+                                        <span>{sale.type === 'return' ? 'امتیاز برگشتی:' : 'امتیاز استفاده شده:'}</span>
+                                        <span>{sale.type === 'return' ? '+' : '-'}{sale.pointsRedeemed!.toLocaleString()}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-between font-semibold text-slate-800">
+                                    <span>مانده امتیاز باشگاه مشتریان:</span>
+                                    <span>{loyaltyCustomer.loyaltyPoints.toLocaleString()}</span>
+                                </div>
+                            </div>
+                        )}
+                        {quotation && (
+                            <div className="pt-1 px-2 text-xs text-slate-600 space-y-0.5">
+                                {quotation.note && <p>{quotation.note}</p>}
+                                <p>این پیش‌فاکتور موجودی رزرو نمی‌کند؛ قیمت و موجودی هنگام خرید دوباره بررسی می‌شود.</p>
+                            </div>
+                        )}
                     </div>
                 </div>
                 <div className="flex justify-between items-center mt-4 print:mt-6 pt-2 print:pt-4 border-t no-print">
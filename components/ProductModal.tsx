@@ -6,13 +6,14 @@ import { parseToPackageAndUnits, parseToTotalUnits } from '../utils/formatters';
 
 
 type ProductFormData = Omit<Product, 'id' | 'batches'>;
-type FirstBatchData = Omit<ProductBatch, 'id'>;
+type FirstBatchData = Omit<ProductBatch, 'id' | 'branchId'>;
 
 type FormState = {
     id?: string;
     name: string;
     salePrice: string;
     itemsPerPackage: string;
+    packagePrice: string;
     barcode: string;
     manufacturer: string;
     // Batch fields
@@ -99,6 +100,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
             name: p?.name || '',
             salePrice: p?.salePrice?.toString() || '',
             itemsPerPackage: p?.itemsPerPackage?.toString() || '1',
+            packagePrice: p?.packagePrice?.toString() || '',
             barcode: p?.barcode || '',
             manufacturer: p?.manufacturer || '',
             purchasePrice: firstBatch?.purchasePrice?.toString() || '',
@@ -120,7 +122,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
     const recognitionRef = useRef<SpeechRecognition | null>(null);
     const activeFieldRef = useRef<HTMLInputElement | null>(null);
 
-    const numericFields = ['purchasePrice', 'salePrice', 'itemsPerPackage', 'lotNumber', 'stockPackages', 'stockUnits'];
+    const numericFields = ['purchasePrice', 'salePrice', 'itemsPerPackage', 'packagePrice', 'lotNumber', 'stockPackages', 'stockUnits'];
     
     useEffect(() => {
         const itemsPerPack = Number(formData.itemsPerPackage) || 1;
@@ -233,8 +235,8 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
         if (['itemsPerPackage', 'lotNumber'].includes(name)) {
             processedValue = value.replace(/[^0-9]/g, '');
         }
-        // DECIMALS ALLOWED: purchasePrice, salePrice
-        else if (['purchasePrice', 'salePrice'].includes(name)) {
+        // DECIMALS ALLOWED: purchasePrice, salePrice, packagePrice
+        else if (['purchasePrice', 'salePrice', 'packagePrice'].includes(name)) {
             // Allow digits and dot, remove others
             processedValue = value.replace(/[^0-9.]/g, '');
             
@@ -265,6 +267,13 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
         if (!formData.name.trim()) newErrors.name = "نام محصول اجباری است";
         if (!formData.purchasePrice || Number(formData.purchasePrice) <= 0) newErrors.purchasePrice = "قیمت خرید باید بزرگتر از صفر باشد";
         if (!formData.salePrice || Number(formData.salePrice) <= 0) newErrors.salePrice = "قیمت فروش باید بزرگتر از صفر باشد";
+        // A package price is a discount for buying the whole package
+        const itemsPerPack = Number(formData.itemsPerPackage) || 1;
+        if (formData.packagePrice && itemsPerPack > 1) {
+            const packagePrice = Number(formData.packagePrice);
+            if (packagePrice <= 0) newErrors.packagePrice = "قیمت بسته باید بزرگتر از صفر باشد";
+            else if (packagePrice >= itemsPerPack * Number(formData.salePrice)) newErrors.packagePrice = "قیمت بسته باید کمتر از قیمت فروش تک‌تک اقلام آن باشد";
+        }
         if (formData.stock < 0) newErrors.stock = "موجودی نمی‌تواند منفی باشد";
         if (!formData.lotNumber.trim()) newErrors.lotNumber = "شماره لات اجباری است";
         
@@ -290,6 +299,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
                 // Changed: Removed Math.round to allow decimals
                 salePrice: Number(formData.salePrice), 
                 itemsPerPackage: formData.itemsPerPackage ? Number(formData.itemsPerPackage) : 1,
+                packagePrice: formData.packagePrice && Number(formData.itemsPerPackage) > 1 ? Number(formData.packagePrice) : undefined,
                 barcode: formData.barcode?.trim() || undefined,
                 manufacturer: formData.manufacturer?.trim() || undefined,
             };
@@ -432,6 +442,7 @@ const ProductModal: React.FC<ProductModalProps> = ({ product, onClose, onSave })
                             <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-5">
                                 <FormInput label="کد محصول (بارکد)" id="barcode" name="barcode" type="text" value={formData.barcode} onChange={handleInputChange} onInput={handleInputChange} placeholder="اسکن یا وارد کنید" onKeyDown={handleKeyDown} />
                                 <FormInput label="شرکت سازنده" id="manufacturer" name="manufacturer" type="text" value={formData.manufacturer} onChange={handleInputChange} onInput={handleInputChange} onKeyDown={handleKeyDown} />
+                                <FormInput label="قیمت فروش بسته کامل (اختیاری)" id="packagePrice" name="packagePrice" type="text" inputMode="decimal" value={formData.packagePrice} onChange={handleInputChange} onInput={handleInputChange} placeholder="خالی = تعداد در بسته × قیمت فروش" error={errors.packagePrice} onKeyDown={handleKeyDown} disabled={Number(formData.itemsPerPackage) <= 1} />
                                 <FormInput label="تاریخ انقضا (اولیه)" id="expiryDate" name="expiryDate" type="date" value={formData.expiryDate} onChange={handleInputChange} onInput={handleInputChange} onKeyDown={handleKeyDown} error={errors.expiryDate} disabled={!!product}/>
                             </div>
                         )}
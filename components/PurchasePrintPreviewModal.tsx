@@ -4,6 +4,7 @@ import type { PurchaseInvoice, Supplier } from '../types';
 import { XIcon } from './icons';
 import { useAppContext } from '../AppContext';
 import { formatCurrency } from '../utils/formatters';
+import { getDocumentNumber } from '../utils/numbering';
 
 interface PurchasePrintPreviewModalProps {
     invoice: PurchaseInvoice;
@@ -30,7 +31,8 @@ const PurchasePrintPreviewModal: React.FC<PurchasePrintPreviewModalProps> = ({ i
                     </div>
                     <div className="flex justify-between text-md mb-6">
                         <div>
-                            <p><strong>شماره فاکتور:</strong> <span className="font-mono">{invoice.invoiceNumber || invoice.id}</span></p>
+                            <p><strong>شماره سند:</strong> <span className="font-mono">{getDocumentNumber(invoice)}</span></p>
+                            {invoice.invoiceNumber && <p><strong>شماره فاکتور تأمین کننده:</strong> <span className="font-mono">{invoice.invoiceNumber}</span></p>}
                             <p><strong>تأمین کننده:</strong> {supplier?.name || 'تأمین کننده حذف شده'}</p>
                         </div>
                         <div className="text-left">
@@ -13,7 +13,7 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, storeName, accessiblePages, isMobileOpen, setIsMobileOpen }) => {
-  const { logout, currentUser } = useAppContext();
+  const { logout, currentUser, allowedBranches, activeBranchId, setActiveBranch } = useAppContext();
   const [isCollapsed, setIsCollapsed] = useState(false);
   
   const navItems = [
@@ -81,6 +81,13 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, storeName,
           {!isCollapsed && (
               <div className="p-2 mb-2 text-center bg-slate-100/70 rounded-lg">
                   <p className="font-bold text-slate-800 truncate">{currentUser?.username}</p>
+                  {allowedBranches.length > 1 && (
+                      <select value={activeBranchId || ''} onChange={e => setActiveBranch(e.target.value)} className="w-full mt-2 p-1 text-sm border rounded bg-white" title="شعبه فعال">
+                          {!activeBranchId && <option value="">-- انتخاب شعبه --</option>}
+                          {allowedBranches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                      </select>
+                  )}
+                  {allowedBranches.length === 1 && <p className="text-xs text-slate-500 truncate mt-1">{allowedBranches[0].name}</p>}
               </div>
           )}
           <button
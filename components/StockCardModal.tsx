@@ -0,0 +1,152 @@
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import type { Product } from '../types';
+import { XIcon, PrintIcon } from './icons';
+import { useAppContext } from '../AppContext';
+import { formatCurrency, formatStockToPackagesAndUnits } from '../utils/formatters';
+import { ALL_BRANCHES, getBranchStock } from '../utils/branches';
+import { buildStockCard } from '../utils/stockCard';
+import DateRangeFilter from './DateRangeFilter';
+import BranchSelector from './BranchSelector';
+import ReportPrintPreviewModal from './ReportPrintPreviewModal';
+
+interface StockCardModalProps {
+    product: Product;
+    onClose: () => void;
+}
+
+const StockCardModal: React.FC<StockCardModalProps> = ({ product, onClose }) => {
+    const { saleInvoices, purchaseInvoices, stockMovements, refreshStockMovements, storeSettings, activeBranchId } = useAppContext();
+    const [branchId, setBranchId] = useState<string>(activeBranchId || ALL_BRANCHES);
+    const [dateRange, setDateRange] = useState<{ start: Date, end: Date }>({ start: new Date(), end: new Date() });
+    const [isPrintPreviewOpen, setIsPrintPreviewOpen] = useState(false);
+    const handleFilterChange = useCallback((start: Date, end: Date) => setDateRange({ start, end }), []);
+
+    // Transfers and stocktakes of other devices only reach this device through the ledger
+    useEffect(() => {
+        refreshStockMovements();
+    }, []);
+
+    const card = useMemo(
+        () => buildStockCard(product, saleInvoices, purchaseInvoices, stockMovements, branchId),
+        [product, saleInvoices, purchaseInvoices, stockMovements, branchId]
+    );
+
+    // Entries before the range are carried over as the opening balance
+    const { openingBalance, entries } = useMemo(() => {
+        const startTime = dateRange.start.getTime();
+        const endTime = dateRange.end.getTime();
+        const before = card.filter(e => new Date(e.timestamp).getTime() < startTime);
+        return {
+            openingBalance: before.length > 0 ? before[before.length - 1].balance : 0,
+            entries: card.filter(e => {
+                const time = new Date(e.timestamp).getTime();
+                return time >= startTime && time <= endTime;
+            })
+        };
+    }, [card, dateRange]);
+
+    const closingBalance = card.length > 0 ? card[card.length - 1].balance : 0;
+    const currentStock = getBranchStock(product, branchId);
+    const formatQuantity = (quantity: number) => formatStockToPackagesAndUnits(quantity, product.itemsPerPackage);
+
+    const cardTable = (
+        <table className="min-w-full text-center responsive-table border-collapse">
+            <thead className="bg-slate-100 sticky top-0 z-10 shadow-sm">
+                <tr>
+                    <th className="p-3 font-bold text-slate-700 border-b">تاریخ</th>
+                    <th className="p-3 font-bold text-slate-700 border-b">شرح</th>
+                    <th className="p-3 font-bold text-slate-700 border-b">سند</th>
+                    <th className="p-3 font-bold text-slate-700 border-b">وارده</th>
+                    <th className="p-3 font-bold text-slate-700 border-b">صادره</th>
+                    <th className="p-3 font-bold text-slate-700 border-b">قیمت واحد</th>
+                    <th className="p-3 font-bold text-slate-700 border-b">مانده</th>
+                </tr>
+            </thead>
+            <tbody className="bg-white">
+                <tr className="border-b bg-slate-50">
+                    <td data-label="تاریخ" className="p-3 text-slate-600">{dateRange.start.toLocaleDateString('fa-IR')}</td>
+                    <td data-label="شرح" className="p-3 text-slate-800 font-semibold">مانده از قبل</td>
+                    <td className="p-3">-</td>
+                    <td className="p-3">-</td>
+                    <td className="p-3">-</td>
+                    <td className="p-3">-</td>
+                    <td data-label="مانده" className="p-3 font-bold">{formatQuantity(openingBalance)}</td>
+                </tr>
+                {entries.map(e => (
+                    <tr key={e.id} className="hover:bg-blue-50 transition-colors border-b last:border-0">
+                        <td data-label="تاریخ" className="p-3 text-slate-600">{new Date(e.timestamp).toLocaleDateString('fa-IR')}</td>
+                        <td data-label="شرح" className="p-3 text-slate-800 font-semibold">{e.description}</td>
+                        <td data-label="سند" className="p-3 font-mono">{e.refId || '-'}</td>
+                        <td data-label="وارده" className="p-3 text-green-600">{e.quantityIn > 0 ? formatQuantity(e.quantityIn) : '-'}</td>
+                        <td data-label="صادره" className="p-3 text-red-600">{e.quantityOut > 0 ? formatQuantity(e.quantityOut) : '-'}</td>
+                        <td data-label="قیمت واحد" className="p-3">{formatCurrency(e.unitCost, storeSettings)}</td>
+                        <td data-label="مانده" className="p-3 font-bold">{formatQuantity(e.balance)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    return (
+        <>
+            <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[100] p-4 modal-animate">
+                <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full h-[90vh] md:max-w-5xl md:h-[85vh] flex flex-col overflow-hidden">
+                    {/* Header */}
+                    <div className="flex flex-shrink-0 justify-between items-center p-5 border-b border-gray-200 bg-slate-50">
+                        <div>
+                            <h2 className="text-xl md:text-2xl font-bold text-slate-800">کارت کالا: {product.name}</h2>
+                            <p className="text-md text-slate-600 mt-1">
+                                موجودی فعلی: <span className="font-bold text-lg">{formatQuantity(currentStock)}</span>
+                                {closingBalance !== currentStock && (
+                                    <span className="text-sm text-amber-600 mr-3">(مانده کارت {formatQuantity(closingBalance)}؛ اسناد قبل از راه‌اندازی دفتر گردش کامل نیستند)</span>
+                                )}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <button onClick={() => setIsPrintPreviewOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors font-semibold">
+                                <PrintIcon className="w-5 h-5" />
+                                <span className="hidden md:inline">چاپ کارت</span>
+                            </button>
+                            <button onClick={onClose} className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-600 transition-colors">
+                                <XIcon className="w-6 h-6" />
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Filters */}
+                    <div className="flex-shrink-0 p-4 bg-white border-b border-gray-100 flex flex-wrap items-center justify-between gap-4">
+                        <DateRangeFilter onFilterChange={handleFilterChange} />
+                        <BranchSelector value={branchId} onChange={setBranchId} />
+                    </div>
+
+                    {/* Table Content */}
+                    <div className="flex-grow overflow-y-auto p-0 bg-slate-50">
+                        <div className="bg-white shadow-sm min-h-full">
+                            {cardTable}
+                            {entries.length === 0 && (
+                                <div className="flex flex-col items-center justify-center py-20 text-slate-400">
+                                    <p className="text-lg">در بازه زمانی انتخاب شده، گردشی یافت نشد.</p>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {isPrintPreviewOpen && (
+                <ReportPrintPreviewModal
+                    title={`کارت کالا ${product.name}`}
+                    dateRange={dateRange}
+                    onClose={() => setIsPrintPreviewOpen(false)}
+                >
+                    {cardTable}
+                    <div className="mt-6 pt-4 border-t text-left font-bold text-xl">
+                        مانده پایان دوره: {formatQuantity(entries.length > 0 ? entries[entries.length - 1].balance : openingBalance)}
+                    </div>
+                </ReportPrintPreviewModal>
+            )}
+        </>
+    );
+};
+
+export default StockCardModal;
@@ -0,0 +1,95 @@
+
+import React, { useState } from 'react';
+import { useAppContext } from '../AppContext';
+import { XIcon, WarningIcon, TrashIcon } from './icons';
+
+const SyncStatusIndicator: React.FC = () => {
+    const { isOnline, syncQueue, retrySyncOperation, discardSyncOperation } = useAppContext();
+    const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+    const pendingCount = syncQueue.filter(op => op.status === 'pending').length;
+    const conflicts = syncQueue.filter(op => op.status === 'conflict');
+
+    if (isOnline && syncQueue.length === 0) return null;
+
+    const handleDiscard = (id: number) => {
+        if (window.confirm('این عملیات هرگز به سرور ارسال نخواهد شد. آیا اطمینان دارید؟')) {
+            discardSyncOperation(id);
+        }
+    };
+
+    let label = '';
+    let colorClasses = '';
+    if (conflicts.length > 0) {
+        label = `${conflicts.length} عملیات ناموفق`;
+        colorClasses = 'bg-red-600 text-white';
+    } else if (!isOnline) {
+        label = pendingCount > 0 ? `آفلاین — ${pendingCount} عملیات در صف` : 'آفلاین';
+        colorClasses = 'bg-amber-500 text-white';
+    } else {
+        label = `در حال همگام‌سازی ${pendingCount} عملیات...`;
+        colorClasses = 'bg-blue-600 text-white';
+    }
+
+    return (
+        <>
+            <button
+                onClick={() => setIsPanelOpen(true)}
+                className={`fixed top-2 left-2 md:top-4 md:left-4 z-40 flex items-center gap-2 px-3 py-1.5 rounded-full shadow-lg text-sm font-semibold ${colorClasses}`}
+            >
+                {(conflicts.length > 0 || !isOnline) && <WarningIcon className="w-4 h-4" />}
+                <span>{label}</span>
+            </button>
+
+            {isPanelOpen && (
+                <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[100] p-4 modal-animate">
+                    <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+                        <div className="flex justify-between items-center p-5 border-b border-gray-200 bg-slate-50">
+                            <div>
+                                <h2 className="text-xl font-bold text-slate-800">صف همگام‌سازی</h2>
+                                <p className="text-sm text-slate-500 mt-1">
+                                    {isOnline ? 'متصل به سرور' : 'آفلاین — عملیات پس از اتصال به ترتیب ارسال می‌شوند.'}
+                                </p>
+                            </div>
+                            <button onClick={() => setIsPanelOpen(false)} className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-red-100 hover:text-red-600 transition-colors">
+                                <XIcon className="w-6 h-6" />
+                            </button>
+                        </div>
+                        <div className="flex-grow overflow-y-auto p-4 space-y-3">
+                            {syncQueue.length === 0 && (
+                                <p className="text-center text-slate-500 py-10">همه عملیات همگام‌سازی شده‌اند.</p>
+                            )}
+                            {syncQueue.map(op => (
+                                <div key={op.id} className={`p-3 rounded-lg border ${op.status === 'conflict' ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-white'}`}>
+                                    <div className="flex justify-between items-start gap-3">
+                                        <div>
+                                            <p className="font-semibold text-slate-800">{op.label}</p>
+                                            <p className="text-xs text-slate-500 mt-1">{new Date(op.createdAt).toLocaleString('fa-IR')}</p>
+                                            {op.status === 'conflict' && (
+                                                <p className="text-sm text-red-700 mt-2" dir="auto">{op.error}</p>
+                                            )}
+                                        </div>
+                                        {op.status === 'conflict' ? (
+                                            <div className="flex items-center gap-2 flex-shrink-0">
+                                                <button onClick={() => retrySyncOperation(op.id!)} disabled={!isOnline} className="px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300">
+                                                    تلاش مجدد
+                                                </button>
+                                                <button onClick={() => handleDiscard(op.id!)} className="p-2 rounded-full text-red-500 hover:bg-red-100">
+                                                    <TrashIcon className="w-5 h-5" />
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <span className="text-xs font-semibold text-amber-700 bg-amber-100 px-2 py-1 rounded-full flex-shrink-0">در صف</span>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default SyncStatusIndicator;
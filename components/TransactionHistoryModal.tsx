@@ -83,9 +83,9 @@ const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({ perso
                         else if (t.type === 'payment') credit = t.amount;
                         else if (t.type === 'purchase_return') credit = t.amount;
                     } else if (type === 'customer') {
-                        if (t.type === 'credit_sale') debit = t.amount;
+                        if (t.type === 'credit_sale' || t.type === 'deposit_refund' || t.type === 'payment_reversal') debit = t.amount;
                         else if (t.type === 'payment') credit = t.amount;
-                        else if (t.type === 'sale_return') credit = t.amount;
+                        else if (t.type === 'sale_return' || t.type === 'credit_sale_reversal') credit = t.amount;
                     } else if (type === 'employee') {
                         const payrollTx = t as PayrollTransaction;
                         if (payrollTx.type === 'advance' || payrollTx.type === 'salary_payment') {
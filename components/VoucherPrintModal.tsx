@@ -0,0 +1,62 @@
+import React from 'react';
+import type { Voucher } from '../types';
+import { XIcon } from './icons';
+import { useAppContext } from '../AppContext';
+import { formatCurrency, numberToPersianWords } from '../utils/formatters';
+import { VOUCHER_SOURCES } from '../utils/vouchers';
+
+interface VoucherPrintModalProps {
+    voucher: Voucher;
+    onClose: () => void;
+}
+
+// The printed voucher the customer keeps; the code is what the till asks for
+const VoucherPrintModal: React.FC<VoucherPrintModalProps> = ({ voucher, onClose }) => {
+    const { storeSettings, customers } = useAppContext();
+    const customer = customers.find(c => c.id === voucher.customerId);
+
+    const handlePrint = () => {
+        window.print();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[100] p-4">
+            <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-lg max-h-[95vh] flex flex-col overflow-hidden">
+                <div className="flex justify-end no-print">
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <div id="print-modal-content" className="text-gray-900 font-sans flex-grow overflow-y-auto">
+                    <div className="border-2 border-dashed border-slate-400 rounded-xl p-6 text-center space-y-4">
+                        <div>
+                            <h1 className="text-2xl font-extrabold">{storeSettings.storeName}</h1>
+                            <p className="text-xs text-slate-500">{storeSettings.address}</p>
+                            <p className="text-xs text-slate-500">تلفن: {storeSettings.phone}</p>
+                        </div>
+                        <h2 className="text-xl font-bold bg-slate-100 p-2 rounded-lg border">{voucher.source === 'return' ? 'اعتبار خرید' : 'کارت هدیه'}</h2>
+                        <p className="font-mono text-3xl font-extrabold tracking-widest" dir="ltr">{voucher.code}</p>
+                        <div>
+                            <p className="font-bold font-mono text-2xl">{formatCurrency(voucher.issuedAmount, storeSettings)}</p>
+                            <p className="text-sm text-blue-800">{numberToPersianWords(voucher.issuedAmount)} {storeSettings.currencyName}</p>
+                        </div>
+                        {voucher.balance < voucher.issuedAmount && (
+                            <p className="text-sm">مانده: <span className="font-bold">{formatCurrency(voucher.balance, storeSettings)}</span></p>
+                        )}
+                        <div className="text-xs text-slate-600 space-y-1">
+                            {customer && <p>به نام: <span className="font-bold">{customer.name}</span></p>}
+                            <p>تاریخ صدور: {new Date(voucher.issuedAt).toLocaleDateString('fa-IR', { year: 'numeric', month: 'long', day: 'numeric' })}</p>
+                            <p>{voucher.expiryDate ? `قابل استفاده تا: ${new Date(`${voucher.expiryDate}T00:00:00`).toLocaleDateString('fa-IR', { year: 'numeric', month: 'long', day: 'numeric' })}` : 'بدون تاریخ انقضا'}</p>
+                            <p>{VOUCHER_SOURCES[voucher.source]}{voucher.invoiceId ? ` (فاکتور #${voucher.invoiceId})` : ''}</p>
+                        </div>
+                        <p className="text-[11px] text-slate-500 border-t pt-3">این کارت در تمام شعبه‌ها به جای وجه نقد پذیرفته می‌شود و قابل تبدیل به پول نقد نیست. کد را نزد خود محفوظ نگه دارید.</p>
+                    </div>
+                </div>
+                <div className="flex justify-end space-x-3 space-x-reverse mt-6 pt-4 border-t no-print bg-white">
+                    <button onClick={onClose} className="px-6 py-3 rounded-lg bg-gray-100 text-slate-700 hover:bg-gray-200 transition-colors font-semibold">بستن</button>
+                    <button onClick={handlePrint} className="px-6 py-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700 shadow-lg btn-primary font-semibold">چاپ کارت</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VoucherPrintModal;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import type { CashShift, PaymentMethod } from '../types';
+import { useAppContext } from '../AppContext';
+import { formatCurrency } from '../utils/formatters';
+import { PAYMENT_METHODS } from '../utils/payments';
+import { getShiftSummary, getShiftMovements, CASH_MOVEMENT_REASONS } from '../utils/shifts';
+import ReportPrintPreviewModal from './ReportPrintPreviewModal';
+
+interface ZReportModalProps {
+    shift: CashShift;
+    onClose: () => void;
+}
+
+// End-of-shift (Z) report of one cash drawer
+const ZReportModal: React.FC<ZReportModalProps> = ({ shift, onClose }) => {
+    const { saleInvoices, customerTransactions, expenses, cashMovements, branches, storeSettings } = useAppContext();
+    const summary = useMemo(
+        () => getShiftSummary(shift, saleInvoices, customerTransactions, expenses, cashMovements),
+        [shift, saleInvoices, customerTransactions, expenses, cashMovements]
+    );
+    const movements = useMemo(() => getShiftMovements(shift, cashMovements), [shift, cashMovements]);
+
+    // A closed shift keeps the expected cash the cashier saw when counting
+    const expectedCash = shift.expectedCash ?? summary.expectedCash;
+    const difference = shift.countedCash !== undefined ? shift.countedCash - expectedCash : undefined;
+    const branchName = branches.find(b => b.id === shift.branchId)?.name || shift.branchId;
+    const row = (label: string, value: number, className = '') => (
+        <li className={`flex justify-between p-2 border-b last:border-0 ${className}`}><span>{label}</span> <span className="font-mono">{formatCurrency(value, storeSettings)}</span></li>
+    );
+
+    return (
+        <ReportPrintPreviewModal
+            title={`گزارش پایان شیفت (Z) - ${shift.cashier}`}
+            dateRange={{ start: new Date(shift.openedAt), end: shift.closedAt ? new Date(shift.closedAt) : new Date() }}
+            onClose={onClose}
+        >
+            <div className="space-y-4 text-sm">
+                <div className="flex flex-wrap justify-between gap-2 text-slate-600">
+                    <span>شعبه: <span className="font-semibold text-slate-800">{branchName}</span></span>
+                    <span>باز شده: {new Date(shift.openedAt).toLocaleString('fa-IR')}</span>
+                    <span>بسته شده: {shift.closedAt ? new Date(shift.closedAt).toLocaleString('fa-IR') : 'هنوز باز است'}</span>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="p-4 border rounded-xl">
+                        <h3 className="font-bold text-lg mb-2">صندوق نقدی</h3>
+                        <ul>
+                            {row('موجودی اولیه صندوق', shift.openingFloat)}
+                            {row('نقد فروش (پس از باقی پول و مرجوعی)', summary.cashSales)}
+                            {row('دریافت از مشتریان', summary.customerPayments)}
+                            {row('مصارف پرداخت شده از صندوق', -summary.cashExpenses)}
+                            {row('ورود وجه به صندوق', summary.cashIn)}
+                            {row('برداشت از صندوق', -summary.cashOut)}
+                            {row('موجودی مورد انتظار', expectedCash, 'font-bold')}
+                            {shift.countedCash !== undefined && row('موجودی شمارش شده', shift.countedCash, 'font-bold')}
+                            {difference !== undefined && row(difference >= 0 ? 'اضافه صندوق' : 'کسری صندوق', Math.abs(difference), difference >= 0 ? 'text-green-600 font-bold' : 'text-red-600 font-bold')}
+                        </ul>
+                    </div>
+                    <div className="p-4 border rounded-xl">
+                        <h3 className="font-bold text-lg mb-2">دریافتی به تفکیک روش پرداخت</h3>
+                        <ul>
+                            {(Object.keys(PAYMENT_METHODS) as PaymentMethod[]).map(method => (
+                                <React.Fragment key={method}>{row(PAYMENT_METHODS[method], summary.takingsByMethod[method])}</React.Fragment>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+
+                <div className="p-4 border rounded-xl">
+                    <h3 className="font-bold text-lg mb-2">فروش</h3>
+                    <ul>
+                        {row(`فروش (${summary.saleCount} فاکتور)`, summary.grossSales)}
+                        {row('تخفیف‌های داده شده', summary.discounts, 'text-amber-600')}
+                        {row(`مرجوعی‌ها (${summary.returnCount} فاکتور)`, summary.returnsAmount, 'text-red-500')}
+                        {row('فروش خالص', summary.grossSales - summary.returnsAmount, 'font-bold')}
+                    </ul>
+                </div>
+
+                {movements.length > 0 && (
+                    <div className="p-4 border rounded-xl">
+                        <h3 className="font-bold text-lg mb-2">ورود و برداشت وجه</h3>
+                        <ul>
+                            {movements.map(m => (
+                                <li key={m.id} className="flex justify-between p-2 border-b last:border-0">
+                                    <span>{new Date(m.timestamp).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })} - {CASH_MOVEMENT_REASONS[m.reason]}{m.note ? ` (${m.note})` : ''} - {m.user}</span>
+                                    <span className={`font-mono ${m.type === 'in' ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(m.type === 'in' ? m.amount : -m.amount, storeSettings)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {shift.note && <p className="text-slate-600">یادداشت: {shift.note}</p>}
+            </div>
+        </ReportPrintPreviewModal>
+    );
+};
+
+export default ZReportModal;
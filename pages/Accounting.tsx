@@ -6,6 +6,7 @@ import type { Supplier, Employee, Customer, Expense, AnyTransaction, CustomerTra
 import { PlusIcon, XIcon, EyeIcon, TrashIcon } from '../components/icons';
 import Toast from '../components/Toast';
 import { formatCurrency } from '../utils/formatters';
+import { LOYALTY_TRANSACTION_TYPES } from '../utils/loyalty';
 import TransactionHistoryModal from '../components/TransactionHistoryModal';
 import ReceiptPreviewModal from '../components/ReceiptPreviewModal';
 
@@ -410,9 +411,12 @@ const PayrollTab = () => {
 };
 
 const CustomersTab = () => {
-    const { customers, addCustomer, deleteCustomer, addCustomerPayment, customerTransactions, storeSettings } = useAppContext();
+    const { customers, priceLists, loyaltyTransactions, addCustomer, deleteCustomer, setCustomerCreditLimit, setCustomerPriceList, addCustomerPayment, customerTransactions, storeSettings, hasPermission } = useAppContext();
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [isPayModalOpen, setIsPayModalOpen] = useState(false);
+    const [creditLimitCustomer, setCreditLimitCustomer] = useState<Customer | null>(null);
+    const [priceListCustomer, setPriceListCustomer] = useState<Customer | null>(null);
+    const [pointsCustomer, setPointsCustomer] = useState<Customer | null>(null);
     const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
     const [toast, setToast] = useState('');
     const [historyModalData, setHistoryModalData] = useState<{ person: Customer, transactions: CustomerTransaction[] } | null>(null);
@@ -435,9 +439,13 @@ const CustomersTab = () => {
             return;
         }
 
+        const creditLimit = formData.get('creditLimit') as string;
+        const priceListId = formData.get('priceListId') as string | null;
         addCustomer({
             name: formData.get('name') as string,
             phone: formData.get('phone') as string,
+            creditLimit: creditLimit ? Number(creditLimit) : undefined,
+            priceListId: priceListId || undefined,
         }, initialAmount > 0 ? { 
             amount: initialAmount, 
             type: initialType,
@@ -485,6 +493,25 @@ const CustomersTab = () => {
         }
     };
 
+    const handleCreditLimitForm = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!creditLimitCustomer) return;
+        const value = new FormData(e.currentTarget).get('creditLimit') as string;
+        setCustomerCreditLimit(creditLimitCustomer.id, value ? Number(value) : undefined);
+        setCreditLimitCustomer(null);
+    };
+
+    const handlePriceListForm = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!priceListCustomer) return;
+        const value = new FormData(e.currentTarget).get('priceListId') as string;
+        setCustomerPriceList(priceListCustomer.id, value || undefined);
+        setPriceListCustomer(null);
+    };
+
+    const getPriceListName = (customer: Customer) =>
+        priceLists.find(l => l.id === customer.priceListId)?.name || 'قیمت عادی';
+
     const handleViewHistory = (customer: Customer) => {
         const transactions = customerTransactions.filter(t => t.customerId === customer.id);
         setHistoryModalData({ person: customer, transactions });
@@ -512,6 +539,9 @@ const CustomersTab = () => {
                             <th className="p-4 font-bold text-slate-700">نام مشتری</th>
                             <th className="p-4 font-bold text-slate-700">تلفن</th>
                             <th className="p-4 font-bold text-slate-700">موجودی حساب (طلب ما)</th>
+                            <th className="p-4 font-bold text-slate-700">سقف اعتبار</th>
+                            <th className="p-4 font-bold text-slate-700">لیست قیمت</th>
+                            <th className="p-4 font-bold text-slate-700">امتیاز</th>
                             <th className="p-4 font-bold text-slate-700">عملیات</th>
                         </tr>
                     </thead>
@@ -521,6 +551,21 @@ const CustomersTab = () => {
                                 <td className="p-4 text-lg font-semibold text-slate-800">{c.name}</td>
                                 <td className="p-4 text-lg text-slate-600">{c.phone}</td>
                                 <td className="p-4 text-lg font-bold text-green-600">{formatCurrency(c.balance, storeSettings)}</td>
+                                <td className="p-4 text-slate-600">
+                                    <button onClick={() => setCreditLimitCustomer(c)} disabled={!hasPermission('accounting:manage_customers')} className="hover:text-blue-600 disabled:hover:text-slate-600" title="تغییر سقف اعتبار">
+                                        {c.creditLimit !== undefined ? formatCurrency(c.creditLimit, storeSettings) : 'نامحدود'}
+                                    </button>
+                                </td>
+                                <td className="p-4 text-slate-600">
+                                    <button onClick={() => setPriceListCustomer(c)} disabled={!hasPermission('accounting:manage_customers')} className="hover:text-blue-600 disabled:hover:text-slate-600" title="تغییر لیست قیمت">
+                                        {getPriceListName(c)}
+                                    </button>
+                                </td>
+                                <td className="p-4 text-slate-600">
+                                    <button onClick={() => setPointsCustomer(c)} className="font-semibold text-amber-700 hover:text-blue-600" title="تاریخچه امتیازها">
+                                        {c.loyaltyPoints.toLocaleString()}
+                                    </button>
+                                </td>
                                 <td className="p-4">
                                      <div className="flex justify-center items-center gap-2">
                                         <button onClick={() => handleViewHistory(c)} className="p-2 rounded-full text-gray-500 hover:text-blue-600 hover:bg-blue-100/50 transition-colors" title="مشاهده صورت حساب"><EyeIcon /></button>
@@ -559,6 +604,15 @@ const CustomersTab = () => {
                            </div>
                         </div>
                         <p className="text-sm text-slate-500">{c.phone}</p>
+                        <button onClick={() => setCreditLimitCustomer(c)} disabled={!hasPermission('accounting:manage_customers')} className="text-sm text-slate-500 mt-1">
+                            سقف اعتبار: {c.creditLimit !== undefined ? formatCurrency(c.creditLimit, storeSettings) : 'نامحدود'}
+                        </button>
+                        <button onClick={() => setPriceListCustomer(c)} disabled={!hasPermission('accounting:manage_customers')} className="block text-sm text-slate-500 mt-1">
+                            لیست قیمت: {getPriceListName(c)}
+                        </button>
+                        <button onClick={() => setPointsCustomer(c)} className="block text-sm text-amber-700 mt-1">
+                            امتیاز باشگاه مشتریان: {c.loyaltyPoints.toLocaleString()}
+                        </button>
                         <div className="flex justify-between items-center mt-3 pt-3 border-t">
                             <div>
                                 <p className="text-sm text-slate-500">طلب ما:</p>
@@ -575,6 +629,13 @@ const CustomersTab = () => {
                     <form onSubmit={handleAddCustomerForm} className="space-y-4">
                         <input name="name" placeholder="نام مشتری" className="w-full p-3 border rounded-lg form-input" required/>
                         <input name="phone" placeholder="شماره تلفن" className="w-full p-3 border rounded-lg form-input" />
+                        <input name="creditLimit" type="number" min="0" placeholder={`سقف اعتبار نسیه (${storeSettings.currencyName}) - خالی یعنی نامحدود`} className="w-full p-3 border rounded-lg form-input" />
+                        {priceLists.length > 0 && (
+                            <select name="priceListId" defaultValue="" className="w-full p-3 border rounded-lg bg-white form-input">
+                                <option value="">قیمت عادی (بدون لیست قیمت)</option>
+                                {priceLists.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                            </select>
+                        )}
                         
                         <div className="p-3 bg-blue-50 rounded-lg border border-blue-100 space-y-3">
                             <p className="text-sm font-bold text-slate-700">تراز اول دوره (اختیاری)</p>
@@ -615,6 +676,44 @@ const CustomersTab = () => {
                         <button type="submit" className="w-full bg-blue-600 text-white p-3 rounded-lg btn-primary font-semibold">ذخیره</button>
                     </form>
                 </Modal>
+            )}
+            {creditLimitCustomer && (
+                <Modal title={`سقف اعتبار ${creditLimitCustomer.name}`} onClose={() => setCreditLimitCustomer(null)}>
+                    <form onSubmit={handleCreditLimitForm} className="space-y-4">
+                        <input name="creditLimit" type="number" min="0" defaultValue={creditLimitCustomer.creditLimit ?? ''} placeholder="خالی یعنی نامحدود" className="w-full p-3 border rounded-lg form-input" />
+                        <p className="text-sm text-slate-500">موجودی فعلی حساب: {formatCurrency(creditLimitCustomer.balance, storeSettings)}</p>
+                        <button type="submit" className="w-full bg-blue-600 text-white p-3 rounded-lg btn-primary font-semibold">ذخیره</button>
+                    </form>
+                </Modal>
+            )}
+            {priceListCustomer && (
+                <Modal title={`لیست قیمت ${priceListCustomer.name}`} onClose={() => setPriceListCustomer(null)}>
+                    <form onSubmit={handlePriceListForm} className="space-y-4">
+                        <select name="priceListId" defaultValue={priceListCustomer.priceListId ?? ''} className="w-full p-3 border rounded-lg bg-white form-input">
+                            <option value="">قیمت عادی (بدون لیست قیمت)</option>
+                            {priceLists.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                        </select>
+                        <p className="text-sm text-slate-500">لیست‌های قیمت در بخش تنظیمات تعریف می‌شوند.</p>
+                        <button type="submit" className="w-full bg-blue-600 text-white p-3 rounded-lg btn-primary font-semibold">ذخیره</button>
+                    </form>
+                </Modal>
+            )}
+            {pointsCustomer && (
+                <Modal title={`امتیازهای ${pointsCustomer.name}`} onClose={() => setPointsCustomer(null)}>
+                    <p className="mb-3 font-semibold">مانده امتیاز: {pointsCustomer.loyaltyPoints.toLocaleString()}</p>
+                    <ul className="space-y-1 max-h-80 overflow-y-auto text-sm">
+                        {loyaltyTransactions.filter(t => t.customerId === pointsCustomer.id).map(t => (
+                            <li key={t.id} className="flex justify-between items-center p-2 bg-slate-50 rounded border">
+                                <span>
+                                    {LOYALTY_TRANSACTION_TYPES[t.type]} <span className="font-mono text-xs text-slate-500">#{t.invoiceId}</span>
+                                    <span className="block text-xs text-slate-500">{new Date(t.date).toLocaleDateString('fa-IR')}</span>
+                                </span>
+                                <span dir="ltr" className={`font-bold ${t.points < 0 ? 'text-red-600' : 'text-green-600'}`}>{t.points > 0 ? '+' : ''}{t.points.toLocaleString()}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    {!loyaltyTransactions.some(t => t.customerId === pointsCustomer.id) && <p className="text-slate-500 text-sm">هنوز امتیازی ثبت نشده است.</p>}
+                </Modal>
             )}
              {isPayModalOpen && selectedCustomer && (
                  <Modal title={`ثبت دریافت از ${selectedCustomer.name}`} onClose={() => setIsPayModalOpen(false)}>
@@ -1,10 +1,14 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Product, ActivityLog, InvoiceItem } from '../types';
+import type { Product, ActivityLog, InvoiceItem, PaymentMethod } from '../types';
 import { useAppContext } from '../AppContext';
 import { POSIcon, InventoryIcon, PurchaseIcon, WarningIcon, BellIcon, UserGroupIcon, EyeIcon, XIcon, ChevronDownIcon } from '../components/icons';
 import { formatCurrency, formatStockToPackagesAndUnits } from '../utils/formatters';
 import DateRangeFilter from '../components/DateRangeFilter';
 import ActivityDetailModal from '../components/ActivityDetailModal';
+import BranchSelector from '../components/BranchSelector';
+import { ALL_BRANCHES, isInBranch, getBranchBatches, getBranchStock } from '../utils/branches';
+import { isVoided } from '../utils/revisions';
+import { PAYMENT_METHODS, getOnAccountAmount, getTakingsByMethod } from '../utils/payments';
 
 // Extracted StatCard to prevent re-renders and fix positioning context
 const StatCard: React.FC<{ title: string; value: string; description: string; color: string, icon: React.ReactNode, onDetailClick?: () => void }> = ({ title, value, description, color, icon, onDetailClick }) => (
@@ -55,7 +59,10 @@ const AlertCard: React.FC<{ title: string, items: { id: string, name: string, st
 );
 
 const Dashboard: React.FC = () => {
-    const { saleInvoices, purchaseInvoices, activities, products, storeSettings, currentUser, customers } = useAppContext();
+    const { saleInvoices: allSaleInvoices, activities, products, storeSettings, currentUser, customers } = useAppContext();
+    const [selectedBranchId, setSelectedBranchId] = useState<string>(ALL_BRANCHES);
+    // Voided sales stay in the lists but no longer count
+    const saleInvoices = useMemo(() => allSaleInvoices.filter(inv => isInBranch(inv, selectedBranchId) && !isVoided(inv)), [allSaleInvoices, selectedBranchId]);
     const [dateRange, setDateRange] = useState<{ start: Date, end: Date }>({ start: new Date(), end: new Date() });
     const [isAlertsOpen, setIsAlertsOpen] = useState(false);
     const alertsRef = useRef<HTMLDivElement>(null);
@@ -76,7 +83,7 @@ const Dashboard: React.FC = () => {
     }, []);
 
     // Robust "Today" calculation using timestamps to ensure mobile compatibility
-    const { totalSalesToday, totalCreditSalesToday, todayCreditInvoices } = useMemo(() => {
+    const { totalSalesToday, totalCreditSalesToday, todayCreditInvoices, todayTakings } = useMemo(() => {
         const now = new Date();
         // Set start of today (00:00:00) local time
         const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0).getTime();
@@ -97,26 +104,28 @@ const Dashboard: React.FC = () => {
             .filter(inv => inv.type === 'return')
             .reduce((sum, inv) => sum + inv.totalAmount, 0);
 
-        const creditInvoices = todayInvoices.filter(inv => inv.customerId && inv.type === 'sale');
-        const creditSales = creditInvoices.reduce((sum, inv) => sum + inv.totalAmount, 0);
+        // Only the part put on the customer's account is credit; the rest was paid at the till
+        const creditInvoices = todayInvoices.filter(inv => inv.type === 'sale' && getOnAccountAmount(inv) > 0);
+        const creditSales = creditInvoices.reduce((sum, inv) => sum + getOnAccountAmount(inv), 0);
             
         return { 
             totalSalesToday: sales - returns, 
             totalCreditSalesToday: creditSales, // Shows credit granted today. Credit returns affect balance but usually usually we want to know how much credit we gave today.
-            todayCreditInvoices: creditInvoices.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+            todayCreditInvoices: creditInvoices.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+            todayTakings: getTakingsByMethod(todayInvoices)
         };
     }, [saleInvoices]);
 
     const productsWithTotalStock = products.map(p => ({
         ...p,
-        totalStock: p.batches.reduce((sum, b) => sum + b.stock, 0)
+        totalStock: getBranchStock(p, selectedBranchId)
     }));
 
     // Alert calculations
     const lowStockProducts = productsWithTotalStock.filter(p => p.totalStock > 0 && p.totalStock <= storeSettings.lowStockThreshold);
     
     const expiringSoonProducts = products.flatMap(p => 
-        p.batches
+        getBranchBatches(p, selectedBranchId)
          .filter(b => {
             if (!b.expiryDate) return false;
             const expiry = new Date(b.expiryDate);
@@ -183,8 +192,11 @@ const Dashboard: React.FC = () => {
                                             <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
                                             <p className="font-bold text-slate-800 text-lg">{customer?.name || 'مشتری نامشخص'}</p>
                                         </div>
-                                        <span className="font-bold text-orange-600 bg-orange-50 px-2 py-0.5 rounded-lg border border-orange-100">{formatCurrency(inv.totalAmount, storeSettings)}</span>
+                                        <span className="font-bold text-orange-600 bg-orange-50 px-2 py-0.5 rounded-lg border border-orange-100">{formatCurrency(getOnAccountAmount(inv), storeSettings)}</span>
                                     </div>
+                                    {getOnAccountAmount(inv) < inv.totalAmount && (
+                                        <p className="text-xs text-slate-500">مبلغ فاکتور {formatCurrency(inv.totalAmount, storeSettings)}، پیش‌پرداخت {formatCurrency(inv.totalAmount - getOnAccountAmount(inv), storeSettings)}</p>
+                                    )}
                                     <div className="flex justify-between items-center text-xs text-slate-500 border-t border-dashed border-slate-200 pt-2 mt-1">
                                         <span>ثبت کننده: <span className="font-semibold text-slate-700">{inv.cashier}</span></span>
                                         <span>{new Date(inv.timestamp).toLocaleTimeString('fa-IR', {hour: '2-digit', minute:'2-digit'})}</span>
@@ -243,6 +255,8 @@ const Dashboard: React.FC = () => {
             <h1 className="text-2xl md:text-4xl mb-2">داشبورد مدیریتی</h1>
             <p className="text-md md:text-lg text-slate-600">خوش آمدید، {currentUser?.username}!</p>
         </div>
+        <div className="flex items-center gap-3">
+        <BranchSelector value={selectedBranchId} onChange={setSelectedBranchId} />
         <div className="relative" ref={alertsRef}>
             <button onClick={() => setIsAlertsOpen(prev => !prev)} className="p-3 rounded-full hover:bg-slate-200/50 transition-colors relative">
                 <BellIcon className="w-8 h-8 text-slate-600"/>
@@ -290,6 +304,7 @@ const Dashboard: React.FC = () => {
                 </div>
             )}
         </div>
+        </div>
       </div>
 
 
@@ -316,6 +331,18 @@ const Dashboard: React.FC = () => {
         />
       </div>
 
+      <div className="bg-white/60 backdrop-blur-xl p-6 rounded-2xl shadow-lg border border-gray-200/60 mb-10">
+          <h3 className="font-bold text-slate-800 text-xl mb-4">دریافتی امروز به تفکیک روش پرداخت</h3>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {(Object.keys(PAYMENT_METHODS) as PaymentMethod[]).map(method => (
+                  <div key={method} className="p-3 bg-white/70 rounded-lg border border-gray-100">
+                      <p className="text-sm text-slate-500">{PAYMENT_METHODS[method]}</p>
+                      <p className="text-lg font-bold text-slate-800 mt-1">{formatCurrency(todayTakings[method], storeSettings)}</p>
+                  </div>
+              ))}
+          </div>
+      </div>
+
       <div className="bg-white/60 backdrop-blur-xl p-6 rounded-2xl shadow-lg border border-gray-200/60">
           <div className="flex justify-between items-center mb-4">
               <h3 className="font-bold text-slate-800 text-xl">آخرین فعالیت‌ها</h3>
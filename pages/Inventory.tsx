@@ -1,20 +1,455 @@
 
 import React, { useState, useEffect } from 'react';
-import type { Product, ProductBatch } from '../types';
+import type { Product, ProductBatch, StockTransfer, StockAdjustmentReason } from '../types';
 import { useAppContext } from '../AppContext';
-import { PlusIcon, EditIcon, TrashIcon, SearchIcon, ChevronDownIcon } from '../components/icons';
+import { PlusIcon, EditIcon, TrashIcon, SearchIcon, ChevronDownIcon, XIcon } from '../components/icons';
 import Toast from '../components/Toast';
 import ProductModal from '../components/ProductModal';
+import PackageUnitInput from '../components/PackageUnitInput';
+import StockCardModal from '../components/StockCardModal';
 import { formatStockToPackagesAndUnits, formatCurrency } from '../utils/formatters';
+import { ALL_BRANCHES, getBranchStock, getBranchBatches } from '../utils/branches';
+import { STOCK_ADJUSTMENT_REASONS, STOCK_MOVEMENT_REASONS } from '../utils/stockMovements';
 
+type TransferLine = { productId: string; batchId: string; quantity: number };
+
+const StockTransfersTab: React.FC<{ showToast: (message: string) => void }> = ({ showToast }) => {
+    const { products, branches, activeBranchId, stockTransfers, transferDiscrepancies, hasPermission, sendStockTransfer, receiveStockTransfer } = useAppContext();
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [destinationBranchId, setDestinationBranchId] = useState('');
+    const [lines, setLines] = useState<TransferLine[]>([{ productId: '', batchId: '', quantity: 1 }]);
+    const [notes, setNotes] = useState('');
+    const [receivingTransfer, setReceivingTransfer] = useState<StockTransfer | null>(null);
+    const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({});
+
+    const branchName = (id: string) => branches.find(b => b.id === id)?.name || id;
+    const sourceBatches = (productId: string) => {
+        const product = products.find(p => p.id === productId);
+        return product && activeBranchId ? getBranchBatches(product, activeBranchId).filter(b => b.stock > 0) : [];
+    };
+
+    const updateLine = (index: number, changes: Partial<TransferLine>) => {
+        setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+    };
+
+    const resetForm = () => {
+        setIsFormOpen(false);
+        setDestinationBranchId('');
+        setLines([{ productId: '', batchId: '', quantity: 1 }]);
+        setNotes('');
+    };
+
+    const handleSend = () => {
+        const items = lines.filter(l => l.batchId).map(l => ({ batchId: l.batchId, quantity: Number(l.quantity) }));
+        const result = sendStockTransfer(destinationBranchId, items, notes.trim() || undefined);
+        showToast(result.message);
+        if (result.success) resetForm();
+    };
+
+    const openReceive = (transfer: StockTransfer) => {
+        setReceivingTransfer(transfer);
+        setReceivedQuantities(Object.fromEntries(transfer.items.map(item => [item.id, item.quantity])));
+    };
+
+    const handleReceive = () => {
+        if (!receivingTransfer) return;
+        const result = receiveStockTransfer(receivingTransfer.id, receivedQuantities);
+        showToast(result.message);
+        if (result.success) setReceivingTransfer(null);
+    };
+
+    return (
+        <div className="space-y-8">
+            {hasPermission('inventory:transfer_stock') && !isFormOpen && (
+                <button onClick={() => setIsFormOpen(true)} className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg shadow-md btn-primary">
+                    <PlusIcon className="w-5 h-5 ml-2" /> <span className="font-semibold">حواله انتقال جدید</span>
+                </button>
+            )}
+
+            {isFormOpen && (
+                <div className="p-4 bg-white/70 rounded-xl border space-y-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <span className="font-semibold">از: {activeBranchId ? branchName(activeBranchId) : '-'}</span>
+                        <span className="font-semibold">به:</span>
+                        <select value={destinationBranchId} onChange={e => setDestinationBranchId(e.target.value)} className="p-2 border rounded bg-white form-input">
+                            <option value="">-- شعبه مقصد --</option>
+                            {branches.filter(b => b.id !== activeBranchId).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                        </select>
+                    </div>
+                    {lines.map((line, index) => (
+                        <div key={index} className="flex flex-wrap items-center gap-2">
+                            <select value={line.productId} onChange={e => updateLine(index, { productId: e.target.value, batchId: '' })} className="flex-grow p-2 border rounded bg-white form-input">
+                                <option value="">-- انتخاب محصول --</option>
+                                {products.filter(p => sourceBatches(p.id).length > 0).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                            <select value={line.batchId} onChange={e => updateLine(index, { batchId: e.target.value })} className="p-2 border rounded bg-white form-input" disabled={!line.productId}>
+                                <option value="">-- لات --</option>
+                                {sourceBatches(line.productId).map(b => <option key={b.id} value={b.id}>{b.lotNumber} (موجودی: {b.stock})</option>)}
+                            </select>
+                            <input type="number" min={1} value={line.quantity} onChange={e => updateLine(index, { quantity: Number(e.target.value) })} className="w-24 p-2 border rounded form-input" />
+                            <button onClick={() => setLines(prev => prev.filter((_, i) => i !== index))} className="text-red-500 p-2 rounded-full hover:bg-red-100/50" disabled={lines.length === 1}><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                    ))}
+                    <button onClick={() => setLines(prev => [...prev, { productId: '', batchId: '', quantity: 1 }])} className="text-blue-600 font-semibold flex items-center gap-1"><PlusIcon className="w-4 h-4" /> افزودن ردیف</button>
+                    <input value={notes} onChange={e => setNotes(e.target.value)} placeholder="توضیحات (اختیاری)" className="w-full p-2 border rounded form-input" />
+                    <div className="flex gap-2">
+                        <button onClick={handleSend} className="bg-blue-600 text-white px-4 py-2 rounded-lg btn-primary flex-grow">ارسال حواله</button>
+                        <button onClick={resetForm} className="bg-gray-200 px-4 py-2 rounded-lg">لغو</button>
+                    </div>
+                </div>
+            )}
+
+            <div className="overflow-x-auto rounded-xl border border-gray-200/60 shadow-md">
+                <table className="min-w-full text-center bg-white/60 responsive-table">
+                    <thead>
+                        <tr>
+                            <th className="p-3 font-bold text-slate-700">شماره</th>
+                            <th className="p-3 font-bold text-slate-700">تاریخ ارسال</th>
+                            <th className="p-3 font-bold text-slate-700">مبدأ ← مقصد</th>
+                            <th className="p-3 font-bold text-slate-700">اقلام</th>
+                            <th className="p-3 font-bold text-slate-700">وضعیت</th>
+                            <th className="p-3 font-bold text-slate-700">عملیات</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {stockTransfers.length > 0 ? stockTransfers.map(t => (
+                            <tr key={t.id} className="border-t border-gray-200/60">
+                                <td data-label="شماره" className="p-3 font-mono">{t.id}</td>
+                                <td data-label="تاریخ ارسال" className="p-3">{new Date(t.sentAt).toLocaleDateString('fa-IR')}</td>
+                                <td data-label="مبدأ ← مقصد" className="p-3">{branchName(t.sourceBranchId)} ← {branchName(t.destinationBranchId)}</td>
+                                <td data-label="اقلام" className="p-3 text-sm">{t.items.map(i => `${i.productName} (${i.lotNumber}) × ${i.quantity}`).join('، ')}</td>
+                                <td data-label="وضعیت" className="p-3">
+                                    {t.status === 'sent'
+                                        ? <span className="px-2 py-1 rounded-lg bg-amber-100 text-amber-700 text-sm font-semibold">در راه</span>
+                                        : <span className="px-2 py-1 rounded-lg bg-green-100 text-green-700 text-sm font-semibold">دریافت شده</span>}
+                                </td>
+                                <td data-label="عملیات" className="p-3">
+                                    {t.status === 'sent' && t.destinationBranchId === activeBranchId && hasPermission('inventory:receive_transfer') && (
+                                        <button onClick={() => openReceive(t)} className="bg-green-600 text-white px-3 py-1 rounded-lg text-sm font-semibold">دریافت</button>
+                                    )}
+                                </td>
+                            </tr>
+                        )) : (
+                            <tr><td colSpan={6} className="p-8 text-slate-500">هیچ حواله انتقالی ثبت نشده است.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {transferDiscrepancies.length > 0 && (
+                <div>
+                    <h4 className="text-lg font-bold mb-3 text-red-700">کسری‌های انتقال</h4>
+                    <div className="overflow-x-auto rounded-xl border border-red-200 shadow-md">
+                        <table className="min-w-full text-center bg-white/60 responsive-table">
+                            <thead>
+                                <tr>
+                                    <th className="p-3 font-bold text-slate-700">حواله</th>
+                                    <th className="p-3 font-bold text-slate-700">محصول</th>
+                                    <th className="p-3 font-bold text-slate-700">لات</th>
+                                    <th className="p-3 font-bold text-slate-700">ارسالی</th>
+                                    <th className="p-3 font-bold text-slate-700">دریافتی</th>
+                                    <th className="p-3 font-bold text-slate-700">کسری</th>
+                                    <th className="p-3 font-bold text-slate-700">ثبت کننده</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {transferDiscrepancies.map(d => (
+                                    <tr key={d.id} className="border-t border-gray-200/60">
+                                        <td data-label="حواله" className="p-3 font-mono">{d.transferId}</td>
+                                        <td data-label="محصول" className="p-3 font-semibold">{d.productName}</td>
+                                        <td data-label="لات" className="p-3 font-mono">{d.lotNumber}</td>
+                                        <td data-label="ارسالی" className="p-3">{d.sentQuantity}</td>
+                                        <td data-label="دریافتی" className="p-3">{d.receivedQuantity}</td>
+                                        <td data-label="کسری" className="p-3 font-bold text-red-600">{d.sentQuantity - d.receivedQuantity}</td>
+                                        <td data-label="ثبت کننده" className="p-3">{d.reportedBy}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {receivingTransfer && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[100] p-4 modal-animate">
+                    <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-lg overflow-hidden">
+                        <div className="flex justify-between items-center p-4 border-b border-slate-100 bg-slate-50">
+                            <h2 className="text-xl font-bold text-slate-800">دریافت حواله #{receivingTransfer.id}</h2>
+                            <button onClick={() => setReceivingTransfer(null)} className="p-1 rounded-full text-slate-500 hover:bg-red-100 hover:text-red-600 transition-colors"><XIcon className="w-6 h-6" /></button>
+                        </div>
+                        <div className="p-6 space-y-3">
+                            <p className="text-sm text-slate-600">مقدار شمارش شده هر ردیف را وارد کنید. کمبود به عنوان کسری انتقال ثبت می‌شود.</p>
+                            {receivingTransfer.items.map(item => (
+                                <div key={item.id} className="flex items-center justify-between gap-3">
+                                    <span className="font-semibold">{item.productName} <span className="text-xs text-slate-500 font-mono">({item.lotNumber})</span></span>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="number" min={0} max={item.quantity}
+                                            value={receivedQuantities[item.id] ?? item.quantity}
+                                            onChange={e => setReceivedQuantities(prev => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                                            className="w-24 p-2 border rounded form-input"
+                                        />
+                                        <span className="text-sm text-slate-500">از {item.quantity}</span>
+                                    </div>
+                                </div>
+                            ))}
+                            <button onClick={handleReceive} className="w-full bg-green-600 text-white p-3 rounded-lg font-semibold">ثبت دریافت</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const StocktakeTab: React.FC<{ showToast: (message: string) => void }> = ({ showToast }) => {
+    const { products, branches, stocktakes, activeStocktake, storeSettings, startStocktake, setStocktakeCount, cancelStocktake, postStocktake } = useAppContext();
+    const [step, setStep] = useState<'count' | 'review'>('count');
+    const [filter, setFilter] = useState('');
+    const [scanCode, setScanCode] = useState('');
+
+    const branchName = (id: string) => branches.find(b => b.id === id)?.name || id;
+    const itemsPerPackage = (productId: string) => products.find(p => p.id === productId)?.itemsPerPackage || 1;
+
+    const handleStart = () => {
+        const result = startStocktake();
+        showToast(result.message);
+        setStep('count');
+    };
+
+    // Scanning a product with a single batch counts one unit; otherwise its batches are listed for manual entry
+    const handleScan = (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = scanCode.trim();
+        setScanCode('');
+        if (!code || !activeStocktake) return;
+        const product = products.find(p => p.barcode === code);
+        const lines = product ? activeStocktake.lines.filter(l => l.productId === product.id) : [];
+        if (!product || lines.length === 0) { showToast(`کالایی با بارکد "${code}" در این شمارش نیست.`); return; }
+        if (lines.length === 1) {
+            setStocktakeCount(lines[0].batchId, (lines[0].countedStock ?? 0) + 1);
+            setFilter('');
+        } else {
+            setFilter(product.name);
+            showToast(`"${product.name}" چند لات دارد؛ تعداد هر لات را وارد کنید.`);
+        }
+    };
+
+    const handlePost = () => {
+        if (!window.confirm('تعدیلات موجودی ثبت شود؟ این عملیات قابل بازگشت نیست.')) return;
+        const result = postStocktake();
+        showToast(result.message);
+        if (result.success) setStep('count');
+    };
+
+    const handleCancel = () => {
+        if (window.confirm('شمارش جاری لغو شود؟ مقادیر شمارش شده حذف می‌شوند.')) cancelStocktake();
+    };
+
+    if (!activeStocktake) {
+        return (
+            <div className="space-y-6">
+                <button onClick={handleStart} className="flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg shadow-md btn-primary">
+                    <PlusIcon className="w-5 h-5 ml-2" /> <span className="font-semibold">شروع شمارش جدید</span>
+                </button>
+                <div className="overflow-x-auto rounded-xl border border-gray-200/60 shadow-md">
+                    <table className="min-w-full text-center bg-white/60 responsive-table">
+                        <thead>
+                            <tr>
+                                <th className="p-3 font-bold text-slate-700">شماره</th>
+                                <th className="p-3 font-bold text-slate-700">شعبه</th>
+                                <th className="p-3 font-bold text-slate-700">تاریخ ثبت</th>
+                                <th className="p-3 font-bold text-slate-700">ثبت کننده</th>
+                                <th className="p-3 font-bold text-slate-700">ردیف‌های اصلاح شده</th>
+                                <th className="p-3 font-bold text-slate-700">هزینه کسری</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {stocktakes.length > 0 ? stocktakes.map(st => {
+                                const changed = st.lines.filter(l => l.countedStock !== undefined && l.countedStock !== l.expectedStock);
+                                const shrinkage = changed.reduce((sum, l) => sum + Math.max(0, l.expectedStock - l.countedStock!) * l.purchasePrice, 0);
+                                return (
+                                    <tr key={st.id} className="border-t border-gray-200/60">
+                                        <td data-label="شماره" className="p-3 font-mono">{st.id}</td>
+                                        <td data-label="شعبه" className="p-3">{branchName(st.branchId)}</td>
+                                        <td data-label="تاریخ ثبت" className="p-3">{st.postedAt ? new Date(st.postedAt).toLocaleDateString('fa-IR') : '-'}</td>
+                                        <td data-label="ثبت کننده" className="p-3">{st.postedBy}</td>
+                                        <td data-label="ردیف‌های اصلاح شده" className="p-3">{changed.length}</td>
+                                        <td data-label="هزینه کسری" className="p-3 font-semibold text-red-600">{formatCurrency(shrinkage, storeSettings)}</td>
+                                    </tr>
+                                );
+                            }) : (
+                                <tr><td colSpan={6} className="p-8 text-slate-500">هنوز شمارشی ثبت نشده است.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        );
+    }
+
+    const countedLines = activeStocktake.lines.filter(l => l.countedStock !== undefined);
+    const varianceLines = countedLines.filter(l => l.countedStock !== l.expectedStock);
+    const shrinkageCost = varianceLines.reduce((sum, l) => sum + Math.max(0, l.expectedStock - l.countedStock!) * l.purchasePrice, 0);
+    const surplusValue = varianceLines.reduce((sum, l) => sum + Math.max(0, l.countedStock! - l.expectedStock) * l.purchasePrice, 0);
+    const visibleLines = activeStocktake.lines.filter(l =>
+        l.productName.toLowerCase().includes(filter.toLowerCase()) || l.lotNumber.toLowerCase().includes(filter.toLowerCase())
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-3 p-4 bg-white/70 rounded-xl border">
+                <div>
+                    <p className="font-bold text-lg">شمارش #{activeStocktake.id} - {branchName(activeStocktake.branchId)}</p>
+                    <p className="text-sm text-slate-600">شروع: {new Date(activeStocktake.startedAt).toLocaleString('fa-IR')} توسط {activeStocktake.startedBy} • شمارش شده: {countedLines.length} از {activeStocktake.lines.length}</p>
+                </div>
+                <div className="flex gap-2">
+                    {step === 'count'
+                        ? <button onClick={() => setStep('review')} className="bg-blue-600 text-white px-4 py-2 rounded-lg btn-primary font-semibold">گزارش مغایرت</button>
+                        : <button onClick={() => setStep('count')} className="bg-gray-200 px-4 py-2 rounded-lg font-semibold">بازگشت به شمارش</button>}
+                    <button onClick={handleCancel} className="bg-red-100 text-red-700 px-4 py-2 rounded-lg font-semibold">لغو شمارش</button>
+                </div>
+            </div>
+
+            {step === 'count' ? (
+                <>
+                    <div className="flex flex-wrap gap-3">
+                        <form onSubmit={handleScan} className="flex-grow">
+                            <input value={scanCode} onChange={e => setScanCode(e.target.value)} placeholder="اسکن بارکد..." className="w-full p-3 border rounded-lg form-input" autoFocus />
+                        </form>
+                        <input value={filter} onChange={e => setFilter(e.target.value)} placeholder="جستجوی نام یا لات..." className="flex-grow p-3 border rounded-lg form-input" />
+                    </div>
+                    <div className="space-y-2">
+                        {visibleLines.map(line => (
+                            <div key={line.batchId} className={`flex flex-wrap justify-between items-center gap-3 p-3 rounded-lg border ${line.countedStock === undefined ? 'bg-white/60' : line.countedStock === line.expectedStock ? 'bg-green-50' : 'bg-amber-50'}`}>
+                                <div>
+                                    <p className="font-semibold">{line.productName}</p>
+                                    <p className="text-xs text-slate-500">لات: <span className="font-mono">{line.lotNumber}</span> • موجودی سیستم: {formatStockToPackagesAndUnits(line.expectedStock, itemsPerPackage(line.productId))}</p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <PackageUnitInput
+                                        totalUnits={line.countedStock ?? 0}
+                                        itemsPerPackage={itemsPerPackage(line.productId)}
+                                        onChange={total => setStocktakeCount(line.batchId, total)}
+                                    />
+                                    {line.countedStock === undefined
+                                        ? <button onClick={() => setStocktakeCount(line.batchId, line.expectedStock)} className="text-sm bg-slate-200 px-3 py-2 rounded-lg" title="تعداد شمارش شده برابر موجودی سیستم است">برابر سیستم</button>
+                                        : <button onClick={() => setStocktakeCount(line.batchId, undefined)} className="text-sm text-slate-500 px-3 py-2" title="حذف شمارش این ردیف">پاک کردن</button>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <>
+                    {countedLines.length < activeStocktake.lines.length && (
+                        <p className="p-3 rounded-lg bg-amber-50 text-amber-800 text-sm">{activeStocktake.lines.length - countedLines.length} ردیف شمارش نشده است و موجودی آن‌ها تغییر نمی‌کند.</p>
+                    )}
+                    <div className="overflow-x-auto rounded-xl border border-gray-200/60 shadow-md">
+                        <table className="min-w-full text-center bg-white/60 responsive-table">
+                            <thead>
+                                <tr>
+                                    <th className="p-3 font-bold text-slate-700">محصول</th>
+                                    <th className="p-3 font-bold text-slate-700">لات</th>
+                                    <th className="p-3 font-bold text-slate-700">موجودی سیستم</th>
+                                    <th className="p-3 font-bold text-slate-700">شمارش شده</th>
+                                    <th className="p-3 font-bold text-slate-700">مغایرت</th>
+                                    <th className="p-3 font-bold text-slate-700">اثر مالی</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {varianceLines.length > 0 ? varianceLines.map(l => {
+                                    const diff = l.countedStock! - l.expectedStock;
+                                    return (
+                                        <tr key={l.batchId} className="border-t border-gray-200/60">
+                                            <td data-label="محصول" className="p-3 font-semibold">{l.productName}</td>
+                                            <td data-label="لات" className="p-3 font-mono">{l.lotNumber}</td>
+                                            <td data-label="موجودی سیستم" className="p-3">{l.expectedStock}</td>
+                                            <td data-label="شمارش شده" className="p-3">{l.countedStock}</td>
+                                            <td data-label="مغایرت" className={`p-3 font-bold ${diff < 0 ? 'text-red-600' : 'text-green-600'}`}>{diff > 0 ? `+${diff}` : diff}</td>
+                                            <td data-label="اثر مالی" className={`p-3 ${diff < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatCurrency(diff * l.purchasePrice, storeSettings)}</td>
+                                        </tr>
+                                    );
+                                }) : (
+                                    <tr><td colSpan={6} className="p-8 text-slate-500">مغایرتی یافت نشد.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex flex-wrap justify-between items-center gap-3 p-4 bg-white/70 rounded-xl border">
+                        <div className="space-y-1">
+                            <p>هزینه کسری (ثبت به عنوان مصرف): <span className="font-bold text-red-600">{formatCurrency(shrinkageCost, storeSettings)}</span></p>
+                            <p>ارزش اضافی: <span className="font-bold text-green-600">{formatCurrency(surplusValue, storeSettings)}</span></p>
+                        </div>
+                        <button onClick={handlePost} className="bg-green-600 text-white px-6 py-3 rounded-lg font-semibold">ثبت تعدیلات</button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+
+// Manual stock correction of one batch; the reason ends up in the stock movement ledger
+const StockAdjustmentModal: React.FC<{ product: Product; batch: ProductBatch; onClose: () => void; showToast: (message: string) => void }> = ({ product, batch, onClose, showToast }) => {
+    const { adjustStock } = useAppContext();
+    const [direction, setDirection] = useState<'out' | 'in'>('out');
+    const [quantity, setQuantity] = useState(0);
+    const [reason, setReason] = useState<StockAdjustmentReason>('damage');
+    const [note, setNote] = useState('');
+
+    const handleSubmit = () => {
+        const result = adjustStock(batch.id, direction === 'out' ? -quantity : quantity, reason, note);
+        showToast(result.message);
+        if (result.success) onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[100] p-4 modal-animate">
+            <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-md overflow-hidden">
+                <div className="flex justify-between items-center p-4 border-b border-slate-100 bg-slate-50">
+                    <h2 className="text-xl font-bold text-slate-800">تعدیل موجودی</h2>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-red-100 hover:text-red-600 transition-colors"><XIcon className="w-6 h-6" /></button>
+                </div>
+                <div className="p-6 space-y-4">
+                    <p className="text-sm text-slate-600">
+                        {product.name} • لات <span className="font-mono">{batch.lotNumber}</span> • موجودی فعلی: {formatStockToPackagesAndUnits(batch.stock, product.itemsPerPackage)}
+                    </p>
+                    <div className="flex gap-2">
+                        <button onClick={() => setDirection('out')} className={`flex-1 p-2 rounded-lg font-semibold ${direction === 'out' ? 'bg-red-600 text-white' : 'bg-slate-100 text-slate-600'}`}>کاهش</button>
+                        <button onClick={() => setDirection('in')} className={`flex-1 p-2 rounded-lg font-semibold ${direction === 'in' ? 'bg-green-600 text-white' : 'bg-slate-100 text-slate-600'}`}>افزایش</button>
+                    </div>
+                    <div className="flex justify-center">
+                        <PackageUnitInput totalUnits={quantity} itemsPerPackage={product.itemsPerPackage} onChange={setQuantity} />
+                    </div>
+                    <select value={reason} onChange={e => setReason(e.target.value as StockAdjustmentReason)} className="w-full p-2 border rounded bg-white form-input">
+                        {STOCK_ADJUSTMENT_REASONS.map(r => <option key={r} value={r}>{STOCK_MOVEMENT_REASONS[r]}</option>)}
+                    </select>
+                    <input value={note} onChange={e => setNote(e.target.value)} placeholder="توضیحات (اختیاری)" className="w-full p-2 border rounded form-input" />
+                    <button onClick={handleSubmit} disabled={quantity <= 0} className="w-full bg-blue-600 text-white p-3 rounded-lg font-semibold disabled:opacity-50">ثبت تعدیل</button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
 const Inventory: React.FC = () => {
-    const { products, addProduct, updateProduct, deleteProduct, storeSettings, hasPermission } = useAppContext();
+    const { products, addProduct, updateProduct, deleteProduct, storeSettings, hasPermission, branches, activeBranchId } = useAppContext();
+    // Stock columns show the active branch; the batch list below each product shows every branch
+    const stockBranchId = activeBranchId || ALL_BRANCHES;
     const [isProductModalOpen, setIsProductModalOpen] = useState(false);
     const [editingProduct, setEditingProduct] = useState<Product | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
     const [toast, setToast] = useState<string>('');
     const [expandedProducts, setExpandedProducts] = useState<Record<string, boolean>>({});
+    const [stockCardProduct, setStockCardProduct] = useState<Product | null>(null);
+    const [adjustingBatch, setAdjustingBatch] = useState<{ product: Product; batch: ProductBatch } | null>(null);
+    const [activeTab, setActiveTab] = useState<'products' | 'transfers' | 'stocktake'>('products');
+    const tabs = ([
+        { id: 'products', label: 'محصولات', visible: true },
+        { id: 'transfers', label: 'انتقال بین شعب', visible: branches.length > 1 },
+        { id: 'stocktake', label: 'شمارش انبار', visible: hasPermission('inventory:stocktake') },
+    ] as const).filter(tab => tab.visible);
     
     useEffect(() => {
          document.body.style.overflow = isProductModalOpen ? 'hidden' : 'auto';
@@ -43,7 +478,7 @@ const Inventory: React.FC = () => {
 
     const handleSaveProduct = (
         productData: Omit<Product, 'id' | 'batches'>,
-        firstBatchData: Omit<ProductBatch, 'id'>
+        firstBatchData: Omit<ProductBatch, 'id' | 'branchId'>
     ) => {
         const result = editingProduct
             ? updateProduct({ ...editingProduct, ...productData })
@@ -71,6 +506,7 @@ const Inventory: React.FC = () => {
             
             <div className="flex justify-between items-center mb-10 gap-4 flex-wrap">
                 <h1 className="text-2xl md:text-4xl text-slate-800">مدیریت انبار</h1>
+                {activeTab === 'products' && <>
                 <div className="relative w-full md:w-auto md:flex-grow max-w-lg">
                     <input
                         type="text"
@@ -89,8 +525,30 @@ const Inventory: React.FC = () => {
                         </button>
                     )}
                 </div>
+                </>}
             </div>
 
+            {tabs.length > 1 && (
+                <div className="flex flex-wrap mb-6 p-2 bg-white/40 rounded-2xl border border-gray-200/60">
+                    {tabs.map(tab => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setActiveTab(tab.id)}
+                            className={`py-2 px-5 font-bold rounded-lg transition-all duration-300 ${activeTab === tab.id ? 'bg-white shadow-md text-blue-600' : 'text-slate-600 hover:bg-white/70 hover:text-blue-600'}`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {activeTab !== 'products' && tabs.some(tab => tab.id === activeTab) ? (
+                <div className="bg-white/60 backdrop-blur-xl rounded-2xl shadow-lg border border-gray-200/60 p-4 md:p-6">
+                    {activeTab === 'transfers' && <StockTransfersTab showToast={showToast} />}
+                    {activeTab === 'stocktake' && <StocktakeTab showToast={showToast} />}
+                </div>
+            ) : <>
+
             <div className="bg-white/60 backdrop-blur-xl rounded-2xl shadow-lg border border-gray-200/60 overflow-hidden md:block hidden">
                 <div className="overflow-x-auto">
                     <table className="min-w-full text-center">
@@ -105,7 +563,7 @@ const Inventory: React.FC = () => {
                         </thead>
                         <tbody>
                             {filteredProducts.length > 0 ? filteredProducts.map((product) => {
-                                const totalStock = product.batches.reduce((sum, b) => sum + b.stock, 0);
+                                const totalStock = getBranchStock(product, stockBranchId);
                                 const isExpanded = !!expandedProducts[product.id];
                                 return (
                                 <React.Fragment key={product.id}>
@@ -129,23 +587,34 @@ const Inventory: React.FC = () => {
                                         <tr className="bg-slate-50/70">
                                             <td colSpan={5} className="p-4">
                                                 <div className="p-4 bg-white/80 rounded-lg border">
-                                                    <h4 className="text-lg font-bold text-right mb-3 text-slate-700">دسته‌های موجود</h4>
+                                                    <div className="flex justify-between items-center mb-3">
+                                                        <h4 className="text-lg font-bold text-right text-slate-700">دسته‌های موجود</h4>
+                                                        <button onClick={() => setStockCardProduct(product)} className="text-sm bg-slate-200 px-3 py-1.5 rounded-lg font-semibold text-slate-700 hover:bg-slate-300">کارت کالا</button>
+                                                    </div>
                                                     <table className="min-w-full text-center text-sm">
                                                         <thead>
                                                             <tr className="border-b">
+                                                                {branches.length > 1 && <th className="p-2 font-semibold">شعبه</th>}
                                                                 <th className="p-2 font-semibold">شماره لات</th>
                                                                 <th className="p-2 font-semibold">موجودی</th>
                                                                 <th className="p-2 font-semibold">قیمت خرید</th>
                                                                 <th className="p-2 font-semibold">تاریخ انقضا</th>
+                                                                {hasPermission('inventory:adjust_stock') && <th className="p-2 font-semibold"></th>}
                                                             </tr>
                                                         </thead>
                                                         <tbody>
                                                             {product.batches.map(batch => (
                                                                 <tr key={batch.id}>
+                                                                    {branches.length > 1 && <td className="p-2">{branches.find(b => b.id === batch.branchId)?.name || '-'}</td>}
                                                                     <td className="p-2 font-mono">{batch.lotNumber}</td>
                                                                     <td className="p-2">{batch.stock}</td>
                                                                     <td className="p-2">{formatCurrency(batch.purchasePrice, storeSettings)}</td>
                                                                     <td className="p-2">{batch.expiryDate ? new Date(batch.expiryDate).toLocaleDateString('fa-IR') : '-'}</td>
+                                                                    {hasPermission('inventory:adjust_stock') && (
+                                                                        <td className="p-2">
+                                                                            <button onClick={() => setAdjustingBatch({ product, batch })} className="text-blue-600 font-semibold hover:underline">تعدیل</button>
+                                                                        </td>
+                                                                    )}
                                                                 </tr>
                                                             ))}
                                                         </tbody>
@@ -171,7 +640,7 @@ const Inventory: React.FC = () => {
             {/* Mobile View */}
             <div className="md:hidden space-y-4">
                  {filteredProducts.length > 0 ? filteredProducts.map((product) => {
-                    const totalStock = product.batches.reduce((sum, b) => sum + b.stock, 0);
+                    const totalStock = getBranchStock(product, stockBranchId);
                     return (
                         <div key={product.id} className="bg-white/70 p-4 rounded-xl shadow-md border border-gray-200/60">
                             <div className="flex justify-between items-start">
@@ -185,6 +654,7 @@ const Inventory: React.FC = () => {
                                 <div className="flex justify-between"><span className="text-slate-500">قیمت فروش:</span> <span className="font-semibold">{formatCurrency(product.salePrice, storeSettings)}</span></div>
                                 <div className="flex justify-between"><span className="text-slate-500">موجودی کل:</span> <span className="font-bold">{formatStockToPackagesAndUnits(totalStock, product.itemsPerPackage)}</span></div>
                             </div>
+                            <button onClick={() => setStockCardProduct(product)} className="mt-3 w-full text-sm bg-slate-200 py-2 rounded-lg font-semibold text-slate-700">کارت کالا</button>
                         </div>
                     )
                  }) : (
@@ -193,8 +663,11 @@ const Inventory: React.FC = () => {
                     </div>
                  )}
             </div>
+            </>}
 
             {isProductModalOpen && <ProductModal product={editingProduct} onClose={() => setIsProductModalOpen(false)} onSave={handleSaveProduct} />}
+            {stockCardProduct && <StockCardModal product={stockCardProduct} onClose={() => setStockCardProduct(null)} />}
+            {adjustingBatch && <StockAdjustmentModal {...adjustingBatch} onClose={() => setAdjustingBatch(null)} showToast={showToast} />}
 
         </div>
     );
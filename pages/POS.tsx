@@ -1,18 +1,36 @@
 
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import type { InvoiceItem, Product, SaleInvoice, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent, Customer, SalesMemoImage, Service, CartItem } from '../types';
+import type { InvoiceItem, Product, SaleInvoice, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent, Customer, SalesMemoImage, Service, CartItem, PaymentLine, PaymentMethod, CreditOverride, CashShift, CashMovement, CashMovementReason, Expense, Quotation, CustomerOrder, Voucher, ReturnLine, ExchangeReturn } from '../types';
 import { useAppContext } from '../AppContext';
-import { MicIcon, EditIcon, PrintIcon, TrashIcon, CameraIcon, GalleryIcon, XIcon, CheckIcon, BarcodeIcon, PlusIcon, UserGroupIcon, ChevronDownIcon } from '../components/icons';
+import { MicIcon, EditIcon, PrintIcon, TrashIcon, CameraIcon, GalleryIcon, XIcon, CheckIcon, BarcodeIcon, PlusIcon, UserGroupIcon, ChevronDownIcon, EyeIcon } from '../components/icons';
 import Toast from '../components/Toast';
 import PrintPreviewModal from '../components/PrintPreviewModal';
+import ZReportModal from '../components/ZReportModal';
+import VoucherPrintModal from '../components/VoucherPrintModal';
 import FloatingGallery from '../components/FloatingGallery';
 import * as db from '../utils/db';
 import { formatCurrency } from '../utils/formatters';
+import { PAYMENT_METHODS, MOBILE_MONEY_PROVIDERS, isCashPayment, getAvailableCredit, getNetCash } from '../utils/payments';
+import { getAvailablePoints, getLoyaltyAmount, getPointsForAmount } from '../utils/loyalty';
+import { getOpenShift, getShiftSummary, CASH_MOVEMENT_REASONS, CASH_IN_REASONS, CASH_OUT_REASONS } from '../utils/shifts';
+import { QUOTATION_STATUSES, getQuotationStatus, toDateInputValue } from '../utils/quotations';
+import { ORDER_STATUSES, getOrderBalanceDue } from '../utils/orders';
+import { getPreviousReturns, getReturnItems, getReturnRefunds, getReturnTotal } from '../utils/returns';
+import { getDocumentNumber } from '../utils/numbering';
+import { REVISION_ACTIONS, getInvoiceRevisions, getRevisionChanges, isVoided } from '../utils/revisions';
+import { VOUCHER_SOURCES, VOUCHER_TRANSACTION_TYPES, findVoucher, getVoucherAmounts, getVoucherProblem, isVoucherExpired } from '../utils/vouchers';
 import DateRangeFilter from '../components/DateRangeFilter';
 import POSCartItem from '../components/POSCartItem';
 import PackageUnitInput from '../components/PackageUnitInput';
 
 
+const QUOTATION_VALIDITY_DAYS = 14;
+
+const getCartTotal = (items: CartItem[]) => items.reduce((total, item) => {
+    const price = (item.type === 'product' && item.finalPrice !== undefined) ? item.finalPrice : (item.type === 'product' ? item.salePrice : item.price);
+    return total + price * item.quantity;
+}, 0);
+
 // Extracted ProductSide Component
 const ProductSide: React.FC<{
     searchContainerRef: React.RefObject<HTMLDivElement>, 
@@ -144,7 +162,12 @@ const CartSide: React.FC<any> = ({
     editingSaleInvoiceId, handleCancelEdit, updateQuantity, removeFromCart, editingPriceItemId,
     setEditingPriceItemId, updateCartItemFinalPrice, hasPermission, selectedCustomerId,
     setSelectedCustomerId, customers, totalAmount, completeSale, setInvoiceDateRange,
-    handlePrintInvoice, handleEditInvoice, storeSettings, setMobileView, addToCart, handleOpenReturnModal
+    handlePrintInvoice, storeSettings, setMobileView, addToCart, handleOpenReturnModal,
+    saleInvoiceRevisions, setInvoiceAction, setHistoryInvoice,
+    currentShift, setIsShiftModalOpen, setIsCashMovementModalOpen, parkedCartCount, setIsParkedCartsModalOpen,
+    setIsSaveQuotationOpen, handlePrintQuotation, handleConvertQuotation,
+    setIsPlaceOrderOpen, handlePickUpOrder, setOrderAction, cartPriceListName,
+    setIsIssueVoucherOpen, setVoucherToPrint
 }) => {
     
     // Logic for mobile footer removed from here and moved to parent POS component for unified handling
@@ -165,7 +188,30 @@ const CartSide: React.FC<any> = ({
                     خدمات
                     {activeTab === 'services' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
                 </button>
+                 <button onClick={() => setActiveTab('orders')} className={`py-2 px-3 md:px-6 font-bold text-sm md:text-lg whitespace-nowrap transition-colors relative ${activeTab === 'orders' ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}>
+                    سفارش‌ها
+                    {activeTab === 'orders' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
+                </button>
+                 <button onClick={() => setActiveTab('quotations')} className={`py-2 px-3 md:px-6 font-bold text-sm md:text-lg whitespace-nowrap transition-colors relative ${activeTab === 'quotations' ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}>
+                    پیش‌فاکتورها
+                    {activeTab === 'quotations' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
+                </button>
+                 <button onClick={() => setActiveTab('vouchers')} className={`py-2 px-3 md:px-6 font-bold text-sm md:text-lg whitespace-nowrap transition-colors relative ${activeTab === 'vouchers' ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}>
+                    کارت هدیه
+                    {activeTab === 'vouchers' && <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full"></div>}
+                </button>
             </div>
+             <button onClick={() => setIsShiftModalOpen(true)} className={`flex-shrink-0 ml-1 px-2 py-1 rounded-lg text-xs font-bold whitespace-nowrap border transition-colors ${currentShift ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' : 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100'}`} title={currentShift ? `شیفت باز از ${new Date(currentShift.openedAt).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}` : 'شیفت صندوق باز نیست'}>
+                {currentShift ? 'بستن شیفت' : 'باز کردن شیفت'}
+            </button>
+             <button onClick={() => setIsParkedCartsModalOpen(true)} className="flex-shrink-0 ml-1 px-2 py-1 rounded-lg text-xs font-bold whitespace-nowrap border bg-slate-50 text-slate-700 border-slate-200 hover:bg-slate-100 transition-colors" title="پارک سبد فعلی یا بارگذاری سبد پارک شده">
+                سبدهای پارک شده{parkedCartCount > 0 ? ` (${parkedCartCount})` : ''}
+            </button>
+             {currentShift && hasPermission('pos:cash_movement') && (
+                <button onClick={() => setIsCashMovementModalOpen(true)} className="flex-shrink-0 ml-1 px-2 py-1 rounded-lg text-xs font-bold whitespace-nowrap border bg-slate-50 text-slate-700 border-slate-200 hover:bg-slate-100 transition-colors" title="ورود یا برداشت وجه از صندوق">
+                    ورود/برداشت وجه
+                </button>
+             )}
              <button onClick={() => setIsGalleryOpen(true)} className="flex-shrink-0 ml-1 p-2 rounded-full text-gray-500 hover:text-blue-600 hover:bg-gray-100 transition-colors" title="گالری">
                 <GalleryIcon className="w-6 h-6" />
                 {memoImages.length > 0 && (
@@ -222,8 +268,12 @@ const CartSide: React.FC<any> = ({
                     <label htmlFor="customer-select" className="text-md font-semibold text-slate-700">مشتری (برای فروش نسیه)</label>
                     <select id="customer-select" value={selectedCustomerId} onChange={e => setSelectedCustomerId(e.target.value)} className="w-full p-3 mt-2 bg-white/80 border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 form-input" disabled={!hasPermission('pos:create_credit_sale')}>
                         <option value="">فروش نقدی</option>
-                        {customers.map((c: Customer) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        {customers.map((c: Customer) => {
+                            const availableCredit = getAvailableCredit(c);
+                            return <option key={c.id} value={c.id}>{c.name}{availableCredit !== undefined ? ` (اعتبار باقی‌مانده: ${formatCurrency(availableCredit, storeSettings)})` : ''}</option>;
+                        })}
                     </select>
+                    {cartPriceListName && <p className="text-xs font-semibold text-blue-700 mt-1">قیمت‌ها بر اساس لیست قیمت «{cartPriceListName}»</p>}
                 </div>
                 
                 <div className="flex items-center justify-between gap-3">
@@ -254,18 +304,22 @@ const CartSide: React.FC<any> = ({
                             <div key={invoice.id} className="flex items-center justify-between mb-3 p-3 bg-white/80 rounded-xl shadow-sm border border-gray-200/50">
                                 <div>
                                     <div className="flex items-center gap-2">
-                                        <p className="font-mono font-bold text-slate-800 text-sm md:text-lg">{invoice.id.slice(0,8)}..</p>
+                                        <p className="font-mono font-bold text-slate-800 text-sm md:text-lg">{getDocumentNumber(invoice)}</p>
                                         {invoice.type === 'return' && <span className="text-[10px] font-bold bg-orange-200 text-orange-800 px-1.5 py-0.5 rounded-full">مرجوعی</span>}
+                                        {invoice.exchangeId && <span className="text-[10px] font-bold bg-blue-100 text-blue-800 px-1.5 py-0.5 rounded-full">تعویض</span>}
+                                        {isVoided(invoice) && <span className="text-[10px] font-bold bg-red-100 text-red-700 px-1.5 py-0.5 rounded-full" title={invoice.voidReason}>باطل شده</span>}
                                     </div>
-                                    <div className="text-sm md:text-md text-blue-600 font-bold">
+                                    <div className={`text-sm md:text-md font-bold ${isVoided(invoice) ? 'text-slate-400 line-through' : 'text-blue-600'}`}>
                                         {formatCurrency(invoice.totalAmount, storeSettings)}
                                     </div>
                                     <p className="text-xs text-slate-400">{new Date(invoice.timestamp).toLocaleTimeString('fa-IR', {hour: '2-digit', minute:'2-digit'})}</p>
                                 </div>
                                 <div className="flex items-center gap-1">
                                     <button onClick={() => handlePrintInvoice(invoice.id)} className="p-1.5 rounded-full text-gray-500 hover:text-green-600 bg-gray-50 hover:bg-green-100"><PrintIcon className="w-5 h-5"/></button>
-                                    {hasPermission('pos:edit_invoice') && invoice.type === 'sale' && <button onClick={() => handleEditInvoice(invoice.id)} className="p-1.5 rounded-full text-gray-500 hover:text-blue-600 bg-gray-50 hover:bg-blue-100"><EditIcon className="w-5 h-5"/></button>}
-                                    {invoice.type === 'sale' && <button onClick={() => handleOpenReturnModal(invoice)} className="p-1.5 rounded-full text-gray-500 hover:text-orange-600 bg-gray-50 hover:bg-orange-100"><PlusIcon className="w-5 h-5 transform rotate-45" /></button>}
+                                    {getInvoiceRevisions(saleInvoiceRevisions, invoice.id).length > 0 && <button onClick={() => setHistoryInvoice(invoice)} className="p-1.5 rounded-full text-gray-500 hover:text-slate-800 bg-gray-50 hover:bg-slate-200" title="تاریخچه تغییرات"><EyeIcon className="w-5 h-5"/></button>}
+                                    {hasPermission('pos:edit_invoice') && invoice.type === 'sale' && !invoice.exchangeId && !isVoided(invoice) && <button onClick={() => setInvoiceAction({ invoice, action: 'edit' })} className="p-1.5 rounded-full text-gray-500 hover:text-blue-600 bg-gray-50 hover:bg-blue-100"><EditIcon className="w-5 h-5"/></button>}
+                                    {invoice.type === 'sale' && !isVoided(invoice) && <button onClick={() => handleOpenReturnModal(invoice)} className="p-1.5 rounded-full text-gray-500 hover:text-orange-600 bg-gray-50 hover:bg-orange-100"><PlusIcon className="w-5 h-5 transform rotate-45" /></button>}
+                                    {hasPermission('pos:void_invoice') && invoice.type === 'sale' && !invoice.exchangeId && !isVoided(invoice) && <button onClick={() => setInvoiceAction({ invoice, action: 'void' })} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-100" title="ابطال فاکتور"><XIcon className="w-5 h-5"/></button>}
                                 </div>
                             </div>
                         ))
@@ -273,6 +327,20 @@ const CartSide: React.FC<any> = ({
                 </div>
             </div>
         )}
+        {activeTab === 'orders' && (
+            <OrdersTab
+                onPlace={() => setIsPlaceOrderOpen(true)}
+                onPickUp={handlePickUpOrder}
+                onDeposit={order => setOrderAction({ order, action: 'deposit' })}
+                onCancel={order => setOrderAction({ order, action: 'cancel' })}
+            />
+        )}
+        {activeTab === 'quotations' && (
+            <QuotationsTab onSave={() => setIsSaveQuotationOpen(true)} onPrint={handlePrintQuotation} onConvert={handleConvertQuotation} />
+        )}
+        {activeTab === 'vouchers' && (
+            <VouchersTab onIssue={() => setIsIssueVoucherOpen(true)} onPrint={setVoucherToPrint} />
+        )}
         {activeTab === 'services' && (
              <div className="flex-grow overflow-y-auto -mx-6 px-6 pb-28 md:pb-4">
                  {services.length === 0 ? (
@@ -295,8 +363,12 @@ const CartSide: React.FC<any> = ({
     );
 };
 
-const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmit: (returnItems: { id: string, type: 'product' | 'service', quantity: number }[]) => void }> = ({ invoice, onClose, onSubmit }) => {
+// The goods in the cart can be taken in exchange for the returned ones, unless `exchangeProblem` says why not
+const ReturnModal: React.FC<{ invoice: SaleInvoice, cartTotal: number, exchangeProblem?: string, onClose: () => void, onSubmit: (returnItems: ReturnLine[], refundAsVoucher: boolean, exchange: boolean) => void }> = ({ invoice, cartTotal, exchangeProblem, onClose, onSubmit }) => {
+    const { saleInvoices, storeSettings } = useAppContext();
     const [returnQuantities, setReturnQuantities] = useState<{[key: string]: number}>({});
+    const [refundAsVoucher, setRefundAsVoucher] = useState(false);
+    const [isExchange, setIsExchange] = useState(false);
 
     const handleQuantityChange = (item: CartItem, quantity: number) => {
         const key = `${item.id}-${item.type}`;
@@ -304,23 +376,29 @@ const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmi
         setReturnQuantities(prev => ({...prev, [key]: newQuantity}));
     };
     
+    const returnItems: ReturnLine[] = Object.entries(returnQuantities)
+        .filter(([, qty]) => Number(qty) > 0)
+        .map(([key, qty]) => {
+            const lastDashIndex = key.lastIndexOf('-');
+            const id = key.substring(0, lastDashIndex);
+            const type = key.substring(lastDashIndex + 1);
+            return { id, type: type as 'product' | 'service', quantity: Number(qty) };
+        });
+
+    // The returned goods pay for the cart; what is left over is paid by the customer or paid back
+    const returnTotal = getReturnTotal(getReturnItems(invoice, returnItems));
+    const refunds = getReturnRefunds(invoice, getPreviousReturns(saleInvoices, invoice.id), returnTotal);
+    const exchangeDifference = cartTotal - refunds.rest;
+
     const handleSubmit = () => {
-        const returnItems = Object.entries(returnQuantities)
-            .filter(([, qty]) => Number(qty) > 0)
-            .map(([key, qty]) => {
-                const lastDashIndex = key.lastIndexOf('-');
-                const id = key.substring(0, lastDashIndex);
-                const type = key.substring(lastDashIndex + 1);
-                return { id, type: type as 'product' | 'service', quantity: Number(qty) };
-            });
-        onSubmit(returnItems);
+        onSubmit(returnItems, refundAsVoucher, isExchange);
     };
 
     return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
             <div className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-2xl max-h-[90vh] flex flex-col">
                 <div className="flex-shrink-0 flex justify-between items-center pb-3 border-b">
-                    <h2 className="text-lg md:text-xl font-bold">ثبت مرجوعی <span className="font-mono text-sm">{invoice.id.slice(0,8)}</span></h2>
+                    <h2 className="text-lg md:text-xl font-bold">ثبت مرجوعی <span className="font-mono text-sm">{getDocumentNumber(invoice)}</span></h2>
                     <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
                 </div>
                 <div className="flex-grow overflow-y-auto pt-4 -mx-2 px-2">
@@ -343,15 +421,910 @@ const ReturnModal: React.FC<{ invoice: SaleInvoice, onClose: () => void, onSubmi
                         })}
                     </div>
                 </div>
-                 <div className="flex-shrink-0 flex justify-end gap-3 mt-4 pt-3 border-t">
+                {isExchange && (
+                    <div className="flex-shrink-0 mt-3 p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm space-y-1">
+                        <div className="flex justify-between"><span>ارزش کالاهای مرجوعی</span><span className="font-bold">{formatCurrency(returnTotal, storeSettings)}</span></div>
+                        {refunds.accountRefund + refunds.loyaltyRefund > 0 && (
+                            <div className="flex justify-between text-slate-500"><span>برگشت به حساب / امتیاز مشتری</span><span>{formatCurrency(refunds.accountRefund + refunds.loyaltyRefund, storeSettings)}</span></div>
+                        )}
+                        <div className="flex justify-between"><span>جمع کالاهای سبد خرید</span><span className="font-bold">{formatCurrency(cartTotal, storeSettings)}</span></div>
+                        <div className={`flex justify-between font-bold pt-1 border-t border-blue-200 ${exchangeDifference >= 0 ? 'text-blue-700' : 'text-green-700'}`}>
+                            <span>{exchangeDifference >= 0 ? 'مابه‌التفاوت قابل پرداخت' : 'مابه‌التفاوت قابل بازپرداخت'}</span>
+                            <span>{formatCurrency(Math.abs(exchangeDifference), storeSettings)}</span>
+                        </div>
+                    </div>
+                )}
+                 <div className="flex-shrink-0 flex flex-wrap items-center justify-end gap-3 mt-4 pt-3 border-t">
+                    <div className="flex flex-col gap-1 ml-auto">
+                        <label className={`flex items-center gap-2 text-sm text-slate-700 ${exchangeProblem ? 'opacity-50' : 'cursor-pointer'}`} title={exchangeProblem || 'کالاهای مرجوعی و کالاهای سبد خرید در یک سند ثبت می‌شوند'}>
+                            <input type="checkbox" checked={isExchange} disabled={!!exchangeProblem} onChange={e => setIsExchange(e.target.checked)} className="w-4 h-4" />
+                            تعویض با کالاهای سبد خرید
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer" title="مبلغی که نقداً پس داده می‌شد به صورت کارت اعتبار خرید صادر می‌شود">
+                            <input type="checkbox" checked={refundAsVoucher} onChange={e => setRefundAsVoucher(e.target.checked)} className="w-4 h-4" />
+                            بازپرداخت با کارت اعتبار خرید
+                        </label>
+                    </div>
                     <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
-                    <button onClick={handleSubmit} className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ثبت مرجوعی</button>
+                    <button onClick={handleSubmit} className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">{isExchange ? 'ثبت تعویض' : 'ثبت مرجوعی'}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+// The USD rate entered last is offered again on the next sale
+const USD_RATE_KEY = 'stationery_usd_rate';
+
+const PaymentModal: React.FC<{
+    totalAmount: number,
+    hasCustomer: boolean,
+    availablePoints?: number, // Loyalty points the customer may spend; undefined when points cannot be used
+    initialPayments?: PaymentLine[],
+    onClose: () => void,
+    onConfirm: (payments: PaymentLine[]) => void
+}> = ({ totalAmount, hasCustomer, availablePoints, initialPayments, onClose, onConfirm }) => {
+    const { storeSettings, vouchers, saleInvoices, editingSaleInvoiceId } = useAppContext();
+    const [payments, setPayments] = useState<PaymentLine[]>(
+        initialPayments && initialPayments.length > 0 ? initialPayments : [{ method: hasCustomer ? 'on_account' : 'cash_afn', amount: totalAmount }]
+    );
+    const [usdRate, setUsdRate] = useState<number>(() => Number(localStorage.getItem(USD_RATE_KEY)) || 0);
+
+    const paidAmount = payments.reduce((sum, p) => sum + p.amount, 0);
+    const cashAmount = payments.filter(p => isCashPayment(p.method)).reduce((sum, p) => sum + p.amount, 0);
+    const remaining = Math.max(0, totalAmount - paidAmount);
+    const changeAmount = Math.max(0, paidAmount - totalAmount);
+
+    // While an invoice is edited, what it spent on its vouchers is theirs again
+    const editedInvoice = editingSaleInvoiceId ? saleInvoices.find(i => i.id === editingSaleInvoiceId) : undefined;
+    const editedVoucherAmounts = getVoucherAmounts(editedInvoice?.payments || []);
+    const getUsableVoucher = (code: string): Voucher | undefined => {
+        const voucher = findVoucher(vouchers, code);
+        return voucher && { ...voucher, balance: voucher.balance + (editedVoucherAmounts.get(voucher.code) || 0) };
+    };
+    const voucherProblem = [...getVoucherAmounts(payments)]
+        .map(([code, amount]) => getVoucherProblem(getUsableVoucher(code), amount, editedInvoice ? new Date(editedInvoice.timestamp) : undefined))
+        .find(Boolean);
+
+    let error = '';
+    if (remaining > 0.01) error = 'مجموع پرداخت‌ها کمتر از مبلغ فاکتور است.';
+    else if (changeAmount > cashAmount + 0.01) error = 'باقی‌مانده فقط از پرداخت نقدی قابل برگشت است.';
+    else if (!hasCustomer && payments.some(p => p.method === 'on_account' && p.amount > 0)) error = 'برای پرداخت نسیه ابتدا مشتری را انتخاب کنید.';
+    else if (getPointsForAmount(getLoyaltyAmount(payments), storeSettings.loyalty) > (availablePoints || 0)) error = 'امتیاز مشتری برای این مبلغ کافی نیست.';
+    else if (voucherProblem) error = voucherProblem;
+    else if (payments.some(p => p.method === 'cash_usd' && p.amount > 0 && !p.exchangeRate)) error = 'نرخ دالر را وارد کنید.';
+
+    const updateLine = (index: number, changes: Partial<PaymentLine>) => {
+        setPayments(prev => prev.map((p, i) => {
+            if (i !== index) return p;
+            const line = { ...p, ...changes };
+            // Dollars are entered as received; the base amount follows the rate
+            if (line.method === 'cash_usd') {
+                line.exchangeRate = line.exchangeRate || usdRate || undefined;
+                line.amount = Math.round((line.foreignAmount || 0) * (line.exchangeRate || 0));
+            } else {
+                line.foreignAmount = undefined;
+                line.exchangeRate = undefined;
+            }
+            if (changes.method && changes.method !== p.method) line.reference = undefined;
+            if (line.method !== 'mobile_money') line.provider = undefined;
+            if (line.method === 'mobile_money' && !line.provider) line.provider = MOBILE_MONEY_PROVIDERS[0];
+            return line;
+        }));
+        if (changes.exchangeRate) setUsdRate(changes.exchangeRate);
+    };
+
+    // Pay part now in cash and put the rest on the customer's account
+    const setDownPayment = (amount: number) => {
+        const downPayment = Math.min(Math.max(amount, 0), totalAmount);
+        setPayments([
+            { method: 'cash_afn', amount: downPayment },
+            { method: 'on_account', amount: totalAmount - downPayment }
+        ]);
+    };
+    const downPayment = payments.length === 2 && payments[0].method === 'cash_afn' && payments[1].method === 'on_account' ? payments[0].amount : 0;
+
+    const addLine = () => setPayments(prev => [...prev, { method: 'cash_afn', amount: remaining }]);
+    const removeLine = (index: number) => setPayments(prev => prev.filter((_, i) => i !== index));
+    const fillRemaining = (index: number) => {
+        const line = payments[index];
+        const amount = line.amount + remaining;
+        if (line.method === 'cash_usd') {
+            if (line.exchangeRate) updateLine(index, { foreignAmount: Math.ceil((amount / line.exchangeRate) * 100) / 100 });
+        } else {
+            updateLine(index, { amount });
+        }
+    };
+
+    const handleConfirm = () => {
+        if (error) return;
+        if (usdRate) localStorage.setItem(USD_RATE_KEY, String(usdRate));
+        onConfirm(payments.filter(p => p.amount > 0));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <div className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <div className="flex-shrink-0 flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">دریافت وجه</h2>
+                    <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <div className="flex-grow overflow-y-auto pt-4 -mx-2 px-2 space-y-3">
+                    {hasCustomer && (
+                        <div className="flex flex-wrap items-center gap-2 p-3 bg-blue-50 rounded-lg border border-blue-200">
+                            <label htmlFor="down-payment" className="text-sm font-semibold text-blue-800">پیش‌پرداخت نقدی:</label>
+                            <input id="down-payment" type="number" min="0" value={downPayment || ''} onChange={e => setDownPayment(Number(e.target.value))} placeholder="0" className="w-36 p-2 border rounded-lg text-sm" />
+                            <span className="text-xs text-blue-700">مانده به حساب مشتری: {formatCurrency(payments.filter(p => p.method === 'on_account').reduce((sum, p) => sum + p.amount, 0), storeSettings)}</span>
+                        </div>
+                    )}
+                    {availablePoints !== undefined && (
+                        <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-2">
+                            امتیاز قابل استفاده مشتری: <span className="font-bold">{availablePoints.toLocaleString()}</span> (معادل {formatCurrency(availablePoints * storeSettings.loyalty.pointValue, storeSettings)})
+                        </p>
+                    )}
+                    {payments.map((line, index) => (
+                        <div key={index} className="p-3 bg-slate-50 rounded-lg border space-y-2">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <select value={line.method} onChange={e => updateLine(index, { method: e.target.value as PaymentMethod })} className="p-2 border rounded-lg bg-white text-sm font-semibold">
+                                    {(Object.keys(PAYMENT_METHODS) as PaymentMethod[]).filter(m => m !== 'exchange').map(m => (
+                                        <option key={m} value={m} disabled={(m === 'on_account' && !hasCustomer) || (m === 'loyalty_points' && !availablePoints)}>{PAYMENT_METHODS[m]}</option>
+                                    ))}
+                                </select>
+                                {line.method === 'cash_usd' ? (
+                                    <>
+                                        <input type="number" min="0" step="0.01" value={line.foreignAmount || ''} onChange={e => updateLine(index, { foreignAmount: Number(e.target.value) })} placeholder="مبلغ دالر" className="w-28 p-2 border rounded-lg text-sm" />
+                                        <span className="text-xs text-slate-500">× نرخ</span>
+                                        <input type="number" min="0" value={line.exchangeRate || ''} onChange={e => updateLine(index, { exchangeRate: Number(e.target.value) })} placeholder="نرخ" className="w-24 p-2 border rounded-lg text-sm" />
+                                        <span className="text-sm font-bold text-slate-700">= {formatCurrency(line.amount, storeSettings)}</span>
+                                    </>
+                                ) : (
+                                    <input type="number" min="0" value={line.amount || ''} onChange={e => updateLine(index, { amount: Number(e.target.value) })} placeholder="مبلغ" className="w-36 p-2 border rounded-lg text-sm" />
+                                )}
+                                <button onClick={() => fillRemaining(index)} className="px-2 py-1 text-xs rounded-md bg-blue-50 text-blue-600 border border-blue-200 hover:bg-blue-100" disabled={remaining <= 0}>باقی‌مانده</button>
+                                {payments.length > 1 && (
+                                    <button onClick={() => removeLine(index)} className="p-1.5 rounded-md text-red-500 hover:bg-red-50 mr-auto"><TrashIcon className="w-4 h-4" /></button>
+                                )}
+                            </div>
+                            {(line.method === 'card' || line.method === 'mobile_money') && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    {line.method === 'mobile_money' && (
+                                        <select value={line.provider} onChange={e => updateLine(index, { provider: e.target.value })} className="p-2 border rounded-lg bg-white text-sm">
+                                            {MOBILE_MONEY_PROVIDERS.map(provider => <option key={provider} value={provider}>{provider}</option>)}
+                                        </select>
+                                    )}
+                                    <input type="text" value={line.reference || ''} onChange={e => updateLine(index, { reference: e.target.value })} placeholder={line.method === 'card' ? 'شماره رسید کارت' : 'شماره تراکنش'} className="flex-grow p-2 border rounded-lg text-sm" />
+                                </div>
+                            )}
+                            {line.method === 'voucher' && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <input type="text" value={line.reference || ''} onChange={e => updateLine(index, { reference: e.target.value.toUpperCase() })} placeholder="کد کارت هدیه" className="flex-grow p-2 border rounded-lg text-sm font-mono" dir="ltr" />
+                                    {getUsableVoucher(line.reference || '') && (
+                                        <span className="text-xs text-slate-600">مانده: <span className="font-bold">{formatCurrency(getUsableVoucher(line.reference || '')!.balance, storeSettings)}</span></span>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                    <button onClick={addLine} className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-800">
+                        <PlusIcon className="w-4 h-4" /> افزودن روش پرداخت
+                    </button>
+                </div>
+                <div className="flex-shrink-0 mt-4 pt-3 border-t space-y-1 text-sm">
+                    <div className="flex justify-between"><span>مبلغ فاکتور:</span><span className="font-bold">{formatCurrency(totalAmount, storeSettings)}</span></div>
+                    <div className="flex justify-between"><span>دریافتی:</span><span className="font-bold">{formatCurrency(paidAmount, storeSettings)}</span></div>
+                    {remaining > 0 && <div className="flex justify-between text-red-600"><span>باقی‌مانده:</span><span className="font-bold">{formatCurrency(remaining, storeSettings)}</span></div>}
+                    {changeAmount > 0 && <div className="flex justify-between text-green-700 text-base"><span>باقی پول مشتری:</span><span className="font-bold">{formatCurrency(changeAmount, storeSettings)}</span></div>}
+                    {error && <p className="text-red-600 text-xs pt-1">{error}</p>}
+                </div>
+                <div className="flex-shrink-0 flex justify-end gap-3 mt-4 pt-3 border-t">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    <button onClick={handleConfirm} disabled={!!error} className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm disabled:bg-gray-400 disabled:shadow-none">ثبت فاکتور</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+// Shown when a credit sale goes over the customer's limit: someone allowed to override signs in here
+const CreditOverrideModal: React.FC<{
+    customer: Customer,
+    amount: number,
+    onClose: () => void,
+    onApproved: (override: CreditOverride) => void
+}> = ({ customer, amount, onClose, onApproved }) => {
+    const { approveCreditOverride, storeSettings } = useAppContext();
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        const result = await approveCreditOverride(username, password, customer.id, amount);
+        setIsSubmitting(false);
+        if (result.success && result.override) {
+            onApproved(result.override);
+        } else {
+            setError(result.message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleSubmit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">تأیید مدیر: عبور از سقف اعتبار</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <div className="text-sm text-slate-600 space-y-1">
+                    <p>مشتری: <span className="font-bold text-slate-800">{customer.name}</span></p>
+                    <p>سقف اعتبار: {formatCurrency(customer.creditLimit || 0, storeSettings)} | بدهی فعلی: {formatCurrency(customer.balance, storeSettings)}</p>
+                    <p>مبلغ نسیه این فاکتور: <span className="font-bold text-red-600">{formatCurrency(amount, storeSettings)}</span></p>
+                </div>
+                <input value={username} onChange={e => setUsername(e.target.value)} placeholder="نام کاربری مدیر" className="w-full p-3 border rounded-lg form-input" required autoFocus />
+                <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="رمز عبور" className="w-full p-3 border rounded-lg form-input" required />
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    <button type="submit" disabled={isSubmitting} className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm disabled:bg-gray-400">تأیید و ثبت فاکتور</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Opens the cashier's drawer with a counted float, or closes it with the counted cash
+const CashShiftModal: React.FC<{ shift?: CashShift, onClose: () => void, onClosed: (shift: CashShift) => void }> = ({ shift, onClose, onClosed }) => {
+    const { openShift, closeShift, saleInvoices, customerTransactions, expenses, cashMovements, storeSettings } = useAppContext();
+    const [amount, setAmount] = useState('');
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+    const summary = useMemo(
+        () => shift ? getShiftSummary(shift, saleInvoices, customerTransactions, expenses, cashMovements) : null,
+        [shift, saleInvoices, customerTransactions, expenses, cashMovements]
+    );
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = Number(amount);
+        if (amount === '' || isNaN(value)) { setError('مبلغ را وارد کنید.'); return; }
+        if (shift) {
+            const result = closeShift(value, note);
+            if (!result.success || !result.shift) { setError(result.message); return; }
+            onClosed(result.shift);
+        } else {
+            const result = openShift(value);
+            if (!result.success) { setError(result.message); return; }
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleSubmit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">{shift ? 'بستن شیفت صندوق' : 'باز کردن شیفت صندوق'}</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                {shift && summary && (
+                    <div className="text-sm text-slate-600 space-y-1">
+                        <p>باز شده: {new Date(shift.openedAt).toLocaleString('fa-IR')}</p>
+                        <p>موجودی اولیه: {formatCurrency(shift.openingFloat, storeSettings)} | فاکتورها: {summary.saleCount}</p>
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="shift-amount" className="text-sm font-semibold text-slate-700">{shift ? 'نقد شمارش شده در صندوق' : 'موجودی اولیه صندوق (شمارش شده)'}</label>
+                    <input id="shift-amount" type="number" min="0" value={amount} onChange={e => setAmount(e.target.value)} className="w-full p-3 mt-1 border rounded-lg form-input" autoFocus required />
+                </div>
+                {shift && (
+                    <input value={note} onChange={e => setNote(e.target.value)} placeholder="یادداشت (اختیاری)" className="w-full p-3 border rounded-lg form-input" />
+                )}
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    <button type="submit" className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">{shift ? 'بستن شیفت و چاپ گزارش Z' : 'باز کردن شیفت'}</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Cash put into or taken out of the open drawer outside of sales
+const CashMovementModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { addCashMovement, storeSettings } = useAppContext();
+    const [type, setType] = useState<CashMovement['type']>('out');
+    const [reason, setReason] = useState<CashMovementReason>('petty_purchase');
+    const [amount, setAmount] = useState('');
+    const [note, setNote] = useState('');
+    const [expenseCategory, setExpenseCategory] = useState<Expense['category'] | ''>('');
+    const [error, setError] = useState('');
+    const reasons = type === 'in' ? CASH_IN_REASONS : CASH_OUT_REASONS;
+
+    const handleTypeChange = (value: CashMovement['type']) => {
+        setType(value);
+        setReason(value === 'in' ? CASH_IN_REASONS[0] : CASH_OUT_REASONS[0]);
+        setExpenseCategory('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = Number(amount);
+        if (amount === '' || isNaN(value) || value <= 0) { setError('مبلغ را وارد کنید.'); return; }
+        const result = addCashMovement(type, value, reason, note, expenseCategory || undefined);
+        if (!result.success) { setError(result.message); return; }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleSubmit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">ورود / برداشت وجه صندوق</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <button type="button" onClick={() => handleTypeChange('out')} className={`p-2 rounded-lg font-semibold text-sm border ${type === 'out' ? 'bg-red-50 text-red-700 border-red-300' : 'bg-white text-slate-600 border-gray-200'}`}>برداشت از صندوق</button>
+                    <button type="button" onClick={() => handleTypeChange('in')} className={`p-2 rounded-lg font-semibold text-sm border ${type === 'in' ? 'bg-green-50 text-green-700 border-green-300' : 'bg-white text-slate-600 border-gray-200'}`}>ورود به صندوق</button>
+                </div>
+                <select value={reason} onChange={e => setReason(e.target.value as CashMovementReason)} className="w-full p-3 border rounded-lg form-input bg-white">
+                    {reasons.map(r => <option key={r} value={r}>{CASH_MOVEMENT_REASONS[r]}</option>)}
+                </select>
+                <input type="number" min="0" value={amount} onChange={e => setAmount(e.target.value)} placeholder={`مبلغ (${storeSettings.currencyName})`} className="w-full p-3 border rounded-lg form-input" autoFocus required />
+                <input value={note} onChange={e => setNote(e.target.value)} placeholder="توضیحات (اختیاری)" className="w-full p-3 border rounded-lg form-input" />
+                {type === 'out' && (
+                    <div>
+                        <label htmlFor="movement-expense" className="text-sm font-semibold text-slate-700">ثبت به عنوان مصرف</label>
+                        <select id="movement-expense" value={expenseCategory} onChange={e => setExpenseCategory(e.target.value as Expense['category'] | '')} className="w-full p-3 mt-1 border rounded-lg form-input bg-white">
+                            <option value="">ثبت نشود</option>
+                            <option value="utilities"> قبوض (برق، آب...)</option>
+                            <option value="rent">کرایه</option>
+                            <option value="supplies">ملزومات</option>
+                            <option value="salary">حقوق</option>
+                            <option value="other">سایر</option>
+                        </select>
+                    </div>
+                )}
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    <button type="submit" className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ثبت</button>
                 </div>
+            </form>
+        </div>
+    );
+};
+
+// Puts the current cart aside under a label and lists the carts parked in this branch
+const ParkedCartsModal: React.FC<{ selectedCustomerId: string, onClose: () => void, onRecalled: (customerId?: string) => void }> = ({ selectedCustomerId, onClose, onRecalled }) => {
+    const { cart, parkedCarts, activeBranchId, customers, storeSettings, editingSaleInvoiceId, parkCart, recallParkedCart, discardParkedCart, refreshParkedCarts } = useAppContext();
+    const [label, setLabel] = useState('');
+    const [error, setError] = useState('');
+    const branchCarts = parkedCarts.filter(c => c.branchId === activeBranchId);
+
+    useEffect(() => { refreshParkedCarts(); }, []);
+
+    const handlePark = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = parkCart(label, selectedCustomerId);
+        if (!result.success) { setError(result.message); return; }
+        onRecalled(undefined);
+    };
+
+    const handleRecall = (id: string) => {
+        const result = recallParkedCart(id);
+        if (!result.success) { setError(result.message); return; }
+        onRecalled(result.customerId);
+    };
+
+    const handleDiscard = (id: string) => {
+        if (!window.confirm('این سبد پارک شده حذف شود؟')) return;
+        const result = discardParkedCart(id);
+        if (!result.success) setError(result.message);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <div className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-lg max-h-[90vh] flex flex-col space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">سبدهای پارک شده</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                {cart.length > 0 && !editingSaleInvoiceId && (
+                    <form onSubmit={handlePark} className="flex gap-2">
+                        <input value={label} onChange={e => setLabel(e.target.value)} placeholder="برچسب سبد (مثلاً نام مشتری)" className="flex-grow p-3 border rounded-lg form-input" autoFocus />
+                        <button type="submit" className="px-4 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm whitespace-nowrap">پارک سبد فعلی</button>
+                    </form>
+                )}
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="overflow-y-auto space-y-2">
+                    {branchCarts.length === 0 ? (
+                        <p className="text-center text-slate-500 py-6">سبد پارک شده‌ای وجود ندارد.</p>
+                    ) : branchCarts.map(parked => (
+                        <div key={parked.id} className="p-3 border rounded-xl flex justify-between items-center gap-2">
+                            <div className="text-sm">
+                                <p className="font-bold text-slate-800">{parked.label}</p>
+                                <p className="text-slate-500">
+                                    {parked.items.length} قلم | {formatCurrency(getCartTotal(parked.items), storeSettings)}
+                                    {parked.customerId && ` | ${customers.find(c => c.id === parked.customerId)?.name || ''}`}
+                                </p>
+                                <p className="text-xs text-slate-400">{parked.parkedBy} - {new Date(parked.parkedAt).toLocaleString('fa-IR')}</p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                <button onClick={() => handleRecall(parked.id)} className="px-3 py-1.5 rounded-lg bg-blue-600 text-white font-semibold text-sm btn-primary">بارگذاری</button>
+                                <button onClick={() => handleDiscard(parked.id)} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-100"><TrashIcon className="w-5 h-5" /></button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Quotations of this branch: print, convert into a sale, or cancel
+const QuotationsTab: React.FC<{ onSave: () => void, onPrint: (quotation: Quotation) => void, onConvert: (id: string) => void }> = ({ onSave, onPrint, onConvert }) => {
+    const { quotations, activeBranchId, cart, customers, storeSettings, editingSaleInvoiceId, cancelQuotation, hasPermission } = useAppContext();
+    const branchQuotations = quotations.filter(q => q.branchId === activeBranchId);
+
+    const handleCancel = (id: string) => {
+        if (!window.confirm('این پیش‌فاکتور لغو شود؟')) return;
+        cancelQuotation(id);
+    };
+
+    return (
+        <div className="flex flex-col h-full pb-28 md:pb-4">
+            {cart.length > 0 && !editingSaleInvoiceId && (
+                <button onClick={onSave} className="mb-3 w-full p-3 bg-blue-50 text-blue-700 border border-blue-200 rounded-xl font-semibold hover:bg-blue-100 transition-colors">ذخیره سبد فعلی به عنوان پیش‌فاکتور</button>
+            )}
+            <div className="flex-grow overflow-y-auto -mx-2 md:-mx-6 px-2 md:px-6">
+                {branchQuotations.length === 0 ? (
+                    <div className="flex items-center justify-center h-40 text-slate-500">
+                        <p>پیش‌فاکتوری ثبت نشده.</p>
+                    </div>
+                ) : branchQuotations.map(quotation => {
+                    const status = getQuotationStatus(quotation);
+                    const buyer = customers.find(c => c.id === quotation.customerId)?.name || quotation.customerName;
+                    return (
+                        <div key={quotation.id} className="flex items-center justify-between mb-3 p-3 bg-white/80 rounded-xl shadow-sm border border-gray-200/50">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <p className="font-mono font-bold text-slate-800 text-sm md:text-lg">{quotation.id}</p>
+                                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full ${status === 'open' ? 'bg-green-100 text-green-800' : status === 'converted' ? 'bg-blue-100 text-blue-800' : 'bg-slate-200 text-slate-600'}`}>{QUOTATION_STATUSES[status]}</span>
+                                </div>
+                                {buyer && <p className="text-sm text-slate-700">{buyer}</p>}
+                                <div className="text-sm md:text-md text-blue-600 font-bold">{formatCurrency(quotation.totalAmount, storeSettings)}</div>
+                                <p className="text-xs text-slate-400">
+                                    معتبر تا {new Date(`${quotation.validUntil}T00:00:00`).toLocaleDateString('fa-IR')}
+                                    {quotation.convertedInvoiceId && ` | فاکتور ${quotation.convertedInvoiceId}`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <button onClick={() => onPrint(quotation)} className="p-1.5 rounded-full text-gray-500 hover:text-green-600 bg-gray-50 hover:bg-green-100"><PrintIcon className="w-5 h-5"/></button>
+                                {status === 'open' && hasPermission('pos:create_invoice') && (
+                                    <>
+                                        <button onClick={() => onConvert(quotation.id)} className="px-2 py-1 rounded-lg text-xs font-bold bg-blue-600 text-white btn-primary">تبدیل به فروش</button>
+                                        <button onClick={() => handleCancel(quotation.id)} className="p-1.5 rounded-full text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-100"><TrashIcon className="w-5 h-5"/></button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
             </div>
         </div>
     );
 };
 
+// Saves the cart as a quotation for a buyer with a validity date
+const SaveQuotationModal: React.FC<{ selectedCustomerId: string, onClose: () => void, onSaved: (quotation: Quotation) => void }> = ({ selectedCustomerId, onClose, onSaved }) => {
+    const { saveQuotation, customers } = useAppContext();
+    const customer = customers.find(c => c.id === selectedCustomerId);
+    const [customerName, setCustomerName] = useState('');
+    const [validUntil, setValidUntil] = useState(() => {
+        const date = new Date();
+        date.setDate(date.getDate() + QUOTATION_VALIDITY_DAYS);
+        return toDateInputValue(date);
+    });
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = saveQuotation(validUntil, customer?.id, customer ? undefined : customerName, note);
+        if (!result.success || !result.quotation) { setError(result.message); return; }
+        onSaved(result.quotation);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleSubmit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">ثبت پیش‌فاکتور</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                {customer ? (
+                    <p className="text-sm text-slate-600">مشتری: <span className="font-bold text-slate-800">{customer.name}</span></p>
+                ) : (
+                    <input value={customerName} onChange={e => setCustomerName(e.target.value)} placeholder="نام خریدار (مکتب، اداره، ...)" className="w-full p-3 border rounded-lg form-input" autoFocus />
+                )}
+                <div>
+                    <label htmlFor="quotation-valid-until" className="text-sm font-semibold text-slate-700">معتبر تا</label>
+                    <input id="quotation-valid-until" type="date" value={validUntil} min={toDateInputValue(new Date())} onChange={e => setValidUntil(e.target.value)} className="w-full p-3 mt-1 border rounded-lg form-input" required />
+                </div>
+                <input value={note} onChange={e => setNote(e.target.value)} placeholder="یادداشت (اختیاری)" className="w-full p-3 border rounded-lg form-input" />
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    <button type="submit" className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ثبت و چاپ</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Customer orders of this branch: collect, take another deposit, or cancel
+const OrdersTab: React.FC<{ onPlace: () => void, onPickUp: (id: string) => void, onDeposit: (order: CustomerOrder) => void, onCancel: (order: CustomerOrder) => void }> = ({ onPlace, onPickUp, onDeposit, onCancel }) => {
+    const { customerOrders, activeBranchId, cart, customers, storeSettings, editingSaleInvoiceId, pickingUpOrderId, hasPermission } = useAppContext();
+    const branchOrders = customerOrders.filter(o => o.branchId === activeBranchId);
+
+    return (
+        <div className="flex flex-col h-full pb-28 md:pb-4">
+            {cart.length > 0 && !editingSaleInvoiceId && !pickingUpOrderId && hasPermission('pos:create_invoice') && (
+                <button onClick={onPlace} className="mb-3 w-full p-3 bg-blue-50 text-blue-700 border border-blue-200 rounded-xl font-semibold hover:bg-blue-100 transition-colors">ثبت سبد فعلی به عنوان سفارش (رزرو کالا)</button>
+            )}
+            <div className="flex-grow overflow-y-auto -mx-2 md:-mx-6 px-2 md:px-6">
+                {branchOrders.length === 0 ? (
+                    <div className="flex items-center justify-center h-40 text-slate-500">
+                        <p>سفارشی ثبت نشده.</p>
+                    </div>
+                ) : branchOrders.map(order => (
+                    <div key={order.id} className="flex items-center justify-between mb-3 p-3 bg-white/80 rounded-xl shadow-sm border border-gray-200/50">
+                        <div>
+                            <div className="flex items-center gap-2">
+                                <p className="font-mono font-bold text-slate-800 text-sm md:text-lg">{order.id}</p>
+                                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full ${order.status === 'open' ? 'bg-amber-100 text-amber-800' : order.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-slate-200 text-slate-600'}`}>{ORDER_STATUSES[order.status]}</span>
+                            </div>
+                            <p className="text-sm text-slate-700">{customers.find(c => c.id === order.customerId)?.name || 'مشتری حذف شده'}</p>
+                            <div className="text-sm text-blue-600 font-bold">{formatCurrency(order.totalAmount, storeSettings)}</div>
+                            <p className="text-xs text-slate-500">
+                                پیش‌پرداخت: {formatCurrency(order.depositPaid, storeSettings)}
+                                {order.status === 'open' && ` | مانده: ${formatCurrency(getOrderBalanceDue(order), storeSettings)}`}
+                                {order.status === 'cancelled' && order.depositPaid > 0 && (order.depositRefunded ? ' (بازپرداخت شد)' : ' (به حساب مشتری)')}
+                            </p>
+                            {order.dueDate && order.status === 'open' && <p className="text-xs text-slate-400">تحویل: {new Date(`${order.dueDate}T00:00:00`).toLocaleDateString('fa-IR')}</p>}
+                        </div>
+                        {order.status === 'open' && hasPermission('pos:create_invoice') && (
+                            <div className="flex flex-col gap-1">
+                                <button onClick={() => onPickUp(order.id)} className="px-2 py-1 rounded-lg text-xs font-bold bg-blue-600 text-white btn-primary">تحویل و فروش</button>
+                                {getOrderBalanceDue(order) > 0 && <button onClick={() => onDeposit(order)} className="px-2 py-1 rounded-lg text-xs font-bold bg-green-50 text-green-700 border border-green-200 hover:bg-green-100">پیش‌پرداخت</button>}
+                                <button onClick={() => onCancel(order)} className="px-2 py-1 rounded-lg text-xs font-bold bg-red-50 text-red-600 border border-red-200 hover:bg-red-100">لغو</button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Turns the cart into a customer order: reserves the goods and takes a first deposit
+const PlaceOrderModal: React.FC<{ selectedCustomerId: string, totalAmount: number, onClose: () => void, onPlaced: () => void }> = ({ selectedCustomerId, totalAmount, onClose, onPlaced }) => {
+    const { placeCustomerOrder, customers, storeSettings } = useAppContext();
+    const [customerId, setCustomerId] = useState(selectedCustomerId);
+    const [deposit, setDeposit] = useState('');
+    const [dueDate, setDueDate] = useState('');
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = placeCustomerOrder(customerId, Number(deposit) || 0, dueDate, note);
+        if (!result.success) { setError(result.message); return; }
+        onPlaced();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleSubmit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">ثبت سفارش مشتری</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <p className="text-sm text-slate-600">مبلغ سفارش: <span className="font-bold text-slate-800">{formatCurrency(totalAmount, storeSettings)}</span></p>
+                <select value={customerId} onChange={e => setCustomerId(e.target.value)} className="w-full p-3 border rounded-lg form-input bg-white" required>
+                    <option value="">انتخاب مشتری...</option>
+                    {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <div>
+                    <label htmlFor="order-deposit" className="text-sm font-semibold text-slate-700">پیش‌پرداخت نقدی</label>
+                    <input id="order-deposit" type="number" min="0" max={totalAmount} value={deposit} onChange={e => setDeposit(e.target.value)} placeholder="0" className="w-full p-3 mt-1 border rounded-lg form-input" />
+                </div>
+                <div>
+                    <label htmlFor="order-due-date" className="text-sm font-semibold text-slate-700">تاریخ تحویل (اختیاری)</label>
+                    <input id="order-due-date" type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} className="w-full p-3 mt-1 border rounded-lg form-input" />
+                </div>
+                <input value={note} onChange={e => setNote(e.target.value)} placeholder="یادداشت (اختیاری)" className="w-full p-3 border rounded-lg form-input" />
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    <button type="submit" className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ثبت سفارش</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Another deposit on an open order, or its cancellation (the deposit is refunded or kept as credit)
+const OrderActionModal: React.FC<{ order: CustomerOrder, action: 'deposit' | 'cancel', onClose: () => void }> = ({ order, action, onClose }) => {
+    const { addOrderDeposit, cancelCustomerOrder, storeSettings } = useAppContext();
+    const [amount, setAmount] = useState('');
+    const [error, setError] = useState('');
+
+    const handleDeposit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = addOrderDeposit(order.id, Number(amount));
+        if (!result.success) { setError(result.message); return; }
+        onClose();
+    };
+
+    const handleCancel = (refundDeposit: boolean) => {
+        const result = cancelCustomerOrder(order.id, refundDeposit);
+        if (!result.success) { setError(result.message); return; }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleDeposit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">{action === 'deposit' ? `پیش‌پرداخت سفارش #${order.id}` : `لغو سفارش #${order.id}`}</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <p className="text-sm text-slate-600">
+                    مبلغ سفارش: {formatCurrency(order.totalAmount, storeSettings)} | پیش‌پرداخت: {formatCurrency(order.depositPaid, storeSettings)}
+                </p>
+                {action === 'deposit' ? (
+                    <input type="number" min="0" max={getOrderBalanceDue(order)} value={amount} onChange={e => setAmount(e.target.value)} placeholder={`حداکثر ${getOrderBalanceDue(order)}`} className="w-full p-3 border rounded-lg form-input" autoFocus required />
+                ) : (
+                    <p className="text-sm text-slate-700">کالاهای رزرو شده آزاد می‌شوند.{order.depositPaid > 0 && ' پیش‌پرداخت نقداً بازپرداخت شود یا به عنوان اعتبار در حساب مشتری بماند؟'}</p>
+                )}
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">بستن</button>
+                    {action === 'deposit' ? (
+                        <button type="submit" className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ثبت پیش‌پرداخت</button>
+                    ) : order.depositPaid > 0 ? (
+                        <>
+                            <button type="button" onClick={() => handleCancel(false)} className="px-4 py-2 rounded-lg bg-blue-50 text-blue-700 border border-blue-200 font-semibold text-sm">نگه‌داشتن به حساب</button>
+                            <button type="button" onClick={() => handleCancel(true)} className="px-4 py-2 rounded-lg bg-red-600 text-white shadow-lg font-semibold text-sm">بازپرداخت نقدی</button>
+                        </>
+                    ) : (
+                        <button type="button" onClick={() => handleCancel(false)} className="px-6 py-2 rounded-lg bg-red-600 text-white shadow-lg font-semibold text-sm">لغو سفارش</button>
+                    )}
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Editing and voiding a sale both need a reason, which is kept with the revision
+const InvoiceReasonModal: React.FC<{ invoice: SaleInvoice, action: 'edit' | 'void', onClose: () => void, onEdit: (reason: string) => void }> = ({ invoice, action, onClose, onEdit }) => {
+    const { voidSale, storeSettings } = useAppContext();
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const cashBack = getNetCash(invoice);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reason.trim()) { setError('دلیل را وارد کنید.'); return; }
+        if (action === 'edit') { onEdit(reason); return; }
+        setIsSubmitting(true);
+        const result = await voidSale(invoice.id, reason);
+        setIsSubmitting(false);
+        if (!result.success) { setError(result.message); return; }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleSubmit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">{action === 'edit' ? 'ویرایش' : 'ابطال'} فاکتور #{getDocumentNumber(invoice)}</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <p className="text-sm text-slate-600">
+                    مبلغ فاکتور: {formatCurrency(invoice.totalAmount, storeSettings)}
+                </p>
+                {action === 'void' && (
+                    <p className="text-sm text-slate-700">کالاها به موجودی برمی‌گردند و نسیه، امتیاز و کارت هدیه این فاکتور برگشت داده می‌شود. فاکتور با وضعیت «باطل شده» در فهرست می‌ماند.</p>
+                )}
+                {action === 'void' && cashBack > 0 && (
+                    <p className="text-sm font-semibold text-amber-700">مبلغ {formatCurrency(cashBack, storeSettings)} نقد از صندوق شیفت باز شما پس داده می‌شود.</p>
+                )}
+                <textarea value={reason} onChange={e => setReason(e.target.value)} placeholder={action === 'edit' ? 'دلیل ویرایش' : 'دلیل ابطال'} rows={3} className="w-full p-3 border rounded-lg form-input" autoFocus required />
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    {action === 'edit' ? (
+                        <button type="submit" className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm">ادامه ویرایش</button>
+                    ) : (
+                        <button type="submit" disabled={isSubmitting} className="px-6 py-2 rounded-lg bg-red-600 text-white shadow-lg font-semibold text-sm disabled:bg-gray-400">ابطال فاکتور</button>
+                    )}
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Every edit and void of an invoice: who, when, why and what changed
+const InvoiceHistoryModal: React.FC<{ invoice: SaleInvoice, onClose: () => void }> = ({ invoice, onClose }) => {
+    const { saleInvoiceRevisions, customers, storeSettings } = useAppContext();
+    const revisions = getInvoiceRevisions(saleInvoiceRevisions, invoice.id);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <div className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-lg max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">تاریخچه تغییرات فاکتور #{getDocumentNumber(invoice)}</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <div className="flex-grow overflow-y-auto py-3 space-y-3">
+                    {revisions.length === 0 ? (
+                        <p className="text-center text-slate-500 py-8">این فاکتور تغییری نداشته است.</p>
+                    ) : revisions.map(revision => (
+                        <div key={revision.id} className="p-3 rounded-xl border border-gray-200 bg-white/80">
+                            <div className="flex justify-between items-center">
+                                <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${revision.action === 'void' ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-800'}`}>{REVISION_ACTIONS[revision.action]}</span>
+                                <span className="text-xs text-slate-500">{revision.changedBy} - {new Date(revision.changedAt).toLocaleString('fa-IR')}</span>
+                            </div>
+                            <p className="text-sm text-slate-700 mt-2">دلیل: {revision.reason}</p>
+                            <table className="w-full text-xs mt-2">
+                                <thead>
+                                    <tr className="text-slate-500 border-b">
+                                        <th className="text-right py-1 font-semibold"></th>
+                                        <th className="text-right py-1 font-semibold">قبل</th>
+                                        <th className="text-right py-1 font-semibold">بعد</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {getRevisionChanges(revision, customers, storeSettings).map(change => (
+                                        <tr key={change.label} className="border-b border-gray-100">
+                                            <td className="py-1 font-semibold text-slate-700">{change.label}</td>
+                                            <td className="py-1 text-red-600">{change.before}</td>
+                                            <td className="py-1 text-green-700">{change.after}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Vouchers by code: sell or issue one, reprint it, and see where its balance went
+const VouchersTab: React.FC<{ onIssue: () => void, onPrint: (voucher: Voucher) => void }> = ({ onIssue, onPrint }) => {
+    const { vouchers, voucherTransactions, customers, storeSettings, hasPermission } = useAppContext();
+    const [search, setSearch] = useState('');
+    const [openVoucherId, setOpenVoucherId] = useState<string | null>(null);
+    const term = search.trim();
+    const shown = (term
+        ? vouchers.filter(v => v.code.includes(term.toUpperCase()) || !!customers.find(c => c.id === v.customerId)?.name.includes(term))
+        : vouchers).slice(0, 100);
+
+    return (
+        <div className="flex flex-col h-full pb-28 md:pb-4">
+            <div className="flex gap-2 mb-3">
+                <input value={search} onChange={e => setSearch(e.target.value)} placeholder="جستجوی کد یا نام مشتری..." className="flex-grow p-2 border rounded-lg text-sm form-input" />
+                {(hasPermission('pos:create_invoice') || hasPermission('pos:manage_vouchers')) && (
+                    <button onClick={onIssue} className="px-3 py-2 bg-blue-50 text-blue-700 border border-blue-200 rounded-lg text-sm font-semibold hover:bg-blue-100 whitespace-nowrap">صدور کارت هدیه</button>
+                )}
+            </div>
+            <div className="flex-grow overflow-y-auto -mx-2 md:-mx-6 px-2 md:px-6">
+                {shown.length === 0 ? (
+                    <div className="flex items-center justify-center h-40 text-slate-500">
+                        <p>کارت هدیه‌ای یافت نشد.</p>
+                    </div>
+                ) : shown.map(voucher => {
+                    const expired = isVoucherExpired(voucher);
+                    return (
+                        <div key={voucher.id} className="mb-3 p-3 bg-white/80 rounded-xl shadow-sm border border-gray-200/50">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <div className="flex items-center gap-2">
+                                        <p className="font-mono font-bold text-slate-800 text-sm md:text-lg" dir="ltr">{voucher.code}</p>
+                                        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full ${expired ? 'bg-red-100 text-red-700' : voucher.balance > 0 ? 'bg-green-100 text-green-800' : 'bg-slate-200 text-slate-600'}`}>
+                                            {expired ? 'منقضی' : voucher.balance > 0 ? 'فعال' : 'مصرف شده'}
+                                        </span>
+                                    </div>
+                                    <div className="text-sm text-blue-600 font-bold">مانده: {formatCurrency(voucher.balance, storeSettings)}</div>
+                                    <p className="text-xs text-slate-500">
+                                        {VOUCHER_SOURCES[voucher.source]} | مبلغ صدور: {formatCurrency(voucher.issuedAmount, storeSettings)}
+                                        {voucher.customerId && ` | ${customers.find(c => c.id === voucher.customerId)?.name || 'مشتری حذف شده'}`}
+                                    </p>
+                                    {voucher.expiryDate && <p className="text-xs text-slate-400">انقضا: {new Date(`${voucher.expiryDate}T00:00:00`).toLocaleDateString('fa-IR')}</p>}
+                                </div>
+                                <div className="flex flex-col gap-1">
+                                    <button onClick={() => onPrint(voucher)} className="p-1.5 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-slate-100" title="چاپ"><PrintIcon className="w-5 h-5" /></button>
+                                    <button onClick={() => setOpenVoucherId(openVoucherId === voucher.id ? null : voucher.id)} className="px-2 py-1 rounded-lg text-xs font-bold bg-slate-50 text-slate-700 border border-slate-200 hover:bg-slate-100">گردش</button>
+                                </div>
+                            </div>
+                            {openVoucherId === voucher.id && (
+                                <div className="mt-2 pt-2 border-t space-y-1">
+                                    {voucherTransactions.filter(t => t.voucherId === voucher.id).map(t => (
+                                        <div key={t.id} className="flex justify-between text-xs">
+                                            <span>{VOUCHER_TRANSACTION_TYPES[t.type]}{t.invoiceId ? ` #${t.invoiceId}` : ''} - {new Date(t.date).toLocaleDateString('fa-IR')}</span>
+                                            <span className={`font-bold ${t.amount < 0 ? 'text-red-600' : 'text-green-700'}`} dir="ltr">{formatCurrency(t.amount, storeSettings)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+// Sells a voucher for cash into the open drawer, or (with pos:manage_vouchers) gives one away
+const IssueVoucherModal: React.FC<{ onClose: () => void, onIssued: (voucher: Voucher) => void }> = ({ onClose, onIssued }) => {
+    const { issueVoucher, customers, hasPermission } = useAppContext();
+    const canSell = hasPermission('pos:create_invoice');
+    const [source, setSource] = useState<'sale' | 'manual'>(canSell ? 'sale' : 'manual');
+    const [amount, setAmount] = useState('');
+    const [expiryDate, setExpiryDate] = useState('');
+    const [customerId, setCustomerId] = useState('');
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        const result = await issueVoucher(source, Number(amount), expiryDate, customerId, note);
+        setIsSubmitting(false);
+        if (!result.success || !result.voucher) { setError(result.message); return; }
+        onIssued(result.voucher);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
+            <form onSubmit={handleSubmit} className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-md space-y-4">
+                <div className="flex justify-between items-center pb-3 border-b">
+                    <h2 className="text-lg md:text-xl font-bold">صدور کارت هدیه</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <button type="button" disabled={!canSell} onClick={() => setSource('sale')} className={`p-2 rounded-lg font-semibold text-sm border disabled:opacity-50 ${source === 'sale' ? 'bg-green-600 text-white border-green-600' : 'bg-white text-slate-700'}`}>فروش (دریافت نقد)</button>
+                    <button type="button" disabled={!hasPermission('pos:manage_vouchers')} onClick={() => setSource('manual')} className={`p-2 rounded-lg font-semibold text-sm border disabled:opacity-50 ${source === 'manual' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-700'}`}>صدور رایگان</button>
+                </div>
+                {source === 'sale' && <p className="text-xs text-slate-500">مبلغ کارت نقداً دریافت و به موجودی شیفت صندوق اضافه می‌شود.</p>}
+                <input type="number" min="0" value={amount} onChange={e => setAmount(e.target.value)} placeholder="مبلغ کارت" className="w-full p-3 border rounded-lg form-input" autoFocus required />
+                <div>
+                    <label htmlFor="voucher-expiry" className="text-sm font-semibold text-slate-700">تاریخ انقضا (اختیاری)</label>
+                    <input id="voucher-expiry" type="date" value={expiryDate} min={toDateInputValue(new Date())} onChange={e => setExpiryDate(e.target.value)} className="w-full p-3 mt-1 border rounded-lg form-input" />
+                </div>
+                <select value={customerId} onChange={e => setCustomerId(e.target.value)} className="w-full p-3 border rounded-lg form-input bg-white">
+                    <option value="">بدون نام</option>
+                    {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <input value={note} onChange={e => setNote(e.target.value)} placeholder="یادداشت (اختیاری)" className="w-full p-3 border rounded-lg form-input" />
+                {error && <p className="text-red-600 text-sm">{error}</p>}
+                <div className="flex justify-end gap-3 pt-3 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 font-semibold text-sm">لغو</button>
+                    <button type="submit" disabled={isSubmitting} className="px-6 py-2 rounded-lg bg-blue-600 text-white shadow-lg btn-primary font-semibold text-sm disabled:bg-gray-400">صدور و چاپ</button>
+                </div>
+            </form>
+        </div>
+    );
+};
 
 const POS: React.FC = () => {
     const context = useAppContext();
@@ -372,9 +1345,16 @@ const POS: React.FC = () => {
     
     const [searchTerm, setSearchTerm] = useState('');
     const [toast, setToast] = useState('');
-    const [activeTab, setActiveTab] = useState<'cart' | 'invoices' | 'services'>('cart');
+    const [activeTab, setActiveTab] = useState<'cart' | 'invoices' | 'services' | 'quotations' | 'orders' | 'vouchers'>('cart');
     const [mobileView, setMobileView] = useState<'products' | 'cart'>('products');
-    const [invoiceToPrint, setInvoiceToPrint] = useState<SaleInvoice | null>(null);
+    const [invoiceToPrint, setInvoiceToPrint] = useState<SaleInvoice | Quotation | null>(null);
+    const [isSaveQuotationOpen, setIsSaveQuotationOpen] = useState(false);
+    const [isPlaceOrderOpen, setIsPlaceOrderOpen] = useState(false);
+    const [orderAction, setOrderAction] = useState<{ order: CustomerOrder, action: 'deposit' | 'cancel' } | null>(null);
+    const [invoiceAction, setInvoiceAction] = useState<{ invoice: SaleInvoice, action: 'edit' | 'void' } | null>(null);
+    const [historyInvoice, setHistoryInvoice] = useState<SaleInvoice | null>(null);
+    const [isIssueVoucherOpen, setIsIssueVoucherOpen] = useState(false);
+    const [voucherToPrint, setVoucherToPrint] = useState<Voucher | null>(null);
     const [selectedCustomerId, setSelectedCustomerId] = useState<string>('');
     const [memoImages, setMemoImages] = useState<SalesMemoImage[]>([]);
     const [isGalleryOpen, setIsGalleryOpen] = useState(false);
@@ -393,9 +1373,20 @@ const POS: React.FC = () => {
     const [returnModalInvoice, setReturnModalInvoice] = useState<SaleInvoice | null>(null);
     const shouldRestartRecognition = useRef(false);
     const [isMobileCustomerMenuOpen, setIsMobileCustomerMenuOpen] = useState(false);
+    const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+    const [isShiftModalOpen, setIsShiftModalOpen] = useState(false);
+    const [isCashMovementModalOpen, setIsCashMovementModalOpen] = useState(false);
+    const [isParkedCartsModalOpen, setIsParkedCartsModalOpen] = useState(false);
+    const [zReportShift, setZReportShift] = useState<CashShift | null>(null);
+    const [pendingCreditPayments, setPendingCreditPayments] = useState<PaymentLine[] | null>(null); // Waiting for a manager's approval
+    const [pendingExchange, setPendingExchange] = useState<ExchangeReturn | null>(null); // Returned goods paying for the cart
 
 
     useEffect(() => { loadMemoImages(); }, []);
+
+    // Cart prices follow the price list of the selected customer
+    useEffect(() => { context.setCartCustomer(selectedCustomerId || undefined); }, [selectedCustomerId, customers]);
+    const cartPriceList = context.priceLists.find(l => l.id === context.cartPriceListId);
     
     const loadMemoImages = async () => {
         const images = await db.getAllMemoImages();
@@ -552,20 +1543,34 @@ const POS: React.FC = () => {
             .slice(0, 7);
     }, [products, searchTerm]);
 
-    const totalAmount = cart.reduce((total, item) => {
-        const price = (item.type === 'product' && item.finalPrice !== undefined) ? item.finalPrice : (item.type === 'product' ? item.salePrice : item.price);
-        return total + price * item.quantity;
-    }, 0);
+    const totalAmount = getCartTotal(cart);
+
+    // Checkout opens the tender dialog; the sale is saved when the payments are confirmed
+    const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
+    const currentShift = getOpenShift(context.cashShifts, currentUser?.username, context.activeBranchId);
 
     const completeSale = () => {
         if (!currentUser) {
             showToast("خطا: کاربر فعلی مشخص نیست.");
             return;
         }
-        const result = context.completeSale(currentUser.username, selectedCustomerId || undefined);
+        setIsPaymentModalOpen(true);
+    };
+
+    const handlePaymentConfirm = (payments: PaymentLine[], creditOverride?: CreditOverride, exchange: ExchangeReturn | null = pendingExchange) => {
+        if (!currentUser) return;
+        const result = context.completeSale(currentUser.username, selectedCustomerId || undefined, payments, creditOverride, exchange || undefined);
         showToast(result.message);
 
+        if (result.needsCreditOverride) {
+            setPendingCreditPayments(payments);
+            return;
+        }
+
         if (result.success && result.invoice) {
+            setIsPaymentModalOpen(false);
+            setPendingCreditPayments(null);
+            setPendingExchange(null);
             if (!context.editingSaleInvoiceId) {
                 setInvoiceToPrint(result.invoice);
             }
@@ -575,18 +1580,53 @@ const POS: React.FC = () => {
         }
     }
 
-    const handleEditInvoice = (invoiceId: string) => {
-        const result = context.beginEditSale(invoiceId);
+    const handleEditInvoice = (invoiceId: string, reason: string) => {
+        const result = context.beginEditSale(invoiceId, reason);
         showToast(result.message);
         if (result.success) {
+            setInvoiceAction(null);
             setSelectedCustomerId(result.customerId || '');
             setActiveTab('cart');
             setMobileView('cart');
         }
     };
 
+    // One click: the quotation is re-priced into the cart and goes straight to payment
+    const handleConvertQuotation = (id: string) => {
+        const result = context.convertQuotation(id);
+        showToast(result.message);
+        if (!result.success) return;
+        setSelectedCustomerId(result.customerId || '');
+        setActiveTab('cart');
+        setMobileView('cart');
+        setIsPaymentModalOpen(true);
+    };
+
+    // The deposit already sits on the customer's account, so it pays that much of the invoice
+    const handlePickUpOrder = (id: string) => {
+        const result = context.pickUpCustomerOrder(id);
+        showToast(result.message);
+        if (!result.success) return;
+        setSelectedCustomerId(result.customerId || '');
+        setActiveTab('cart');
+        setMobileView('cart');
+        setIsPaymentModalOpen(true);
+    };
+    const pickupOrder = context.pickingUpOrderId ? context.customerOrders.find(o => o.id === context.pickingUpOrderId) : undefined;
+    const pickupPayments = (): PaymentLine[] | undefined => {
+        if (!pickupOrder || pickupOrder.depositPaid <= 0) return undefined;
+        const fromDeposit = Math.min(pickupOrder.depositPaid, totalAmount);
+        const lines: PaymentLine[] = [{ method: 'on_account', amount: fromDeposit }];
+        if (totalAmount - fromDeposit > 0) lines.push({ method: 'cash_afn', amount: totalAmount - fromDeposit });
+        return lines;
+    };
+
     const handlePrintInvoice = (invoiceId: string) => {
-        const invoice = saleInvoices.find(inv => inv.id === invoiceId);
+        const found = saleInvoices.find(inv => inv.id === invoiceId);
+        // The return of an exchange is printed on the receipt of its sale
+        const invoice = found?.type === 'return' && found.exchangeId
+            ? saleInvoices.find(inv => inv.type === 'sale' && inv.exchangeId === found.exchangeId) || found
+            : found;
         if (invoice) {
             setInvoiceToPrint(invoice);
         }
@@ -639,12 +1679,42 @@ const POS: React.FC = () => {
         setReturnModalInvoice(invoice);
     };
 
-    const handleReturnSubmit = (returnItems: { id: string; type: 'product' | 'service'; quantity: number }[]) => {
+    // What the customer still pays after the returned goods of an exchange went towards the cart
+    const getExchangeDue = (exchange: ExchangeReturn): number => {
+        const original = saleInvoices.find(i => i.id === exchange.originalInvoiceId);
+        if (!original) return totalAmount;
+        const returnTotal = getReturnTotal(getReturnItems(original, exchange.returnItems));
+        const { rest } = getReturnRefunds(original, getPreviousReturns(saleInvoices, original.id), returnTotal);
+        return Math.max(totalAmount - rest, 0);
+    };
+
+    // The new goods of an exchange are the cart, sold to the customer of the original invoice
+    const getExchangeProblem = (original: SaleInvoice): string | undefined => {
+        if (cart.length === 0) return 'برای تعویض، کالاهای جدید را به سبد خرید اضافه کنید';
+        if (context.editingSaleInvoiceId || context.pickingUpOrderId) return 'تعویض کالا فقط همراه یک فروش جدید ممکن است';
+        if ((selectedCustomerId || '') !== (original.customerId || '')) return 'مشتری سبد خرید باید همان مشتری فاکتور اصلی باشد';
+        return undefined;
+    };
+
+    const handleReturnSubmit = (returnItems: ReturnLine[], refundAsVoucher: boolean, isExchange: boolean) => {
+        if (returnModalInvoice && currentUser && isExchange) {
+            const exchange: ExchangeReturn = { originalInvoiceId: returnModalInvoice.id, returnItems, refundAsVoucher };
+            setReturnModalInvoice(null);
+            // The tender dialog only opens when the new goods cost more than the returned ones
+            if (getExchangeDue(exchange) > 0.01) {
+                setPendingExchange(exchange);
+                setIsPaymentModalOpen(true);
+            } else {
+                handlePaymentConfirm([], undefined, exchange);
+            }
+            return;
+        }
         if (returnModalInvoice && currentUser) {
-            const result = addSaleReturn(returnModalInvoice.id, returnItems, currentUser.username);
+            const result = addSaleReturn(returnModalInvoice.id, returnItems, currentUser.username, refundAsVoucher);
             showToast(result.message);
             if (result.success) {
                 setReturnModalInvoice(null);
+                if (result.voucher) setVoucherToPrint(result.voucher);
             }
         }
     };
@@ -653,6 +1723,63 @@ const POS: React.FC = () => {
         <div className="h-full">
             {toast && <Toast message={toast} onClose={() => setToast('')} />}
             {invoiceToPrint && <PrintPreviewModal invoice={invoiceToPrint} onClose={() => setInvoiceToPrint(null)} />}
+            {isPaymentModalOpen && (
+                <PaymentModal
+                    totalAmount={pendingExchange ? getExchangeDue(pendingExchange) : totalAmount}
+                    hasCustomer={!!selectedCustomerId}
+                    availablePoints={selectedCustomer && storeSettings.loyalty.enabled ? getAvailablePoints(selectedCustomer, saleInvoices.find(i => i.id === context.editingSaleInvoiceId)) : undefined}
+                    initialPayments={context.editingSaleInvoiceId ? saleInvoices.find(i => i.id === context.editingSaleInvoiceId)?.payments : pickupPayments()}
+                    onClose={() => { setIsPaymentModalOpen(false); setPendingExchange(null); }}
+                    onConfirm={payments => handlePaymentConfirm(payments)}
+                />
+            )}
+            {isShiftModalOpen && (
+                <CashShiftModal
+                    shift={currentShift}
+                    onClose={() => setIsShiftModalOpen(false)}
+                    onClosed={shift => { setIsShiftModalOpen(false); setZReportShift(shift); }}
+                />
+            )}
+            {isPlaceOrderOpen && (
+                <PlaceOrderModal
+                    selectedCustomerId={selectedCustomerId}
+                    totalAmount={totalAmount}
+                    onClose={() => setIsPlaceOrderOpen(false)}
+                    onPlaced={() => { setIsPlaceOrderOpen(false); setSelectedCustomerId(''); }}
+                />
+            )}
+            {orderAction && <OrderActionModal order={orderAction.order} action={orderAction.action} onClose={() => setOrderAction(null)} />}
+            {isIssueVoucherOpen && (
+                <IssueVoucherModal
+                    onClose={() => setIsIssueVoucherOpen(false)}
+                    onIssued={voucher => { setIsIssueVoucherOpen(false); setVoucherToPrint(voucher); }}
+                />
+            )}
+            {voucherToPrint && <VoucherPrintModal voucher={voucherToPrint} onClose={() => setVoucherToPrint(null)} />}
+            {isSaveQuotationOpen && (
+                <SaveQuotationModal
+                    selectedCustomerId={selectedCustomerId}
+                    onClose={() => setIsSaveQuotationOpen(false)}
+                    onSaved={quotation => { setIsSaveQuotationOpen(false); setSelectedCustomerId(''); setInvoiceToPrint(quotation); }}
+                />
+            )}
+            {isParkedCartsModalOpen && (
+                <ParkedCartsModal
+                    selectedCustomerId={selectedCustomerId}
+                    onClose={() => setIsParkedCartsModalOpen(false)}
+                    onRecalled={customerId => { setIsParkedCartsModalOpen(false); setSelectedCustomerId(customerId || ''); }}
+                />
+            )}
+            {isCashMovementModalOpen && <CashMovementModal onClose={() => setIsCashMovementModalOpen(false)} />}
+            {zReportShift && <ZReportModal shift={zReportShift} onClose={() => setZReportShift(null)} />}
+            {pendingCreditPayments && selectedCustomer && (
+                <CreditOverrideModal
+                    customer={selectedCustomer}
+                    amount={pendingCreditPayments.filter(p => p.method === 'on_account').reduce((sum, p) => sum + p.amount, 0)}
+                    onClose={() => setPendingCreditPayments(null)}
+                    onApproved={override => handlePaymentConfirm(pendingCreditPayments, override)}
+                />
+            )}
             {isGalleryOpen && (
                 <FloatingGallery 
                     images={memoImages}
@@ -660,8 +1787,17 @@ const POS: React.FC = () => {
                     onDelete={handleDeleteMemoImage}
                 />
             )}
+            {invoiceAction && (
+                <InvoiceReasonModal
+                    invoice={invoiceAction.invoice}
+                    action={invoiceAction.action}
+                    onClose={() => setInvoiceAction(null)}
+                    onEdit={reason => handleEditInvoice(invoiceAction.invoice.id, reason)}
+                />
+            )}
+            {historyInvoice && <InvoiceHistoryModal invoice={historyInvoice} onClose={() => setHistoryInvoice(null)} />}
             {returnModalInvoice && (
-                <ReturnModal invoice={returnModalInvoice} onClose={() => setReturnModalInvoice(null)} onSubmit={handleReturnSubmit} />
+                <ReturnModal invoice={returnModalInvoice} cartTotal={totalAmount} exchangeProblem={getExchangeProblem(returnModalInvoice)} onClose={() => setReturnModalInvoice(null)} onSubmit={handleReturnSubmit} />
             )}
             
             <div className="md:flex h-full bg-transparent">
@@ -691,7 +1827,13 @@ const POS: React.FC = () => {
                          removeFromCart: contextRemoveFromCart, editingPriceItemId,
                          setEditingPriceItemId, updateCartItemFinalPrice: contextUpdateCartItemFinalPrice, hasPermission: context.hasPermission, 
                          selectedCustomerId, setSelectedCustomerId, customers, totalAmount, completeSale, setInvoiceDateRange,
-                         handlePrintInvoice, handleEditInvoice, storeSettings, setMobileView, addToCart, handleOpenReturnModal
+                         handlePrintInvoice, storeSettings, setMobileView, addToCart, handleOpenReturnModal,
+                         saleInvoiceRevisions: context.saleInvoiceRevisions, setInvoiceAction, setHistoryInvoice,
+                         currentShift, setIsShiftModalOpen, setIsCashMovementModalOpen,
+                         parkedCartCount: context.parkedCarts.filter(c => c.branchId === context.activeBranchId).length, setIsParkedCartsModalOpen,
+                         setIsSaveQuotationOpen, handlePrintQuotation: setInvoiceToPrint, handleConvertQuotation,
+                         setIsPlaceOrderOpen, handlePickUpOrder, setOrderAction, cartPriceListName: cartPriceList?.name,
+                         setIsIssueVoucherOpen, setVoucherToPrint
                        }}
                     />
                 </div>
@@ -791,7 +1933,11 @@ const POS: React.FC = () => {
                                             {selectedCustomerId === c.id && <div className="w-2 h-2 bg-white rounded-full"></div>}
                                         </div>
                                         <span className={`font-bold ${selectedCustomerId === c.id ? 'text-blue-700' : 'text-slate-700'}`}>{c.name}</span>
+                                        {c.priceListId && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-blue-100 text-blue-800">{context.priceLists.find(l => l.id === c.priceListId)?.name}</span>}
                                     </div>
+                                    {getAvailableCredit(c) !== undefined && (
+                                        <span className={`text-xs ${getAvailableCredit(c)! > 0 ? 'text-slate-500' : 'text-red-600'}`}>اعتبار باقی‌مانده: {formatCurrency(getAvailableCredit(c)!, storeSettings)}</span>
+                                    )}
                                 </div>
                             ))}
                              {customers.length === 0 && (
@@ -8,6 +8,7 @@ import DateRangeFilter from '../components/DateRangeFilter';
 import PurchasePrintPreviewModal from '../components/PurchasePrintPreviewModal';
 import PackageUnitInput from '../components/PackageUnitInput';
 import { formatCurrency, parseSpokenNumber } from '../utils/formatters';
+import { getDocumentNumber } from '../utils/numbering';
 
 // Local Interface for Draft Items
 interface PurchaseItemDraft {
@@ -38,7 +39,7 @@ const ReturnModal: React.FC<{ invoice: PurchaseInvoice, onClose: () => void, onS
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 modal-animate">
             <div className="bg-white/95 backdrop-blur-xl p-4 md:p-6 rounded-2xl shadow-2xl border border-gray-200/80 w-full max-w-2xl max-h-[90vh] flex flex-col">
                 <div className="flex-shrink-0 flex justify-between items-center pb-3 border-b">
-                    <h2 className="text-lg md:text-xl font-bold">ثبت مرجوعی خرید <span className="font-mono text-sm">{invoice.invoiceNumber || invoice.id}</span></h2>
+                    <h2 className="text-lg md:text-xl font-bold">ثبت مرجوعی خرید <span className="font-mono text-sm">{invoice.invoiceNumber || getDocumentNumber(invoice)}</span></h2>
                     <button onClick={onClose} className="p-1 rounded-full text-slate-500 hover:bg-slate-200/50"><XIcon /></button>
                 </div>
                 <div className="flex-grow overflow-y-auto pt-4 -mx-2 px-2">
@@ -371,7 +372,7 @@ const Purchases: React.FC = () => {
                             <tr key={invoice.id} className="border-t border-gray-200/60">
                                 <td className="p-4 font-semibold text-slate-800 font-mono text-lg">
                                     <div className="flex items-center justify-center gap-2">
-                                        <span>{invoice.invoiceNumber || invoice.id}</span>
+                                        <span>{invoice.invoiceNumber || getDocumentNumber(invoice)}</span>
                                         {invoice.type === 'return' && <span className="text-xs font-bold bg-orange-200 text-orange-800 px-2 py-0.5 rounded-full">مرجوعی</span>}
                                         {invoice.currency === 'USD' && <span className="text-xs font-bold bg-green-200 text-green-800 px-2 py-0.5 rounded-full">$</span>}
                                     </div>
@@ -406,7 +407,7 @@ const Purchases: React.FC = () => {
                         <div className="flex justify-between items-start">
                             <div>
                                 <div className="flex items-center gap-2 mb-2">
-                                    <h3 className="font-mono font-bold text-lg text-slate-800">{invoice.invoiceNumber || invoice.id}</h3>
+                                    <h3 className="font-mono font-bold text-lg text-slate-800">{invoice.invoiceNumber || getDocumentNumber(invoice)}</h3>
                                     {invoice.currency === 'USD' && <span className="text-[10px] font-bold bg-green-200 text-green-800 px-1.5 py-0.5 rounded-full">$</span>}
                                 </div>
                                 {invoice.type === 'return' && <span className="text-xs font-bold bg-orange-200 text-orange-800 px-2 py-0.5 rounded-full">مرجوعی</span>}
@@ -1,19 +1,31 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useAppContext } from '../AppContext';
 import DateRangeFilter from '../components/DateRangeFilter';
+import BranchSelector from '../components/BranchSelector';
+import { ALL_BRANCHES, isInBranch, getBranchBatches } from '../utils/branches';
+import { isVoided } from '../utils/revisions';
 import { formatCurrency } from '../utils/formatters';
-import type { Product, SaleInvoice, User, Customer, Supplier, CustomerTransaction, SupplierTransaction } from '../types';
+import { STOCK_MOVEMENT_REASONS } from '../utils/stockMovements';
+import { PAYMENT_METHODS, getTakingsByMethod } from '../utils/payments';
+import type { Product, SaleInvoice, User, Customer, Supplier, CustomerTransaction, SupplierTransaction, StockMovementReason, PaymentMethod, CashShift } from '../types';
 import TransactionHistoryModal from '../components/TransactionHistoryModal';
 import { PrintIcon } from '../components/icons';
 import ReportPrintPreviewModal from '../components/ReportPrintPreviewModal';
+import ZReportModal from '../components/ZReportModal';
 
 const Reports: React.FC = () => {
     const { 
-        saleInvoices, products, expenses, users, activities, 
-        customers, suppliers, customerTransactions, supplierTransactions, storeSettings
+        saleInvoices: allSaleInvoices, products, expenses: allExpenses, users, activities, 
+        customers, suppliers, customerTransactions, supplierTransactions, storeSettings,
+        stockMovements, refreshStockMovements, branches, cashShifts, promotions
     } = useAppContext();
 
+    const [selectedBranchId, setSelectedBranchId] = useState<string>(ALL_BRANCHES);
+    // Voided sales stay in the lists but no longer count
+    const saleInvoices = useMemo(() => allSaleInvoices.filter(inv => isInBranch(inv, selectedBranchId) && !isVoided(inv)), [allSaleInvoices, selectedBranchId]);
+    const expenses = useMemo(() => allExpenses.filter(exp => isInBranch(exp, selectedBranchId)), [allExpenses, selectedBranchId]);
+
     const [activeTab, setActiveTab] = useState('sales');
     const [dateRange, setDateRange] = useState<{ start: Date, end: Date }>({ start: new Date(), end: new Date() });
     const [printModalContent, setPrintModalContent] = useState<{ title: string; content: React.ReactNode } | null>(null);
@@ -103,23 +115,44 @@ const Reports: React.FC = () => {
                 return acc;
             }, [] as { cashier: string, totalSales: number, invoiceCount: number }[]);
 
+        // Discount each promotion gave, from the promotion id kept on the sale lines
+        const discountsByPromotion = filteredInvoices
+            .filter(inv => inv.type === 'sale')
+            .reduce((acc, inv) => {
+                inv.items.forEach(item => {
+                    if (item.type !== 'product' || !item.promotionId) return;
+                    const discount = (item.salePrice - (item.finalPrice ?? item.salePrice)) * item.quantity;
+                    const existing = acc.find(p => p.promotionId === item.promotionId);
+                    if (existing) {
+                        existing.discount += discount;
+                        existing.invoiceIds.add(inv.id);
+                    } else {
+                        acc.push({ promotionId: item.promotionId, discount, invoiceIds: new Set([inv.id]) });
+                    }
+                });
+                return acc;
+            }, [] as { promotionId: string, discount: number, invoiceIds: Set<string> }[])
+            .sort((a, b) => b.discount - a.discount);
+
         return { 
             netSales, 
+            discountsByPromotion,
             totalDiscountsGiven, 
             totalExpenses, 
             netIncome, 
             topProducts, 
             salesByEmployee,
             returnsAmount,
-            totalCOGS 
+            totalCOGS,
+            takingsByMethod: getTakingsByMethod(filteredInvoices)
         };
 
     }, [saleInvoices, expenses, dateRange]);
     
     // --- Inventory Calculations ---
     const inventoryData = useMemo(() => {
-        const totalValue = products.reduce((sum, p) => sum + p.batches.reduce((batchSum, b) => batchSum + (b.stock * b.purchasePrice), 0), 0);
-        const totalItems = products.reduce((sum, p) => sum + p.batches.reduce((batchSum, b) => batchSum + b.stock, 0), 0);
+        const totalValue = products.reduce((sum, p) => sum + getBranchBatches(p, selectedBranchId).reduce((batchSum, b) => batchSum + (b.stock * b.purchasePrice), 0), 0);
+        const totalItems = products.reduce((sum, p) => sum + getBranchBatches(p, selectedBranchId).reduce((batchSum, b) => batchSum + b.stock, 0), 0);
         const soldProductIds = new Set(saleInvoices.filter(inv => {
             const invTime = new Date(inv.timestamp).getTime();
             return invTime >= dateRange.start.getTime() && invTime <= dateRange.end.getTime();
@@ -128,8 +161,48 @@ const Reports: React.FC = () => {
         const stagnantProducts = products.filter(p => !soldProductIds.has(p.id));
 
         return { totalValue, totalItems, stagnantProducts };
-    }, [products, saleInvoices, dateRange]);
+    }, [products, saleInvoices, dateRange, selectedBranchId]);
     
+    // --- Stock Movement Calculations ---
+    const [selectedReason, setSelectedReason] = useState<StockMovementReason | 'all'>('all');
+
+    // Sales and purchases are logged on the server, so the ledger is reloaded whenever the tab is opened
+    useEffect(() => {
+        if (activeTab === 'movements') refreshStockMovements();
+    }, [activeTab]);
+
+    const movementData = useMemo(() => {
+        const filteredMovements = stockMovements.filter(m => {
+            const time = new Date(m.timestamp).getTime();
+            return isInBranch(m, selectedBranchId)
+                && time >= dateRange.start.getTime() && time <= dateRange.end.getTime()
+                && (selectedReason === 'all' || m.reason === selectedReason);
+        });
+
+        const byReason = filteredMovements.reduce((acc, m) => {
+            let row = acc.find(r => r.reason === m.reason);
+            if (!row) {
+                row = { reason: m.reason, count: 0, quantityIn: 0, quantityOut: 0, value: 0 };
+                acc.push(row);
+            }
+            row.count += 1;
+            if (m.delta > 0) row.quantityIn += m.delta;
+            else row.quantityOut -= m.delta;
+            row.value += m.delta * m.unitCost;
+            return acc;
+        }, [] as { reason: StockMovementReason; count: number; quantityIn: number; quantityOut: number; value: number }[]);
+
+        return { filteredMovements, byReason };
+    }, [stockMovements, selectedBranchId, dateRange, selectedReason]);
+
+    // --- Cash Shifts ---
+    const [zReportShift, setZReportShift] = useState<CashShift | null>(null);
+
+    const filteredShifts = useMemo(() => cashShifts.filter(shift => {
+        const time = new Date(shift.openedAt).getTime();
+        return isInBranch(shift, selectedBranchId) && time >= dateRange.start.getTime() && time <= dateRange.end.getTime();
+    }), [cashShifts, selectedBranchId, dateRange]);
+
     // --- Employee Activity Calculations ---
     const [selectedEmployee, setSelectedEmployee] = useState('all');
     const [selectedActivityTypes, setSelectedActivityTypes] = useState<string[]>([]);
@@ -214,10 +287,20 @@ const Reports: React.FC = () => {
                                     <li className="flex justify-between p-2 border-b"><span>مبلغ مرجوعی‌ها:</span> <span className="font-mono text-red-500">{formatCurrency(salesData.returnsAmount, storeSettings)}</span></li>
                                 </ul>
                             </div>
+                            <div className="p-4 bg-white/70 rounded-xl shadow-md border">
+                                <h3 className="font-bold text-lg mb-2">دریافتی به تفکیک روش پرداخت</h3>
+                                <ul>{(Object.keys(PAYMENT_METHODS) as PaymentMethod[]).map(method => <li key={method} className="flex justify-between p-2 border-b last:border-0"><span>{PAYMENT_METHODS[method]}</span> <span className="font-mono">{formatCurrency(salesData.takingsByMethod[method], storeSettings)}</span></li>)}</ul>
+                            </div>
                             <div className="p-4 bg-white/70 rounded-xl shadow-md border">
                                 <h3 className="font-bold text-lg mb-2">عملکرد فروش کارمندان</h3>
                                 <ul>{salesData.salesByEmployee.map(e => <li key={e.cashier} className="flex justify-between p-2 border-b last:border-0"><span>{e.cashier}</span> <span className="font-semibold">{formatCurrency(e.totalSales, storeSettings)} ({e.invoiceCount} فاکتور)</span></li>)}</ul>
                             </div>
+                            {salesData.discountsByPromotion.length > 0 && (
+                                <div className="p-4 bg-white/70 rounded-xl shadow-md border">
+                                    <h3 className="font-bold text-lg mb-2">تخفیف طرح‌های تخفیف</h3>
+                                    <ul>{salesData.discountsByPromotion.map(p => <li key={p.promotionId} className="flex justify-between p-2 border-b last:border-0"><span>{promotions.find(pr => pr.id === p.promotionId)?.name || 'طرح حذف شده'}</span> <span className="font-semibold text-amber-600">{formatCurrency(p.discount, storeSettings)} ({p.invoiceIds.size} فاکتور)</span></li>)}</ul>
+                                </div>
+                            )}
                         </div>
                          <div className="p-4 bg-white/70 rounded-xl shadow-md border">
                             <h3 className="font-bold text-lg mb-2">پرفروش‌ترین محصولات</h3>
@@ -251,8 +334,9 @@ const Reports: React.FC = () => {
                                     </thead>
                                     <tbody>
                                         {products.map(p => {
-                                            const totalStock = p.batches.reduce((sum, b) => sum + b.stock, 0);
-                                            const stockValue = p.batches.reduce((sum, b) => sum + (b.stock * b.purchasePrice), 0);
+                                            const branchBatches = getBranchBatches(p, selectedBranchId);
+                                            const totalStock = branchBatches.reduce((sum, b) => sum + b.stock, 0);
+                                            const stockValue = branchBatches.reduce((sum, b) => sum + (b.stock * b.purchasePrice), 0);
                                             return (
                                                 <tr key={p.id} className="border-b last:border-0">
                                                     <td className="p-2 text-right font-semibold">{p.name}</td>
@@ -280,6 +364,124 @@ const Reports: React.FC = () => {
                         {inventoryReportContent}
                     </div>
                 );
+            case 'movements':
+                const movementReportContent = (
+                    <div className="space-y-6">
+                        <div className="p-4 bg-white/70 rounded-xl shadow-md border">
+                            <h3 className="font-bold text-lg mb-2">خلاصه بر اساس دلیل</h3>
+                            <table className="min-w-full text-sm text-center">
+                                <thead className="bg-slate-100">
+                                    <tr>
+                                        <th className="p-2">دلیل</th>
+                                        <th className="p-2">تعداد ثبت</th>
+                                        <th className="p-2">ورودی</th>
+                                        <th className="p-2">خروجی</th>
+                                        <th className="p-2">ارزش خالص (قیمت خرید)</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {movementData.byReason.map(r => (
+                                        <tr key={r.reason} className="border-b last:border-0">
+                                            <td className="p-2 text-right font-semibold">{STOCK_MOVEMENT_REASONS[r.reason] || r.reason}</td>
+                                            <td className="p-2">{r.count.toLocaleString('fa-IR')}</td>
+                                            <td className="p-2 text-green-600">{r.quantityIn.toLocaleString('fa-IR')}</td>
+                                            <td className="p-2 text-red-500">{r.quantityOut.toLocaleString('fa-IR')}</td>
+                                            <td className="p-2">{formatCurrency(r.value, storeSettings)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="p-4 bg-white/70 rounded-xl shadow-md border">
+                            <h3 className="font-bold text-lg mb-2">دفتر گردش موجودی</h3>
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full text-sm text-center">
+                                    <thead className="bg-slate-100">
+                                        <tr>
+                                            <th className="p-2">تاریخ</th>
+                                            <th className="p-2">محصول</th>
+                                            <th className="p-2">لات</th>
+                                            {branches.length > 1 && <th className="p-2">شعبه</th>}
+                                            <th className="p-2">دلیل</th>
+                                            <th className="p-2">تغییر</th>
+                                            <th className="p-2">مانده بچ</th>
+                                            <th className="p-2">سند</th>
+                                            <th className="p-2">کاربر</th>
+                                            <th className="p-2">توضیحات</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {movementData.filteredMovements.map(m => (
+                                            <tr key={m.id} className="border-b last:border-0">
+                                                <td className="p-2 whitespace-nowrap">{new Date(m.timestamp).toLocaleString('fa-IR')}</td>
+                                                <td className="p-2 text-right font-semibold">{products.find(p => p.id === m.productId)?.name || m.productId}</td>
+                                                <td className="p-2 font-mono">{m.lotNumber}</td>
+                                                {branches.length > 1 && <td className="p-2">{branches.find(b => b.id === m.branchId)?.name || m.branchId}</td>}
+                                                <td className="p-2">{STOCK_MOVEMENT_REASONS[m.reason] || m.reason}</td>
+                                                <td className={`p-2 font-bold ${m.delta > 0 ? 'text-green-600' : 'text-red-500'}`} dir="ltr">{m.delta > 0 ? '+' : ''}{m.delta}</td>
+                                                <td className="p-2">{m.stockAfter}</td>
+                                                <td className="p-2 font-mono">{m.refId || '-'}</td>
+                                                <td className="p-2">{m.user}</td>
+                                                <td className="p-2">{m.note || '-'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    </div>
+                );
+                return (
+                    <div className="space-y-6">
+                        <div className="flex justify-between items-center">
+                            <select value={selectedReason} onChange={e => setSelectedReason(e.target.value as StockMovementReason | 'all')} className="p-2 border rounded-md bg-white">
+                                <option value="all">همه دلایل</option>
+                                {Object.entries(STOCK_MOVEMENT_REASONS).map(([reason, label]) => <option key={reason} value={reason}>{label}</option>)}
+                            </select>
+                            <button onClick={() => handlePrintReport('گزارش گردش موجودی', movementReportContent)} className="flex items-center gap-2 px-4 py-2 bg-slate-200 rounded-md text-slate-700 hover:bg-slate-300 transition-colors"><PrintIcon /> چاپ گزارش</button>
+                        </div>
+                        {movementReportContent}
+                    </div>
+                );
+            case 'shifts':
+                return (
+                    <div className="p-4 bg-white/70 rounded-xl shadow-md border overflow-x-auto">
+                        <table className="min-w-full text-sm text-center">
+                            <thead className="bg-slate-100">
+                                <tr>
+                                    <th className="p-2">صندوقدار</th>
+                                    <th className="p-2">شعبه</th>
+                                    <th className="p-2">باز شده</th>
+                                    <th className="p-2">بسته شده</th>
+                                    <th className="p-2">موجودی مورد انتظار</th>
+                                    <th className="p-2">شمارش شده</th>
+                                    <th className="p-2">اضافه / کسری</th>
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filteredShifts.map(shift => {
+                                    const difference = shift.countedCash !== undefined && shift.expectedCash !== undefined ? shift.countedCash - shift.expectedCash : undefined;
+                                    return (
+                                        <tr key={shift.id} className="border-b last:border-0">
+                                            <td className="p-2 font-semibold">{shift.cashier}</td>
+                                            <td className="p-2">{branches.find(b => b.id === shift.branchId)?.name || shift.branchId}</td>
+                                            <td className="p-2">{new Date(shift.openedAt).toLocaleString('fa-IR')}</td>
+                                            <td className="p-2">{shift.closedAt ? new Date(shift.closedAt).toLocaleString('fa-IR') : <span className="text-green-600 font-semibold">باز</span>}</td>
+                                            <td className="p-2 font-mono">{shift.expectedCash !== undefined ? formatCurrency(shift.expectedCash, storeSettings) : '-'}</td>
+                                            <td className="p-2 font-mono">{shift.countedCash !== undefined ? formatCurrency(shift.countedCash, storeSettings) : '-'}</td>
+                                            <td className={`p-2 font-mono font-bold ${difference === undefined ? '' : difference >= 0 ? 'text-green-600' : 'text-red-600'}`}>{difference !== undefined ? formatCurrency(difference, storeSettings) : '-'}</td>
+                                            <td className="p-2">
+                                                <button onClick={() => setZReportShift(shift)} className="flex items-center gap-1 px-3 py-1 bg-slate-200 rounded-md text-slate-700 hover:bg-slate-300 transition-colors"><PrintIcon className="w-4 h-4" /> گزارش Z</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        {filteredShifts.length === 0 && <p className="text-center text-slate-500 py-6">در این بازه شیفتی ثبت نشده است.</p>}
+                    </div>
+                );
             case 'employees': 
                 const employeeReportContent = (
                      <div className="p-4 bg-white/70 rounded-xl shadow-md border">
@@ -357,16 +559,20 @@ const Reports: React.FC = () => {
                     {printModalContent.content}
                 </ReportPrintPreviewModal>
             )}
+            {zReportShift && <ZReportModal shift={zReportShift} onClose={() => setZReportShift(null)} />}
 
             <h1 className="mb-4">مرکز گزارشات</h1>
-            <div className="mb-8 p-4 bg-white/60 backdrop-blur-xl rounded-2xl shadow-lg border border-gray-200/60">
+            <div className="mb-8 p-4 bg-white/60 backdrop-blur-xl rounded-2xl shadow-lg border border-gray-200/60 flex flex-wrap items-center justify-between gap-4">
                 <DateRangeFilter onFilterChange={(start, end) => setDateRange({ start, end })} />
+                <BranchSelector value={selectedBranchId} onChange={setSelectedBranchId} />
             </div>
 
             <div className="bg-white/60 backdrop-blur-xl rounded-2xl shadow-lg border border-gray-200/60">
                 <div className="flex border-b border-gray-200/60 p-2 bg-white/40 rounded-t-2xl flex-wrap">
                     <button onClick={() => setActiveTab('sales')} className={`py-3 px-6 font-bold text-lg rounded-lg ${activeTab === 'sales' ? 'bg-white shadow-md text-blue-600' : 'text-slate-600'}`}>فروش و سودآوری</button>
                     <button onClick={() => setActiveTab('inventory')} className={`py-3 px-6 font-bold text-lg rounded-lg ${activeTab === 'inventory' ? 'bg-white shadow-md text-blue-600' : 'text-slate-600'}`}>انبار و موجودی</button>
+                    <button onClick={() => setActiveTab('movements')} className={`py-3 px-6 font-bold text-lg rounded-lg ${activeTab === 'movements' ? 'bg-white shadow-md text-blue-600' : 'text-slate-600'}`}>گردش موجودی</button>
+                    <button onClick={() => setActiveTab('shifts')} className={`py-3 px-6 font-bold text-lg rounded-lg ${activeTab === 'shifts' ? 'bg-white shadow-md text-blue-600' : 'text-slate-600'}`}>شیفت‌های صندوق</button>
                     <button onClick={() => setActiveTab('employees')} className={`py-3 px-6 font-bold text-lg rounded-lg ${activeTab === 'employees' ? 'bg-white shadow-md text-blue-600' : 'text-slate-600'}`}>فعالیت کارمندان</button>
                     <button onClick={() => setActiveTab('accounts')} className={`py-3 px-6 font-bold text-lg rounded-lg ${activeTab === 'accounts' ? 'bg-white shadow-md text-blue-600' : 'text-slate-600'}`}>حساب‌ها</button>
                 </div>
@@ -1,25 +1,44 @@
 import React, { useState, useRef } from 'react';
 import { useAppContext } from '../AppContext';
-import type { StoreSettings, Service, Role, User, Permission } from '../types';
-import { PlusIcon, TrashIcon, DownloadIcon, UploadIcon, UserGroupIcon, KeyIcon, WarningIcon } from '../components/icons';
+import type { StoreSettings, Service, Role, User, Permission, Branch, CostingMethod, Promotion, PromotionType, PromotionTier, PriceList, PriceListItem, LoyaltySettings, LoyaltyEarnMode, NumberingSettings, DocumentType } from '../types';
+import { PlusIcon, TrashIcon, EditIcon, DownloadIcon, UploadIcon, UserGroupIcon, KeyIcon, WarningIcon } from '../components/icons';
 import Toast from '../components/Toast';
 import { formatCurrency } from '../utils/formatters';
 import { ALL_PERMISSIONS, groupPermissions } from '../utils/permissions';
+import { COSTING_METHODS } from '../utils/costing';
+import { PAYMENT_METHODS } from '../utils/payments';
+import { DOCUMENT_TYPES, formatDocumentNumber, getNumberingProblem, getNextBranchCode, isValidBranchCode } from '../utils/numbering';
+import { JALALI_MONTHS } from '../utils/jalali';
+import { PROMOTION_TYPES, WEEK_DAYS, isPromotionRunning, describePromotion } from '../utils/promotions';
 
 interface TabProps {
     showToast: (message: string) => void;
 }
 
 const StoreDetailsTab: React.FC<TabProps> = ({ showToast }) => {
-    const { storeSettings, updateSettings } = useAppContext();
+    const { storeSettings, updateSettings, branches, activeBranchId } = useAppContext();
+    const sampleBranchCode = (branches.find(b => b.id === activeBranchId) || branches[0])?.code || '01';
     const [formData, setFormData] = useState(storeSettings);
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         setFormData({ ...formData, [e.target.name]: e.target.value });
     };
 
+    const setLoyalty = (changes: Partial<LoyaltySettings>) => setFormData(prev => ({ ...prev, loyalty: { ...prev.loyalty, ...changes } }));
+    const setNumbering = (changes: Partial<NumberingSettings>) => setFormData(prev => ({ ...prev, numbering: { ...prev.numbering, ...changes } }));
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        const { loyalty } = formData;
+        if (loyalty.enabled && !(loyalty.earnPoints > 0 && loyalty.earnAmount > 0 && loyalty.pointValue > 0)) {
+            showToast("مقادیر باشگاه مشتریان باید بزرگتر از صفر باشند.");
+            return;
+        }
+        const numberingProblem = getNumberingProblem(formData.numbering);
+        if (numberingProblem) {
+            showToast(numberingProblem);
+            return;
+        }
         updateSettings(formData);
         showToast("مشخصات فروشگاه با موفقیت بروزرسانی شد.");
     };
@@ -43,6 +62,63 @@ const StoreDetailsTab: React.FC<TabProps> = ({ showToast }) => {
                 <label htmlFor="currencyName" className="block text-md font-semibold text-slate-700 mb-2">نام واحد پولی</label>
                 <input id="currencyName" name="currencyName" value={formData.currencyName} onChange={handleChange} className="w-full p-3 border rounded-lg form-input" placeholder="مثال: افغانی" />
             </div>
+            <div>
+                <label htmlFor="costingMethod" className="block text-md font-semibold text-slate-700 mb-2">روش محاسبه بهای تمام شده</label>
+                <select id="costingMethod" name="costingMethod" value={formData.costingMethod} onChange={handleChange} className="w-full p-3 border rounded-lg form-input bg-white">
+                    {(Object.keys(COSTING_METHODS) as CostingMethod[]).map(method => <option key={method} value={method}>{COSTING_METHODS[method]}</option>)}
+                </select>
+                <p className="text-sm text-slate-500 mt-1">ترتیب کسر موجودی از دسته‌ها در فروش و قیمت خرید ثبت شده روی اقلام فاکتور (برای محاسبه سود) را تعیین می‌کند. در روش میانگین، هر خرید قیمت همه دسته‌های آن کالا در شعبه را به میانگین جدید تغییر می‌دهد.</p>
+            </div>
+            <div className="p-4 bg-white/70 rounded-lg border space-y-3">
+                <label className="flex items-center gap-2 text-md font-semibold text-slate-700">
+                    <input type="checkbox" checked={formData.loyalty.enabled} onChange={e => setLoyalty({ enabled: e.target.checked })} className="form-checkbox" />
+                    باشگاه مشتریان (امتیاز خرید)
+                </label>
+                {formData.loyalty.enabled && (
+                    <>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <input type="number" min="0" value={formData.loyalty.earnPoints} onChange={e => setLoyalty({ earnPoints: Number(e.target.value) })} className="w-20 p-2 border rounded form-input" />
+                            <span>امتیاز برای هر</span>
+                            {formData.loyalty.earnMode === 'per_amount' && (
+                                <input type="number" min="1" value={formData.loyalty.earnAmount} onChange={e => setLoyalty({ earnAmount: Number(e.target.value) })} className="w-24 p-2 border rounded form-input" />
+                            )}
+                            <select value={formData.loyalty.earnMode} onChange={e => setLoyalty({ earnMode: e.target.value as LoyaltyEarnMode })} className="p-2 border rounded bg-white form-input">
+                                <option value="per_amount">{formData.currencyName} خرید</option>
+                                <option value="per_item">عدد کالای خریداری شده</option>
+                            </select>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span>ارزش هر امتیاز هنگام پرداخت:</span>
+                            <input type="number" min="0" step="0.01" value={formData.loyalty.pointValue} onChange={e => setLoyalty({ pointValue: Number(e.target.value) })} className="w-24 p-2 border rounded form-input" />
+                            <span>{formData.currencyName}</span>
+                        </div>
+                        <p className="text-sm text-slate-500">فقط مشتریان ثبت شده امتیاز می‌گیرند. امتیاز در صندوق با روش پرداخت «{PAYMENT_METHODS.loyalty_points}» خرج می‌شود و با مرجوعی کالا پس گرفته می‌شود.</p>
+                    </>
+                )}
+            </div>
+            <div className="p-4 bg-white/70 rounded-lg border space-y-3">
+                <p className="text-md font-semibold text-slate-700">شماره‌گذاری فاکتورها</p>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span>الگوی شماره:</span>
+                    <input value={formData.numbering.pattern} onChange={e => setNumbering({ pattern: e.target.value })} dir="ltr" className="w-56 p-2 border rounded form-input font-mono" />
+                    <span>شروع سال مالی:</span>
+                    <select value={formData.numbering.fiscalYearStartMonth} onChange={e => setNumbering({ fiscalYearStartMonth: Number(e.target.value) })} className="p-2 border rounded bg-white form-input">
+                        {JALALI_MONTHS.map(m => <option key={m.value} value={m.value}>{m.name}</option>)}
+                    </select>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                    {(Object.keys(DOCUMENT_TYPES) as DocumentType[]).map(type => (
+                        <label key={type} className="flex flex-col gap-1">
+                            <span>پیشوند {DOCUMENT_TYPES[type]}</span>
+                            <input value={formData.numbering.prefixes[type]} onChange={e => setNumbering({ prefixes: { ...formData.numbering.prefixes, [type]: e.target.value.trim() } })} dir="ltr" className="p-2 border rounded form-input font-mono" />
+                        </label>
+                    ))}
+                </div>
+                <p className="text-sm text-slate-500">
+                    {'{prefix}'} پیشوند، {'{branch}'} کد شعبه، {'{year}'} سال مالی شمسی ({'{yy}'} دو رقم آخر آن) و {'{seq}'} شماره ردیف است ({'{seq:6}'} شش رقمی با صفر). شماره‌ها را سرور هنگام ثبت فاکتور برای هر شعبه جداگانه صادر می‌کند و با شروع سال مالی از ۱ شروع می‌شوند.
+                    نمونه: <span className="font-mono font-bold" dir="ltr">{formatDocumentNumber(formData.numbering, 'sale', sampleBranchCode, new Date(), 123)}</span>
+                </p>
+            </div>
             <div className="flex justify-end">
                 <button type="submit" className="px-8 py-3 rounded-lg bg-blue-600 text-white btn-primary font-semibold">ذخیره تغییرات</button>
             </div>
@@ -135,6 +211,410 @@ const ServicesTab: React.FC<TabProps> = ({ showToast }) => {
     );
 };
 
+const BranchesTab: React.FC<TabProps> = ({ showToast }) => {
+    const { branches, addBranch, updateBranch, deleteBranch } = useAppContext();
+    const emptyForm: Omit<Branch, 'id'> = { name: '', code: getNextBranchCode(branches), type: 'store', address: '', phone: '' };
+    const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+    const [formData, setFormData] = useState<Omit<Branch, 'id'>>(emptyForm);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+
+    const handleEdit = (branch: Branch) => {
+        setEditingBranch(branch);
+        setFormData({ name: branch.name, code: branch.code, type: branch.type, address: branch.address || '', phone: branch.phone || '' });
+    };
+
+    const resetForm = () => {
+        setEditingBranch(null);
+        setFormData(emptyForm);
+    };
+
+    const handleSave = async () => {
+        if (!formData.name.trim()) { showToast("نام شعبه نمی‌تواند خالی باشد."); return; }
+        if (!isValidBranchCode(formData.code.trim())) { showToast("کد شعبه باید ۱ تا ۶ حرف یا رقم انگلیسی باشد."); return; }
+        const branchData = { ...formData, name: formData.name.trim(), code: formData.code.trim() };
+        const result = await (editingBranch
+            ? updateBranch({ ...branchData, id: editingBranch.id })
+            : addBranch(branchData));
+        showToast(result.message);
+        if (result.success) resetForm();
+    };
+
+    const handleDelete = (branch: Branch) => {
+        if (window.confirm(`آیا از حذف شعبه "${branch.name}" اطمینان دارید؟`)) {
+            deleteBranch(branch.id);
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <div>
+                <h4 className="text-lg font-bold mb-4">{editingBranch ? 'ویرایش شعبه' : 'افزودن شعبه جدید'}</h4>
+                <div className="space-y-4 p-4 bg-white/70 rounded-lg border">
+                    <input name="name" value={formData.name} onChange={handleChange} placeholder="نام شعبه" className="w-full p-2 border rounded form-input" />
+                    <input name="code" value={formData.code} onChange={handleChange} placeholder="کد شعبه (در شماره فاکتورها)" dir="ltr" className="w-full p-2 border rounded form-input font-mono" />
+                    <select name="type" value={formData.type} onChange={handleChange} className="w-full p-2 border rounded bg-white form-input">
+                        <option value="store">فروشگاه</option>
+                        <option value="warehouse">انبار</option>
+                    </select>
+                    <input name="address" value={formData.address} onChange={handleChange} placeholder="آدرس (اختیاری)" className="w-full p-2 border rounded form-input" />
+                    <input name="phone" value={formData.phone} onChange={handleChange} placeholder="شماره تماس (اختیاری)" className="w-full p-2 border rounded form-input" />
+                    <div className="flex gap-2">
+                        <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded-lg btn-primary flex-grow">{editingBranch ? 'بروزرسانی' : 'افزودن'}</button>
+                        {editingBranch && <button onClick={resetForm} className="bg-gray-200 px-4 py-2 rounded-lg">لغو</button>}
+                    </div>
+                </div>
+            </div>
+            <div>
+                <h4 className="text-lg font-bold mb-4">لیست شعب</h4>
+                <ul className="space-y-2">
+                    {branches.map(branch => (
+                        <li key={branch.id} className="flex justify-between items-center p-3 bg-white/70 rounded-lg border">
+                            <div>
+                                <p className="font-semibold">{branch.name} <span className="font-mono text-sm text-slate-500" dir="ltr">{branch.code}</span></p>
+                                <p className="text-sm text-slate-600">{branch.type === 'warehouse' ? 'انبار' : 'فروشگاه'}{branch.address ? ` • ${branch.address}` : ''}</p>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => handleEdit(branch)} className="text-blue-600 p-2 rounded-full hover:bg-blue-100/50"><EditIcon className="w-5 h-5" /></button>
+                                <button onClick={() => handleDelete(branch)} className="text-red-500 p-2 rounded-full hover:bg-red-100/50"><TrashIcon className="w-5 h-5" /></button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+type PromotionForm = Omit<Promotion, 'id'>;
+
+const emptyPromotion: PromotionForm = {
+    name: '', type: 'percent_off', active: true, productIds: [], manufacturer: '',
+    percentOff: undefined, amountOff: undefined, tiers: [{ minQuantity: 2, percentOff: 5 }],
+    buyQuantity: 2, getQuantity: 1, bundlePrice: undefined,
+    startDate: '', endDate: '', startTime: '', endTime: '', daysOfWeek: []
+};
+
+// Checks the fields of the chosen rule type; returns an error message or ''
+const validatePromotion = (form: PromotionForm): string => {
+    if (!form.name.trim()) return "نام طرح نمی‌تواند خالی باشد.";
+    if (form.type === 'bundle' ? form.productIds.length < 2 : form.productIds.length === 0 && !form.manufacturer) {
+        return form.type === 'bundle' ? "بسته باید حداقل دو کالا داشته باشد." : "حداقل یک کالا یا یک شرکت سازنده انتخاب کنید.";
+    }
+    if (form.type === 'percent_off' && !(form.percentOff! > 0 && form.percentOff! <= 100)) return "درصد تخفیف باید بین ۱ تا ۱۰۰ باشد.";
+    if (form.type === 'fixed_off' && !(form.amountOff! > 0)) return "مبلغ تخفیف را وارد کنید.";
+    if (form.type === 'quantity_tier' && (!form.tiers?.length || form.tiers.some(t => !(t.minQuantity > 0) || !(t.percentOff > 0 && t.percentOff <= 100)))) return "پله‌های تخفیف معتبر نیستند.";
+    if (form.type === 'buy_x_get_y' && !(form.buyQuantity! > 0 && form.getQuantity! > 0)) return "تعداد خرید و تعداد رایگان را وارد کنید.";
+    if (form.type === 'bundle' && (form.bundlePrice === undefined || form.bundlePrice < 0)) return "قیمت بسته را وارد کنید.";
+    if (form.startDate && form.endDate && form.startDate > form.endDate) return "تاریخ پایان قبل از تاریخ شروع است.";
+    if (!!form.startTime !== !!form.endTime) return "ساعت شروع و پایان را با هم وارد کنید.";
+    return '';
+};
+
+const PromotionsTab: React.FC<TabProps> = ({ showToast }) => {
+    const { promotions, products, addPromotion, updatePromotion, deletePromotion, storeSettings } = useAppContext();
+    const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+    const [form, setForm] = useState<PromotionForm>(emptyPromotion);
+    const [productSearch, setProductSearch] = useState('');
+
+    const manufacturers = [...new Set(products.map(p => p.manufacturer).filter((m): m is string => !!m))].sort();
+    const matchingProducts = productSearch.trim()
+        ? products.filter(p => p.name.includes(productSearch.trim()) || p.barcode === productSearch.trim()).slice(0, 8)
+        : [];
+    const setField = <K extends keyof PromotionForm>(key: K, value: PromotionForm[K]) => setForm(prev => ({ ...prev, [key]: value }));
+    const toNumber = (value: string) => value === '' ? undefined : Number(value);
+
+    const resetForm = () => {
+        setEditingPromotion(null);
+        setForm(emptyPromotion);
+        setProductSearch('');
+    };
+
+    const handleEdit = (promotion: Promotion) => {
+        setEditingPromotion(promotion);
+        setForm({ ...emptyPromotion, ...promotion, manufacturer: promotion.manufacturer || '' });
+    };
+
+    const handleSave = async () => {
+        const error = validatePromotion(form);
+        if (error) { showToast(error); return; }
+        // Only the fields of the chosen type are kept
+        const promotion: PromotionForm = {
+            name: form.name.trim(), type: form.type, active: form.active, productIds: form.productIds,
+            manufacturer: form.type !== 'bundle' && form.manufacturer ? form.manufacturer : undefined,
+            percentOff: form.type === 'percent_off' ? form.percentOff : undefined,
+            amountOff: form.type === 'fixed_off' ? form.amountOff : undefined,
+            tiers: form.type === 'quantity_tier' ? form.tiers : [],
+            buyQuantity: form.type === 'buy_x_get_y' ? form.buyQuantity : undefined,
+            getQuantity: form.type === 'buy_x_get_y' ? form.getQuantity : undefined,
+            bundlePrice: form.type === 'bundle' ? form.bundlePrice : undefined,
+            startDate: form.startDate || undefined, endDate: form.endDate || undefined,
+            startTime: form.startTime || undefined, endTime: form.endTime || undefined,
+            daysOfWeek: form.daysOfWeek
+        };
+        const result = await (editingPromotion ? updatePromotion({ ...promotion, id: editingPromotion.id }) : addPromotion(promotion));
+        showToast(result.message);
+        if (result.success) resetForm();
+    };
+
+    const handleDelete = async (promotion: Promotion) => {
+        if (!window.confirm(`آیا از حذف طرح "${promotion.name}" اطمینان دارید؟`)) return;
+        const result = await deletePromotion(promotion.id);
+        showToast(result.message);
+    };
+
+    const toggleDay = (day: number) => setField('daysOfWeek', form.daysOfWeek?.includes(day) ? form.daysOfWeek.filter(d => d !== day) : [...(form.daysOfWeek || []), day]);
+    const updateTier = (index: number, tier: PromotionTier) => setField('tiers', (form.tiers || []).map((t, i) => i === index ? tier : t));
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <div>
+                <h4 className="text-lg font-bold mb-4">{editingPromotion ? 'ویرایش طرح تخفیف' : 'تعریف طرح تخفیف'}</h4>
+                <div className="space-y-4 p-4 bg-white/70 rounded-lg border">
+                    <input value={form.name} onChange={e => setField('name', e.target.value)} placeholder="نام طرح (روی سبد خرید نمایش داده می‌شود)" className="w-full p-2 border rounded form-input" />
+                    <div className="flex gap-2 items-center">
+                        <select value={form.type} onChange={e => setField('type', e.target.value as PromotionType)} className="flex-grow p-2 border rounded bg-white form-input">
+                            {(Object.keys(PROMOTION_TYPES) as PromotionType[]).map(type => <option key={type} value={type}>{PROMOTION_TYPES[type]}</option>)}
+                        </select>
+                        <label className="flex items-center gap-1 text-sm whitespace-nowrap">
+                            <input type="checkbox" checked={form.active} onChange={e => setField('active', e.target.checked)} className="form-checkbox" /> فعال
+                        </label>
+                    </div>
+
+                    {form.type === 'percent_off' && (
+                        <input type="number" min="0" max="100" value={form.percentOff ?? ''} onChange={e => setField('percentOff', toNumber(e.target.value))} placeholder="درصد تخفیف" className="w-full p-2 border rounded form-input" />
+                    )}
+                    {form.type === 'fixed_off' && (
+                        <input type="number" min="0" value={form.amountOff ?? ''} onChange={e => setField('amountOff', toNumber(e.target.value))} placeholder={`تخفیف هر عدد (${storeSettings.currencyName})`} className="w-full p-2 border rounded form-input" />
+                    )}
+                    {form.type === 'quantity_tier' && (
+                        <div className="space-y-2">
+                            {(form.tiers || []).map((tier, index) => (
+                                <div key={index} className="flex gap-2 items-center text-sm">
+                                    <span>از</span>
+                                    <input type="number" min="1" value={tier.minQuantity} onChange={e => updateTier(index, { ...tier, minQuantity: Number(e.target.value) })} className="w-20 p-2 border rounded form-input" />
+                                    <span>عدد به بالا</span>
+                                    <input type="number" min="0" max="100" value={tier.percentOff} onChange={e => updateTier(index, { ...tier, percentOff: Number(e.target.value) })} className="w-20 p-2 border rounded form-input" />
+                                    <span>%</span>
+                                    <button type="button" onClick={() => setField('tiers', (form.tiers || []).filter((_, i) => i !== index))} className="text-red-500 p-1 rounded-full hover:bg-red-100/50"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            ))}
+                            <button type="button" onClick={() => setField('tiers', [...(form.tiers || []), { minQuantity: 1, percentOff: 0 }])} className="text-sm text-blue-600 font-semibold">+ افزودن پله</button>
+                        </div>
+                    )}
+                    {form.type === 'buy_x_get_y' && (
+                        <div className="flex gap-2 items-center text-sm">
+                            <span>بخر</span>
+                            <input type="number" min="1" value={form.buyQuantity ?? ''} onChange={e => setField('buyQuantity', toNumber(e.target.value))} className="w-20 p-2 border rounded form-input" />
+                            <span>عدد، بگیر</span>
+                            <input type="number" min="1" value={form.getQuantity ?? ''} onChange={e => setField('getQuantity', toNumber(e.target.value))} className="w-20 p-2 border rounded form-input" />
+                            <span>عدد رایگان (از همان کالا)</span>
+                        </div>
+                    )}
+                    {form.type === 'bundle' && (
+                        <input type="number" min="0" value={form.bundlePrice ?? ''} onChange={e => setField('bundlePrice', toNumber(e.target.value))} placeholder={`قیمت هر بسته (${storeSettings.currencyName})`} className="w-full p-2 border rounded form-input" />
+                    )}
+
+                    <div className="space-y-2">
+                        <p className="text-sm font-semibold text-slate-700">{form.type === 'bundle' ? 'کالاهای بسته (از هر کدام یک عدد)' : 'کالاهای مشمول'}</p>
+                        <div className="flex flex-wrap gap-1">
+                            {form.productIds.map(id => (
+                                <span key={id} className="flex items-center gap-1 text-xs bg-blue-50 text-blue-800 border border-blue-200 rounded-full px-2 py-0.5">
+                                    {products.find(p => p.id === id)?.name || id}
+                                    <button type="button" onClick={() => setField('productIds', form.productIds.filter(p => p !== id))} className="text-blue-500 hover:text-red-600">×</button>
+                                </span>
+                            ))}
+                        </div>
+                        <input value={productSearch} onChange={e => setProductSearch(e.target.value)} placeholder="جستجوی کالا برای افزودن..." className="w-full p-2 border rounded form-input" />
+                        {matchingProducts.length > 0 && (
+                            <ul className="border rounded bg-white max-h-40 overflow-y-auto">
+                                {matchingProducts.map(p => (
+                                    <li key={p.id}>
+                                        <button type="button" disabled={form.productIds.includes(p.id)} onClick={() => { setField('productIds', [...form.productIds, p.id]); setProductSearch(''); }} className="w-full text-right p-2 text-sm hover:bg-blue-50 disabled:text-slate-400">
+                                            {p.name} <span className="text-slate-400">({formatCurrency(p.salePrice, storeSettings)})</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {form.type !== 'bundle' && (
+                            <select value={form.manufacturer || ''} onChange={e => setField('manufacturer', e.target.value)} className="w-full p-2 border rounded bg-white form-input">
+                                <option value="">همه کالاهای یک شرکت سازنده (اختیاری)</option>
+                                {manufacturers.map(m => <option key={m} value={m}>{m}</option>)}
+                            </select>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <p className="text-sm font-semibold text-slate-700">زمان اجرا (خالی یعنی بدون محدودیت)</p>
+                        <div className="grid grid-cols-2 gap-2 text-sm">
+                            <label>از تاریخ<input type="date" value={form.startDate || ''} onChange={e => setField('startDate', e.target.value)} className="w-full p-2 border rounded form-input" /></label>
+                            <label>تا تاریخ<input type="date" value={form.endDate || ''} onChange={e => setField('endDate', e.target.value)} className="w-full p-2 border rounded form-input" /></label>
+                            <label>از ساعت<input type="time" value={form.startTime || ''} onChange={e => setField('startTime', e.target.value)} className="w-full p-2 border rounded form-input" /></label>
+                            <label>تا ساعت<input type="time" value={form.endTime || ''} onChange={e => setField('endTime', e.target.value)} className="w-full p-2 border rounded form-input" /></label>
+                        </div>
+                        <div className="flex flex-wrap gap-2 text-sm">
+                            {WEEK_DAYS.map((day, index) => (
+                                <label key={day} className="flex items-center gap-1">
+                                    <input type="checkbox" checked={!!form.daysOfWeek?.includes(index)} onChange={() => toggleDay(index)} className="form-checkbox" /> {day}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded-lg btn-primary flex-grow">{editingPromotion ? 'بروزرسانی' : 'افزودن'}</button>
+                        {editingPromotion && <button onClick={resetForm} className="bg-gray-200 px-4 py-2 rounded-lg">لغو</button>}
+                    </div>
+                </div>
+            </div>
+            <div>
+                <h4 className="text-lg font-bold mb-4">طرح‌های تخفیف</h4>
+                {promotions.length === 0 && <p className="text-slate-500">هنوز طرحی تعریف نشده. تخفیف‌ها فقط به صورت دستی اعمال می‌شوند.</p>}
+                <ul className="space-y-2">
+                    {promotions.map(promotion => (
+                        <li key={promotion.id} className="flex justify-between items-center p-3 bg-white/70 rounded-lg border">
+                            <div>
+                                <p className="font-semibold">
+                                    {promotion.name}
+                                    <span className={`mr-2 text-[10px] font-bold px-1.5 py-0.5 rounded-full ${isPromotionRunning(promotion) ? 'bg-green-100 text-green-800' : 'bg-slate-200 text-slate-600'}`}>
+                                        {!promotion.active ? 'غیرفعال' : isPromotionRunning(promotion) ? 'در حال اجرا' : 'خارج از زمان اجرا'}
+                                    </span>
+                                </p>
+                                <p className="text-sm text-slate-600">{PROMOTION_TYPES[promotion.type]} • {describePromotion(promotion)}</p>
+                                {(promotion.startDate || promotion.endDate) && <p className="text-xs text-slate-400">{promotion.startDate || '...'} تا {promotion.endDate || '...'}</p>}
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => handleEdit(promotion)} className="text-blue-600 p-2 rounded-full hover:bg-blue-100/50"><EditIcon className="w-5 h-5" /></button>
+                                <button onClick={() => handleDelete(promotion)} className="text-red-500 p-2 rounded-full hover:bg-red-100/50"><TrashIcon className="w-5 h-5" /></button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+type PriceListForm = Omit<PriceList, 'id'>;
+
+const emptyPriceList: PriceListForm = { name: '', percentOff: 0, items: [] };
+
+const PriceListsTab: React.FC<TabProps> = ({ showToast }) => {
+    const { priceLists, products, customers, savePriceList, deletePriceList, storeSettings } = useAppContext();
+    const [editingPriceList, setEditingPriceList] = useState<PriceList | null>(null);
+    const [form, setForm] = useState<PriceListForm>(emptyPriceList);
+    const [productSearch, setProductSearch] = useState('');
+
+    const matchingProducts = productSearch.trim()
+        ? products.filter(p => p.name.includes(productSearch.trim()) || p.barcode === productSearch.trim()).slice(0, 8)
+        : [];
+    const toNumber = (value: string) => value === '' ? undefined : Number(value);
+
+    const resetForm = () => {
+        setEditingPriceList(null);
+        setForm(emptyPriceList);
+        setProductSearch('');
+    };
+
+    const handleEdit = (priceList: PriceList) => {
+        setEditingPriceList(priceList);
+        setForm({ name: priceList.name, percentOff: priceList.percentOff, items: priceList.items });
+    };
+
+    const updateItem = (productId: string, changes: Partial<PriceListItem>) =>
+        setForm(prev => ({ ...prev, items: prev.items.map(i => i.productId === productId ? { ...i, ...changes } : i) }));
+
+    const handleSave = async () => {
+        if (!form.name.trim()) { showToast("نام لیست قیمت نمی‌تواند خالی باشد."); return; }
+        if (!(form.percentOff >= 0 && form.percentOff < 100)) { showToast("درصد تخفیف باید بین ۰ تا ۹۹ باشد."); return; }
+        if (form.items.some(i => (i.unitPrice !== undefined && !(i.unitPrice > 0)) || (i.packagePrice !== undefined && !(i.packagePrice > 0)))) {
+            showToast("قیمت‌های وارد شده باید بزرگتر از صفر باشند.");
+            return;
+        }
+        // A row without any price only falls back to the list's percentage
+        const items = form.items.filter(i => i.unitPrice !== undefined || i.packagePrice !== undefined);
+        const result = await savePriceList({ id: editingPriceList?.id, name: form.name.trim(), percentOff: form.percentOff, items });
+        showToast(result.message);
+        if (result.success) resetForm();
+    };
+
+    const handleDelete = async (priceList: PriceList) => {
+        if (!window.confirm(`آیا از حذف لیست قیمت "${priceList.name}" اطمینان دارید؟ مشتریان این لیست به قیمت عادی برمی‌گردند.`)) return;
+        const result = await deletePriceList(priceList.id);
+        showToast(result.message);
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <div>
+                <h4 className="text-lg font-bold mb-4">{editingPriceList ? 'ویرایش لیست قیمت' : 'تعریف لیست قیمت'}</h4>
+                <div className="space-y-4 p-4 bg-white/70 rounded-lg border">
+                    <input value={form.name} onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))} placeholder="نام لیست (مثال: عمده‌فروشی)" className="w-full p-2 border rounded form-input" />
+                    <label className="block text-sm">
+                        درصد تخفیف از قیمت فروش برای همه کالاها
+                        <input type="number" min="0" max="99" value={form.percentOff} onChange={e => setForm(prev => ({ ...prev, percentOff: Number(e.target.value) }))} className="w-full p-2 border rounded form-input" />
+                    </label>
+
+                    <div className="space-y-2">
+                        <p className="text-sm font-semibold text-slate-700">قیمت‌های ویژه کالا (بر درصد تخفیف مقدم است)</p>
+                        {form.items.map(item => {
+                            const product = products.find(p => p.id === item.productId);
+                            return (
+                                <div key={item.productId} className="flex gap-2 items-center text-sm">
+                                    <span className="flex-grow truncate" title={product?.name}>{product?.name || item.productId}</span>
+                                    <input type="number" min="0" value={item.unitPrice ?? ''} onChange={e => updateItem(item.productId, { unitPrice: toNumber(e.target.value) })} placeholder="قیمت واحد" className="w-24 p-2 border rounded form-input" />
+                                    <input type="number" min="0" value={item.packagePrice ?? ''} onChange={e => updateItem(item.productId, { packagePrice: toNumber(e.target.value) })} placeholder="قیمت بسته" disabled={!product || (product.itemsPerPackage || 1) <= 1} className="w-24 p-2 border rounded form-input disabled:bg-slate-100" />
+                                    <button type="button" onClick={() => setForm(prev => ({ ...prev, items: prev.items.filter(i => i.productId !== item.productId) }))} className="text-red-500 p-1 rounded-full hover:bg-red-100/50"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            );
+                        })}
+                        <input value={productSearch} onChange={e => setProductSearch(e.target.value)} placeholder="جستجوی کالا برای افزودن..." className="w-full p-2 border rounded form-input" />
+                        {matchingProducts.length > 0 && (
+                            <ul className="border rounded bg-white max-h-40 overflow-y-auto">
+                                {matchingProducts.map(p => (
+                                    <li key={p.id}>
+                                        <button type="button" disabled={form.items.some(i => i.productId === p.id)} onClick={() => { setForm(prev => ({ ...prev, items: [...prev.items, { productId: p.id }] })); setProductSearch(''); }} className="w-full text-right p-2 text-sm hover:bg-blue-50 disabled:text-slate-400">
+                                            {p.name} <span className="text-slate-400">({formatCurrency(p.salePrice, storeSettings)})</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded-lg btn-primary flex-grow">{editingPriceList ? 'بروزرسانی' : 'افزودن'}</button>
+                        {editingPriceList && <button onClick={resetForm} className="bg-gray-200 px-4 py-2 rounded-lg">لغو</button>}
+                    </div>
+                </div>
+            </div>
+            <div>
+                <h4 className="text-lg font-bold mb-4">لیست‌های قیمت</h4>
+                {priceLists.length === 0 && <p className="text-slate-500">هنوز لیستی تعریف نشده. همه مشتریان با قیمت فروش عادی خرید می‌کنند.</p>}
+                <ul className="space-y-2">
+                    {priceLists.map(priceList => (
+                        <li key={priceList.id} className="flex justify-between items-center p-3 bg-white/70 rounded-lg border">
+                            <div>
+                                <p className="font-semibold">{priceList.name}</p>
+                                <p className="text-sm text-slate-600">
+                                    {priceList.percentOff > 0 ? `${priceList.percentOff}% تخفیف` : 'بدون تخفیف کلی'} • {priceList.items.length} قیمت ویژه • {customers.filter(c => c.priceListId === priceList.id).length} مشتری
+                                </p>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => handleEdit(priceList)} className="text-blue-600 p-2 rounded-full hover:bg-blue-100/50"><EditIcon className="w-5 h-5" /></button>
+                                <button onClick={() => handleDelete(priceList)} className="text-red-500 p-2 rounded-full hover:bg-red-100/50"><TrashIcon className="w-5 h-5" /></button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
 const BackupRestoreTab: React.FC = () => {
     const { exportData, importData } = useAppContext();
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -176,19 +656,21 @@ const BackupRestoreTab: React.FC = () => {
 };
 
 const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
-    const { users, roles, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole } = useAppContext();
+    const { users, roles, branches, addUser, updateUser, deleteUser, addRole, updateRole, deleteRole } = useAppContext();
     const [activeSubTab, setActiveSubTab] = useState<'users' | 'roles'>('users');
     
     // Role state
     const [editingRole, setEditingRole] = useState<Role | null>(null);
     const [roleName, setRoleName] = useState('');
     const [rolePermissions, setRolePermissions] = useState<Permission[]>([]);
+    const [roleBranchIds, setRoleBranchIds] = useState<string[]>([]);
 
     // User state
     const [editingUser, setEditingUser] = useState<User | null>(null);
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [userRoleId, setUserRoleId] = useState('');
+    const [userBranchId, setUserBranchId] = useState('');
     
     const groupedPermissions = groupPermissions(ALL_PERMISSIONS);
     
@@ -196,20 +678,28 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
         setEditingRole(role);
         setRoleName(role.name);
         setRolePermissions(role.permissions);
+        setRoleBranchIds(role.branchIds);
+    };
+
+    const resetRoleForm = () => {
+        setEditingRole(null);
+        setRoleName('');
+        setRolePermissions([]);
+        setRoleBranchIds([]);
     };
 
     const handleSaveRole = async () => {
         if (!roleName) { showToast("نام نقش نمی‌تواند خالی باشد."); return; }
         const result = await (editingRole 
-            ? updateRole({ ...editingRole, name: roleName, permissions: rolePermissions })
-            : addRole({ name: roleName, permissions: rolePermissions }));
+            ? updateRole({ ...editingRole, name: roleName, permissions: rolePermissions, branchIds: roleBranchIds })
+            : addRole({ name: roleName, permissions: rolePermissions, branchIds: roleBranchIds }));
         
         showToast(result.message);
-        if(result.success) {
-            setEditingRole(null);
-            setRoleName('');
-            setRolePermissions([]);
-        }
+        if(result.success) resetRoleForm();
+    };
+
+    const handleRoleBranchChange = (branchId: string, checked: boolean) => {
+        setRoleBranchIds(prev => checked ? [...prev, branchId] : prev.filter(id => id !== branchId));
     };
     
     const handlePermissionChange = (permissionId: string, checked: boolean) => {
@@ -220,6 +710,7 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
         setEditingUser(user);
         setUsername(user.username);
         setUserRoleId(user.roleId);
+        setUserBranchId(user.branchId || '');
         setPassword('');
     };
     
@@ -229,8 +720,8 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
             return;
         }
         const result = await (editingUser
-            ? updateUser({ id: editingUser.id, username, roleId: userRoleId, password: password || undefined })
-            : addUser({ username, password, roleId: userRoleId }));
+            ? updateUser({ id: editingUser.id, username, roleId: userRoleId, branchId: userBranchId, password: password || undefined })
+            : addUser({ username, password, roleId: userRoleId, branchId: userBranchId || undefined }));
 
         showToast(result.message);
         if(result.success) {
@@ -238,6 +729,7 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
             setUsername('');
             setPassword('');
             setUserRoleId('');
+            setUserBranchId('');
         }
     };
     
@@ -260,6 +752,10 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                                 <option value="">-- انتخاب نقش --</option>
                                 {roles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
                             </select>
+                            <select value={userBranchId} onChange={e => setUserBranchId(e.target.value)} className="w-full p-2 border rounded bg-white form-input">
+                                <option value="">-- شعبه اصلی کاربر (اختیاری) --</option>
+                                {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                            </select>
                             <div className="flex gap-2">
                                 <button onClick={handleSaveUser} className="bg-blue-600 text-white px-4 py-2 rounded-lg btn-primary flex-grow">{editingUser ? 'بروزرسانی' : 'افزودن'}</button>
                                 {editingUser && <button onClick={() => setEditingUser(null)} className="bg-gray-200 px-4 py-2 rounded-lg">لغو</button>}
@@ -273,7 +769,10 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                                 <li key={user.id} className="flex justify-between items-center p-3 bg-white/70 rounded-lg border">
                                     <div>
                                         <p className="font-semibold">{user.username}</p>
-                                        <p className="text-sm text-slate-600">{roles.find(r => r.id === user.roleId)?.name}</p>
+                                        <p className="text-sm text-slate-600">
+                                            {roles.find(r => r.id === user.roleId)?.name}
+                                            {user.branchId && ` • ${branches.find(b => b.id === user.branchId)?.name || ''}`}
+                                        </p>
                                     </div>
                                     <div className="flex gap-2">
                                         <button onClick={() => handleEditUser(user)} className="text-sm bg-slate-200 px-3 py-1 rounded-md">ویرایش</button>
@@ -292,6 +791,18 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                         <h4 className="text-lg font-bold mb-4">{editingRole ? 'ویرایش نقش' : 'افزودن نقش جدید'}</h4>
                         <div className="p-4 bg-white/70 rounded-lg border">
                             <input value={roleName} onChange={e => setRoleName(e.target.value)} placeholder="نام نقش" className="w-full p-2 border rounded mb-4 form-input" />
+                            {branches.length > 1 && (
+                                <div className="mb-4">
+                                    <h5 className="font-bold border-b pb-1 mb-2">دسترسی به شعب</h5>
+                                    <p className="text-xs text-slate-500 mb-2">اگر هیچ شعبه‌ای انتخاب نشود، این نقش به همه شعب دسترسی دارد.</p>
+                                    {branches.map(b => (
+                                        <label key={b.id} className="flex items-center gap-2 p-1">
+                                            <input type="checkbox" checked={roleBranchIds.includes(b.id)} onChange={e => handleRoleBranchChange(b.id, e.target.checked)} className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500"/>
+                                            <span>{b.name}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
                             <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
                                 {Object.entries(groupedPermissions).map(([group, permissions]) => (
                                     <div key={group}>
@@ -307,7 +818,7 @@ const UsersAndRolesTab: React.FC<TabProps> = ({ showToast }) => {
                             </div>
                              <div className="flex gap-2 mt-4">
                                 <button onClick={handleSaveRole} className="bg-blue-600 text-white px-4 py-2 rounded-lg btn-primary flex-grow">{editingRole ? 'بروزرسانی' : 'افزودن'}</button>
-                                {editingRole && <button onClick={() => {setEditingRole(null); setRoleName(''); setRolePermissions([]);}} className="bg-gray-200 px-4 py-2 rounded-lg">لغو</button>}
+                                {editingRole && <button onClick={resetRoleForm} className="bg-gray-200 px-4 py-2 rounded-lg">لغو</button>}
                             </div>
                         </div>
                     </div>
@@ -344,8 +855,11 @@ const Settings: React.FC = () => {
 
     const tabs = [
         { id: 'storeDetails', label: 'مشخصات فروشگاه', permission: 'settings:manage_store' },
+        { id: 'branches', label: 'شعب و انبارها', permission: 'settings:manage_branches' },
         { id: 'alerts', label: 'هشدارها', permission: 'settings:manage_alerts' },
         { id: 'services', label: 'خدمات', permission: 'settings:manage_services' },
+        { id: 'promotions', label: 'طرح‌های تخفیف', permission: 'settings:manage_promotions' },
+        { id: 'priceLists', label: 'لیست‌های قیمت', permission: 'settings:manage_price_lists' },
         { id: 'usersAndRoles', label: 'کاربران و نقش‌ها', permission: 'settings:manage_users' },
         { id: 'backup', label: 'پشتیبان‌گیری', permission: 'settings:manage_backup' },
     ];
@@ -355,8 +869,11 @@ const Settings: React.FC = () => {
     const renderContent = () => {
         switch (activeTab) {
             case 'storeDetails': return <StoreDetailsTab showToast={showToast} />;
+            case 'branches': return <BranchesTab showToast={showToast} />;
             case 'alerts': return <AlertsTab showToast={showToast} />;
             case 'services': return <ServicesTab showToast={showToast} />;
+            case 'promotions': return <PromotionsTab showToast={showToast} />;
+            case 'priceLists': return <PriceListsTab showToast={showToast} />;
             case 'backup': return <BackupRestoreTab />;
             case 'usersAndRoles': return <UsersAndRolesTab showToast={showToast} />;
             default: return <StoreDetailsTab showToast={showToast} />;
@@ -0,0 +1,165 @@
+import { createClient } from '@supabase/supabase-js';
+import { randomBytes, scrypt, timingSafeEqual, createHmac } from 'node:crypto';
+import { promisify } from 'node:util';
+
+// Shared helpers for the auth endpoints. Files under "_lib" are not exposed as routes.
+// Required environment variables (Vercel settings):
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, SUPABASE_JWT_SECRET
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_TTL_SECONDS = 12 * 60 * 60; // One working day
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public permission?: string) {
+    super(message);
+  }
+}
+
+// Service role client: bypasses RLS, so it must never leave the server
+export const getServiceClient = () => {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.');
+  return createClient(url, key, { auth: { persistSession: false } });
+};
+
+// --- Passwords ---
+// Stored as "scrypt$<salt>$<hash>" (base64)
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, saltB64, hashB64] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(saltB64, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// Constant-time comparison for legacy plaintext rows
+export const safeEqual = (a: string, b: string): boolean => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+// Looks the user up and checks the password. Legacy plaintext rows are accepted once and
+// replaced with a hash. Returns null for an unknown user or a wrong password.
+export const verifyCredentials = async (username: string, password: string) => {
+  const db = getServiceClient();
+  const { data: user, error } = await db
+    .from('users')
+    .select('id, username, role_id, branch_id, password, password_hash')
+    .eq('username', username)
+    .maybeSingle();
+  if (error) throw error;
+
+  let isValid = false;
+  if (user?.password_hash) {
+    isValid = await verifyPassword(password, user.password_hash);
+  } else if (user?.password) {
+    isValid = safeEqual(password, user.password);
+    if (isValid) {
+      const { error: migrateError } = await db
+        .from('users')
+        .update({ password_hash: await hashPassword(password), password: null })
+        .eq('id', user.id);
+      if (migrateError) console.error('Failed to migrate plaintext password:', migrateError);
+    }
+  }
+
+  return user && isValid ? { id: user.id as string, username: user.username as string, roleId: user.role_id as string, branchId: user.branch_id as string | null } : null;
+};
+
+// --- Session Tokens ---
+// HS256 JWTs signed with the project's JWT secret, so Supabase can verify them as well.
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  roleId: string;
+}
+
+interface SessionPayload {
+  sub: string;
+  username: string;
+  role_id: string;
+  role: 'authenticated';
+  iat: number;
+  exp: number;
+}
+
+const getJwtSecret = () => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error('SUPABASE_JWT_SECRET must be set.');
+  return secret;
+};
+
+const sign = (data: string) => createHmac('sha256', getJwtSecret()).update(data).digest('base64url');
+
+export const signSessionToken = (user: SessionUser): { token: string; expiresAt: string } => {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    sub: user.id,
+    username: user.username,
+    role_id: user.roleId,
+    role: 'authenticated',
+    iat,
+    exp: iat + SESSION_TTL_SECONDS,
+  };
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return {
+    token: `${header}.${body}.${sign(`${header}.${body}`)}`,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+};
+
+export const verifySessionToken = (token: string): SessionUser | null => {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) return null;
+  if (!safeEqual(signature, sign(`${header}.${body}`))) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString()) as SessionPayload;
+    if (payload.exp * 1000 < Date.now()) return null;
+    return { id: payload.sub, username: payload.username, roleId: payload.role_id };
+  } catch {
+    return null;
+  }
+};
+
+// users.role_id references roles, so the join gives the one role (or none)
+interface UserRoleRow {
+  role_id: string | null;
+  roles: { permissions: string[] | null } | null;
+}
+
+// Whether the user's role (as stored now, not as signed) has the permission
+export const userHasPermission = async (userId: string, permission: string): Promise<boolean> => {
+  const db = getServiceClient();
+  const { data: user, error } = await db.from('users').select('role_id, roles(permissions)').eq('id', userId).maybeSingle<UserRoleRow>();
+  if (error) throw error;
+  const permissions = user?.roles?.permissions ?? [];
+  return permissions.includes(permission);
+};
+
+// Reads and verifies the bearer token
+export const requireSession = (req: any): SessionUser => {
+  const header: string = req.headers?.authorization || '';
+  const session = header.startsWith('Bearer ') ? verifySessionToken(header.slice(7)) : null;
+  if (!session) throw new HttpError(401, 'نشست شما منقضی شده است. لطفاً دوباره وارد شوید.');
+  return session;
+};
+
+// ...and checks that the caller's role has the permission
+export const requirePermission = async (req: any, permission: string): Promise<SessionUser> => {
+  const session = requireSession(req);
+  if (!(await userHasPermission(session.id, permission))) throw new HttpError(403, 'شما اجازه انجام این عملیات را ندارید.', permission);
+  return session;
+};
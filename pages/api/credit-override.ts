@@ -0,0 +1,50 @@
+import { getServiceClient, requireSession, verifyCredentials, userHasPermission, HttpError } from './_lib/auth';
+
+const OVERRIDE_PERMISSION = 'pos:override_credit_limit';
+
+// A manager approves one credit sale above a customer's credit limit by entering their own
+// credentials on the cashier's till. The approval is stored for the sale functions to check
+// (see supabase/migrations/20261019180000_credit_limits.sql).
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const cashier = requireSession(req);
+    const { username, password, customerId, amount } = req.body || {};
+
+    if (!username || !password) {
+      return res.status(400).json({ message: 'نام کاربری و رمز عبور مدیر الزامی است.' });
+    }
+    if (!customerId || !(Number(amount) > 0)) {
+      return res.status(400).json({ message: 'مشتری و مبلغ نسیه الزامی است.' });
+    }
+
+    const manager = await verifyCredentials(username, password);
+    if (!manager) {
+      return res.status(401).json({ message: 'نام کاربری یا رمز عبور مدیر اشتباه است.' });
+    }
+    if (!(await userHasPermission(manager.id, OVERRIDE_PERMISSION))) {
+      throw new HttpError(403, 'این کاربر اجازه تأیید فروش بیش از سقف اعتبار را ندارد.', OVERRIDE_PERMISSION);
+    }
+
+    const db = getServiceClient();
+    const { data, error } = await db
+      .from('credit_limit_overrides')
+      .insert({ customer_id: customerId, amount: Number(amount), requested_by: cashier.username, approved_by: manager.username })
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    return res.status(201).json({ id: data.id, approvedBy: manager.username });
+
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message, permission: error.permission });
+    }
+    console.error('Error in credit-override handler:', error);
+    return res.status(500).json({ message: 'An internal server error occurred.' });
+  }
+}
@@ -0,0 +1,33 @@
+import { verifyCredentials, signSessionToken } from './_lib/auth';
+
+// Verifies credentials server-side and returns an expiring signed session token.
+// Password hashes never leave this function.
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { username, password } = req.body || {};
+
+    if (!username || !password) {
+      return res.status(400).json({ message: 'نام کاربری و رمز عبور الزامی است.' });
+    }
+
+    const user = await verifyCredentials(username, password);
+
+    if (!user) {
+      return res.status(401).json({ message: 'نام کاربری یا رمز عبور اشتباه است.' });
+    }
+
+    const sessionUser = { id: user.id, username: user.username, roleId: user.roleId };
+    const { token, expiresAt } = signSessionToken(sessionUser);
+
+    return res.status(200).json({ token, expiresAt, user: { ...sessionUser, branchId: user.branchId || undefined } });
+
+  } catch (error) {
+    console.error('Error in login handler:', error);
+    return res.status(500).json({ message: 'An internal server error occurred.' });
+  }
+}
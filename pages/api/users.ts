@@ -0,0 +1,55 @@
+import { getServiceClient, hashPassword, requirePermission, HttpError } from './_lib/auth';
+
+// Creates (POST) or updates (PATCH) users. Lives on the server because passwords
+// have to be hashed before they are stored.
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST' && req.method !== 'PATCH') {
+    res.setHeader('Allow', ['POST', 'PATCH']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    await requirePermission(req, 'settings:manage_users');
+
+    const { id, username, password, roleId, branchId } = req.body || {};
+    const db = getServiceClient();
+
+    if (req.method === 'POST') {
+      if (!username || !password || !roleId) {
+        return res.status(400).json({ message: 'نام کاربری، رمز عبور و نقش الزامی است.' });
+      }
+      const newId = crypto.randomUUID();
+      const { error } = await db.from('users').insert({
+        id: newId,
+        username,
+        password_hash: await hashPassword(password),
+        role_id: roleId,
+        branch_id: branchId || null,
+      });
+      if (error) throw error;
+      return res.status(201).json({ id: newId, username, roleId, branchId });
+    }
+
+    if (!id) {
+      return res.status(400).json({ message: 'شناسه کاربر الزامی است.' });
+    }
+    const updates: Record<string, unknown> = {};
+    if (username) updates.username = username;
+    if (roleId) updates.role_id = roleId;
+    if (branchId !== undefined) updates.branch_id = branchId || null;
+    if (password) {
+      updates.password_hash = await hashPassword(password);
+      updates.password = null;
+    }
+    const { error } = await db.from('users').update(updates).eq('id', id);
+    if (error) throw error;
+    return res.status(200).json({ id });
+
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message, permission: error.permission });
+    }
+    console.error('Error in users handler:', error);
+    return res.status(500).json({ message: 'An internal server error occurred.' });
+  }
+}
@@ -0,0 +1,65 @@
+import type { AuthSession, User, CreditOverride } from '../types';
+import { PermissionDeniedError } from './errors';
+
+// Talks to our own auth endpoints (pages/api/login.ts, pages/api/users.ts).
+// Password checks and hashing happen on the server only.
+
+const SESSION_KEY = 'stationery_session';
+
+const readSession = (): AuthSession | null => {
+    try {
+        const raw = localStorage.getItem(SESSION_KEY);
+        return raw ? JSON.parse(raw) as AuthSession : null;
+    } catch {
+        return null;
+    }
+};
+
+// The session whose token is still valid. An expired session stays stored until logout, because
+// a till that is offline cannot log in again (see getSessionUser).
+export const getStoredSession = (): AuthSession | null => {
+    const session = readSession();
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null;
+    return session;
+};
+
+// Whoever is signed in on this device, also after the token expired: while offline the expired
+// session stays open read-only, with this user's offline mirror and queued operations.
+export const getSessionUser = (): User | null => readSession()?.user ?? null;
+
+export const storeSession = (session: AuthSession) => {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+export const clearSession = () => {
+    localStorage.removeItem(SESSION_KEY);
+};
+
+const request = async <T>(url: string, method: string, body: unknown, withAuth = true): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const session = getStoredSession();
+    if (withAuth && session) headers.Authorization = `Bearer ${session.token}`;
+
+    const response = await fetch(url, { method, headers, body: JSON.stringify(body) });
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 403) {
+        throw new PermissionDeniedError(data.permission);
+    }
+    if (!response.ok) {
+        throw new Error(data.message || response.statusText);
+    }
+    return data as T;
+};
+
+export const loginRequest = (username: string, password: string) =>
+    request<AuthSession>('/api/login', 'POST', { username, password }, false);
+
+export const createUserRequest = (user: Omit<User, 'id'>) =>
+    request<User>('/api/users', 'POST', user);
+
+export const updateUserRequest = (user: Partial<User> & { id: string }) =>
+    request<{ id: string }>('/api/users', 'PATCH', user);
+
+// A manager's approval for one credit sale above the customer's limit
+export const approveCreditOverrideRequest = (username: string, password: string, customerId: string, amount: number) =>
+    request<CreditOverride>('/api/credit-override', 'POST', { username, password, customerId, amount });
@@ -0,0 +1,26 @@
+import { ALL_PERMISSIONS } from '../utils/permissions';
+
+// Thrown when the server refuses an operation because the user's role lacks a permission
+// (SQLSTATE 42501 from the database triggers/functions, or HTTP 403 from our API endpoints).
+export class PermissionDeniedError extends Error {
+    permission?: string;
+
+    constructor(permission?: string) {
+        super(`permission_denied${permission ? `:${permission}` : ''}`);
+        this.name = 'PermissionDeniedError';
+        this.permission = permission;
+    }
+
+    get permissionName(): string | undefined {
+        return ALL_PERMISSIONS.find(p => p.id === this.permission)?.name;
+    }
+}
+
+// Converts raw Supabase errors into the app's typed errors
+export const toAppError = (error: any): unknown => {
+    if (error?.code === '42501') {
+        // Our checks put the permission id in DETAIL; plain RLS violations have none
+        return new PermissionDeniedError(error.details || undefined);
+    }
+    return error;
+};
@@ -1,9 +1,14 @@
 
 import { supabase } from '../utils/supabaseClient';
+import { withSnapshot, queueOperation, setSyncExecutor, getPendingOperations } from './syncService';
+import { createUserRequest, updateUserRequest } from './authService';
+import { toAppError } from './errors';
+import { DEFAULT_NUMBERING } from '../utils/numbering';
 import type { 
-    Product, ProductBatch, SaleInvoice, PurchaseInvoice, Supplier, Customer, 
-    Employee, Expense, Service, Role, User, StoreSettings, ActivityLog, 
-    CustomerTransaction, SupplierTransaction, PayrollTransaction, InvoiceItem,
+    Product, ProductBatch, SaleInvoice, SaleInvoiceRevision, PaymentLine, PurchaseInvoice, Supplier, Customer, 
+    Employee, Expense, Service, Role, User, StoreSettings, ActivityLog, Branch,
+    StockTransfer, TransferDiscrepancy, Stocktake, StockMovement, CashShift, CashMovement, ParkedCart, Quotation, CustomerOrder, Promotion, PriceList, Voucher, VoucherTransaction,
+    CustomerTransaction, LoyaltyTransaction, SupplierTransaction, PayrollTransaction, InvoiceItem,
     PurchaseInvoiceItem, SaleInvoice as SaleInvoiceType, AppState
 } from '../types';
 
@@ -16,20 +21,53 @@ const mapSettings = (data: any): StoreSettings => ({
     lowStockThreshold: data.low_stock_threshold,
     expiryThresholdMonths: data.expiry_threshold_months,
     currencyName: data.currency_name,
-    currencySymbol: data.currency_symbol
+    currencySymbol: data.currency_symbol,
+    costingMethod: data.costing_method || 'fefo',
+    loyalty: {
+        enabled: !!data.loyalty_enabled,
+        earnMode: data.loyalty_earn_mode || 'per_amount',
+        earnPoints: Number(data.loyalty_earn_points ?? 1),
+        earnAmount: Number(data.loyalty_earn_amount ?? 100),
+        pointValue: Number(data.loyalty_point_value ?? 1)
+    },
+    numbering: {
+        pattern: data.document_number_pattern || DEFAULT_NUMBERING.pattern,
+        fiscalYearStartMonth: Number(data.fiscal_year_start_month || DEFAULT_NUMBERING.fiscalYearStartMonth),
+        prefixes: { ...DEFAULT_NUMBERING.prefixes, ...(data.document_prefixes || {}) }
+    }
 });
 
 const mapRole = (data: any): Role => ({
     id: data.id,
     name: data.name,
-    permissions: data.permissions || []
+    permissions: data.permissions || [],
+    branchIds: data.branch_ids || []
 });
 
+// Password columns are not readable from the browser (see pages/api/login.ts)
 const mapUser = (data: any): User => ({
     id: data.id,
     username: data.username,
-    password: data.password,
-    roleId: data.role_id
+    roleId: data.role_id,
+    branchId: data.branch_id || undefined
+});
+
+const mapBranch = (data: any): Branch => ({
+    id: data.id,
+    name: data.name,
+    code: data.code || '',
+    type: data.type,
+    address: data.address || '',
+    phone: data.phone || ''
+});
+
+const toBranchRow = (branch: Branch) => ({
+    id: branch.id,
+    name: branch.name,
+    code: branch.code || undefined, // The server assigns one to branches from older backups
+    type: branch.type,
+    address: branch.address,
+    phone: branch.phone
 });
 
 const mapProduct = (data: any): Product => ({
@@ -39,13 +77,15 @@ const mapProduct = (data: any): Product => ({
     barcode: data.barcode,
     manufacturer: data.manufacturer,
     itemsPerPackage: Number(data.items_per_package) || 1, // Ensure Number type
+    packagePrice: data.package_price != null ? Number(data.package_price) : undefined,
     batches: data.product_batches?.map((b: any) => ({
         id: b.id,
         lotNumber: b.lot_number,
         stock: b.stock,
         purchasePrice: Number(b.purchase_price),
         purchaseDate: b.purchase_date,
-        expiryDate: b.expiry_date
+        expiryDate: b.expiry_date,
+        branchId: b.branch_id
     })) || []
 });
 
@@ -59,6 +99,25 @@ const mapSaleInvoice = (data: any): SaleInvoice => ({
     timestamp: data.timestamp,
     cashier: data.cashier,
     customerId: data.customer_id,
+    branchId: data.branch_id,
+    payments: (data.payments || []).map((p: any): PaymentLine => ({
+        method: p.method,
+        amount: Number(p.amount),
+        foreignAmount: p.foreign_amount ?? undefined,
+        exchangeRate: p.exchange_rate ?? undefined,
+        provider: p.provider || undefined,
+        reference: p.reference || undefined
+    })),
+    changeAmount: Number(data.change_amount || 0),
+    promotionIds: data.promotion_ids || [],
+    pointsEarned: Number(data.points_earned || 0),
+    pointsRedeemed: Number(data.points_redeemed || 0),
+    exchangeId: data.exchange_id || undefined,
+    documentNumber: data.document_number || undefined,
+    status: data.status || 'active',
+    voidedAt: data.voided_at || undefined,
+    voidedBy: data.voided_by || undefined,
+    voidReason: data.void_reason || undefined,
     items: data.sale_invoice_items?.map((item: any) => ({
         id: item.item_id, // This ID refers to Product or Service ID
         type: item.type,
@@ -68,10 +127,23 @@ const mapSaleInvoice = (data: any): SaleInvoice => ({
         salePrice: Number(item.price), // For products (mapped to same for simplicity in types)
         finalPrice: Number(item.final_price),
         purchasePrice: Number(item.purchase_price), // Mapped for COGS calculation
+        promotionId: item.promotion_id || undefined,
         itemsPerPackage: 1 // Default, populated properly in UI if product exists
     })) || []
 });
 
+// before/after hold the invoice row with its items (see sale_invoice_snapshot)
+const mapSaleInvoiceRevision = (data: any): SaleInvoiceRevision => ({
+    id: data.id,
+    invoiceId: data.invoice_id,
+    action: data.action,
+    reason: data.reason,
+    before: mapSaleInvoice(data.before),
+    after: mapSaleInvoice(data.after),
+    changedAt: data.changed_at,
+    changedBy: data.changed_by
+});
+
 const mapPurchaseInvoice = (data: any): PurchaseInvoice => ({
     id: data.id,
     type: data.type,
@@ -82,6 +154,8 @@ const mapPurchaseInvoice = (data: any): PurchaseInvoice => ({
     timestamp: data.timestamp,
     currency: data.currency || 'AFN',
     exchangeRate: Number(data.exchange_rate || 1),
+    branchId: data.branch_id,
+    documentNumber: data.document_number || undefined,
     items: data.purchase_invoice_items?.map((item: any) => ({
         productId: item.product_id,
         productName: item.product_name,
@@ -92,9 +166,616 @@ const mapPurchaseInvoice = (data: any): PurchaseInvoice => ({
     })) || []
 });
 
-// --- API Methods ---
+// Throws the error of a Supabase response (for writes whose result is not otherwise used)
+const check = <T extends { error: any }>(result: T): T => {
+    if (result.error) throw result.error;
+    return result;
+};
 
-export const api = {
+const mapExpense = (data: any): Expense => ({
+    id: data.id,
+    category: data.category,
+    description: data.description,
+    amount: Number(data.amount),
+    date: data.date,
+    branchId: data.branch_id,
+    shiftId: data.shift_id || undefined
+});
+
+const toExpenseRow = (expense: Expense) => ({
+    id: expense.id,
+    category: expense.category,
+    description: expense.description,
+    amount: expense.amount,
+    date: expense.date,
+    branch_id: expense.branchId,
+    shift_id: expense.shiftId
+});
+
+const toBatchRow = (batch: ProductBatch & { productId: string }) => ({
+    id: batch.id,
+    product_id: batch.productId,
+    lot_number: batch.lotNumber,
+    stock: batch.stock,
+    purchase_price: batch.purchasePrice,
+    purchase_date: batch.purchaseDate,
+    expiry_date: batch.expiryDate,
+    branch_id: batch.branchId
+});
+
+const toPurchaseInvoiceRow = (invoice: PurchaseInvoice) => ({
+    id: invoice.id,
+    type: invoice.type,
+    original_invoice_id: invoice.originalInvoiceId,
+    supplier_id: invoice.supplierId,
+    invoice_number: invoice.invoiceNumber,
+    total_amount: invoice.totalAmount,
+    timestamp: invoice.timestamp,
+    currency: invoice.currency,
+    exchange_rate: invoice.exchangeRate,
+    branch_id: invoice.branchId
+});
+
+const toPurchaseItemRows = (invoice: PurchaseInvoice) => invoice.items.map(item => ({
+    invoice_id: invoice.id,
+    product_id: item.productId,
+    product_name: item.productName,
+    quantity: item.quantity,
+    purchase_price: item.purchasePrice,
+    lot_number: item.lotNumber,
+    expiry_date: item.expiryDate
+}));
+
+const toSupplierTransactionRow = (transaction: SupplierTransaction) => ({
+    id: transaction.id,
+    supplier_id: transaction.supplierId,
+    type: transaction.type,
+    amount: transaction.amount,
+    date: transaction.date,
+    description: transaction.description,
+    invoice_id: transaction.invoiceId,
+    currency: transaction.currency
+});
+
+const mapStockTransfer = (data: any): StockTransfer => ({
+    id: data.id,
+    sourceBranchId: data.source_branch_id,
+    destinationBranchId: data.destination_branch_id,
+    status: data.status,
+    sentAt: data.sent_at,
+    sentBy: data.sent_by,
+    receivedAt: data.received_at || undefined,
+    receivedBy: data.received_by || undefined,
+    notes: data.notes || undefined,
+    items: (data.stock_transfer_items || []).map((item: any) => ({
+        id: item.id,
+        productId: item.product_id,
+        productName: item.product_name,
+        sourceBatchId: item.source_batch_id,
+        lotNumber: item.lot_number,
+        purchasePrice: Number(item.purchase_price),
+        purchaseDate: item.purchase_date,
+        expiryDate: item.expiry_date || undefined,
+        quantity: Number(item.quantity),
+        receivedQuantity: item.received_quantity === null ? undefined : Number(item.received_quantity)
+    }))
+});
+
+const toStockTransferRow = (transfer: StockTransfer) => ({
+    id: transfer.id,
+    source_branch_id: transfer.sourceBranchId,
+    destination_branch_id: transfer.destinationBranchId,
+    status: transfer.status,
+    sent_at: transfer.sentAt,
+    sent_by: transfer.sentBy,
+    received_at: transfer.receivedAt,
+    received_by: transfer.receivedBy,
+    notes: transfer.notes
+});
+
+const toStockTransferItemRows = (transfer: StockTransfer) => transfer.items.map(item => ({
+    id: item.id,
+    transfer_id: transfer.id,
+    product_id: item.productId,
+    product_name: item.productName,
+    source_batch_id: item.sourceBatchId,
+    lot_number: item.lotNumber,
+    purchase_price: item.purchasePrice,
+    purchase_date: item.purchaseDate,
+    expiry_date: item.expiryDate,
+    quantity: item.quantity,
+    received_quantity: item.receivedQuantity
+}));
+
+const mapTransferDiscrepancy = (data: any): TransferDiscrepancy => ({
+    id: data.id,
+    transferId: data.transfer_id,
+    productId: data.product_id,
+    productName: data.product_name,
+    lotNumber: data.lot_number,
+    sentQuantity: Number(data.sent_quantity),
+    receivedQuantity: Number(data.received_quantity),
+    createdAt: data.created_at,
+    reportedBy: data.reported_by
+});
+
+const toTransferDiscrepancyRow = (d: TransferDiscrepancy) => ({
+    id: d.id,
+    transfer_id: d.transferId,
+    product_id: d.productId,
+    product_name: d.productName,
+    lot_number: d.lotNumber,
+    sent_quantity: d.sentQuantity,
+    received_quantity: d.receivedQuantity,
+    created_at: d.createdAt,
+    reported_by: d.reportedBy
+});
+
+const mapStocktake = (data: any): Stocktake => ({
+    id: data.id,
+    branchId: data.branch_id,
+    status: data.status,
+    startedAt: data.started_at,
+    startedBy: data.started_by,
+    postedAt: data.posted_at || undefined,
+    postedBy: data.posted_by || undefined,
+    shrinkageExpenseId: data.shrinkage_expense_id || undefined,
+    lines: (data.stocktake_lines || []).map((line: any) => ({
+        batchId: line.batch_id,
+        productId: line.product_id,
+        productName: line.product_name,
+        lotNumber: line.lot_number,
+        purchasePrice: Number(line.purchase_price),
+        expectedStock: Number(line.expected_stock),
+        countedStock: line.counted_stock === null ? undefined : Number(line.counted_stock)
+    }))
+});
+
+const toStocktakeRow = (stocktake: Stocktake) => ({
+    id: stocktake.id,
+    branch_id: stocktake.branchId,
+    status: stocktake.status,
+    started_at: stocktake.startedAt,
+    started_by: stocktake.startedBy,
+    posted_at: stocktake.postedAt,
+    posted_by: stocktake.postedBy,
+    shrinkage_expense_id: stocktake.shrinkageExpenseId
+});
+
+const toStocktakeLineRows = (stocktake: Stocktake) => stocktake.lines.map(line => ({
+    stocktake_id: stocktake.id,
+    batch_id: line.batchId,
+    product_id: line.productId,
+    product_name: line.productName,
+    lot_number: line.lotNumber,
+    purchase_price: line.purchasePrice,
+    expected_stock: line.expectedStock,
+    counted_stock: line.countedStock ?? null
+}));
+
+const mapStockMovement = (data: any): StockMovement => ({
+    id: data.id,
+    batchId: data.batch_id,
+    productId: data.product_id,
+    branchId: data.branch_id,
+    lotNumber: data.lot_number,
+    delta: Number(data.delta),
+    stockAfter: Number(data.stock_after),
+    unitCost: Number(data.unit_cost),
+    reason: data.reason,
+    refId: data.ref_id || undefined,
+    note: data.note || undefined,
+    user: data.user,
+    timestamp: data.timestamp
+});
+
+const toStockMovementRow = (m: StockMovement) => ({
+    id: m.id,
+    batch_id: m.batchId,
+    product_id: m.productId,
+    branch_id: m.branchId,
+    lot_number: m.lotNumber,
+    delta: m.delta,
+    stock_after: m.stockAfter,
+    unit_cost: m.unitCost,
+    reason: m.reason,
+    ref_id: m.refId,
+    note: m.note,
+    user: m.user,
+    timestamp: m.timestamp
+});
+
+const mapCashShift = (data: any): CashShift => ({
+    id: data.id,
+    branchId: data.branch_id,
+    cashier: data.cashier,
+    status: data.status,
+    openedAt: data.opened_at,
+    openingFloat: Number(data.opening_float),
+    closedAt: data.closed_at || undefined,
+    countedCash: data.counted_cash != null ? Number(data.counted_cash) : undefined,
+    expectedCash: data.expected_cash != null ? Number(data.expected_cash) : undefined,
+    note: data.note || undefined
+});
+
+const toCashShiftRow = (shift: CashShift) => ({
+    id: shift.id,
+    branch_id: shift.branchId,
+    cashier: shift.cashier,
+    status: shift.status,
+    opened_at: shift.openedAt,
+    opening_float: shift.openingFloat,
+    closed_at: shift.closedAt,
+    counted_cash: shift.countedCash,
+    expected_cash: shift.expectedCash,
+    note: shift.note
+});
+
+const mapCashMovement = (data: any): CashMovement => ({
+    id: data.id,
+    shiftId: data.shift_id,
+    branchId: data.branch_id,
+    type: data.type,
+    amount: Number(data.amount),
+    reason: data.reason,
+    note: data.note || undefined,
+    user: data.user,
+    timestamp: data.timestamp,
+    expenseId: data.expense_id || undefined
+});
+
+const toCashMovementRow = (m: CashMovement) => ({
+    id: m.id,
+    shift_id: m.shiftId,
+    branch_id: m.branchId,
+    type: m.type,
+    amount: m.amount,
+    reason: m.reason,
+    note: m.note,
+    user: m.user,
+    timestamp: m.timestamp,
+    expense_id: m.expenseId
+});
+
+const mapPriceList = (data: any): PriceList => ({
+    id: data.id,
+    name: data.name,
+    percentOff: Number(data.percent_off || 0),
+    items: (data.price_list_items || []).map((i: any) => ({
+        productId: i.product_id,
+        unitPrice: i.unit_price != null ? Number(i.unit_price) : undefined,
+        packagePrice: i.package_price != null ? Number(i.package_price) : undefined
+    }))
+});
+
+const toPriceListItemRows = (list: PriceList) => list.items.map(i => ({
+    price_list_id: list.id,
+    product_id: i.productId,
+    unit_price: i.unitPrice ?? null,
+    package_price: i.packagePrice ?? null
+}));
+
+const mapPromotion = (data: any): Promotion => ({
+    id: data.id,
+    name: data.name,
+    type: data.type,
+    active: data.active,
+    productIds: data.product_ids || [],
+    manufacturer: data.manufacturer || undefined,
+    percentOff: data.percent_off != null ? Number(data.percent_off) : undefined,
+    amountOff: data.amount_off != null ? Number(data.amount_off) : undefined,
+    tiers: (data.tiers || []).map((t: any) => ({ minQuantity: Number(t.min_quantity), percentOff: Number(t.percent_off) })),
+    buyQuantity: data.buy_quantity ?? undefined,
+    getQuantity: data.get_quantity ?? undefined,
+    bundlePrice: data.bundle_price != null ? Number(data.bundle_price) : undefined,
+    startDate: data.start_date || undefined,
+    endDate: data.end_date || undefined,
+    // time columns come back as HH:mm:ss
+    startTime: data.start_time ? data.start_time.slice(0, 5) : undefined,
+    endTime: data.end_time ? data.end_time.slice(0, 5) : undefined,
+    daysOfWeek: data.days_of_week || []
+});
+
+const toPromotionRow = (p: Promotion) => ({
+    id: p.id,
+    name: p.name,
+    type: p.type,
+    active: p.active,
+    product_ids: p.productIds,
+    manufacturer: p.manufacturer || null,
+    percent_off: p.percentOff ?? null,
+    amount_off: p.amountOff ?? null,
+    tiers: (p.tiers || []).map(t => ({ min_quantity: t.minQuantity, percent_off: t.percentOff })),
+    buy_quantity: p.buyQuantity ?? null,
+    get_quantity: p.getQuantity ?? null,
+    bundle_price: p.bundlePrice ?? null,
+    start_date: p.startDate || null,
+    end_date: p.endDate || null,
+    start_time: p.startTime || null,
+    end_time: p.endTime || null,
+    days_of_week: p.daysOfWeek || []
+});
+
+const mapQuotation = (data: any): Quotation => ({
+    id: data.id,
+    items: data.items || [],
+    subtotal: Number(data.subtotal),
+    totalDiscount: Number(data.total_discount),
+    totalAmount: Number(data.total_amount),
+    timestamp: data.timestamp,
+    cashier: data.cashier,
+    customerId: data.customer_id || undefined,
+    customerName: data.customer_name || undefined,
+    branchId: data.branch_id,
+    validUntil: data.valid_until,
+    note: data.note || undefined,
+    status: data.status,
+    convertedInvoiceId: data.converted_invoice_id || undefined
+});
+
+const toQuotationRow = (q: Quotation) => ({
+    id: q.id,
+    items: q.items,
+    subtotal: q.subtotal,
+    total_discount: q.totalDiscount,
+    total_amount: q.totalAmount,
+    timestamp: q.timestamp,
+    cashier: q.cashier,
+    customer_id: q.customerId,
+    customer_name: q.customerName,
+    branch_id: q.branchId,
+    valid_until: q.validUntil,
+    note: q.note,
+    status: q.status,
+    converted_invoice_id: q.convertedInvoiceId
+});
+
+const mapCustomerOrder = (data: any): CustomerOrder => ({
+    id: data.id,
+    customerId: data.customer_id,
+    branchId: data.branch_id,
+    items: data.items || [],
+    reservations: (data.customer_order_reservations || []).map((r: any) => ({
+        batchId: r.batch_id,
+        productId: r.product_id,
+        quantity: Number(r.quantity)
+    })),
+    subtotal: Number(data.subtotal),
+    totalDiscount: Number(data.total_discount),
+    totalAmount: Number(data.total_amount),
+    depositPaid: Number(data.deposit_paid),
+    status: data.status,
+    createdAt: data.created_at,
+    cashier: data.cashier,
+    dueDate: data.due_date || undefined,
+    note: data.note || undefined,
+    invoiceId: data.invoice_id || undefined,
+    depositRefunded: !!data.deposit_refunded
+});
+
+const toCustomerOrderRow = (order: CustomerOrder) => ({
+    id: order.id,
+    customer_id: order.customerId,
+    branch_id: order.branchId,
+    items: order.items,
+    subtotal: order.subtotal,
+    total_discount: order.totalDiscount,
+    total_amount: order.totalAmount,
+    deposit_paid: order.depositPaid,
+    status: order.status,
+    created_at: order.createdAt,
+    cashier: order.cashier,
+    due_date: order.dueDate,
+    note: order.note,
+    invoice_id: order.invoiceId,
+    deposit_refunded: order.depositRefunded || false
+});
+
+const toReservationRows = (order: CustomerOrder) => order.reservations.map(r => ({
+    order_id: order.id,
+    batch_id: r.batchId,
+    product_id: r.productId,
+    quantity: r.quantity
+}));
+
+const mapParkedCart = (data: any): ParkedCart => ({
+    id: data.id,
+    branchId: data.branch_id,
+    label: data.label,
+    items: data.items || [],
+    customerId: data.customer_id || undefined,
+    parkedBy: data.parked_by,
+    parkedAt: data.parked_at
+});
+
+const toParkedCartRow = (cart: ParkedCart) => ({
+    id: cart.id,
+    branch_id: cart.branchId,
+    label: cart.label,
+    items: cart.items,
+    customer_id: cart.customerId,
+    parked_by: cart.parkedBy,
+    parked_at: cart.parkedAt
+});
+
+const toActivityRow = (log: ActivityLog) => ({
+    id: log.id,
+    type: log.type,
+    description: log.description,
+    timestamp: log.timestamp,
+    user: log.user,
+    ref_id: log.refId,
+    ref_type: log.refType
+});
+
+// One line per transfer item; batchId is the destination batch the goods are booked into
+export interface TransferReceiptLine {
+    itemId: string;
+    receivedQuantity: number;
+    batchId: string;
+}
+
+// --- Helpers for Sale RPC Parameters (App CamelCase to Database Snake_case) ---
+
+export interface StockDeduction {
+    batchId: string;
+    quantity: number;
+}
+
+const mapCustomer = (data: any): Customer => ({
+    id: data.id,
+    name: data.name,
+    phone: data.phone,
+    creditLimit: data.credit_limit != null ? Number(data.credit_limit) : undefined,
+    balance: Number(data.balance),
+    priceListId: data.price_list_id || undefined,
+    loyaltyPoints: Number(data.loyalty_points || 0)
+});
+
+const mapLoyaltyTransaction = (data: any): LoyaltyTransaction => ({
+    id: data.id,
+    customerId: data.customer_id,
+    type: data.type,
+    points: Number(data.points),
+    date: data.date,
+    invoiceId: data.invoice_id
+});
+
+const mapVoucher = (data: any): Voucher => ({
+    id: data.id,
+    code: data.code,
+    issuedAmount: Number(data.issued_amount),
+    balance: Number(data.balance),
+    expiryDate: data.expiry_date || undefined,
+    source: data.source,
+    invoiceId: data.invoice_id || undefined,
+    customerId: data.customer_id || undefined,
+    branchId: data.branch_id,
+    issuedAt: data.issued_at,
+    issuedBy: data.issued_by,
+    note: data.note || undefined
+});
+
+const toVoucherRow = (v: Voucher) => ({
+    id: v.id,
+    code: v.code,
+    issued_amount: v.issuedAmount,
+    balance: v.balance,
+    expiry_date: v.expiryDate || null,
+    source: v.source,
+    invoice_id: v.invoiceId || null,
+    customer_id: v.customerId || null,
+    branch_id: v.branchId,
+    issued_at: v.issuedAt,
+    issued_by: v.issuedBy,
+    note: v.note || null
+});
+
+const mapVoucherTransaction = (data: any): VoucherTransaction => ({
+    id: data.id,
+    voucherId: data.voucher_id,
+    type: data.type,
+    amount: Number(data.amount),
+    date: data.date,
+    invoiceId: data.invoice_id || undefined
+});
+
+// amount is applied on top of the current balance on the server (positive = customer owes more)
+export interface CustomerBalanceUpdate {
+    id: string;
+    amount: number;
+    transaction: CustomerTransaction;
+    // What a credit sale's customer paid at the till: transaction charges the whole invoice and
+    // this takes the paid part off again, so the balance moves by `amount` only
+    payment?: CustomerTransaction;
+    overrideId?: string; // Manager approval for going over the credit limit
+}
+
+const toSaleInvoiceRow = (invoice: SaleInvoice) => ({
+    id: invoice.id,
+    type: invoice.type,
+    original_invoice_id: invoice.originalInvoiceId,
+    subtotal: invoice.subtotal,
+    total_discount: invoice.totalDiscount,
+    total_amount: invoice.totalAmount,
+    timestamp: invoice.timestamp,
+    cashier: invoice.cashier,
+    customer_id: invoice.customerId,
+    branch_id: invoice.branchId,
+    payments: (invoice.payments || []).map(p => ({
+        method: p.method,
+        amount: p.amount,
+        foreign_amount: p.foreignAmount,
+        exchange_rate: p.exchangeRate,
+        provider: p.provider,
+        reference: p.reference
+    })),
+    change_amount: invoice.changeAmount || 0,
+    promotion_ids: invoice.promotionIds || [],
+    points_earned: invoice.pointsEarned || 0,
+    points_redeemed: invoice.pointsRedeemed || 0,
+    exchange_id: invoice.exchangeId || null,
+    document_number: invoice.documentNumber || null // The server numbers the invoice when this is empty
+});
+
+const toSaleItemRows = (invoice: SaleInvoice) => invoice.items.map(item => ({
+    invoice_id: invoice.id,
+    item_id: item.id,
+    type: item.type,
+    name: item.name,
+    quantity: item.quantity,
+    price: (item.type === 'product' ? (item as any).salePrice : (item as any).price),
+    final_price: (item.type === 'product' && (item as any).finalPrice !== undefined) ? (item as any).finalPrice : (item as any).salePrice,
+    purchase_price: (item.type === 'product' ? (item as any).purchasePrice : 0), // Track COGS
+    promotion_id: item.type === 'product' ? item.promotionId : undefined
+}));
+
+// A revision's copy of an invoice, in the shape sale_invoice_snapshot stores
+const toSaleInvoiceSnapshot = (invoice: SaleInvoice) => ({
+    ...toSaleInvoiceRow(invoice),
+    status: invoice.status || 'active',
+    voided_at: invoice.voidedAt || null,
+    voided_by: invoice.voidedBy || null,
+    void_reason: invoice.voidReason || null,
+    sale_invoice_items: toSaleItemRows(invoice)
+});
+
+const toCustomerTransactionRow = (t: CustomerTransaction) => ({
+    id: t.id,
+    customer_id: t.customerId,
+    type: t.type,
+    amount: t.amount,
+    date: t.date,
+    description: t.description,
+    invoice_id: t.invoiceId,
+    shift_id: t.shiftId,
+    order_id: t.orderId
+});
+
+const toCustomerUpdateParam = (update?: CustomerBalanceUpdate) => update ? {
+    id: update.id,
+    amount: update.amount,
+    transaction: toCustomerTransactionRow(update.transaction),
+    payment: update.payment ? toCustomerTransactionRow(update.payment) : null,
+    override_id: update.overrideId
+} : null;
+
+// Re-throws database errors as the app's typed errors (e.g. PermissionDeniedError)
+const withTypedErrors = <T extends Record<string, (...args: any[]) => Promise<any>>>(methods: T): T =>
+    Object.fromEntries(Object.entries(methods).map(([name, method]) => [
+        name,
+        async (...args: any[]) => {
+            try {
+                return await method(...args);
+            } catch (error) {
+                throw toAppError(error);
+            }
+        }
+    ])) as T;
+
+// --- API Methods (direct Supabase access) ---
+
+const remoteApi = withTypedErrors({
     // --- Settings ---
     getSettings: async () => {
         const { data, error } = await supabase.from('store_settings').select('*').single();
@@ -109,14 +790,23 @@ export const api = {
             low_stock_threshold: settings.lowStockThreshold,
             expiry_threshold_months: settings.expiryThresholdMonths,
             currency_name: settings.currencyName,
-            currency_symbol: settings.currencySymbol
+            currency_symbol: settings.currencySymbol,
+            costing_method: settings.costingMethod,
+            loyalty_enabled: settings.loyalty.enabled,
+            loyalty_earn_mode: settings.loyalty.earnMode,
+            loyalty_earn_points: settings.loyalty.earnPoints,
+            loyalty_earn_amount: settings.loyalty.earnAmount,
+            loyalty_point_value: settings.loyalty.pointValue,
+            document_number_pattern: settings.numbering.pattern,
+            fiscal_year_start_month: settings.numbering.fiscalYearStartMonth,
+            document_prefixes: settings.numbering.prefixes
         }).eq('id', 1);
         if (error) throw error;
     },
 
     // --- Auth & Users ---
     getUsers: async () => {
-        const { data, error } = await supabase.from('users').select('*');
+        const { data, error } = await supabase.from('users').select('id, username, role_id, branch_id');
         if (error) throw error;
         return data.map(mapUser);
     },
@@ -125,24 +815,13 @@ export const api = {
         if (error) throw error;
         return data.map(mapRole);
     },
-    addUser: async (user: Omit<User, 'id'>) => {
-        const newId = crypto.randomUUID();
-        const { error } = await supabase.from('users').insert({
-            id: newId,
-            username: user.username,
-            password: user.password,
-            role_id: user.roleId
-        });
-        if (error) throw error;
-        return { ...user, id: newId };
+    // Users are written through /api/users so passwords get hashed on the server
+    addUser: async (user: Omit<User, 'id'>): Promise<User> => {
+        const created = await createUserRequest(user);
+        return { id: created.id, username: created.username, roleId: created.roleId, branchId: created.branchId };
     },
     updateUser: async (user: Partial<User> & { id: string }) => {
-        const updates: any = {};
-        if (user.username) updates.username = user.username;
-        if (user.password) updates.password = user.password;
-        if (user.roleId) updates.role_id = user.roleId;
-        const { error } = await supabase.from('users').update(updates).eq('id', user.id);
-        if (error) throw error;
+        await updateUserRequest(user);
     },
     deleteUser: async (id: string) => {
         const { error } = await supabase.from('users').delete().eq('id', id);
@@ -153,7 +832,8 @@ export const api = {
         const { error } = await supabase.from('roles').insert({
             id: newId,
             name: role.name,
-            permissions: role.permissions
+            permissions: role.permissions,
+            branch_ids: role.branchIds
         });
         if (error) throw error;
         return { ...role, id: newId };
@@ -161,7 +841,8 @@ export const api = {
     updateRole: async (role: Role) => {
         const { error } = await supabase.from('roles').update({
             name: role.name,
-            permissions: role.permissions
+            permissions: role.permissions,
+            branch_ids: role.branchIds
         }).eq('id', role.id);
         if (error) throw error;
     },
@@ -170,6 +851,24 @@ export const api = {
         if (error) throw error;
     },
 
+    // --- Branches ---
+    getBranches: async () => {
+        const { data, error } = await supabase.from('branches').select('*').order('name');
+        if (error) throw error;
+        return data.map(mapBranch);
+    },
+    addBranch: async (branch: Omit<Branch, 'id'>) => {
+        const newBranch = { ...branch, id: crypto.randomUUID() };
+        check(await supabase.from('branches').insert(toBranchRow(newBranch)));
+        return newBranch;
+    },
+    updateBranch: async (branch: Branch) => {
+        check(await supabase.from('branches').update(toBranchRow(branch)).eq('id', branch.id));
+    },
+    deleteBranch: async (id: string) => {
+        check(await supabase.from('branches').delete().eq('id', id));
+    },
+
     // --- Inventory ---
     getProducts: async () => {
         const { data, error } = await supabase
@@ -189,20 +888,13 @@ export const api = {
             sale_price: product.salePrice,
             barcode: product.barcode,
             manufacturer: product.manufacturer,
-            items_per_package: product.itemsPerPackage
+            items_per_package: product.itemsPerPackage,
+            package_price: product.packagePrice ?? null
         });
         if (pError) throw pError;
 
         // 2. Insert First Batch
-        const { error: bError } = await supabase.from('product_batches').insert({
-            id: batchId,
-            product_id: productId,
-            lot_number: firstBatch.lotNumber,
-            stock: firstBatch.stock,
-            purchase_price: firstBatch.purchasePrice,
-            purchase_date: firstBatch.purchaseDate,
-            expiry_date: firstBatch.expiryDate
-        });
+        const { error: bError } = await supabase.from('product_batches').insert(toBatchRow({ ...firstBatch, id: batchId, productId }));
         if (bError) throw bError;
 
         return { ...product, id: productId, batches: [{...firstBatch, id: batchId}] };
@@ -213,7 +905,8 @@ export const api = {
             sale_price: product.salePrice,
             barcode: product.barcode,
             manufacturer: product.manufacturer,
-            items_per_package: product.itemsPerPackage
+            items_per_package: product.itemsPerPackage,
+            package_price: product.packagePrice ?? null
         }).eq('id', product.id);
         if (error) throw error;
     },
@@ -239,6 +932,41 @@ export const api = {
         if (error) throw error;
     },
 
+    // --- Price Lists ---
+    getPriceLists: async () => {
+        const { data, error } = await supabase.from('price_lists').select('*, price_list_items(*)').order('name');
+        if (error) throw error;
+        return data.map(mapPriceList);
+    },
+    // Creates the list or replaces it with all of its prices in one transaction
+    savePriceList: async (list: PriceList) => {
+        check(await supabase.rpc('save_price_list', {
+            p_list: { id: list.id, name: list.name, percent_off: list.percentOff },
+            p_items: toPriceListItemRows(list)
+        }));
+    },
+    deletePriceList: async (id: string) => {
+        check(await supabase.from('price_lists').delete().eq('id', id));
+    },
+
+    // --- Promotions ---
+    getPromotions: async () => {
+        const { data, error } = await supabase.from('promotions').select('*').order('name');
+        if (error) throw error;
+        return data.map(mapPromotion);
+    },
+    addPromotion: async (promotion: Omit<Promotion, 'id'>) => {
+        const newPromotion = { ...promotion, id: crypto.randomUUID() };
+        check(await supabase.from('promotions').insert(toPromotionRow(newPromotion)));
+        return newPromotion;
+    },
+    updatePromotion: async (promotion: Promotion) => {
+        check(await supabase.from('promotions').update(toPromotionRow(promotion)).eq('id', promotion.id));
+    },
+    deletePromotion: async (id: string) => {
+        check(await supabase.from('promotions').delete().eq('id', id));
+    },
+
     // --- Customers, Suppliers, Employees, Expenses ---
     getEntities: async () => {
         const [cust, supp, emp, exp] = await Promise.all([
@@ -254,32 +982,41 @@ export const api = {
         if (exp.error) throw exp.error;
 
         return {
-            customers: cust.data.map(c => ({...c, balance: Number(c.balance)})),
+            customers: cust.data.map(mapCustomer),
             suppliers: supp.data.map(s => ({...s, balance: Number(s.balance)})),
             employees: emp.data.map(e => ({...e, monthlySalary: Number(e.monthly_salary), balance: Number(e.balance)})),
-            expenses: exp.data.map(e => ({...e, amount: Number(e.amount)})),
+            expenses: exp.data.map(mapExpense),
         };
     },
-    addCustomer: async (c: any) => { const id = crypto.randomUUID(); await supabase.from('customers').insert({id, ...c}); return {...c, id, balance: 0}; },
+    addCustomer: async (c: any) => { const id = crypto.randomUUID(); check(await supabase.from('customers').insert({id, name: c.name, phone: c.phone, credit_limit: c.creditLimit ?? null, price_list_id: c.priceListId || null})); return {...c, id, balance: 0, loyaltyPoints: 0}; },
+    updateCustomerCreditLimit: async (id: string, creditLimit?: number) => { check(await supabase.from('customers').update({ credit_limit: creditLimit ?? null }).eq('id', id)); },
+    updateCustomerPriceList: async (id: string, priceListId?: string) => { check(await supabase.from('customers').update({ price_list_id: priceListId || null }).eq('id', id)); },
     deleteCustomer: async (id: string) => { const { error } = await supabase.from('customers').delete().eq('id', id); if (error) throw error; },
     
-    addSupplier: async (s: any) => { const id = crypto.randomUUID(); await supabase.from('suppliers').insert({id, name: s.name, contact_person: s.contactPerson, phone: s.phone}); return {...s, id, balance: 0}; },
+    addSupplier: async (s: any) => { const id = crypto.randomUUID(); check(await supabase.from('suppliers').insert({id, name: s.name, contact_person: s.contactPerson, phone: s.phone})); return {...s, id, balance: 0}; },
     deleteSupplier: async (id: string) => { const { error } = await supabase.from('suppliers').delete().eq('id', id); if (error) throw error; },
 
-    addEmployee: async (e: any) => { const id = crypto.randomUUID(); await supabase.from('employees').insert({id, name: e.name, position: e.position, monthly_salary: e.monthlySalary}); return {...e, id, balance: 0}; },
-    addExpense: async (e: any) => { const id = crypto.randomUUID(); await supabase.from('expenses').insert({id, ...e}); return {...e, id}; },
+    addEmployee: async (e: any) => { const id = crypto.randomUUID(); check(await supabase.from('employees').insert({id, name: e.name, position: e.position, monthly_salary: e.monthlySalary})); return {...e, id, balance: 0}; },
+    addExpense: async (e: Omit<Expense, 'id'>) => { const expense = { ...e, id: crypto.randomUUID() }; check(await supabase.from('expenses').insert(toExpenseRow(expense))); return expense; },
 
     // --- Transactions ---
     getTransactions: async () => {
-        const [cust, supp, pay] = await Promise.all([
+        const [cust, supp, pay, loyalty] = await Promise.all([
             supabase.from('customer_transactions').select('*'),
             supabase.from('supplier_transactions').select('*'),
-            supabase.from('payroll_transactions').select('*')
+            supabase.from('payroll_transactions').select('*'),
+            supabase.from('loyalty_transactions').select('*').order('date', { ascending: false })
         ]);
+        if (cust.error) throw cust.error;
+        if (supp.error) throw supp.error;
+        if (pay.error) throw pay.error;
+        if (loyalty.error) throw loyalty.error;
+
         return {
-            customerTransactions: cust.data?.map((t:any) => ({...t, customerId: t.customer_id, invoiceId: t.invoice_id, amount: Number(t.amount)})) || [],
+            customerTransactions: cust.data?.map((t:any) => ({...t, customerId: t.customer_id, invoiceId: t.invoice_id, shiftId: t.shift_id || undefined, orderId: t.order_id || undefined, reversesTransactionId: t.reverses_transaction_id || undefined, amount: Number(t.amount)})) || [],
             supplierTransactions: supp.data?.map((t:any) => ({...t, supplierId: t.supplier_id, invoiceId: t.invoice_id, amount: Number(t.amount), currency: t.currency || 'AFN'})) || [],
-            payrollTransactions: pay.data?.map((t:any) => ({...t, employeeId: t.employee_id, amount: Number(t.amount)})) || []
+            payrollTransactions: pay.data?.map((t:any) => ({...t, employeeId: t.employee_id, amount: Number(t.amount)})) || [],
+            loyaltyTransactions: loyalty.data?.map(mapLoyaltyTransaction) || []
         };
     },
 
@@ -298,135 +1035,135 @@ export const api = {
             purchaseInvoices: purchases.data.map(mapPurchaseInvoice)
         };
     },
+    getSaleInvoiceRevisions: async () => {
+        const { data, error } = await supabase.from('sale_invoice_revisions').select('*').order('changed_at', { ascending: false });
+        if (error) throw error;
+        return data.map(mapSaleInvoiceRevision);
+    },
+    // The numbers the server gave invoices as they were saved
+    getDocumentNumbers: async (table: 'sale_invoices' | 'purchase_invoices', ids: string[]) => {
+        const { data, error } = await supabase.from(table).select('id, document_number').in('id', ids);
+        if (error) throw error;
+        return new Map<string, string>(data.map((row: any) => [String(row.id), row.document_number]));
+    },
+    getTransfers: async () => {
+        const [transfers, discrepancies] = await Promise.all([
+            supabase.from('stock_transfers').select('*, stock_transfer_items(*)').order('sent_at', { ascending: false }),
+            supabase.from('transfer_discrepancies').select('*').order('created_at', { ascending: false })
+        ]);
+
+        if (transfers.error) throw transfers.error;
+        if (discrepancies.error) throw discrepancies.error;
+
+        return {
+            stockTransfers: transfers.data.map(mapStockTransfer),
+            transferDiscrepancies: discrepancies.data.map(mapTransferDiscrepancy)
+        };
+    },
+    getStocktakes: async () => {
+        const { data, error } = await supabase.from('stocktakes').select('*, stocktake_lines(*)').order('posted_at', { ascending: false });
+        if (error) throw error;
+        return data.map(mapStocktake);
+    },
+    getStockMovements: async () => {
+        const { data, error } = await supabase.from('stock_movements').select('*').order('timestamp', { ascending: false });
+        if (error) throw error;
+        return data.map(mapStockMovement);
+    },
+    getCashShifts: async () => {
+        const { data, error } = await supabase.from('cash_shifts').select('*').order('opened_at', { ascending: false });
+        if (error) throw error;
+        return data.map(mapCashShift);
+    },
+    getCashMovements: async () => {
+        const { data, error } = await supabase.from('cash_movements').select('*').order('timestamp', { ascending: false });
+        if (error) throw error;
+        return data.map(mapCashMovement);
+    },
+    getCustomerOrders: async () => {
+        const { data, error } = await supabase.from('customer_orders').select('*, customer_order_reservations(*)').order('created_at', { ascending: false });
+        if (error) throw error;
+        return data.map(mapCustomerOrder);
+    },
+    getVouchers: async () => {
+        const [vouchers, transactions] = await Promise.all([
+            supabase.from('vouchers').select('*').order('issued_at', { ascending: false }),
+            supabase.from('voucher_transactions').select('*').order('date', { ascending: false })
+        ]);
+        if (vouchers.error) throw vouchers.error;
+        if (transactions.error) throw transactions.error;
+        return {
+            vouchers: vouchers.data.map(mapVoucher),
+            voucherTransactions: transactions.data.map(mapVoucherTransaction)
+        };
+    },
+    getQuotations: async () => {
+        const { data, error } = await supabase.from('quotations').select('*').order('timestamp', { ascending: false });
+        if (error) throw error;
+        return data.map(mapQuotation);
+    },
+    getParkedCarts: async () => {
+        const { data, error } = await supabase.from('parked_carts').select('*').order('parked_at', { ascending: false });
+        if (error) throw error;
+        return data.map(mapParkedCart);
+    },
     getActivities: async () => {
-        const { data } = await supabase.from('activity_logs').select('*').order('timestamp', { ascending: false }).limit(100);
+        const { data, error } = await supabase.from('activity_logs').select('*').order('timestamp', { ascending: false }).limit(100);
+        if (error) throw error;
         return data?.map((a: any) => ({...a, refId: a.ref_id, refType: a.ref_type})) || [];
     },
     addActivity: async (log: ActivityLog) => {
-        await supabase.from('activity_logs').insert({
-            id: log.id,
-            type: log.type,
-            description: log.description,
-            timestamp: log.timestamp,
-            user: log.user,
-            ref_id: log.refId,
-            ref_type: log.refType
-        });
+        const { error } = await supabase.from('activity_logs').insert(toActivityRow(log));
+        if (error) throw error;
     },
 
     // --- Complex Operations (Sales & Purchases) ---
-    createSale: async (invoice: SaleInvoice, stockUpdates: {batchId: string, newStock: number}[], customerUpdate?: {id: string, newBalance: number, transaction: CustomerTransaction}) => {
-        // 1. Invoice Header
-        const { error: iError } = await supabase.from('sale_invoices').insert({
-            id: invoice.id,
-            type: invoice.type,
-            original_invoice_id: invoice.originalInvoiceId,
-            subtotal: invoice.subtotal,
-            total_discount: invoice.totalDiscount,
-            total_amount: invoice.totalAmount,
-            timestamp: invoice.timestamp,
-            cashier: invoice.cashier,
-            customer_id: invoice.customerId
+    // Sales, edits and returns run as single Postgres functions (see supabase/migrations),
+    // so a failure at any step rolls back the whole operation.
+    // A collected customer order (orderId) is closed in the same transaction
+    createSale: async (invoice: SaleInvoice, stockDeductions: StockDeduction[], customerUpdate?: CustomerBalanceUpdate, orderId?: string) => {
+        const { error } = await supabase.rpc('create_sale', {
+            p_invoice: toSaleInvoiceRow(invoice),
+            p_items: toSaleItemRows(invoice),
+            p_deductions: stockDeductions.map(d => ({ batch_id: d.batchId, quantity: d.quantity })),
+            p_customer: toCustomerUpdateParam(customerUpdate),
+            p_order_id: orderId || null
         });
-        if (iError) throw iError;
-
-        // 2. Invoice Items
-        const itemsData = invoice.items.map(item => ({
-            invoice_id: invoice.id,
-            item_id: item.id,
-            type: item.type,
-            name: item.name,
-            quantity: item.quantity,
-            price: (item.type === 'product' ? (item as any).salePrice : (item as any).price),
-            final_price: (item.type === 'product' && (item as any).finalPrice !== undefined) ? (item as any).finalPrice : (item as any).salePrice,
-            purchase_price: (item.type === 'product' ? (item as any).purchasePrice : 0) // Track COGS
-        }));
-        const { error: itemError } = await supabase.from('sale_invoice_items').insert(itemsData);
-        if (itemError) throw itemError;
-
-        // 3. Update Stock
-        for (const update of stockUpdates) {
-            await supabase.from('product_batches').update({ stock: update.newStock }).eq('id', update.batchId);
-        }
-
-        // 4. Update Customer
-        if (customerUpdate) {
-            await supabase.from('customers').update({ balance: customerUpdate.newBalance }).eq('id', customerUpdate.id);
-            await supabase.from('customer_transactions').insert({
-                id: customerUpdate.transaction.id,
-                customer_id: customerUpdate.transaction.customerId,
-                type: customerUpdate.transaction.type,
-                amount: customerUpdate.transaction.amount,
-                date: customerUpdate.transaction.date,
-                description: customerUpdate.transaction.description,
-                invoice_id: customerUpdate.transaction.invoiceId
-            });
-        }
+        if (error) throw error;
     },
 
     // --- UPDATE SALE (EDIT) ---
+    // The server reverses the old credit_sale transaction itself, so only the new one is sent.
+    // It keeps the invoice as it was in a revision with the reason.
     updateSale: async (
         invoiceId: string, 
         newInvoiceData: SaleInvoice, 
         stockRestores: {productId: string, quantity: number}[], 
-        stockDeductions: {batchId: string, quantity: number}[], 
-        customerUpdate?: {id: string, oldAmount: number, newAmount: number, transactionDescription: string}
+        stockDeductions: StockDeduction[], 
+        customerUpdate: CustomerBalanceUpdate | undefined,
+        reason: string
     ) => {
-        // 1. Restore Stock (Revert)
-        for (const restore of stockRestores) {
-            const { data: batches } = await supabase.from('product_batches').select('*').eq('product_id', restore.productId).limit(1);
-            if (batches && batches.length > 0) {
-                const batch = batches[0];
-                await supabase.from('product_batches').update({ stock: batch.stock + restore.quantity }).eq('id', batch.id);
-            }
-        }
-
-        // 2. Deduct Stock (Apply new)
-        for (const deduct of stockDeductions) {
-             // Fetch latest to ensure no race condition on negative stock
-            const { data: batch } = await supabase.from('product_batches').select('stock').eq('id', deduct.batchId).single();
-            if (batch) {
-                await supabase.from('product_batches').update({ stock: batch.stock - deduct.quantity }).eq('id', deduct.batchId);
-            }
-        }
+        const { error } = await supabase.rpc('update_sale', {
+            p_invoice_id: invoiceId,
+            p_invoice: toSaleInvoiceRow(newInvoiceData),
+            p_items: toSaleItemRows(newInvoiceData),
+            p_restores: stockRestores.map(r => ({ product_id: r.productId, quantity: r.quantity })),
+            p_deductions: stockDeductions.map(d => ({ batch_id: d.batchId, quantity: d.quantity })),
+            p_customer: toCustomerUpdateParam(customerUpdate),
+            p_reason: reason
+        });
+        if (error) throw error;
+    },
 
-        // 3. Update Invoice Header
-        const { error: headerError } = await supabase.from('sale_invoices').update({
-            subtotal: newInvoiceData.subtotal,
-            total_discount: newInvoiceData.totalDiscount,
-            total_amount: newInvoiceData.totalAmount,
-            customer_id: newInvoiceData.customerId
-        }).eq('id', invoiceId);
-        if (headerError) throw headerError;
-
-        // 4. Update Items (Delete old, insert new)
-        await supabase.from('sale_invoice_items').delete().eq('invoice_id', invoiceId);
-        const itemsData = newInvoiceData.items.map(item => ({
-            invoice_id: invoiceId,
-            item_id: item.id,
-            type: item.type,
-            name: item.name,
-            quantity: item.quantity,
-            price: (item.type === 'product' ? (item as any).salePrice : (item as any).price),
-            final_price: (item.type === 'product' && (item as any).finalPrice !== undefined) ? (item as any).finalPrice : (item as any).salePrice,
-            purchase_price: (item.type === 'product' ? (item as any).purchasePrice : 0) // Track COGS
-        }));
-        await supabase.from('sale_invoice_items').insert(itemsData);
-
-        // 5. Update Customer
-        if (customerUpdate) {
-            const { data: customer } = await supabase.from('customers').select('balance').eq('id', customerUpdate.id).single();
-            if (customer) {
-                const newBalance = customer.balance - customerUpdate.oldAmount + customerUpdate.newAmount;
-                await supabase.from('customers').update({ balance: newBalance }).eq('id', customerUpdate.id);
-                
-                // Update existing transaction
-                await supabase.from('customer_transactions')
-                    .update({ amount: customerUpdate.newAmount, description: customerUpdate.transactionDescription })
-                    .eq('invoice_id', invoiceId)
-                    .eq('type', 'credit_sale');
-            }
-        }
+    // The server puts the stock back and reverses the credit, points and vouchers of the sale;
+    // `movement` pays its cash back out of the open shift
+    voidSale: async (invoiceId: string, reason: string, movement?: CashMovement) => {
+        const { error } = await supabase.rpc('void_sale', {
+            p_invoice_id: invoiceId,
+            p_reason: reason,
+            p_movement: movement ? toCashMovementRow(movement) : null
+        });
+        if (error) throw error;
     },
 
     updateSaleInvoiceMetadata: async (invoiceId: string, updates: { original_invoice_id?: string | null }) => {
@@ -434,230 +1171,194 @@ export const api = {
         if (error) throw error;
     },
 
-    createSaleReturn: async (returnInvoice: SaleInvoice, stockRestores: {productId: string, quantity: number}[], customerRefund?: {id: string, amount: number}) => {
-         const { error: iError } = await supabase.from('sale_invoices').insert({
-            id: returnInvoice.id,
-            type: 'return',
-            original_invoice_id: returnInvoice.originalInvoiceId,
-            subtotal: returnInvoice.subtotal,
-            total_discount: returnInvoice.totalDiscount,
-            total_amount: returnInvoice.totalAmount,
-            timestamp: returnInvoice.timestamp,
-            cashier: returnInvoice.cashier,
-            customer_id: returnInvoice.customerId
+    createSaleReturn: async (returnInvoice: SaleInvoice, stockRestores: {productId: string, quantity: number}[], customerRefund?: CustomerBalanceUpdate) => {
+        const { error } = await supabase.rpc('create_sale_return', {
+            p_invoice: toSaleInvoiceRow(returnInvoice),
+            p_items: toSaleItemRows(returnInvoice).map(item => ({ ...item, final_price: 0 })),
+            p_restores: stockRestores.map(r => ({ product_id: r.productId, quantity: r.quantity })),
+            // Refunds reduce what the customer owes
+            p_customer: toCustomerUpdateParam(customerRefund && { ...customerRefund, amount: -customerRefund.amount })
         });
-        if (iError) throw iError;
-
-        const itemsData = returnInvoice.items.map(item => ({
-            invoice_id: returnInvoice.id,
-            item_id: item.id,
-            type: item.type,
-            name: item.name,
-            quantity: item.quantity,
-            price: (item.type === 'product' ? (item as any).salePrice : (item as any).price),
-            final_price: 0,
-            purchase_price: (item.type === 'product' ? (item as any).purchasePrice : 0) // Track COGS for reversal
-        }));
-        await supabase.from('sale_invoice_items').insert(itemsData);
+        if (error) throw error;
+    },
 
-        for (const restore of stockRestores) {
-             const { data: batches } = await supabase.from('product_batches').select('*').eq('product_id', restore.productId).limit(1);
-             if (batches && batches.length > 0) {
-                 const batch = batches[0];
-                 await supabase.from('product_batches').update({ stock: batch.stock + restore.quantity }).eq('id', batch.id);
-             }
-        }
+    // An exchange writes its return and its sale in one transaction: the goods come back and
+    // the new ones go out together, and the return's credit pays for the sale ("exchange" tender)
+    createExchange: async (
+        returnInvoice: SaleInvoice,
+        stockRestores: {productId: string, quantity: number}[],
+        customerRefund: CustomerBalanceUpdate | undefined,
+        saleInvoice: SaleInvoice,
+        stockDeductions: StockDeduction[],
+        customerUpdate?: CustomerBalanceUpdate
+    ) => {
+        const { error } = await supabase.rpc('create_exchange', {
+            p_return: toSaleInvoiceRow(returnInvoice),
+            p_return_items: toSaleItemRows(returnInvoice).map(item => ({ ...item, final_price: 0 })),
+            p_restores: stockRestores.map(r => ({ product_id: r.productId, quantity: r.quantity })),
+            p_return_customer: toCustomerUpdateParam(customerRefund && { ...customerRefund, amount: -customerRefund.amount }),
+            p_sale: toSaleInvoiceRow(saleInvoice),
+            p_sale_items: toSaleItemRows(saleInvoice),
+            p_deductions: stockDeductions.map(d => ({ batch_id: d.batchId, quantity: d.quantity })),
+            p_sale_customer: toCustomerUpdateParam(customerUpdate)
+        });
+        if (error) throw error;
+    },
 
-        if (customerRefund) {
-             const { data: customer } = await supabase.from('customers').select('balance').eq('id', customerRefund.id).single();
-             if (customer) {
-                 const newBalance = customer.balance - customerRefund.amount;
-                 await supabase.from('customers').update({ balance: newBalance }).eq('id', customerRefund.id);
+    // --- Stock Transfers ---
+    // Both steps are Postgres functions as well: stock leaves the source when the transfer is
+    // sent and arrives at the destination (with any shortage recorded) when it is received.
+    sendStockTransfer: async (transfer: StockTransfer) => {
+        const { error } = await supabase.rpc('send_stock_transfer', {
+            p_transfer: toStockTransferRow(transfer),
+            p_items: toStockTransferItemRows(transfer)
+        });
+        if (error) throw error;
+    },
 
-                 await supabase.from('customer_transactions').insert({
-                     id: crypto.randomUUID(),
-                     customer_id: customerRefund.id,
-                     type: 'sale_return',
-                     amount: customerRefund.amount,
-                     date: new Date().toISOString(),
-                     description: `مرجوعی فاکتور #${returnInvoice.originalInvoiceId}`,
-                     invoice_id: returnInvoice.id
-                 });
-             }
-        }
+    receiveStockTransfer: async (transferId: string, receipt: TransferReceiptLine[], receivedAt: string, receivedBy: string) => {
+        const { error } = await supabase.rpc('receive_stock_transfer', {
+            p_transfer_id: transferId,
+            p_receipt: receipt.map(r => ({ item_id: r.itemId, received_quantity: r.receivedQuantity, batch_id: r.batchId })),
+            p_received_at: receivedAt,
+            p_received_by: receivedBy
+        });
+        if (error) throw error;
     },
 
-    createPurchase: async (invoice: PurchaseInvoice, supplierUpdate: {id: string, newBalance: number, transaction: SupplierTransaction}, newBatches: any[]) => {
-        const { error: iError } = await supabase.from('purchase_invoices').insert({
-            id: invoice.id,
-            type: invoice.type,
-            original_invoice_id: invoice.originalInvoiceId,
-            supplier_id: invoice.supplierId,
-            invoice_number: invoice.invoiceNumber,
-            total_amount: invoice.totalAmount,
-            timestamp: invoice.timestamp,
-            currency: invoice.currency,
-            exchange_rate: invoice.exchangeRate
+    // --- Stocktake ---
+    // Stock variances, the shrinkage expense and the activity log are written in one transaction
+    postStocktake: async (stocktake: Stocktake, shrinkageExpense: Expense | undefined, activities: ActivityLog[]) => {
+        const { error } = await supabase.rpc('post_stocktake', {
+            p_stocktake: toStocktakeRow(stocktake),
+            p_lines: toStocktakeLineRows(stocktake),
+            p_expense: shrinkageExpense ? toExpenseRow(shrinkageExpense) : null,
+            p_activities: activities.map(toActivityRow)
         });
-        if (iError) throw iError;
-
-        // We store items in Base Currency (calculated in AppContext before calling this)
-        const itemsData = invoice.items.map(item => ({
-            invoice_id: invoice.id,
-            product_id: item.productId,
-            product_name: item.productName,
-            quantity: item.quantity,
-            purchase_price: item.purchasePrice,
-            lot_number: item.lotNumber,
-            expiry_date: item.expiryDate 
-        }));
-        const { error: itemError } = await supabase.from('purchase_invoice_items').insert(itemsData);
-        if (itemError) throw itemError;
-
-        if (newBatches.length > 0) {
-             const batchesData = newBatches.map(b => ({
-                id: b.id,
-                product_id: b.productId, // CamelCase input
-                lot_number: b.lotNumber,
-                stock: b.stock,
-                purchase_price: b.purchasePrice, // Already converted to base currency
-                purchase_date: b.purchaseDate,
-                expiry_date: b.expiryDate
-             }));
-             await supabase.from('product_batches').insert(batchesData);
-        }
-
-        await supabase.from('suppliers').update({ balance: supplierUpdate.newBalance }).eq('id', supplierUpdate.id);
-        
-        const txData: any = {
-            id: supplierUpdate.transaction.id,
-            supplier_id: supplierUpdate.transaction.supplierId,
-            type: supplierUpdate.transaction.type,
-            amount: supplierUpdate.transaction.amount,
-            date: supplierUpdate.transaction.date,
-            description: supplierUpdate.transaction.description,
-            invoice_id: supplierUpdate.transaction.invoiceId,
-            currency: supplierUpdate.transaction.currency // Store currency
-        };
-        await supabase.from('supplier_transactions').insert(txData);
+        if (error) throw error;
     },
 
-    updatePurchase: async (
-        invoiceId: string, 
-        newInvoiceData: PurchaseInvoice, 
-        newBatches: any[], 
-        supplierUpdate?: {id: string, oldAmount: number, newAmount: number}
-    ) => {
-        // 1. Update Header
-        await supabase.from('purchase_invoices').update({
-             supplier_id: newInvoiceData.supplierId,
-             invoice_number: newInvoiceData.invoiceNumber,
-             total_amount: newInvoiceData.totalAmount,
-             timestamp: newInvoiceData.timestamp,
-             currency: newInvoiceData.currency,
-             exchange_rate: newInvoiceData.exchangeRate
-        }).eq('id', invoiceId);
-
-        // 2. Re-create items
-        await supabase.from('purchase_invoice_items').delete().eq('invoice_id', invoiceId);
-        const itemsData = newInvoiceData.items.map(item => ({
-            invoice_id: invoiceId,
-            product_id: item.productId,
-            product_name: item.productName,
-            quantity: item.quantity,
-            purchase_price: item.purchasePrice,
-            lot_number: item.lotNumber, 
-            expiry_date: item.expiryDate 
-        }));
-        await supabase.from('purchase_invoice_items').insert(itemsData);
-
-        // 3. Add NEW batches (For edit, we assume we add new ones if not exist, existing ones are manual)
-        if (newBatches.length > 0) {
-             const batchesData = newBatches.map(b => ({
-                id: b.id,
-                product_id: b.productId, // CamelCase
-                lot_number: b.lotNumber,
-                stock: b.stock,
-                purchase_price: b.purchasePrice,
-                purchase_date: b.purchaseDate,
-                expiry_date: b.expiryDate
-             }));
-             await supabase.from('product_batches').insert(batchesData);
-        }
-
-        // 4. Update Supplier Financials
-        if (supplierUpdate) {
-            const { data: supplier } = await supabase.from('suppliers').select('balance').eq('id', supplierUpdate.id).single();
-            if (supplier) {
-                const newBalance = supplier.balance - supplierUpdate.oldAmount + supplierUpdate.newAmount;
-                await supabase.from('suppliers').update({ balance: newBalance }).eq('id', supplierUpdate.id);
-                
-                // Update tx
-                await supabase.from('supplier_transactions')
-                    .update({ amount: supplierUpdate.newAmount })
-                    .eq('invoice_id', invoiceId)
-                    .eq('type', 'purchase');
-            }
-        }
+    // --- Cash Shifts ---
+    openShift: async (shift: CashShift) => {
+        check(await supabase.from('cash_shifts').insert(toCashShiftRow(shift)));
+    },
+    closeShift: async (shift: CashShift) => {
+        check(await supabase.from('cash_shifts').update({
+            status: 'closed',
+            closed_at: shift.closedAt,
+            counted_cash: shift.countedCash,
+            expected_cash: shift.expectedCash,
+            note: shift.note
+        }).eq('id', shift.id));
     },
 
-    createPurchaseReturn: async (returnInvoice: PurchaseInvoice, stockDeductions: {productId: string, quantity: number, lotNumber: string}[], supplierRefund?: {id: string, amount: number}) => {
-        // 1. Create Invoice
-         await supabase.from('purchase_invoices').insert({
-            id: returnInvoice.id,
-            type: 'return',
-            original_invoice_id: returnInvoice.originalInvoiceId,
-            supplier_id: returnInvoice.supplierId,
-            invoice_number: returnInvoice.invoiceNumber,
-            total_amount: returnInvoice.totalAmount,
-            timestamp: returnInvoice.timestamp
+    // The expense (if any) is written in the same transaction as the movement
+    recordCashMovement: async (movement: CashMovement, expense?: Expense) => {
+        const { error } = await supabase.rpc('record_cash_movement', {
+            p_movement: toCashMovementRow(movement),
+            p_expense: expense ? toExpenseRow(expense) : null
         });
+        if (error) throw error;
+    },
 
-        const itemsData = returnInvoice.items.map(item => ({
-            invoice_id: returnInvoice.id,
-            product_id: item.productId,
-            product_name: item.productName,
-            quantity: item.quantity,
-            purchase_price: item.purchasePrice,
-            lot_number: item.lotNumber, 
-            expiry_date: item.expiryDate 
-        }));
-        await supabase.from('purchase_invoice_items').insert(itemsData);
-
-        // 2. Reduce Stock
-        for(const deduct of stockDeductions) {
-             // Try to find matching batch by lot number and product
-             const { data: batches } = await supabase.from('product_batches')
-                .select('*')
-                .eq('product_id', deduct.productId)
-                .eq('lot_number', deduct.lotNumber)
-                .limit(1);
-             
-             if (batches && batches.length > 0) {
-                 const batch = batches[0];
-                 const newStock = Math.max(0, batch.stock - deduct.quantity);
-                 await supabase.from('product_batches').update({ stock: newStock }).eq('id', batch.id);
-             }
-        }
-
-        // 3. Debit Supplier
-        if (supplierRefund) {
-            const { data: supplier } = await supabase.from('suppliers').select('balance').eq('id', supplierRefund.id).single();
-            if(supplier) {
-                const newBalance = supplier.balance - supplierRefund.amount;
-                await supabase.from('suppliers').update({ balance: newBalance }).eq('id', supplierRefund.id);
-
-                await supabase.from('supplier_transactions').insert({
-                     id: crypto.randomUUID(),
-                     supplier_id: supplierRefund.id,
-                     type: 'purchase_return',
-                     amount: supplierRefund.amount,
-                     date: new Date().toISOString(),
-                     description: `مرجوعی خرید #${returnInvoice.originalInvoiceId}`,
-                     invoice_id: returnInvoice.id
-                });
-            }
-        }
+    // --- Vouchers ---
+    // A sold voucher brings its cash into the shift in the same transaction (movement required)
+    issueVoucher: async (voucher: Voucher, movement?: CashMovement) => {
+        const { error } = await supabase.rpc('issue_voucher', {
+            p_voucher: toVoucherRow(voucher),
+            p_movement: movement ? toCashMovementRow(movement) : null
+        });
+        if (error) throw error;
+    },
+
+    // --- Customer Orders ---
+    // The reservation is checked against unreserved stock and written with the first deposit
+    createCustomerOrder: async (order: CustomerOrder, deposit?: CustomerBalanceUpdate) => {
+        const { error } = await supabase.rpc('create_customer_order', {
+            p_order: toCustomerOrderRow(order),
+            p_reservations: toReservationRows(order),
+            p_customer: toCustomerUpdateParam(deposit)
+        });
+        if (error) throw error;
+    },
+    addOrderDeposit: async (orderId: string, amount: number, deposit: CustomerBalanceUpdate) => {
+        const { error } = await supabase.rpc('add_order_deposit', { p_order_id: orderId, p_amount: amount, p_customer: toCustomerUpdateParam(deposit) });
+        if (error) throw error;
+    },
+    // Orders are closed by createSale now; this replays operations queued by older versions
+    completeCustomerOrder: async (orderId: string, invoiceId: string) => {
+        const { error } = await supabase.rpc('complete_customer_order', { p_order_id: orderId, p_invoice_id: invoiceId });
+        if (error) throw error;
+    },
+    // Without a refund the deposit stays on the customer's account as credit
+    cancelCustomerOrder: async (orderId: string, refund?: CustomerBalanceUpdate) => {
+        const { error } = await supabase.rpc('cancel_customer_order', { p_order_id: orderId, p_customer: toCustomerUpdateParam(refund) });
+        if (error) throw error;
+    },
+
+    // --- Quotations ---
+    addQuotation: async (quotation: Quotation) => {
+        check(await supabase.from('quotations').insert(toQuotationRow(quotation)));
+    },
+    updateQuotationStatus: async (id: string, status: Quotation['status'], convertedInvoiceId?: string) => {
+        check(await supabase.from('quotations').update({ status, converted_invoice_id: convertedInvoiceId }).eq('id', id));
+    },
+
+    // --- Parked Carts ---
+    parkCart: async (cart: ParkedCart) => {
+        check(await supabase.from('parked_carts').insert(toParkedCartRow(cart)));
+    },
+    // Recalling and discarding both delete the row; nothing deleted means another till got there first
+    takeParkedCart: async (id: string) => {
+        const { data, error } = await supabase.from('parked_carts').delete().eq('id', id).select('id');
+        if (error) throw error;
+        if (!data?.length) throw new Error(`parked_cart_not_found:${id}`);
+    },
+
+    // --- Stock Adjustments ---
+    // The movement itself is written by the product_batches trigger; only batch, delta, reason and note are sent
+    adjustStock: async (movement: StockMovement) => {
+        const { error } = await supabase.rpc('adjust_stock', {
+            p_adjustments: [{ batch_id: movement.batchId, delta: movement.delta, reason: movement.reason, note: movement.note }]
+        });
+        if (error) throw error;
+    },
+
+    // Purchases, their edits and returns are single Postgres functions too, which also work out
+    // the weighted average cost. newBalance is only the app's preview: the server adds the total.
+    createPurchase: async (invoice: PurchaseInvoice, supplierUpdate: {id: string, newBalance: number, transaction: SupplierTransaction}, newBatches: any[]) => {
+        const { error } = await supabase.rpc('create_purchase', {
+            p_invoice: toPurchaseInvoiceRow(invoice),
+            // We store items in Base Currency (calculated in AppContext before calling this)
+            p_items: toPurchaseItemRows(invoice),
+            p_batches: newBatches.map(toBatchRow),
+            p_transaction: toSupplierTransactionRow(supplierUpdate.transaction)
+        });
+        if (error) throw error;
+    },
+
+    updatePurchase: async (invoiceId: string, newInvoiceData: PurchaseInvoice) => {
+        const { error } = await supabase.rpc('update_purchase', {
+            p_invoice_id: invoiceId,
+            p_invoice: toPurchaseInvoiceRow(newInvoiceData),
+            p_items: toPurchaseItemRows({ ...newInvoiceData, id: invoiceId })
+        });
+        if (error) throw error;
+    },
+
+    // The server takes the stock from the batch with each item's lot number, so stockDeductions
+    // is only kept for operations queued by older versions of the app
+    createPurchaseReturn: async (returnInvoice: PurchaseInvoice, _stockDeductions: unknown, supplierRefund?: {id: string, amount: number}) => {
+        const { error } = await supabase.rpc('create_purchase_return', {
+            p_invoice: toPurchaseInvoiceRow(returnInvoice),
+            p_items: toPurchaseItemRows(returnInvoice),
+            p_transaction: supplierRefund ? {
+                id: crypto.randomUUID(),
+                date: new Date().toISOString(),
+                description: `مرجوعی خرید #${returnInvoice.originalInvoiceId}`
+            } : null
+        });
+        if (error) throw error;
     },
     
     // --- Financial Payments ---
@@ -670,7 +1371,8 @@ export const api = {
         const table = entityType === 'customer' ? 'customers' : (entityType === 'supplier' ? 'suppliers' : 'employees');
         const txTable = entityType === 'customer' ? 'customer_transactions' : (entityType === 'supplier' ? 'supplier_transactions' : 'payroll_transactions');
         
-        await supabase.from(table).update({ balance: newBalance }).eq('id', entityId);
+        const { error: balanceError } = await supabase.from(table).update({ balance: newBalance }).eq('id', entityId);
+        if (balanceError) throw balanceError;
         
         const txData: any = { ...transaction };
         if (entityType === 'customer') txData.customer_id = transaction.customerId;
@@ -682,14 +1384,18 @@ export const api = {
         delete txData.employeeId;
         delete txData.invoiceId; // Optional handling if present
         if(transaction.invoiceId) txData.invoice_id = transaction.invoiceId;
+        delete txData.shiftId;
+        if(transaction.shiftId) txData.shift_id = transaction.shiftId;
 
-        await supabase.from(txTable).insert(txData);
+        const { error: txError } = await supabase.from(txTable).insert(txData);
+        if (txError) throw txError;
     },
     
     processPayroll: async (updates: {id: string, balance: 0}[], transactions: PayrollTransaction[], expense: Expense) => {
         // 1. Reset balances
         for(const u of updates) {
-            await supabase.from('employees').update({ balance: 0 }).eq('id', u.id);
+            const { error } = await supabase.from('employees').update({ balance: 0 }).eq('id', u.id);
+            if (error) throw error;
         }
         // 2. Add transactions
         const txs = transactions.map(t => ({
@@ -700,26 +1406,26 @@ export const api = {
             date: t.date,
             description: t.description
         }));
-        await supabase.from('payroll_transactions').insert(txs);
+        const { error: txError } = await supabase.from('payroll_transactions').insert(txs);
+        if (txError) throw txError;
         
         // 3. Add Expense
-        await supabase.from('expenses').insert({
-            id: expense.id,
-            category: expense.category,
-            description: expense.description,
-            amount: expense.amount,
-            date: expense.date
-        });
+        const { error: expError } = await supabase.from('expenses').insert(toExpenseRow(expense));
+        if (expError) throw expError;
     },
 
     // --- DANGEROUS: Wipe and Restore Database ---
     clearAndRestoreData: async (data: AppState) => {
-        // 1. Delete everything in reverse dependency order
+        // Backups made before branches existed go to the main branch (see supabase/migrations)
+        const withBranch = <T extends { branchId?: string }>(row: T): T => ({ ...row, branchId: row.branchId || 'main' });
+
+        // 1. Delete everything in reverse dependency order (price_list_items go with their price list)
         const tablesToDelete = [
-            'sale_invoice_items', 'purchase_invoice_items', 'product_batches',
-            'customer_transactions', 'supplier_transactions', 'payroll_transactions', 'activity_logs',
+            'transfer_discrepancies', 'stock_transfer_items', 'stock_transfers', 'stocktake_lines', 'stocktakes', 'cash_movements', 'cash_shifts', 'parked_carts', 'quotations', 'customer_order_reservations', 'customer_orders',
+            'voucher_transactions', 'vouchers', 'sale_invoice_revisions', 'sale_invoice_items', 'purchase_invoice_items', 'product_batches', 'stock_movements',
+            'customer_transactions', 'loyalty_transactions', 'supplier_transactions', 'payroll_transactions', 'activity_logs',
             'sale_invoices', 'purchase_invoices',
-            'products', 'customers', 'suppliers', 'employees', 'services', 'expenses',
+            'price_lists', 'products', 'customers', 'suppliers', 'employees', 'services', 'promotions', 'expenses',
             'store_settings'
         ];
 
@@ -732,89 +1438,347 @@ export const api = {
         
         // Settings
         if (data.storeSettings) {
-            // We update ID 1 rather than insert, as settings is a singleton
-            await api.updateSettings(data.storeSettings); 
+            // We update ID 1 rather than insert, as settings is a singleton; older backups have no numbering
+            await remoteApi.updateSettings({ ...data.storeSettings, numbering: data.storeSettings.numbering || DEFAULT_NUMBERING }); 
         }
 
         // Base Entities
         if (data.services.length > 0) {
-            await supabase.from('services').insert(data.services.map(s => ({ id: s.id, name: s.name, price: s.price })));
+            check(await supabase.from('services').insert(data.services.map(s => ({ id: s.id, name: s.name, price: s.price }))));
+        }
+        if (data.promotions?.length > 0) {
+            check(await supabase.from('promotions').insert(data.promotions.map(toPromotionRow)));
+        }
+        // Customers reference their price list; the product prices go in after the products
+        if (data.priceLists?.length > 0) {
+            check(await supabase.from('price_lists').insert(data.priceLists.map(l => ({ id: l.id, name: l.name, percent_off: l.percentOff }))));
         }
         if (data.customers.length > 0) {
-            await supabase.from('customers').insert(data.customers.map(c => ({ id: c.id, name: c.name, phone: c.phone, credit_limit: c.creditLimit, balance: c.balance })));
+            check(await supabase.from('customers').insert(data.customers.map(c => ({ id: c.id, name: c.name, phone: c.phone, credit_limit: c.creditLimit, balance: c.balance, price_list_id: c.priceListId, loyalty_points: c.loyaltyPoints || 0 }))));
         }
         if (data.suppliers.length > 0) {
-            await supabase.from('suppliers').insert(data.suppliers.map(s => ({ id: s.id, name: s.name, contact_person: s.contactPerson, phone: s.phone, address: s.address, balance: s.balance })));
+            check(await supabase.from('suppliers').insert(data.suppliers.map(s => ({ id: s.id, name: s.name, contact_person: s.contactPerson, phone: s.phone, address: s.address, balance: s.balance }))));
         }
         if (data.employees.length > 0) {
-            await supabase.from('employees').insert(data.employees.map(e => ({ id: e.id, name: e.name, position: e.position, monthly_salary: e.monthlySalary, balance: e.balance })));
+            check(await supabase.from('employees').insert(data.employees.map(e => ({ id: e.id, name: e.name, position: e.position, monthly_salary: e.monthlySalary, balance: e.balance }))));
+        }
+        // Branches are upserted rather than wiped because users still reference them
+        if (data.branches?.length > 0) {
+            check(await supabase.from('branches').upsert(data.branches.map(toBranchRow)));
         }
         if (data.expenses.length > 0) {
-            await supabase.from('expenses').insert(data.expenses.map(e => ({ id: e.id, category: e.category, description: e.description, amount: e.amount, date: e.date })));
+            check(await supabase.from('expenses').insert(data.expenses.map(e => toExpenseRow(withBranch(e)))));
         }
 
         // Products & Batches
         if (data.products.length > 0) {
             const productsData = data.products.map(p => ({
-                id: p.id, name: p.name, sale_price: p.salePrice, barcode: p.barcode, manufacturer: p.manufacturer, items_per_package: p.itemsPerPackage
+                id: p.id, name: p.name, sale_price: p.salePrice, barcode: p.barcode, manufacturer: p.manufacturer, items_per_package: p.itemsPerPackage, package_price: p.packagePrice
             }));
-            await supabase.from('products').insert(productsData);
+            check(await supabase.from('products').insert(productsData));
 
-            const batchesData = data.products.flatMap(p => p.batches.map(b => ({
-                id: b.id, product_id: p.id, lot_number: b.lotNumber, stock: b.stock, purchase_price: b.purchasePrice, purchase_date: b.purchaseDate, expiry_date: b.expiryDate
-            })));
-            if (batchesData.length > 0) await supabase.from('product_batches').insert(batchesData);
+            const batchesData = data.products.flatMap(p => p.batches.map(b => toBatchRow(withBranch({ ...b, productId: p.id }))));
+            if (batchesData.length > 0) check(await supabase.from('product_batches').insert(batchesData));
+        }
+        const priceListItems = (data.priceLists || []).flatMap(toPriceListItemRows);
+        if (priceListItems.length > 0) {
+            check(await supabase.from('price_list_items').insert(priceListItems));
         }
 
         // Invoices
         if (data.saleInvoices.length > 0) {
             const salesData = data.saleInvoices.map(i => ({
-                id: i.id, type: i.type, original_invoice_id: i.originalInvoiceId, subtotal: i.subtotal, total_discount: i.totalDiscount, total_amount: i.totalAmount, timestamp: i.timestamp, cashier: i.cashier, customer_id: i.customerId
+                ...toSaleInvoiceRow(withBranch(i)),
+                status: i.status || 'active', voided_at: i.voidedAt || null, voided_by: i.voidedBy || null, void_reason: i.voidReason || null
             }));
-            await supabase.from('sale_invoices').insert(salesData);
+            check(await supabase.from('sale_invoices').insert(salesData));
 
             const saleItemsData = data.saleInvoices.flatMap(inv => inv.items.map(item => ({
                 invoice_id: inv.id, item_id: item.id, type: item.type, name: item.name, quantity: item.quantity, 
                 price: (item.type === 'product' ? (item as any).salePrice : (item as any).price),
                 final_price: (item.type === 'product' && (item as any).finalPrice !== undefined) ? (item as any).finalPrice : (item as any).salePrice,
-                purchase_price: (item.type === 'product' ? (item as any).purchasePrice : 0) // Include during restore
+                purchase_price: (item.type === 'product' ? (item as any).purchasePrice : 0), // Include during restore
+                promotion_id: item.type === 'product' ? item.promotionId : undefined
             })));
-            if (saleItemsData.length > 0) await supabase.from('sale_invoice_items').insert(saleItemsData);
+            if (saleItemsData.length > 0) check(await supabase.from('sale_invoice_items').insert(saleItemsData));
+        }
+
+        if (data.saleInvoiceRevisions?.length > 0) {
+            check(await supabase.from('sale_invoice_revisions').insert(data.saleInvoiceRevisions.map(r => ({
+                id: r.id, invoice_id: r.invoiceId, action: r.action, reason: r.reason,
+                before: toSaleInvoiceSnapshot(r.before), after: toSaleInvoiceSnapshot(r.after),
+                changed_at: r.changedAt, changed_by: r.changedBy
+            }))));
         }
 
         if (data.purchaseInvoices.length > 0) {
             const purchasesData = data.purchaseInvoices.map(i => ({
-                id: i.id, type: i.type, original_invoice_id: i.originalInvoiceId, supplier_id: i.supplierId, invoice_number: i.invoiceNumber, total_amount: i.totalAmount, timestamp: i.timestamp, currency: i.currency, exchange_rate: i.exchangeRate
+                id: i.id, type: i.type, original_invoice_id: i.originalInvoiceId, supplier_id: i.supplierId, invoice_number: i.invoiceNumber, total_amount: i.totalAmount, timestamp: i.timestamp, currency: i.currency, exchange_rate: i.exchangeRate, branch_id: i.branchId || 'main',
+                document_number: i.documentNumber || null
             }));
-            await supabase.from('purchase_invoices').insert(purchasesData);
+            check(await supabase.from('purchase_invoices').insert(purchasesData));
 
             const purchaseItemsData = data.purchaseInvoices.flatMap(inv => inv.items.map(item => ({
                 invoice_id: inv.id, product_id: item.productId, product_name: item.productName, quantity: item.quantity, purchase_price: item.purchasePrice, lot_number: item.lotNumber, expiry_date: item.expiryDate 
             })));
-            if (purchaseItemsData.length > 0) await supabase.from('purchase_invoice_items').insert(purchaseItemsData);
+            if (purchaseItemsData.length > 0) check(await supabase.from('purchase_invoice_items').insert(purchaseItemsData));
+        }
+
+        // Transfers (backups made before transfers existed have none)
+        if (data.stockTransfers?.length > 0) {
+            check(await supabase.from('stock_transfers').insert(data.stockTransfers.map(toStockTransferRow)));
+            const transferItemsData = data.stockTransfers.flatMap(toStockTransferItemRows);
+            if (transferItemsData.length > 0) check(await supabase.from('stock_transfer_items').insert(transferItemsData));
+        }
+        if (data.transferDiscrepancies?.length > 0) {
+            check(await supabase.from('transfer_discrepancies').insert(data.transferDiscrepancies.map(toTransferDiscrepancyRow)));
+        }
+        if (data.stocktakes?.length > 0) {
+            check(await supabase.from('stocktakes').insert(data.stocktakes.map(toStocktakeRow)));
+            const stocktakeLinesData = data.stocktakes.flatMap(toStocktakeLineRows);
+            if (stocktakeLinesData.length > 0) check(await supabase.from('stocktake_lines').insert(stocktakeLinesData));
+        }
+
+        // Restored batches were logged as opening stock; a backup that has the ledger replaces that
+        if (data.stockMovements?.length > 0) {
+            check(await supabase.from('stock_movements').delete().neq('id', '00000000-0000-0000-0000-000000000000'));
+            check(await supabase.from('stock_movements').insert(data.stockMovements.map(toStockMovementRow)));
+        }
+
+        if (data.cashShifts?.length > 0) {
+            check(await supabase.from('cash_shifts').insert(data.cashShifts.map(toCashShiftRow)));
+        }
+        if (data.cashMovements?.length > 0) {
+            check(await supabase.from('cash_movements').insert(data.cashMovements.map(toCashMovementRow)));
+        }
+        if (data.customerOrders?.length > 0) {
+            check(await supabase.from('customer_orders').insert(data.customerOrders.map(toCustomerOrderRow)));
+            const reservationRows = data.customerOrders.flatMap(toReservationRows);
+            if (reservationRows.length > 0) check(await supabase.from('customer_order_reservations').insert(reservationRows));
+        }
+        if (data.quotations?.length > 0) {
+            check(await supabase.from('quotations').insert(data.quotations.map(toQuotationRow)));
+        }
+        if (data.parkedCarts?.length > 0) {
+            check(await supabase.from('parked_carts').insert(data.parkedCarts.map(toParkedCartRow)));
         }
 
         // Transactions & Activity
         if (data.customerTransactions.length > 0) {
-            await supabase.from('customer_transactions').insert(data.customerTransactions.map(t => ({
-                id: t.id, customer_id: t.customerId, type: t.type, amount: t.amount, date: t.date, description: t.description, invoice_id: t.invoiceId
-            })));
+            check(await supabase.from('customer_transactions').insert(data.customerTransactions.map(t => ({
+                id: t.id, customer_id: t.customerId, type: t.type, amount: t.amount, date: t.date, description: t.description, invoice_id: t.invoiceId, shift_id: t.shiftId, order_id: t.orderId, reverses_transaction_id: t.reversesTransactionId
+            }))));
+        }
+        if (data.loyaltyTransactions?.length > 0) {
+            check(await supabase.from('loyalty_transactions').insert(data.loyaltyTransactions.map(t => ({
+                id: t.id, customer_id: t.customerId, type: t.type, points: t.points, date: t.date, invoice_id: t.invoiceId
+            }))));
+        }
+        if (data.vouchers?.length > 0) {
+            check(await supabase.from('vouchers').insert(data.vouchers.map(toVoucherRow)));
+        }
+        if (data.voucherTransactions?.length > 0) {
+            check(await supabase.from('voucher_transactions').insert(data.voucherTransactions.map(t => ({
+                id: t.id, voucher_id: t.voucherId, type: t.type, amount: t.amount, date: t.date, invoice_id: t.invoiceId
+            }))));
         }
         if (data.supplierTransactions.length > 0) {
-            await supabase.from('supplier_transactions').insert(data.supplierTransactions.map(t => ({
+            check(await supabase.from('supplier_transactions').insert(data.supplierTransactions.map(t => ({
                 id: t.id, supplier_id: t.supplierId, type: t.type, amount: t.amount, date: t.date, description: t.description, invoice_id: t.invoiceId, currency: t.currency
-            })));
+            }))));
         }
         if (data.payrollTransactions.length > 0) {
-            await supabase.from('payroll_transactions').insert(data.payrollTransactions.map(t => ({
+            check(await supabase.from('payroll_transactions').insert(data.payrollTransactions.map(t => ({
                 id: t.id, employee_id: t.employeeId, type: t.type, amount: t.amount, date: t.date, description: t.description
-            })));
+            }))));
         }
         if (data.activities && data.activities.length > 0) {
-            await supabase.from('activity_logs').insert(data.activities.map(a => ({
+            check(await supabase.from('activity_logs').insert(data.activities.map(a => ({
                 id: a.id, type: a.type, description: a.description, timestamp: a.timestamp, user: a.user, ref_id: a.refId, ref_type: a.refType
-            })));
+            }))));
         }
     }
 
+});
+
+// --- Offline-first API ---
+// Reads are mirrored into IndexedDB so the app can start without a connection.
+// Sales, returns, payments and purchases go through the local sync queue and are
+// replayed to Supabase in order once the connection is back (see syncService.ts).
+
+type RemoteApi = typeof remoteApi;
+
+// Queued operations come back from IndexedDB with the method as a plain name
+const isRemoteMethod = (method: string): method is keyof RemoteApi => Object.prototype.hasOwnProperty.call(remoteApi, method);
+
+setSyncExecutor((method, args) => {
+    if (!isRemoteMethod(method)) return Promise.reject(new Error(`unknown_sync_method:${method}`));
+    const call: (...args: any[]) => Promise<unknown> = remoteApi[method];
+    return call(...args);
+});
+
+const queued = <K extends keyof RemoteApi>(method: K, label: (...args: Parameters<RemoteApi[K]>) => string) =>
+    (...args: Parameters<RemoteApi[K]>) => queueOperation(method, args, label(...args));
+
+export const api = {
+    ...remoteApi,
+
+    getSettings: () => withSnapshot('settings', remoteApi.getSettings),
+    getUsers: () => withSnapshot('users', remoteApi.getUsers),
+    getRoles: () => withSnapshot('roles', remoteApi.getRoles),
+    getBranches: () => withSnapshot('branches', remoteApi.getBranches),
+    getProducts: () => withSnapshot('products', remoteApi.getProducts),
+    getServices: () => withSnapshot('services', remoteApi.getServices),
+    getPromotions: () => withSnapshot('promotions', remoteApi.getPromotions),
+    getPriceLists: () => withSnapshot('priceLists', remoteApi.getPriceLists),
+    getVouchers: () => withSnapshot('vouchers', remoteApi.getVouchers),
+    getSaleInvoiceRevisions: () => withSnapshot('saleInvoiceRevisions', remoteApi.getSaleInvoiceRevisions),
+    getEntities: () => withSnapshot('entities', remoteApi.getEntities),
+    getTransactions: () => withSnapshot('transactions', remoteApi.getTransactions),
+    getActivities: () => withSnapshot('activities', remoteApi.getActivities),
+    getCashShifts: async () => {
+        const shifts = await withSnapshot('cashShifts', remoteApi.getCashShifts);
+
+        // Shifts opened or closed offline are only in the queue
+        const pending = await getPendingOperations();
+        let result = shifts;
+        for (const op of pending) {
+            if (op.method === 'openShift' && !result.some(s => s.id === op.args[0].id)) result = [op.args[0] as CashShift, ...result];
+            if (op.method === 'closeShift') result = result.map(s => s.id === op.args[0].id ? op.args[0] as CashShift : s);
+        }
+        return result;
+    },
+    getCashMovements: async () => {
+        const movements = await withSnapshot('cashMovements', remoteApi.getCashMovements);
+        const pending = await getPendingOperations();
+        const movementIds = new Set(movements.map(m => m.id));
+        const pendingMovements = pending
+            .filter(op => op.method === 'recordCashMovement' && !movementIds.has(op.args[0].id))
+            .map(op => op.args[0] as CashMovement)
+            .reverse();
+        return [...pendingMovements, ...movements];
+    },
+    getCustomerOrders: async () => {
+        const orders = await withSnapshot('customerOrders', remoteApi.getCustomerOrders);
+
+        // Orders placed, paid into, collected or cancelled offline are only in the queue
+        const pending = await getPendingOperations();
+        let result = orders;
+        for (const op of pending) {
+            if (op.method === 'createCustomerOrder' && !result.some(o => o.id === op.args[0].id)) result = [op.args[0] as CustomerOrder, ...result];
+            if (op.method === 'addOrderDeposit') result = result.map(o => o.id === op.args[0] ? { ...o, depositPaid: o.depositPaid + op.args[1] } : o);
+            if (op.method === 'createSale' && op.args[3]) result = result.map(o => o.id === op.args[3] ? { ...o, status: 'completed', invoiceId: op.args[0].id } : o);
+            if (op.method === 'completeCustomerOrder') result = result.map(o => o.id === op.args[0] ? { ...o, status: 'completed', invoiceId: op.args[1] } : o);
+            if (op.method === 'cancelCustomerOrder') result = result.map(o => o.id === op.args[0] ? { ...o, status: 'cancelled', depositRefunded: !!op.args[1] } : o);
+        }
+        return result;
+    },
+    getQuotations: async () => {
+        const quotations = await withSnapshot('quotations', remoteApi.getQuotations);
+
+        // Quotations saved or converted offline are only in the queue
+        const pending = await getPendingOperations();
+        let result = quotations;
+        for (const op of pending) {
+            if (op.method === 'addQuotation' && !result.some(q => q.id === op.args[0].id)) result = [op.args[0] as Quotation, ...result];
+            if (op.method === 'updateQuotationStatus') {
+                const [id, status, convertedInvoiceId] = op.args;
+                result = result.map(q => q.id === id ? { ...q, status, convertedInvoiceId } : q);
+            }
+        }
+        return result;
+    },
+    getParkedCarts: async () => {
+        const carts = await withSnapshot('parkedCarts', remoteApi.getParkedCarts);
+
+        // Carts parked or recalled offline are only in the queue
+        const pending = await getPendingOperations();
+        let result = carts;
+        for (const op of pending) {
+            if (op.method === 'parkCart' && !result.some(c => c.id === op.args[0].id)) result = [op.args[0] as ParkedCart, ...result];
+            if (op.method === 'takeParkedCart') result = result.filter(c => c.id !== op.args[0]);
+        }
+        return result;
+    },
+    getTransfers: async () => {
+        const transfers = await withSnapshot('transfers', remoteApi.getTransfers);
+
+        // Same as invoices: transfers sent while offline are only in the queue
+        const pending = await getPendingOperations();
+        const transferIds = new Set(transfers.stockTransfers.map(t => t.id));
+        const pendingTransfers = pending
+            .filter(op => op.method === 'sendStockTransfer' && !transferIds.has(op.args[0].id))
+            .map(op => op.args[0] as StockTransfer)
+            .reverse();
+
+        return { ...transfers, stockTransfers: [...pendingTransfers, ...transfers.stockTransfers] };
+    },
+    getStocktakes: async () => {
+        const stocktakes = await withSnapshot('stocktakes', remoteApi.getStocktakes);
+        const pending = await getPendingOperations();
+        const stocktakeIds = new Set(stocktakes.map(s => s.id));
+        const pendingStocktakes = pending
+            .filter(op => op.method === 'postStocktake' && !stocktakeIds.has(op.args[0].id))
+            .map(op => op.args[0] as Stocktake)
+            .reverse();
+        return [...pendingStocktakes, ...stocktakes];
+    },
+    getStockMovements: async () => {
+        const movements = await withSnapshot('stockMovements', remoteApi.getStockMovements);
+        const pending = await getPendingOperations();
+        const pendingAdjustments = pending
+            .filter(op => op.method === 'adjustStock')
+            .map(op => op.args[0] as StockMovement)
+            .reverse();
+        return [...pendingAdjustments, ...movements];
+    },
+    getInvoices: async () => {
+        const invoices = await withSnapshot('invoices', remoteApi.getInvoices);
+
+        // Invoices still waiting in the queue are neither on the server nor in the mirror yet
+        const pending = await getPendingOperations();
+        const saleIds = new Set(invoices.saleInvoices.map(i => i.id));
+        const purchaseIds = new Set(invoices.purchaseInvoices.map(i => i.id));
+        const pendingSales: SaleInvoice[] = [];
+        const pendingPurchases: PurchaseInvoice[] = [];
+        for (const op of pending) {
+            if ((op.method === 'createSale' || op.method === 'createSaleReturn') && !saleIds.has(op.args[0].id)) {
+                pendingSales.unshift(op.args[0]);
+            }
+            if (op.method === 'createExchange' && !saleIds.has(op.args[3].id)) {
+                pendingSales.unshift(op.args[3], op.args[0]);
+            }
+            if ((op.method === 'createPurchase' || op.method === 'createPurchaseReturn') && !purchaseIds.has(op.args[0].id)) {
+                pendingPurchases.unshift(op.args[0]);
+            }
+        }
+
+        return {
+            saleInvoices: [...pendingSales, ...invoices.saleInvoices],
+            purchaseInvoices: [...pendingPurchases, ...invoices.purchaseInvoices]
+        };
+    },
+
+    addActivity: queued('addActivity', (log) => `ثبت فعالیت: ${log.description}`),
+    createSale: queued('createSale', (invoice) => `فاکتور فروش #${invoice.id}`),
+    createSaleReturn: queued('createSaleReturn', (invoice) => `مرجوعی فروش #${invoice.id}`),
+    createExchange: queued('createExchange', (returnInvoice, _restores, _refund, saleInvoice) => `تعویض کالا: مرجوعی #${returnInvoice.id} و فاکتور #${saleInvoice.id}`),
+    createPurchase: queued('createPurchase', (invoice) => `فاکتور خرید #${invoice.id}`),
+    createPurchaseReturn: queued('createPurchaseReturn', (invoice) => `مرجوعی خرید #${invoice.id}`),
+    sendStockTransfer: queued('sendStockTransfer', (transfer) => `ارسال حواله انتقال #${transfer.id}`),
+    receiveStockTransfer: queued('receiveStockTransfer', (transferId) => `دریافت حواله انتقال #${transferId}`),
+    postStocktake: queued('postStocktake', (stocktake) => `ثبت شمارش انبار #${stocktake.id}`),
+    openShift: queued('openShift', (shift) => `باز کردن شیفت صندوق ${shift.cashier}`),
+    closeShift: queued('closeShift', (shift) => `بستن شیفت صندوق ${shift.cashier}`),
+    createCustomerOrder: queued('createCustomerOrder', (order) => `ثبت سفارش مشتری #${order.id}`),
+    addOrderDeposit: queued('addOrderDeposit', (orderId, amount) => `پیش‌پرداخت سفارش #${orderId} به مبلغ ${amount}`),
+    cancelCustomerOrder: queued('cancelCustomerOrder', (orderId) => `لغو سفارش #${orderId}`),
+    addQuotation: queued('addQuotation', (quotation) => `ثبت پیش‌فاکتور #${quotation.id}`),
+    updateQuotationStatus: queued('updateQuotationStatus', (id, status) => `${status === 'converted' ? 'تبدیل' : 'لغو'} پیش‌فاکتور #${id}`),
+    parkCart: queued('parkCart', (cart) => `پارک سبد خرید «${cart.label}»`),
+    takeParkedCart: queued('takeParkedCart', (id) => `برداشتن سبد پارک شده #${id}`),
+    recordCashMovement: queued('recordCashMovement', (movement) => `${movement.type === 'in' ? 'ورود' : 'خروج'} وجه صندوق به مبلغ ${movement.amount}`),
+    adjustStock: queued('adjustStock', (movement) => `تعدیل موجودی (${movement.delta})`),
+    processPayment: queued('processPayment', (entityType, entityId, _newBalance, transaction) => `پرداخت (${entityType}) به مبلغ ${transaction.amount}`),
+    processPayroll: queued('processPayroll', (_updates, _transactions, expense) => `پرداخت حقوق به مبلغ ${expense.amount}`),
 };
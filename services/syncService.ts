@@ -0,0 +1,146 @@
+
+import type { SyncOperation } from '../types';
+import {
+    saveSnapshot, getSnapshot, clearSnapshots, addSyncOperation, getAllSyncOperations,
+    updateSyncOperation, deleteSyncOperation
+} from '../utils/db';
+import { getStoredSession, getSessionUser } from './authService';
+
+// Replays a queued operation against Supabase (registered by supabaseService to avoid a circular import)
+type SyncExecutor = (method: string, args: any[]) => Promise<unknown>;
+type SyncListener = (queue: SyncOperation[]) => void;
+
+let executor: SyncExecutor | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<SyncListener>();
+// Original error objects of this session's conflicts (IndexedDB only keeps the message)
+const conflictErrors = new Map<number, unknown>();
+
+export const setSyncExecutor = (fn: SyncExecutor) => {
+    executor = fn;
+};
+
+// Supabase returns fetch failures as regular error objects, so the message is checked as well
+export const isNetworkError = (error: any): boolean => {
+    if (!navigator.onLine) return true;
+    const message = String(error?.message || error || '');
+    return /Failed to fetch|NetworkError|Load failed|network request failed/i.test(message);
+};
+
+// Operations queued by someone else stay held on the device until they log in again: they are
+// neither shown to, replayed under nor discardable by the user signed in now. Operations queued
+// before the queue recorded its user belong to whoever is signed in.
+const getOwnOperations = async (): Promise<SyncOperation[]> => {
+    const userId = getSessionUser()?.id;
+    const queue = await getAllSyncOperations();
+    return queue.filter(op => !op.userId || op.userId === userId);
+};
+
+const notifyListeners = async () => {
+    try {
+        const queue = await getOwnOperations();
+        listeners.forEach(listener => listener(queue));
+    } catch (e) { console.error('Failed to read sync queue', e); }
+};
+
+export const subscribeToSyncQueue = (listener: SyncListener) => {
+    listeners.add(listener);
+    getOwnOperations().then(listener).catch(e => console.error('Failed to read sync queue', e));
+    return () => { listeners.delete(listener); };
+};
+
+export const getPendingOperations = async (): Promise<SyncOperation[]> => {
+    const queue = await getOwnOperations();
+    return queue.filter(op => op.status === 'pending');
+};
+
+// --- Reads: Supabase first, local mirror as fallback ---
+// The mirror is kept per user, so another login on the same till never falls back to data that
+// was loaded with someone else's permissions and branches
+export const withSnapshot = async <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+    const userId = getSessionUser()?.id;
+    if (!userId) return fetcher();
+    const userKey = `${userId}:${key}`;
+    try {
+        const data = await fetcher();
+        saveSnapshot(userKey, data).catch(e => console.error(`Failed to mirror "${key}"`, e));
+        return data;
+    } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const cached = await getSnapshot<T>(userKey);
+        if (cached === undefined) throw error;
+        return cached;
+    }
+};
+
+// Called on logout: nothing loaded under the session stays on the device
+export const clearOfflineMirror = (): Promise<void> => clearSnapshots();
+
+// --- Writes: queue locally, replay in order ---
+const replayQueue = async () => {
+    // The token of an expired session is no good, and nobody else's token may carry these
+    if (!executor || !getStoredSession()) return;
+    const queue = await getOwnOperations();
+    for (const op of queue) {
+        if (op.status === 'conflict') continue; // Waits for the user to retry or discard it
+        try {
+            await executor(op.method, op.args);
+            await deleteSyncOperation(op.id!);
+        } catch (error: any) {
+            // Still offline: keep this and everything after it for the next attempt
+            if (isNetworkError(error)) break;
+            conflictErrors.set(op.id!, error);
+            await updateSyncOperation({ ...op, status: 'conflict', error: error?.message || String(error) });
+        }
+    }
+};
+
+export const flushSyncQueue = async (): Promise<void> => {
+    // Only one replay at a time, otherwise operations could reach the server out of order
+    while (flushing) await flushing;
+    flushing = replayQueue();
+    try {
+        await flushing;
+    } finally {
+        flushing = null;
+        notifyListeners();
+    }
+};
+
+// Resolves with queued: true when the operation is saved locally but not yet on the server.
+// If we are online and the server rejects it, the error is thrown straight back to the caller.
+// An expired session (kept open read-only while offline) cannot queue anything.
+export const queueOperation = async (method: string, args: any[], label: string): Promise<{ queued: boolean }> => {
+    const session = getStoredSession();
+    if (!session) throw new Error('session_expired');
+    const id = await addSyncOperation({ method, args, label, createdAt: new Date().toISOString(), status: 'pending', userId: session.user.id });
+
+    if (!navigator.onLine) {
+        notifyListeners();
+        return { queued: true };
+    }
+
+    await flushSyncQueue();
+    const remaining = (await getAllSyncOperations()).find(op => op.id === id);
+    if (remaining?.status === 'conflict') {
+        const error = conflictErrors.get(id) ?? new Error(remaining.error);
+        conflictErrors.delete(id);
+        await deleteSyncOperation(id);
+        notifyListeners();
+        throw error;
+    }
+    return { queued: !!remaining };
+};
+
+export const retrySyncOperation = async (id: number) => {
+    const op = (await getOwnOperations()).find(o => o.id === id);
+    if (!op) return;
+    await updateSyncOperation({ ...op, status: 'pending', error: undefined });
+    await flushSyncQueue();
+};
+
+export const discardSyncOperation = async (id: number) => {
+    if (!(await getOwnOperations()).some(o => o.id === id)) return;
+    await deleteSyncOperation(id);
+    notifyListeners();
+};
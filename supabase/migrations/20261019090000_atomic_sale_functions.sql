@@ -0,0 +1,205 @@
+-- Atomic sale operations.
+-- Each function body runs inside a single transaction, so if any step fails
+-- (missing customer, insufficient stock, ...) the whole sale is rolled back.
+-- Stock is decremented conditionally (stock >= quantity) so two tills cannot
+-- oversell the same batch.
+
+-- Adds (or removes, with a negative quantity) stock on the most recently purchased batch of a product.
+-- Sale items do not remember which batches they came from, so restores go to the newest batch.
+create or replace function restore_product_stock(p_product_id text, p_quantity numeric)
+returns void
+language plpgsql
+as $$
+declare
+    v_batch_id text;
+begin
+    select id::text into v_batch_id
+    from product_batches
+    where product_id::text = p_product_id
+    order by purchase_date desc
+    limit 1
+    for update;
+
+    if v_batch_id is null then
+        raise exception 'batch_not_found:%', p_product_id;
+    end if;
+
+    update product_batches set stock = stock + p_quantity where id::text = v_batch_id;
+end;
+$$;
+
+-- p_deductions: [{ "batch_id": "...", "quantity": 3 }]
+create or replace function deduct_batch_stock(p_deductions jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_line jsonb;
+begin
+    for v_line in select * from jsonb_array_elements(coalesce(p_deductions, '[]'::jsonb)) loop
+        update product_batches
+        set stock = stock - (v_line->>'quantity')::numeric
+        where id::text = v_line->>'batch_id'
+          and stock >= (v_line->>'quantity')::numeric;
+
+        if not found then
+            raise exception 'insufficient_stock:%', v_line->>'batch_id';
+        end if;
+    end loop;
+end;
+$$;
+
+-- p_customer: { "id": "...", "amount": 100, "transaction": { customer_transactions row } }
+-- amount is added to the current balance (negative for refunds) instead of overwriting it.
+create or replace function apply_customer_transaction(p_customer jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    if p_customer is null or jsonb_typeof(p_customer) = 'null' then
+        return;
+    end if;
+
+    update customers
+    set balance = balance + (p_customer->>'amount')::numeric
+    where id::text = p_customer->>'id';
+
+    if not found then
+        raise exception 'customer_not_found:%', p_customer->>'id';
+    end if;
+
+    insert into customer_transactions (id, customer_id, type, amount, date, description, invoice_id)
+    select id, customer_id, type, amount, date, description, invoice_id
+    from jsonb_populate_record(null::customer_transactions, p_customer->'transaction');
+end;
+$$;
+
+create or replace function insert_sale_invoice(p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    insert into sale_invoices (id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id)
+    select id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id
+    from jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+end;
+$$;
+
+-- --- Create Sale ---
+create or replace function create_sale(p_invoice jsonb, p_items jsonb, p_deductions jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+as $$
+begin
+    perform insert_sale_invoice(p_invoice, p_items);
+    perform deduct_batch_stock(p_deductions);
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
+
+-- --- Update Sale (Edit) ---
+-- Reverts the old invoice (stock and credit) and applies the new version in one step.
+-- p_restores: [{ "product_id": "...", "quantity": 2 }]
+create or replace function update_sale(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_line jsonb;
+    v_tx record;
+begin
+    -- Lock the invoice so two edits of the same invoice cannot interleave
+    perform 1 from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+
+    -- 1. Restore stock of the old items
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric);
+    end loop;
+
+    -- 2. Revert the old credit sale (the customer may have changed)
+    for v_tx in
+        select id, customer_id, amount from customer_transactions
+        where invoice_id::text = p_invoice_id and type = 'credit_sale'
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+        delete from customer_transactions where id = v_tx.id;
+    end loop;
+
+    -- 3. Deduct stock for the new items
+    perform deduct_batch_stock(p_deductions);
+
+    -- 4. Header and items
+    update sale_invoices s
+    set subtotal = r.subtotal,
+        total_discount = r.total_discount,
+        total_amount = r.total_amount,
+        customer_id = r.customer_id
+    from jsonb_populate_record(null::sale_invoices, p_invoice) r
+    where s.id::text = p_invoice_id;
+
+    delete from sale_invoice_items where invoice_id::text = p_invoice_id;
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    -- 5. New credit sale
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
+
+-- --- Sale Return ---
+create or replace function create_sale_return(p_invoice jsonb, p_items jsonb, p_restores jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+as $$
+declare
+    v_original_id text := p_invoice->>'original_invoice_id';
+    v_line jsonb;
+    v_sold numeric;
+    v_returned numeric;
+begin
+    -- Serialise returns against the same invoice so two tills cannot both refund it
+    perform 1 from sale_invoices where id::text = v_original_id and type = 'sale' for update;
+    if not found then
+        raise exception 'invoice_not_found:%', v_original_id;
+    end if;
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) loop
+        select coalesce(sum(quantity), 0) into v_sold
+        from sale_invoice_items
+        where invoice_id::text = v_original_id and item_id::text = v_line->>'item_id' and type = v_line->>'type';
+
+        select coalesce(sum(i.quantity), 0) into v_returned
+        from sale_invoice_items i
+        join sale_invoices s on s.id = i.invoice_id
+        where s.type = 'return' and s.original_invoice_id::text = v_original_id
+          and i.item_id::text = v_line->>'item_id' and i.type = v_line->>'type';
+
+        if v_returned + (v_line->>'quantity')::numeric > v_sold then
+            raise exception 'return_exceeds_sold:%', v_line->>'item_id';
+        end if;
+    end loop;
+
+    perform insert_sale_invoice(p_invoice, p_items);
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric);
+    end loop;
+
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
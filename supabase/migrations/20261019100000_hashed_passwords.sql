@@ -0,0 +1,16 @@
+-- Passwords are now hashed (scrypt) and verified by /api/login.
+--
+-- Migration path for existing rows: the plaintext "password" column is kept for now.
+-- The first successful login of each user writes "password_hash" and clears "password"
+-- (see verifyCredentials in pages/api/_lib/auth.ts). Once every user has logged in once, the
+-- column can be dropped:
+--   select count(*) from users where password is not null;  -- should be 0
+--   alter table users drop column password;
+
+alter table users add column if not exists password_hash text;
+alter table users alter column password drop not null;
+
+-- The browser only ever needs id, username and role. Both password columns are readable
+-- by the service role (used by the API endpoints) only.
+revoke select, insert, update on users from anon, authenticated;
+grant select (id, username, role_id) on users to anon, authenticated;
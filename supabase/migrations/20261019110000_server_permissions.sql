@@ -0,0 +1,201 @@
+-- Server-side permission checks.
+--
+-- The browser now sends the session token issued by /api/login (an HS256 JWT signed with
+-- the project's JWT secret), so auth.jwt()->>'sub' is the id of the logged-in user.
+--
+--   * RLS: only authenticated sessions can read or write anything.
+--   * Triggers: every write is checked against the caller's role permissions
+--     (the same ids as utils/permissions.ts). Denied writes raise SQLSTATE 42501
+--     with message 'permission_denied' and the required permission in DETAIL.
+--   * Sale functions check their own permissions and run as security definer.
+
+-- --- Permission helpers ---
+
+create or replace function app_permissions()
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((
+        select r.permissions::text[]
+        from users u
+        join roles r on r.id = u.role_id
+        where u.id::text = auth.jwt()->>'sub'
+    ), '{}');
+$$;
+
+create or replace function app_has_permission(p_permission text)
+returns boolean
+language sql
+stable
+as $$
+    select coalesce(p_permission = any(app_permissions()), false);
+$$;
+
+create or replace function require_permission(p_permission text)
+returns void
+language plpgsql
+stable
+as $$
+begin
+    if not app_has_permission(p_permission) then
+        raise exception using errcode = '42501', message = 'permission_denied', detail = p_permission;
+    end if;
+end;
+$$;
+
+-- Trigger arguments: allowed permissions for INSERT, UPDATE and DELETE, each a '|' separated list.
+-- 'settings:manage_backup' is always allowed because restoring a backup rewrites every table.
+create or replace function enforce_write_permission()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_allowed text[];
+begin
+    -- Security definer functions (which check permissions themselves) and the service role
+    -- used by the API endpoints run as a different database role.
+    if current_user not in ('authenticated', 'anon') then
+        return null;
+    end if;
+
+    v_allowed := string_to_array(
+        case tg_op when 'INSERT' then tg_argv[0] when 'UPDATE' then tg_argv[1] else tg_argv[2] end,
+        '|'
+    );
+
+    if not (app_permissions() && (v_allowed || 'settings:manage_backup'::text)) then
+        raise exception using
+            errcode = '42501',
+            message = 'permission_denied',
+            detail = coalesce(v_allowed[1], 'settings:manage_backup');
+    end if;
+
+    return null;
+end;
+$$;
+
+-- --- Row level security: authenticated sessions only ---
+
+do $$
+declare
+    v_table text;
+begin
+    foreach v_table in array array[
+        'store_settings', 'users', 'roles', 'products', 'product_batches', 'services',
+        'customers', 'customer_transactions', 'suppliers', 'supplier_transactions',
+        'employees', 'payroll_transactions', 'expenses', 'activity_logs',
+        'sale_invoices', 'sale_invoice_items', 'purchase_invoices', 'purchase_invoice_items'
+    ] loop
+        execute format('alter table %I enable row level security', v_table);
+        execute format('drop policy if exists "authenticated access" on %I', v_table);
+        execute format('create policy "authenticated access" on %I for all to authenticated using (true) with check (true)', v_table);
+    end loop;
+end;
+$$;
+
+-- --- Write permissions per table ---
+
+do $$
+declare
+    v_rule text[];
+begin
+    --            table                     insert                                              update                                                                      delete
+    foreach v_rule slice 1 in array array[
+        array['store_settings',         '',                                                 'settings:manage_store|settings:manage_alerts',                              ''],
+        array['roles',                  'settings:manage_users',                            'settings:manage_users',                                                     'settings:manage_users'],
+        array['users',                  '',                                                 '',                                                                          'settings:manage_users'],
+        array['products',               'inventory:add_product',                            'inventory:edit_product',                                                    'inventory:delete_product'],
+        array['product_batches',        'inventory:add_product|purchase:create_invoice',    'inventory:edit_product|purchase:create_invoice',                            'inventory:delete_product'],
+        array['services',               'settings:manage_services',                         'settings:manage_services',                                                  'settings:manage_services'],
+        array['customers',              'accounting:manage_customers',                      'accounting:manage_customers',                                               'accounting:manage_customers'],
+        array['customer_transactions',  'accounting:manage_customers',                      '',                                                                          ''],
+        array['suppliers',              'accounting:manage_suppliers',                      'accounting:manage_suppliers|purchase:create_invoice|purchase:edit_invoice', 'accounting:manage_suppliers'],
+        array['supplier_transactions',  'accounting:manage_suppliers|purchase:create_invoice', 'purchase:edit_invoice',                                                  ''],
+        array['employees',              'accounting:manage_payroll',                        'accounting:manage_payroll',                                                 'accounting:manage_payroll'],
+        array['payroll_transactions',   'accounting:manage_payroll',                        '',                                                                          ''],
+        array['expenses',               'accounting:manage_expenses|accounting:manage_payroll', 'accounting:manage_expenses',                                            'accounting:manage_expenses'],
+        array['sale_invoices',          '',                                                 'pos:create_invoice',                                                        ''],
+        array['sale_invoice_items',     '',                                                 '',                                                                          ''],
+        array['purchase_invoices',      'purchase:create_invoice',                          'purchase:edit_invoice',                                                     'purchase:edit_invoice'],
+        array['purchase_invoice_items', 'purchase:create_invoice|purchase:edit_invoice',    'purchase:edit_invoice',                                                     'purchase:edit_invoice']
+    ] loop
+        execute format('drop trigger if exists enforce_write_permission on %I', v_rule[1]);
+        execute format(
+            'create trigger enforce_write_permission before insert or update or delete on %I for each statement execute function enforce_write_permission(%L, %L, %L)',
+            v_rule[1], v_rule[2], v_rule[3], v_rule[4]
+        );
+    end loop;
+end;
+$$;
+
+-- --- Sale functions: check permissions, then run the unchecked implementation ---
+
+alter function create_sale(jsonb, jsonb, jsonb, jsonb) rename to create_sale_unchecked;
+alter function update_sale(text, jsonb, jsonb, jsonb, jsonb, jsonb) rename to update_sale_unchecked;
+alter function create_sale_return(jsonb, jsonb, jsonb, jsonb) rename to create_sale_return_unchecked;
+
+create or replace function create_sale(p_invoice jsonb, p_items jsonb, p_deductions jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform create_sale_unchecked(p_invoice, p_items, p_deductions, p_customer);
+end;
+$$;
+
+create or replace function update_sale(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:edit_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform update_sale_unchecked(p_invoice_id, p_invoice, p_items, p_restores, p_deductions, p_customer);
+end;
+$$;
+
+create or replace function create_sale_return(p_invoice jsonb, p_items jsonb, p_restores jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    perform create_sale_return_unchecked(p_invoice, p_items, p_restores, p_customer);
+end;
+$$;
+
+-- Only the checked entry points are callable from the browser
+revoke execute on function
+    create_sale_unchecked(jsonb, jsonb, jsonb, jsonb),
+    update_sale_unchecked(text, jsonb, jsonb, jsonb, jsonb, jsonb),
+    create_sale_return_unchecked(jsonb, jsonb, jsonb, jsonb),
+    insert_sale_invoice(jsonb, jsonb),
+    deduct_batch_stock(jsonb),
+    restore_product_stock(text, numeric),
+    apply_customer_transaction(jsonb)
+from public, anon, authenticated;
+
+revoke execute on function create_sale(jsonb, jsonb, jsonb, jsonb), update_sale(text, jsonb, jsonb, jsonb, jsonb, jsonb), create_sale_return(jsonb, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function create_sale(jsonb, jsonb, jsonb, jsonb), update_sale(text, jsonb, jsonb, jsonb, jsonb, jsonb), create_sale_return(jsonb, jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,347 @@
+-- Multiple branches (shops and warehouses).
+--
+--   * Stock batches, sale invoices, purchase invoices and expenses belong to a branch.
+--   * Users have a home branch; roles list the branches they can see (empty = all).
+--   * RLS hides rows of other branches, so reports and the offline mirror only ever
+--     contain the branches the user is allowed to see.
+--
+-- Existing rows are moved to a "main" branch.
+
+create table if not exists branches (
+    id text primary key,
+    name text not null,
+    type text not null default 'store' check (type in ('store', 'warehouse')),
+    address text,
+    phone text
+);
+
+insert into branches (id, name, type)
+values ('main', 'فروشگاه اصلی', 'store')
+on conflict (id) do nothing;
+
+do $$
+declare
+    v_table text;
+begin
+    foreach v_table in array array['product_batches', 'sale_invoices', 'purchase_invoices', 'expenses'] loop
+        execute format('alter table %I add column if not exists branch_id text references branches(id)', v_table);
+        execute format('update %I set branch_id = %L where branch_id is null', v_table, 'main');
+        execute format('alter table %I alter column branch_id set not null', v_table);
+        execute format('create index if not exists %I on %I (branch_id)', v_table || '_branch_id_idx', v_table);
+    end loop;
+end;
+$$;
+
+alter table users add column if not exists branch_id text references branches(id) on delete set null;
+alter table roles add column if not exists branch_ids text[] not null default '{}';
+
+grant select (branch_id) on users to anon, authenticated;
+
+-- Whoever manages the store today also manages its branches
+update roles
+set permissions = array_append(permissions, 'settings:manage_branches')
+where 'settings:manage_store' = any(permissions)
+  and not ('settings:manage_branches' = any(permissions));
+
+-- --- Branch helpers ---
+
+-- Branch ids the caller's role is limited to ('{}' = every branch)
+create or replace function app_branch_ids()
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select coalesce((
+        select r.branch_ids
+        from users u
+        join roles r on r.id = u.role_id
+        where u.id::text = auth.jwt()->>'sub'
+    ), '{}');
+$$;
+
+create or replace function app_branch_allowed(p_branch_id text)
+returns boolean
+language sql
+stable
+as $$
+    select cardinality(app_branch_ids()) = 0 or p_branch_id = any(app_branch_ids());
+$$;
+
+create or replace function require_branch_access(p_branch_id text)
+returns void
+language plpgsql
+stable
+as $$
+begin
+    if p_branch_id is null or not app_branch_allowed(p_branch_id) then
+        raise exception 'branch_denied:%', p_branch_id;
+    end if;
+end;
+$$;
+
+-- --- Row level security per branch ---
+
+alter table branches enable row level security;
+drop policy if exists "branch access" on branches;
+create policy "branch access" on branches for all to authenticated
+    using (app_branch_allowed(id)) with check (true);
+
+do $$
+declare
+    v_table text;
+begin
+    foreach v_table in array array['product_batches', 'sale_invoices', 'purchase_invoices', 'expenses'] loop
+        execute format('drop policy if exists "authenticated access" on %I', v_table);
+        execute format('drop policy if exists "branch access" on %I', v_table);
+        execute format('create policy "branch access" on %I for all to authenticated using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id))', v_table);
+    end loop;
+end;
+$$;
+
+-- Invoice items follow the visibility of their invoice
+drop policy if exists "authenticated access" on sale_invoice_items;
+drop policy if exists "branch access" on sale_invoice_items;
+create policy "branch access" on sale_invoice_items for all to authenticated
+    using (exists (select 1 from sale_invoices s where s.id = invoice_id))
+    with check (exists (select 1 from sale_invoices s where s.id = invoice_id));
+
+drop policy if exists "authenticated access" on purchase_invoice_items;
+drop policy if exists "branch access" on purchase_invoice_items;
+create policy "branch access" on purchase_invoice_items for all to authenticated
+    using (exists (select 1 from purchase_invoices p where p.id = invoice_id))
+    with check (exists (select 1 from purchase_invoices p where p.id = invoice_id));
+
+drop trigger if exists enforce_write_permission on branches;
+create trigger enforce_write_permission before insert or update or delete on branches
+    for each statement execute function enforce_write_permission('settings:manage_branches', 'settings:manage_branches', 'settings:manage_branches');
+
+-- --- Sale functions: branch aware stock restores ---
+
+-- Restores go to the newest batch of the product in the given branch. If the branch has
+-- never stocked the product (e.g. a return at another shop), a batch is opened there with
+-- the cost of the product's newest batch.
+drop function if exists restore_product_stock(text, numeric);
+create or replace function restore_product_stock(p_product_id text, p_quantity numeric, p_branch_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_batch_id text;
+begin
+    select id::text into v_batch_id
+    from product_batches
+    where product_id::text = p_product_id and branch_id = p_branch_id
+    order by purchase_date desc
+    limit 1
+    for update;
+
+    if v_batch_id is not null then
+        update product_batches set stock = stock + p_quantity where id::text = v_batch_id;
+        return;
+    end if;
+
+    insert into product_batches (id, product_id, lot_number, stock, purchase_price, purchase_date, expiry_date, branch_id)
+    select gen_random_uuid(), product_id, lot_number, p_quantity, purchase_price, purchase_date, expiry_date, p_branch_id
+    from product_batches
+    where product_id::text = p_product_id
+    order by purchase_date desc
+    limit 1;
+
+    if not found then
+        raise exception 'batch_not_found:%', p_product_id;
+    end if;
+end;
+$$;
+
+-- Deductions must come from batches of the invoice's branch
+create or replace function check_deduction_branch(p_deductions jsonb, p_branch_id text)
+returns void
+language plpgsql
+stable
+as $$
+begin
+    if exists (
+        select 1
+        from jsonb_array_elements(coalesce(p_deductions, '[]'::jsonb)) d
+        join product_batches b on b.id::text = d->>'batch_id'
+        where b.branch_id is distinct from p_branch_id
+    ) then
+        raise exception 'branch_mismatch:%', p_branch_id;
+    end if;
+end;
+$$;
+
+create or replace function insert_sale_invoice(p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    insert into sale_invoices (id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id)
+    select id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id
+    from jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+end;
+$$;
+
+-- Same as before, except that stock goes back to the invoice's branch.
+-- An edited invoice stays in the branch it was created in.
+create or replace function update_sale_unchecked(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_branch_id text;
+    v_line jsonb;
+    v_tx record;
+begin
+    select branch_id into v_branch_id from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+
+    perform check_deduction_branch(p_deductions, v_branch_id);
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric, v_branch_id);
+    end loop;
+
+    for v_tx in
+        select id, customer_id, amount from customer_transactions
+        where invoice_id::text = p_invoice_id and type = 'credit_sale'
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+        delete from customer_transactions where id = v_tx.id;
+    end loop;
+
+    perform deduct_batch_stock(p_deductions);
+
+    update sale_invoices s
+    set subtotal = r.subtotal,
+        total_discount = r.total_discount,
+        total_amount = r.total_amount,
+        customer_id = r.customer_id
+    from jsonb_populate_record(null::sale_invoices, p_invoice) r
+    where s.id::text = p_invoice_id;
+
+    delete from sale_invoice_items where invoice_id::text = p_invoice_id;
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
+
+-- Returned goods go into the branch where the return is registered
+create or replace function create_sale_return_unchecked(p_invoice jsonb, p_items jsonb, p_restores jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+as $$
+declare
+    v_original_id text := p_invoice->>'original_invoice_id';
+    v_line jsonb;
+    v_sold numeric;
+    v_returned numeric;
+begin
+    perform 1 from sale_invoices where id::text = v_original_id and type = 'sale' for update;
+    if not found then
+        raise exception 'invoice_not_found:%', v_original_id;
+    end if;
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) loop
+        select coalesce(sum(quantity), 0) into v_sold
+        from sale_invoice_items
+        where invoice_id::text = v_original_id and item_id::text = v_line->>'item_id' and type = v_line->>'type';
+
+        select coalesce(sum(i.quantity), 0) into v_returned
+        from sale_invoice_items i
+        join sale_invoices s on s.id = i.invoice_id
+        where s.type = 'return' and s.original_invoice_id::text = v_original_id
+          and i.item_id::text = v_line->>'item_id' and i.type = v_line->>'type';
+
+        if v_returned + (v_line->>'quantity')::numeric > v_sold then
+            raise exception 'return_exceeds_sold:%', v_line->>'item_id';
+        end if;
+    end loop;
+
+    perform insert_sale_invoice(p_invoice, p_items);
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric, p_invoice->>'branch_id');
+    end loop;
+
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
+
+-- Checked entry points: role permission plus access to the invoice's branch
+
+create or replace function create_sale(p_invoice jsonb, p_items jsonb, p_deductions jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access(p_invoice->>'branch_id');
+    perform check_deduction_branch(p_deductions, p_invoice->>'branch_id');
+    perform create_sale_unchecked(p_invoice, p_items, p_deductions, p_customer);
+end;
+$$;
+
+create or replace function update_sale(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:edit_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access((select branch_id from sale_invoices where id::text = p_invoice_id));
+    perform update_sale_unchecked(p_invoice_id, p_invoice, p_items, p_restores, p_deductions, p_customer);
+end;
+$$;
+
+create or replace function create_sale_return(p_invoice jsonb, p_items jsonb, p_restores jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    perform require_branch_access(p_invoice->>'branch_id');
+    perform create_sale_return_unchecked(p_invoice, p_items, p_restores, p_customer);
+end;
+$$;
+
+revoke execute on function
+    restore_product_stock(text, numeric, text),
+    check_deduction_branch(jsonb, text)
+from public, anon, authenticated;
@@ -0,0 +1,217 @@
+-- Stock transfers between branches and warehouses.
+--
+--   * send_stock_transfer takes the goods out of the source batches (same checks as a sale).
+--   * receive_stock_transfer books what actually arrived into batches of the destination,
+--     keeping lot number, purchase price, purchase date and expiry date of the source batch.
+--   * Anything missing on receipt is written to transfer_discrepancies (one row per item).
+--
+-- The tables are only written through these functions (or a backup restore).
+
+create table if not exists stock_transfers (
+    id text primary key,
+    source_branch_id text not null references branches(id),
+    destination_branch_id text not null references branches(id),
+    status text not null default 'sent' check (status in ('sent', 'received')),
+    sent_at timestamptz not null default now(),
+    sent_by text not null,
+    received_at timestamptz,
+    received_by text,
+    notes text,
+    check (source_branch_id <> destination_branch_id)
+);
+
+create table if not exists stock_transfer_items (
+    id text primary key,
+    transfer_id text not null references stock_transfers(id) on delete cascade,
+    product_id text not null,
+    product_name text not null,
+    source_batch_id text not null,
+    lot_number text,
+    purchase_price numeric not null default 0,
+    purchase_date timestamptz,
+    expiry_date timestamptz,
+    quantity numeric not null check (quantity > 0),
+    received_quantity numeric
+);
+
+create table if not exists transfer_discrepancies (
+    id text primary key references stock_transfer_items(id) on delete cascade,
+    transfer_id text not null references stock_transfers(id) on delete cascade,
+    product_id text not null,
+    product_name text not null,
+    lot_number text,
+    sent_quantity numeric not null,
+    received_quantity numeric not null,
+    created_at timestamptz not null default now(),
+    reported_by text not null
+);
+
+create index if not exists stock_transfer_items_transfer_id_idx on stock_transfer_items (transfer_id);
+create index if not exists transfer_discrepancies_transfer_id_idx on transfer_discrepancies (transfer_id);
+
+-- Whoever edits products today can send and receive transfers
+update roles
+set permissions = permissions || array['inventory:transfer_stock', 'inventory:receive_transfer']
+where 'inventory:edit_product' = any(permissions)
+  and not ('inventory:transfer_stock' = any(permissions));
+
+-- --- Row level security: both ends of a transfer can see it ---
+
+alter table stock_transfers enable row level security;
+alter table stock_transfer_items enable row level security;
+alter table transfer_discrepancies enable row level security;
+
+drop policy if exists "branch access" on stock_transfers;
+create policy "branch access" on stock_transfers for all to authenticated
+    using (app_branch_allowed(source_branch_id) or app_branch_allowed(destination_branch_id))
+    with check (app_branch_allowed(source_branch_id) or app_branch_allowed(destination_branch_id));
+
+drop policy if exists "branch access" on stock_transfer_items;
+create policy "branch access" on stock_transfer_items for all to authenticated
+    using (exists (select 1 from stock_transfers t where t.id = transfer_id))
+    with check (exists (select 1 from stock_transfers t where t.id = transfer_id));
+
+drop policy if exists "branch access" on transfer_discrepancies;
+create policy "branch access" on transfer_discrepancies for all to authenticated
+    using (exists (select 1 from stock_transfers t where t.id = transfer_id))
+    with check (exists (select 1 from stock_transfers t where t.id = transfer_id));
+
+do $$
+declare
+    v_table text;
+begin
+    foreach v_table in array array['stock_transfers', 'stock_transfer_items', 'transfer_discrepancies'] loop
+        execute format('drop trigger if exists enforce_write_permission on %I', v_table);
+        execute format(
+            'create trigger enforce_write_permission before insert or update or delete on %I for each statement execute function enforce_write_permission(%L, %L, %L)',
+            v_table, '', '', ''
+        );
+    end loop;
+end;
+$$;
+
+-- --- Send ---
+-- p_items: stock_transfer_items rows. Lot, cost and dates are copied from the source batch
+-- here rather than trusted from the client.
+create or replace function send_stock_transfer(p_transfer jsonb, p_items jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_transfer stock_transfers;
+    v_deductions jsonb;
+begin
+    perform require_permission('inventory:transfer_stock');
+
+    v_transfer := jsonb_populate_record(null::stock_transfers, p_transfer);
+    perform require_branch_access(v_transfer.source_branch_id);
+    if v_transfer.source_branch_id = v_transfer.destination_branch_id then
+        raise exception 'transfer_same_branch:%', v_transfer.id;
+    end if;
+
+    select coalesce(jsonb_agg(jsonb_build_object('batch_id', i->>'source_batch_id', 'quantity', (i->>'quantity')::numeric)), '[]'::jsonb)
+    into v_deductions
+    from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) i;
+
+    perform check_deduction_branch(v_deductions, v_transfer.source_branch_id);
+    perform deduct_batch_stock(v_deductions);
+
+    insert into stock_transfers (id, source_branch_id, destination_branch_id, status, sent_at, sent_by, notes)
+    values (v_transfer.id, v_transfer.source_branch_id, v_transfer.destination_branch_id, 'sent',
+            coalesce(v_transfer.sent_at, now()), v_transfer.sent_by, v_transfer.notes);
+
+    insert into stock_transfer_items (id, transfer_id, product_id, product_name, source_batch_id, quantity)
+    select id, v_transfer.id, product_id, product_name, source_batch_id, quantity
+    from jsonb_populate_recordset(null::stock_transfer_items, coalesce(p_items, '[]'::jsonb));
+
+    update stock_transfer_items i
+    set product_id = b.product_id::text,
+        lot_number = b.lot_number,
+        purchase_price = b.purchase_price,
+        purchase_date = b.purchase_date,
+        expiry_date = b.expiry_date
+    from product_batches b
+    where b.id::text = i.source_batch_id and i.transfer_id = v_transfer.id;
+end;
+$$;
+
+-- --- Receive ---
+-- p_receipt: [{ "item_id": "...", "received_quantity": 5, "batch_id": "..." }]
+--   batch_id is the destination batch chosen by the client (an existing batch of the same lot
+--   in the destination branch, or a new id), so local and server ids stay the same.
+--   Items left out of p_receipt are taken as fully received.
+create or replace function receive_stock_transfer(p_transfer_id text, p_receipt jsonb, p_received_at timestamptz, p_received_by text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_transfer stock_transfers;
+    v_item stock_transfer_items;
+    v_line jsonb;
+    v_received numeric;
+    v_batch_id text;
+begin
+    perform require_permission('inventory:receive_transfer');
+
+    select * into v_transfer from stock_transfers where id = p_transfer_id for update;
+    if not found then
+        raise exception 'transfer_not_found:%', p_transfer_id;
+    end if;
+    if v_transfer.status <> 'sent' then
+        raise exception 'transfer_already_received:%', p_transfer_id;
+    end if;
+    perform require_branch_access(v_transfer.destination_branch_id);
+
+    for v_item in select * from stock_transfer_items where transfer_id = p_transfer_id loop
+        select l into v_line
+        from jsonb_array_elements(coalesce(p_receipt, '[]'::jsonb)) l
+        where l->>'item_id' = v_item.id;
+
+        v_received := coalesce((v_line->>'received_quantity')::numeric, v_item.quantity);
+        if v_received < 0 or v_received > v_item.quantity then
+            raise exception 'invalid_received_quantity:%', v_item.id;
+        end if;
+
+        if v_received > 0 then
+            v_batch_id := coalesce(v_line->>'batch_id', gen_random_uuid()::text);
+
+            update product_batches
+            set stock = stock + v_received
+            where id::text = v_batch_id
+              and product_id::text = v_item.product_id
+              and branch_id = v_transfer.destination_branch_id
+              and lot_number is not distinct from v_item.lot_number;
+
+            if not found then
+                insert into product_batches (id, product_id, lot_number, stock, purchase_price, purchase_date, expiry_date, branch_id)
+                select id, product_id, lot_number, stock, purchase_price, purchase_date, expiry_date, branch_id
+                from jsonb_populate_record(null::product_batches, jsonb_build_object(
+                    'id', v_batch_id,
+                    'product_id', v_item.product_id,
+                    'lot_number', v_item.lot_number,
+                    'stock', v_received,
+                    'purchase_price', v_item.purchase_price,
+                    'purchase_date', coalesce(v_item.purchase_date, p_received_at),
+                    'expiry_date', v_item.expiry_date,
+                    'branch_id', v_transfer.destination_branch_id
+                ));
+            end if;
+        end if;
+
+        update stock_transfer_items set received_quantity = v_received where id = v_item.id;
+
+        if v_received < v_item.quantity then
+            insert into transfer_discrepancies (id, transfer_id, product_id, product_name, lot_number, sent_quantity, received_quantity, created_at, reported_by)
+            values (v_item.id, p_transfer_id, v_item.product_id, v_item.product_name, v_item.lot_number, v_item.quantity, v_received, p_received_at, p_received_by);
+        end if;
+    end loop;
+
+    update stock_transfers
+    set status = 'received', received_at = p_received_at, received_by = p_received_by
+    where id = p_transfer_id;
+end;
+$$;
@@ -0,0 +1,111 @@
+-- Physical stock counts (stocktakes).
+--
+-- A count runs on one device (the draft lives in the browser) and is posted in one step:
+-- post_stocktake stores the count, adds (counted - expected) to each counted batch, books the
+-- cost of missing goods as a 'shrinkage' expense and writes the activity log entries.
+
+create table if not exists stocktakes (
+    id text primary key,
+    branch_id text not null references branches(id),
+    status text not null default 'posted' check (status in ('counting', 'posted')),
+    started_at timestamptz not null,
+    started_by text not null,
+    posted_at timestamptz,
+    posted_by text,
+    shrinkage_expense_id text
+);
+
+create table if not exists stocktake_lines (
+    stocktake_id text not null references stocktakes(id) on delete cascade,
+    batch_id text not null,
+    product_id text not null,
+    product_name text not null,
+    lot_number text,
+    purchase_price numeric not null default 0,
+    expected_stock numeric not null,
+    counted_stock numeric,
+    primary key (stocktake_id, batch_id)
+);
+
+-- Whoever edits products today can count stock
+update roles
+set permissions = array_append(permissions, 'inventory:stocktake')
+where 'inventory:edit_product' = any(permissions)
+  and not ('inventory:stocktake' = any(permissions));
+
+alter table stocktakes enable row level security;
+alter table stocktake_lines enable row level security;
+
+drop policy if exists "branch access" on stocktakes;
+create policy "branch access" on stocktakes for all to authenticated
+    using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id));
+
+drop policy if exists "branch access" on stocktake_lines;
+create policy "branch access" on stocktake_lines for all to authenticated
+    using (exists (select 1 from stocktakes s where s.id = stocktake_id))
+    with check (exists (select 1 from stocktakes s where s.id = stocktake_id));
+
+do $$
+declare
+    v_table text;
+begin
+    foreach v_table in array array['stocktakes', 'stocktake_lines'] loop
+        execute format('drop trigger if exists enforce_write_permission on %I', v_table);
+        execute format(
+            'create trigger enforce_write_permission before insert or update or delete on %I for each statement execute function enforce_write_permission(%L, %L, %L)',
+            v_table, '', '', ''
+        );
+    end loop;
+end;
+$$;
+
+-- p_stocktake: stocktakes row, p_lines: stocktake_lines rows,
+-- p_expense: expenses row or null, p_activities: activity_logs rows
+create or replace function post_stocktake(p_stocktake jsonb, p_lines jsonb, p_expense jsonb, p_activities jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_stocktake stocktakes;
+    v_line stocktake_lines;
+begin
+    perform require_permission('inventory:stocktake');
+
+    v_stocktake := jsonb_populate_record(null::stocktakes, p_stocktake);
+    perform require_branch_access(v_stocktake.branch_id);
+
+    insert into stocktakes (id, branch_id, status, started_at, started_by, posted_at, posted_by, shrinkage_expense_id)
+    values (v_stocktake.id, v_stocktake.branch_id, 'posted', v_stocktake.started_at, v_stocktake.started_by,
+            coalesce(v_stocktake.posted_at, now()), v_stocktake.posted_by, v_stocktake.shrinkage_expense_id);
+
+    insert into stocktake_lines (stocktake_id, batch_id, product_id, product_name, lot_number, purchase_price, expected_stock, counted_stock)
+    select v_stocktake.id, batch_id, product_id, product_name, lot_number, purchase_price, expected_stock, counted_stock
+    from jsonb_populate_recordset(null::stocktake_lines, coalesce(p_lines, '[]'::jsonb));
+
+    -- The variance is applied on top of the current stock. Sales during the count can make the
+    -- result negative if the count was wrong; the batch then stops at zero.
+    for v_line in select * from stocktake_lines where stocktake_id = v_stocktake.id and counted_stock is not null loop
+        if v_line.counted_stock <> v_line.expected_stock then
+            update product_batches
+            set stock = greatest(stock + (v_line.counted_stock - v_line.expected_stock), 0)
+            where id::text = v_line.batch_id and branch_id = v_stocktake.branch_id;
+
+            if not found then
+                raise exception 'batch_not_found:%', v_line.batch_id;
+            end if;
+        end if;
+    end loop;
+
+    if p_expense is not null and jsonb_typeof(p_expense) <> 'null' then
+        insert into expenses (id, category, description, amount, date, branch_id)
+        select id, category, description, amount, date, branch_id
+        from jsonb_populate_record(null::expenses, p_expense);
+    end if;
+
+    insert into activity_logs (id, type, description, timestamp, "user", ref_id, ref_type)
+    select id, type, description, timestamp, "user", ref_id, ref_type
+    from jsonb_populate_recordset(null::activity_logs, coalesce(p_activities, '[]'::jsonb));
+end;
+$$;
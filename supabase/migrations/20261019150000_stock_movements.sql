@@ -0,0 +1,392 @@
+-- Stock movement ledger.
+--
+-- Every change to product_batches.stock is written to stock_movements by a trigger, so the
+-- stock of a batch is always the sum of its movements. The reason and the document it belongs
+-- to come from (in this order):
+--   * movement_reason / movement_ref / movement_note set on the batch row by the client
+--     (purchases, purchase returns); the trigger clears them again, they are never stored,
+--   * set_stock_context(), called by the sale, transfer and stocktake functions,
+--   * 'opening' for new batches and 'correction' for anything else.
+-- Manual adjustments (damage, theft, ...) go through adjust_stock().
+
+create table if not exists stock_movements (
+    id uuid primary key default gen_random_uuid(),
+    batch_id text not null,
+    product_id text not null,
+    branch_id text not null,
+    lot_number text,
+    delta numeric not null,
+    stock_after numeric not null,
+    unit_cost numeric not null default 0,
+    reason text not null,
+    ref_id text,
+    note text,
+    "user" text not null,
+    timestamp timestamptz not null default now()
+);
+
+create index if not exists stock_movements_batch_id_idx on stock_movements (batch_id);
+create index if not exists stock_movements_product_id_idx on stock_movements (product_id);
+create index if not exists stock_movements_timestamp_idx on stock_movements (timestamp);
+
+alter table product_batches add column if not exists movement_reason text;
+alter table product_batches add column if not exists movement_ref text;
+alter table product_batches add column if not exists movement_note text;
+
+-- Existing stock becomes the opening balance of the ledger
+insert into stock_movements (batch_id, product_id, branch_id, lot_number, delta, stock_after, unit_cost, reason, "user", timestamp)
+select id::text, product_id::text, branch_id, lot_number, stock, stock, purchase_price, 'opening', 'system', now()
+from product_batches
+where stock <> 0
+  and not exists (select 1 from stock_movements m where m.batch_id = product_batches.id::text);
+
+-- Whoever edits products today can adjust stock
+update roles
+set permissions = array_append(permissions, 'inventory:adjust_stock')
+where 'inventory:edit_product' = any(permissions)
+  and not ('inventory:adjust_stock' = any(permissions));
+
+alter table stock_movements enable row level security;
+drop policy if exists "branch access" on stock_movements;
+create policy "branch access" on stock_movements for all to authenticated
+    using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id));
+
+drop trigger if exists enforce_write_permission on stock_movements;
+create trigger enforce_write_permission before insert or update or delete on stock_movements
+    for each statement execute function enforce_write_permission('', '', '');
+
+-- --- Ledger trigger ---
+
+create or replace function set_stock_context(p_reason text, p_ref text default null)
+returns void
+language plpgsql
+as $$
+begin
+    perform set_config('app.stock_reason', p_reason, true);
+    perform set_config('app.stock_ref', coalesce(p_ref, ''), true);
+end;
+$$;
+
+-- Security definer so the ledger row is written whatever the caller is allowed to write
+create or replace function log_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_row product_batches;
+    v_delta numeric;
+    v_reason text;
+    v_ref text;
+    v_note text;
+begin
+    if tg_op = 'DELETE' then
+        v_row := old;
+        v_delta := -old.stock;
+    else
+        v_row := new;
+        v_delta := new.stock - case when tg_op = 'INSERT' then 0 else old.stock end;
+        v_reason := new.movement_reason;
+        v_ref := new.movement_ref;
+        v_note := new.movement_note;
+        new.movement_reason := null;
+        new.movement_ref := null;
+        new.movement_note := null;
+    end if;
+
+    if v_delta <> 0 then
+        insert into stock_movements (batch_id, product_id, branch_id, lot_number, delta, stock_after, unit_cost, reason, ref_id, note, "user")
+        values (
+            v_row.id::text, v_row.product_id::text, v_row.branch_id, v_row.lot_number, v_delta,
+            case when tg_op = 'DELETE' then 0 else new.stock end,
+            coalesce(v_row.purchase_price, 0),
+            coalesce(v_reason, nullif(current_setting('app.stock_reason', true), ''), case when tg_op = 'INSERT' then 'opening' else 'correction' end),
+            coalesce(v_ref, nullif(current_setting('app.stock_ref', true), '')),
+            v_note,
+            coalesce(auth.jwt()->>'username', 'system')
+        );
+    end if;
+
+    if tg_op = 'DELETE' then
+        return old;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists log_stock_movement on product_batches;
+create trigger log_stock_movement before insert or update of stock or delete on product_batches
+    for each row execute function log_stock_movement();
+
+-- --- Manual adjustments ---
+-- p_adjustments: [{ "batch_id": "...", "delta": -2, "reason": "damage", "note": "..." }]
+create or replace function adjust_stock(p_adjustments jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_line jsonb;
+    v_branch_id text;
+begin
+    perform require_permission('inventory:adjust_stock');
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_adjustments, '[]'::jsonb)) loop
+        if v_line->>'reason' not in ('damage', 'theft', 'internal_use', 'gift', 'correction', 'expiry_writeoff') then
+            raise exception 'invalid_reason:%', v_line->>'reason';
+        end if;
+
+        select branch_id into v_branch_id from product_batches where id::text = v_line->>'batch_id' for update;
+        if not found then
+            raise exception 'batch_not_found:%', v_line->>'batch_id';
+        end if;
+        perform require_branch_access(v_branch_id);
+
+        update product_batches
+        set stock = stock + (v_line->>'delta')::numeric,
+            movement_reason = v_line->>'reason',
+            movement_note = nullif(v_line->>'note', '')
+        where id::text = v_line->>'batch_id'
+          and stock + (v_line->>'delta')::numeric >= 0;
+
+        if not found then
+            raise exception 'insufficient_stock:%', v_line->>'batch_id';
+        end if;
+    end loop;
+end;
+$$;
+
+-- --- Document functions: tag their stock changes ---
+
+create or replace function create_sale(p_invoice jsonb, p_items jsonb, p_deductions jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access(p_invoice->>'branch_id');
+    perform set_stock_context('sale', p_invoice->>'id');
+    perform check_deduction_branch(p_deductions, p_invoice->>'branch_id');
+    perform create_sale_unchecked(p_invoice, p_items, p_deductions, p_customer);
+end;
+$$;
+
+create or replace function update_sale(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:edit_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access((select branch_id from sale_invoices where id::text = p_invoice_id));
+    perform set_stock_context('sale_edit', p_invoice_id);
+    perform update_sale_unchecked(p_invoice_id, p_invoice, p_items, p_restores, p_deductions, p_customer);
+end;
+$$;
+
+create or replace function create_sale_return(p_invoice jsonb, p_items jsonb, p_restores jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    perform require_branch_access(p_invoice->>'branch_id');
+    perform set_stock_context('sale_return', p_invoice->>'id');
+    perform create_sale_return_unchecked(p_invoice, p_items, p_restores, p_customer);
+end;
+$$;
+
+create or replace function send_stock_transfer(p_transfer jsonb, p_items jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_transfer stock_transfers;
+    v_deductions jsonb;
+begin
+    perform require_permission('inventory:transfer_stock');
+
+    v_transfer := jsonb_populate_record(null::stock_transfers, p_transfer);
+    perform require_branch_access(v_transfer.source_branch_id);
+    perform set_stock_context('transfer_out', v_transfer.id);
+    if v_transfer.source_branch_id = v_transfer.destination_branch_id then
+        raise exception 'transfer_same_branch:%', v_transfer.id;
+    end if;
+
+    select coalesce(jsonb_agg(jsonb_build_object('batch_id', i->>'source_batch_id', 'quantity', (i->>'quantity')::numeric)), '[]'::jsonb)
+    into v_deductions
+    from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) i;
+
+    perform check_deduction_branch(v_deductions, v_transfer.source_branch_id);
+    perform deduct_batch_stock(v_deductions);
+
+    insert into stock_transfers (id, source_branch_id, destination_branch_id, status, sent_at, sent_by, notes)
+    values (v_transfer.id, v_transfer.source_branch_id, v_transfer.destination_branch_id, 'sent',
+            coalesce(v_transfer.sent_at, now()), v_transfer.sent_by, v_transfer.notes);
+
+    insert into stock_transfer_items (id, transfer_id, product_id, product_name, source_batch_id, quantity)
+    select id, v_transfer.id, product_id, product_name, source_batch_id, quantity
+    from jsonb_populate_recordset(null::stock_transfer_items, coalesce(p_items, '[]'::jsonb));
+
+    update stock_transfer_items i
+    set product_id = b.product_id::text,
+        lot_number = b.lot_number,
+        purchase_price = b.purchase_price,
+        purchase_date = b.purchase_date,
+        expiry_date = b.expiry_date
+    from product_batches b
+    where b.id::text = i.source_batch_id and i.transfer_id = v_transfer.id;
+end;
+$$;
+
+create or replace function receive_stock_transfer(p_transfer_id text, p_receipt jsonb, p_received_at timestamptz, p_received_by text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_transfer stock_transfers;
+    v_item stock_transfer_items;
+    v_line jsonb;
+    v_received numeric;
+    v_batch_id text;
+begin
+    perform require_permission('inventory:receive_transfer');
+
+    select * into v_transfer from stock_transfers where id = p_transfer_id for update;
+    if not found then
+        raise exception 'transfer_not_found:%', p_transfer_id;
+    end if;
+    if v_transfer.status <> 'sent' then
+        raise exception 'transfer_already_received:%', p_transfer_id;
+    end if;
+    perform require_branch_access(v_transfer.destination_branch_id);
+    perform set_stock_context('transfer_in', p_transfer_id);
+
+    for v_item in select * from stock_transfer_items where transfer_id = p_transfer_id loop
+        select l into v_line
+        from jsonb_array_elements(coalesce(p_receipt, '[]'::jsonb)) l
+        where l->>'item_id' = v_item.id;
+
+        v_received := coalesce((v_line->>'received_quantity')::numeric, v_item.quantity);
+        if v_received < 0 or v_received > v_item.quantity then
+            raise exception 'invalid_received_quantity:%', v_item.id;
+        end if;
+
+        if v_received > 0 then
+            v_batch_id := coalesce(v_line->>'batch_id', gen_random_uuid()::text);
+
+            update product_batches
+            set stock = stock + v_received
+            where id::text = v_batch_id
+              and product_id::text = v_item.product_id
+              and branch_id = v_transfer.destination_branch_id
+              and lot_number is not distinct from v_item.lot_number;
+
+            if not found then
+                insert into product_batches (id, product_id, lot_number, stock, purchase_price, purchase_date, expiry_date, branch_id)
+                select id, product_id, lot_number, stock, purchase_price, purchase_date, expiry_date, branch_id
+                from jsonb_populate_record(null::product_batches, jsonb_build_object(
+                    'id', v_batch_id,
+                    'product_id', v_item.product_id,
+                    'lot_number', v_item.lot_number,
+                    'stock', v_received,
+                    'purchase_price', v_item.purchase_price,
+                    'purchase_date', coalesce(v_item.purchase_date, p_received_at),
+                    'expiry_date', v_item.expiry_date,
+                    'branch_id', v_transfer.destination_branch_id
+                ));
+            end if;
+        end if;
+
+        update stock_transfer_items set received_quantity = v_received where id = v_item.id;
+
+        if v_received < v_item.quantity then
+            insert into transfer_discrepancies (id, transfer_id, product_id, product_name, lot_number, sent_quantity, received_quantity, created_at, reported_by)
+            values (v_item.id, p_transfer_id, v_item.product_id, v_item.product_name, v_item.lot_number, v_item.quantity, v_received, p_received_at, p_received_by);
+        end if;
+    end loop;
+
+    update stock_transfers
+    set status = 'received', received_at = p_received_at, received_by = p_received_by
+    where id = p_transfer_id;
+end;
+$$;
+
+create or replace function post_stocktake(p_stocktake jsonb, p_lines jsonb, p_expense jsonb, p_activities jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_stocktake stocktakes;
+    v_line stocktake_lines;
+begin
+    perform require_permission('inventory:stocktake');
+
+    v_stocktake := jsonb_populate_record(null::stocktakes, p_stocktake);
+    perform require_branch_access(v_stocktake.branch_id);
+    perform set_stock_context('stocktake', v_stocktake.id);
+
+    insert into stocktakes (id, branch_id, status, started_at, started_by, posted_at, posted_by, shrinkage_expense_id)
+    values (v_stocktake.id, v_stocktake.branch_id, 'posted', v_stocktake.started_at, v_stocktake.started_by,
+            coalesce(v_stocktake.posted_at, now()), v_stocktake.posted_by, v_stocktake.shrinkage_expense_id);
+
+    insert into stocktake_lines (stocktake_id, batch_id, product_id, product_name, lot_number, purchase_price, expected_stock, counted_stock)
+    select v_stocktake.id, batch_id, product_id, product_name, lot_number, purchase_price, expected_stock, counted_stock
+    from jsonb_populate_recordset(null::stocktake_lines, coalesce(p_lines, '[]'::jsonb));
+
+    -- The variance is applied on top of the current stock. Sales during the count can make the
+    -- result negative if the count was wrong; the batch then stops at zero.
+    for v_line in select * from stocktake_lines where stocktake_id = v_stocktake.id and counted_stock is not null loop
+        if v_line.counted_stock <> v_line.expected_stock then
+            update product_batches
+            set stock = greatest(stock + (v_line.counted_stock - v_line.expected_stock), 0)
+            where id::text = v_line.batch_id and branch_id = v_stocktake.branch_id;
+
+            if not found then
+                raise exception 'batch_not_found:%', v_line.batch_id;
+            end if;
+        end if;
+    end loop;
+
+    if p_expense is not null and jsonb_typeof(p_expense) <> 'null' then
+        insert into expenses (id, category, description, amount, date, branch_id)
+        select id, category, description, amount, date, branch_id
+        from jsonb_populate_record(null::expenses, p_expense);
+    end if;
+
+    insert into activity_logs (id, type, description, timestamp, "user", ref_id, ref_type)
+    select id, type, description, timestamp, "user", ref_id, ref_type
+    from jsonb_populate_recordset(null::activity_logs, coalesce(p_activities, '[]'::jsonb));
+end;
+$$;
+
+revoke execute on function
+    log_stock_movement(),
+    set_stock_context(text, text)
+from public, anon, authenticated;
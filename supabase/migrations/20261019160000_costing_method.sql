@@ -0,0 +1,9 @@
+-- Costing method used for batch depletion and the cost snapshot on sale items.
+--   fifo:    oldest purchase first
+--   fefo:    earliest expiry first, then oldest purchase (the behaviour so far)
+--   average: moving weighted average; every purchase revalues the product's batches in the
+--            receiving branch to the new average (the app does that when saving the purchase)
+
+alter table store_settings
+    add column if not exists costing_method text not null default 'fefo'
+    check (costing_method in ('fifo', 'fefo', 'average'));
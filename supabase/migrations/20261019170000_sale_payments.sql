@@ -0,0 +1,131 @@
+-- Payment lines on sale invoices (split tender).
+--
+-- payments holds what the customer handed over, one element per tender:
+--   { "method": "cash_afn" | "cash_usd" | "card" | "mobile_money" | "on_account",
+--     "amount": <base currency>, "foreign_amount": <dollars, cash_usd only>, "exchange_rate": ...,
+--     "provider": "M-Paisa", "reference": "..." }
+-- change_amount is the change given back in cash (base currency), so the tenders minus the
+-- change add up to the invoice total. Invoices saved before this have no payment lines:
+-- they were paid in cash, or on account when a customer is set.
+
+alter table sale_invoices add column if not exists payments jsonb not null default '[]';
+alter table sale_invoices add column if not exists change_amount numeric not null default 0;
+
+create or replace function check_sale_payments(p_invoice jsonb)
+returns void
+language plpgsql
+immutable
+as $$
+declare
+    v_payments jsonb := coalesce(p_invoice->'payments', '[]'::jsonb);
+    v_change numeric := coalesce((p_invoice->>'change_amount')::numeric, 0);
+    v_paid numeric;
+    v_cash numeric;
+begin
+    if jsonb_typeof(v_payments) <> 'array' or jsonb_array_length(v_payments) = 0 then
+        return;
+    end if;
+
+    if exists (
+        select 1 from jsonb_array_elements(v_payments) p
+        where p->>'method' not in ('cash_afn', 'cash_usd', 'card', 'mobile_money', 'on_account')
+           or coalesce((p->>'amount')::numeric, -1) < 0
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    if nullif(p_invoice->>'customer_id', '') is null and exists (
+        select 1 from jsonb_array_elements(v_payments) p where p->>'method' = 'on_account'
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0),
+           coalesce(sum((p->>'amount')::numeric) filter (where p->>'method' in ('cash_afn', 'cash_usd')), 0)
+    into v_paid, v_cash
+    from jsonb_array_elements(v_payments) p;
+
+    -- Change only comes out of cash, and what is left must cover the total exactly
+    if v_change < 0 or v_change > v_cash or abs(v_paid - v_change - (p_invoice->>'total_amount')::numeric) > 0.01 then
+        raise exception 'payment_mismatch:%', p_invoice->>'id';
+    end if;
+end;
+$$;
+
+create or replace function insert_sale_invoice(p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    perform check_sale_payments(p_invoice);
+
+    insert into sale_invoices (id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id, payments, change_amount)
+    select id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+           coalesce(payments, '[]'::jsonb), coalesce(change_amount, 0)
+    from jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+end;
+$$;
+
+create or replace function update_sale_unchecked(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_branch_id text;
+    v_line jsonb;
+    v_tx record;
+begin
+    select branch_id into v_branch_id from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+
+    perform check_deduction_branch(p_deductions, v_branch_id);
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric, v_branch_id);
+    end loop;
+
+    for v_tx in
+        select id, customer_id, amount from customer_transactions
+        where invoice_id::text = p_invoice_id and type = 'credit_sale'
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+        delete from customer_transactions where id = v_tx.id;
+    end loop;
+
+    perform deduct_batch_stock(p_deductions);
+
+    perform check_sale_payments(p_invoice);
+
+    update sale_invoices s
+    set subtotal = r.subtotal,
+        total_discount = r.total_discount,
+        total_amount = r.total_amount,
+        customer_id = r.customer_id,
+        payments = coalesce(r.payments, '[]'::jsonb),
+        change_amount = coalesce(r.change_amount, 0)
+    from jsonb_populate_record(null::sale_invoices, p_invoice) r
+    where s.id::text = p_invoice_id;
+
+    delete from sale_invoice_items where invoice_id::text = p_invoice_id;
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
+
+revoke execute on function check_sale_payments(jsonb) from public, anon, authenticated;
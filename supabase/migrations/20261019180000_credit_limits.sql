@@ -0,0 +1,84 @@
+-- Customer credit limits.
+--
+-- A credit sale may not push a customer's balance above customers.credit_limit (null = no
+-- limit). A user holding pos:override_credit_limit can approve one sale above the limit:
+-- /api/credit-override checks their credentials and stores an approval here, and the sale
+-- passes its id along with the customer update ("override_id"). Each approval covers one
+-- invoice, one customer and at most the approved amount, and expires after 15 minutes.
+
+alter table customers add column if not exists credit_limit numeric;
+
+create table if not exists credit_limit_overrides (
+    id uuid primary key default gen_random_uuid(),
+    customer_id text not null,
+    amount numeric not null,
+    requested_by text not null,
+    approved_by text not null,
+    created_at timestamptz not null default now(),
+    invoice_id text
+);
+
+-- Written by the API with the service role and read by the sale functions only
+alter table credit_limit_overrides enable row level security;
+revoke all on credit_limit_overrides from anon, authenticated;
+
+-- Whoever may edit invoices today may approve going over a limit
+update roles
+set permissions = array_append(permissions, 'pos:override_credit_limit')
+where 'pos:edit_invoice' = any(permissions)
+  and not ('pos:override_credit_limit' = any(permissions));
+
+-- p_customer: { "id": "...", "amount": 100, "transaction": { customer_transactions row }, "override_id": "..." }
+-- amount is added to the current balance (negative for refunds) instead of overwriting it.
+-- For edits the old credit has already been reverted, so the check sees the balance as it will be.
+create or replace function apply_customer_transaction(p_customer jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_amount numeric;
+    v_balance numeric;
+    v_limit numeric;
+    v_override_id text;
+begin
+    if p_customer is null or jsonb_typeof(p_customer) = 'null' then
+        return;
+    end if;
+
+    v_amount := (p_customer->>'amount')::numeric;
+
+    update customers
+    set balance = balance + v_amount
+    where id::text = p_customer->>'id'
+    returning balance, credit_limit into v_balance, v_limit;
+
+    if not found then
+        raise exception 'customer_not_found:%', p_customer->>'id';
+    end if;
+
+    if v_amount > 0 and v_limit is not null and v_balance > v_limit + 0.01 then
+        v_override_id := nullif(p_customer->>'override_id', '');
+        if v_override_id is null then
+            raise exception 'credit_limit_exceeded:%', p_customer->>'id';
+        end if;
+
+        update credit_limit_overrides
+        set invoice_id = p_customer->'transaction'->>'invoice_id'
+        where id::text = v_override_id
+          and customer_id = p_customer->>'id'
+          and amount >= v_amount - 0.01
+          and created_at > now() - interval '15 minutes'
+          and (invoice_id is null or invoice_id = p_customer->'transaction'->>'invoice_id');
+
+        if not found then
+            raise exception 'credit_override_invalid:%', v_override_id;
+        end if;
+    end if;
+
+    insert into customer_transactions (id, customer_id, type, amount, date, description, invoice_id)
+    select id, customer_id, type, amount, date, description, invoice_id
+    from jsonb_populate_record(null::customer_transactions, p_customer->'transaction');
+end;
+$$;
+
+revoke execute on function apply_customer_transaction(jsonb) from public, anon, authenticated;
@@ -0,0 +1,37 @@
+-- Cash drawer shifts.
+--
+-- A cashier opens a shift in a branch with a counted float and closes it with the counted
+-- cash. expected_cash is stored at closing so the Z report can be printed again later with
+-- the figures the cashier saw. Sales belong to a shift through their cashier, branch and
+-- time; customer payments and expenses taken from the drawer carry the shift id.
+
+create table if not exists cash_shifts (
+    id text primary key,
+    branch_id text not null references branches(id),
+    cashier text not null,
+    status text not null default 'open' check (status in ('open', 'closed')),
+    opened_at timestamptz not null,
+    opening_float numeric not null default 0,
+    closed_at timestamptz,
+    counted_cash numeric,
+    expected_cash numeric,
+    note text
+);
+
+-- One open drawer per cashier and branch
+create unique index if not exists cash_shifts_one_open
+    on cash_shifts (branch_id, cashier) where status = 'open';
+create index if not exists cash_shifts_opened_at on cash_shifts (opened_at desc);
+
+alter table customer_transactions add column if not exists shift_id text;
+alter table expenses add column if not exists shift_id text;
+
+alter table cash_shifts enable row level security;
+
+drop policy if exists "branch access" on cash_shifts;
+create policy "branch access" on cash_shifts for all to authenticated
+    using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id));
+
+drop trigger if exists enforce_write_permission on cash_shifts;
+create trigger enforce_write_permission before insert or update or delete on cash_shifts
+    for each statement execute function enforce_write_permission('pos:create_invoice', 'pos:create_invoice', '');
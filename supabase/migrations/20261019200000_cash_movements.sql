@@ -0,0 +1,72 @@
+-- Cash put into or taken out of a till outside of sales (float top-ups, petty purchases,
+-- owner withdrawals, ...). Every movement belongs to an open cash shift and counts towards
+-- its expected cash. A cash-out can also be booked as an expense; that expense has no
+-- shift_id, so the drawer is only reduced once.
+
+create table if not exists cash_movements (
+    id text primary key,
+    shift_id text not null references cash_shifts(id),
+    branch_id text not null references branches(id),
+    type text not null check (type in ('in', 'out')),
+    amount numeric not null check (amount > 0),
+    reason text not null check (reason in ('float_top_up', 'petty_purchase', 'owner_withdrawal', 'bank_deposit', 'other')),
+    note text,
+    "user" text not null,
+    timestamp timestamptz not null default now(),
+    expense_id text
+);
+
+create index if not exists cash_movements_shift on cash_movements (shift_id);
+
+-- Whoever runs a till today may record cash in and out of it
+update roles
+set permissions = array_append(permissions, 'pos:cash_movement')
+where 'pos:create_invoice' = any(permissions)
+  and not ('pos:cash_movement' = any(permissions));
+
+alter table cash_movements enable row level security;
+
+drop policy if exists "branch access" on cash_movements;
+create policy "branch access" on cash_movements for all to authenticated
+    using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id));
+
+-- Written by record_cash_movement only
+drop trigger if exists enforce_write_permission on cash_movements;
+create trigger enforce_write_permission before insert or update or delete on cash_movements
+    for each statement execute function enforce_write_permission('', '', '');
+
+-- p_movement: cash_movements row, p_expense: expenses row or null
+create or replace function record_cash_movement(p_movement jsonb, p_expense jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_movement cash_movements;
+begin
+    perform require_permission('pos:cash_movement');
+
+    v_movement := jsonb_populate_record(null::cash_movements, p_movement);
+    perform require_branch_access(v_movement.branch_id);
+
+    perform 1 from cash_shifts
+    where id = v_movement.shift_id and branch_id = v_movement.branch_id and status = 'open';
+    if not found then
+        raise exception 'shift_not_open:%', v_movement.shift_id;
+    end if;
+
+    if p_expense is not null and jsonb_typeof(p_expense) <> 'null' then
+        if v_movement.type <> 'out' then
+            raise exception 'invalid_cash_movement:%', v_movement.id;
+        end if;
+        insert into expenses (id, category, description, amount, date, branch_id)
+        select id, category, description, amount, date, branch_id
+        from jsonb_populate_record(null::expenses, p_expense);
+    end if;
+
+    insert into cash_movements (id, shift_id, branch_id, type, amount, reason, note, "user", timestamp, expense_id)
+    values (v_movement.id, v_movement.shift_id, v_movement.branch_id, v_movement.type, v_movement.amount,
+            v_movement.reason, v_movement.note, v_movement."user", coalesce(v_movement.timestamp, now()), v_movement.expense_id);
+end;
+$$;
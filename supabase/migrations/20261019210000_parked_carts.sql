@@ -0,0 +1,27 @@
+-- Parked (held) carts.
+--
+-- A cashier can put the current cart aside under a label and serve the next customer. The
+-- cart is stored per branch so any cashier of that branch can recall it later, also after a
+-- reload. Recalling deletes the row, so two tills cannot pick up the same cart.
+
+create table if not exists parked_carts (
+    id text primary key,
+    branch_id text not null references branches(id),
+    label text not null,
+    items jsonb not null default '[]'::jsonb,
+    customer_id text,
+    parked_by text not null,
+    parked_at timestamptz not null default now()
+);
+
+create index if not exists parked_carts_branch on parked_carts (branch_id, parked_at desc);
+
+alter table parked_carts enable row level security;
+
+drop policy if exists "branch access" on parked_carts;
+create policy "branch access" on parked_carts for all to authenticated
+    using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id));
+
+drop trigger if exists enforce_write_permission on parked_carts;
+create trigger enforce_write_permission before insert or update or delete on parked_carts
+    for each statement execute function enforce_write_permission('pos:create_invoice', 'pos:create_invoice', 'pos:create_invoice');
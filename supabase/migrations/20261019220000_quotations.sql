@@ -0,0 +1,34 @@
+-- Quotations (pro-forma invoices).
+--
+-- A priced offer built from the POS cart. It reserves no stock; converting it loads the items
+-- into the cart at the current prices, and the sale checks stock as usual. The quotation is
+-- then marked converted with the id of the sale invoice.
+
+create table if not exists quotations (
+    id text primary key,
+    branch_id text not null references branches(id),
+    items jsonb not null default '[]'::jsonb,
+    subtotal numeric not null default 0,
+    total_discount numeric not null default 0,
+    total_amount numeric not null default 0,
+    timestamp timestamptz not null default now(),
+    cashier text not null,
+    customer_id text,
+    customer_name text,
+    valid_until date not null,
+    note text,
+    status text not null default 'open' check (status in ('open', 'converted', 'cancelled')),
+    converted_invoice_id text
+);
+
+create index if not exists quotations_timestamp on quotations (timestamp desc);
+
+alter table quotations enable row level security;
+
+drop policy if exists "branch access" on quotations;
+create policy "branch access" on quotations for all to authenticated
+    using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id));
+
+drop trigger if exists enforce_write_permission on quotations;
+create trigger enforce_write_permission before insert or update or delete on quotations
+    for each statement execute function enforce_write_permission('pos:create_invoice', 'pos:create_invoice', '');
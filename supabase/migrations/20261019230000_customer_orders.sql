@@ -0,0 +1,246 @@
+-- Customer orders (layaway).
+--
+-- A customer orders goods, pays a deposit and collects them later. The order reserves
+-- quantities of specific batches; tills leave reserved stock out of what they can sell. An
+-- order is only written through the functions below:
+--   * create_customer_order checks that the batches still have unreserved stock and records
+--     the first deposit, add_order_deposit records further deposits. Deposits are customer
+--     payments (order_id set), so they lower the customer's balance.
+--   * complete_customer_order closes the order once its sale invoice is saved; the invoice
+--     puts the deposit back on the account ("on_account" payment line).
+--   * cancel_customer_order releases the reservation. The deposit either stays on the
+--     account as credit or is paid back (a "deposit_refund" transaction).
+
+create table if not exists customer_orders (
+    id text primary key,
+    branch_id text not null references branches(id),
+    customer_id text not null,
+    items jsonb not null default '[]'::jsonb,
+    subtotal numeric not null default 0,
+    total_discount numeric not null default 0,
+    total_amount numeric not null default 0,
+    deposit_paid numeric not null default 0,
+    status text not null default 'open' check (status in ('open', 'completed', 'cancelled')),
+    created_at timestamptz not null default now(),
+    cashier text not null,
+    due_date date,
+    note text,
+    invoice_id text,
+    deposit_refunded boolean not null default false
+);
+
+create table if not exists customer_order_reservations (
+    id uuid primary key default gen_random_uuid(),
+    order_id text not null references customer_orders(id) on delete cascade,
+    batch_id text not null,
+    product_id text not null,
+    quantity numeric not null check (quantity > 0)
+);
+
+create index if not exists customer_orders_created_at on customer_orders (created_at desc);
+create index if not exists customer_order_reservations_batch on customer_order_reservations (batch_id);
+
+alter table customer_transactions add column if not exists order_id text;
+
+alter table customer_orders enable row level security;
+alter table customer_order_reservations enable row level security;
+
+drop policy if exists "branch access" on customer_orders;
+create policy "branch access" on customer_orders for all to authenticated
+    using (app_branch_allowed(branch_id)) with check (app_branch_allowed(branch_id));
+
+drop policy if exists "branch access" on customer_order_reservations;
+create policy "branch access" on customer_order_reservations for all to authenticated
+    using (exists (select 1 from customer_orders o where o.id = order_id and app_branch_allowed(o.branch_id)))
+    with check (exists (select 1 from customer_orders o where o.id = order_id and app_branch_allowed(o.branch_id)));
+
+drop trigger if exists enforce_write_permission on customer_orders;
+create trigger enforce_write_permission before insert or update or delete on customer_orders
+    for each statement execute function enforce_write_permission('', '', '');
+
+drop trigger if exists enforce_write_permission on customer_order_reservations;
+create trigger enforce_write_permission before insert or update or delete on customer_order_reservations
+    for each statement execute function enforce_write_permission('', '', '');
+
+-- Same as before, but the transaction keeps its shift and order, and paying back a deposit
+-- is not held against the credit limit (the balance only returns to where it was).
+create or replace function apply_customer_transaction(p_customer jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_amount numeric;
+    v_balance numeric;
+    v_limit numeric;
+    v_override_id text;
+begin
+    if p_customer is null or jsonb_typeof(p_customer) = 'null' then
+        return;
+    end if;
+
+    v_amount := (p_customer->>'amount')::numeric;
+
+    update customers
+    set balance = balance + v_amount
+    where id::text = p_customer->>'id'
+    returning balance, credit_limit into v_balance, v_limit;
+
+    if not found then
+        raise exception 'customer_not_found:%', p_customer->>'id';
+    end if;
+
+    if v_amount > 0 and v_limit is not null and v_balance > v_limit + 0.01
+       and coalesce(p_customer->'transaction'->>'type', '') <> 'deposit_refund' then
+        v_override_id := nullif(p_customer->>'override_id', '');
+        if v_override_id is null then
+            raise exception 'credit_limit_exceeded:%', p_customer->>'id';
+        end if;
+
+        update credit_limit_overrides
+        set invoice_id = p_customer->'transaction'->>'invoice_id'
+        where id::text = v_override_id
+          and customer_id = p_customer->>'id'
+          and amount >= v_amount - 0.01
+          and created_at > now() - interval '15 minutes'
+          and (invoice_id is null or invoice_id = p_customer->'transaction'->>'invoice_id');
+
+        if not found then
+            raise exception 'credit_override_invalid:%', v_override_id;
+        end if;
+    end if;
+
+    insert into customer_transactions (id, customer_id, type, amount, date, description, invoice_id, shift_id, order_id)
+    select id, customer_id, type, amount, date, description, invoice_id, shift_id, order_id
+    from jsonb_populate_record(null::customer_transactions, p_customer->'transaction');
+end;
+$$;
+
+revoke execute on function apply_customer_transaction(jsonb) from public, anon, authenticated;
+
+-- p_order: customer_orders row, p_reservations: customer_order_reservations rows,
+-- p_customer: the first deposit (see apply_customer_transaction) or null
+create or replace function create_customer_order(p_order jsonb, p_reservations jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_order customer_orders;
+    v_reservation customer_order_reservations;
+    v_stock numeric;
+    v_reserved numeric;
+begin
+    perform require_permission('pos:create_invoice');
+
+    v_order := jsonb_populate_record(null::customer_orders, p_order);
+    perform require_branch_access(v_order.branch_id);
+
+    for v_reservation in select * from jsonb_populate_recordset(null::customer_order_reservations, coalesce(p_reservations, '[]'::jsonb)) loop
+        -- Locks the batch so two tills cannot reserve or sell the same units at once
+        select stock into v_stock
+        from product_batches
+        where id::text = v_reservation.batch_id and branch_id = v_order.branch_id
+        for update;
+
+        if not found then
+            raise exception 'batch_not_found:%', v_reservation.batch_id;
+        end if;
+
+        select coalesce(sum(r.quantity), 0) into v_reserved
+        from customer_order_reservations r
+        join customer_orders o on o.id = r.order_id
+        where o.status = 'open' and r.batch_id = v_reservation.batch_id;
+
+        if v_stock - v_reserved < v_reservation.quantity then
+            raise exception 'insufficient_stock:%', v_reservation.product_id;
+        end if;
+    end loop;
+
+    insert into customer_orders (id, branch_id, customer_id, items, subtotal, total_discount, total_amount, deposit_paid,
+                                 status, created_at, cashier, due_date, note)
+    values (v_order.id, v_order.branch_id, v_order.customer_id, v_order.items, v_order.subtotal, v_order.total_discount,
+            v_order.total_amount, coalesce(v_order.deposit_paid, 0), 'open', coalesce(v_order.created_at, now()),
+            v_order.cashier, v_order.due_date, v_order.note);
+
+    insert into customer_order_reservations (order_id, batch_id, product_id, quantity)
+    select v_order.id, batch_id, product_id, quantity
+    from jsonb_populate_recordset(null::customer_order_reservations, coalesce(p_reservations, '[]'::jsonb));
+
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
+
+create or replace function add_order_deposit(p_order_id text, p_amount numeric, p_customer jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_order customer_orders;
+begin
+    perform require_permission('pos:create_invoice');
+
+    select * into v_order from customer_orders where id = p_order_id for update;
+    if not found or v_order.status <> 'open' then
+        raise exception 'order_not_open:%', p_order_id;
+    end if;
+    perform require_branch_access(v_order.branch_id);
+
+    if p_amount <= 0 or v_order.deposit_paid + p_amount > v_order.total_amount + 0.01 then
+        raise exception 'invalid_deposit:%', p_order_id;
+    end if;
+
+    update customer_orders set deposit_paid = deposit_paid + p_amount where id = p_order_id;
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
+
+create or replace function complete_customer_order(p_order_id text, p_invoice_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_order customer_orders;
+begin
+    perform require_permission('pos:create_invoice');
+
+    select * into v_order from customer_orders where id = p_order_id for update;
+    if not found or v_order.status <> 'open' then
+        raise exception 'order_not_open:%', p_order_id;
+    end if;
+    perform require_branch_access(v_order.branch_id);
+
+    update customer_orders set status = 'completed', invoice_id = p_invoice_id where id = p_order_id;
+end;
+$$;
+
+-- p_customer: the refund of the deposit, or null to leave it on the account as credit
+create or replace function cancel_customer_order(p_order_id text, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_order customer_orders;
+begin
+    perform require_permission('pos:create_invoice');
+
+    select * into v_order from customer_orders where id = p_order_id for update;
+    if not found or v_order.status <> 'open' then
+        raise exception 'order_not_open:%', p_order_id;
+    end if;
+    perform require_branch_access(v_order.branch_id);
+
+    update customer_orders
+    set status = 'cancelled',
+        deposit_refunded = p_customer is not null and jsonb_typeof(p_customer) <> 'null'
+    where id = p_order_id;
+
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
@@ -0,0 +1,130 @@
+-- Promotions.
+--
+-- Rules the POS applies to the cart by itself (see utils/promotions.ts):
+--   percent_off / fixed_off   a discount on every unit of the covered products
+--   quantity_tier             a percentage that grows with the quantity on the line (tiers)
+--   buy_x_get_y               every buy_quantity + get_quantity units, get_quantity are free
+--   bundle                    one unit of each product_ids sold together for bundle_price
+-- A rule covers product_ids, or every product of a manufacturer, and only runs inside its date
+-- range, daily time window and days of the week. The rule that priced a sale line is kept on
+-- sale_invoice_items.promotion_id, and all rules of an invoice on sale_invoices.promotion_ids.
+
+create table if not exists promotions (
+    id text primary key,
+    name text not null,
+    type text not null check (type in ('percent_off', 'fixed_off', 'quantity_tier', 'buy_x_get_y', 'bundle')),
+    active boolean not null default true,
+    product_ids text[] not null default '{}',
+    manufacturer text,
+    percent_off numeric check (percent_off between 0 and 100),
+    amount_off numeric check (amount_off >= 0),
+    tiers jsonb not null default '[]'::jsonb, -- [{ "min_quantity": 10, "percent_off": 5 }, ...]
+    buy_quantity integer check (buy_quantity > 0),
+    get_quantity integer check (get_quantity > 0),
+    bundle_price numeric check (bundle_price >= 0),
+    start_date date,
+    end_date date,
+    start_time time,
+    end_time time,
+    days_of_week smallint[] not null default '{}' -- 0 = Sunday; empty means every day
+);
+
+alter table sale_invoice_items add column if not exists promotion_id text;
+alter table sale_invoices add column if not exists promotion_ids text[] not null default '{}';
+
+create index if not exists sale_invoice_items_promotion on sale_invoice_items (promotion_id) where promotion_id is not null;
+
+-- Whoever may change the store details today may define promotions
+update roles
+set permissions = array_append(permissions, 'settings:manage_promotions')
+where 'settings:manage_store' = any(permissions)
+  and not ('settings:manage_promotions' = any(permissions));
+
+alter table promotions enable row level security;
+
+drop policy if exists "authenticated access" on promotions;
+create policy "authenticated access" on promotions for all to authenticated using (true) with check (true);
+
+drop trigger if exists enforce_write_permission on promotions;
+create trigger enforce_write_permission before insert or update or delete on promotions
+    for each statement execute function enforce_write_permission('settings:manage_promotions', 'settings:manage_promotions', 'settings:manage_promotions');
+
+-- Same as before, plus the promotion columns
+
+create or replace function insert_sale_invoice(p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    perform check_sale_payments(p_invoice);
+
+    insert into sale_invoices (id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+                               payments, change_amount, promotion_ids)
+    select id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+           coalesce(payments, '[]'::jsonb), coalesce(change_amount, 0), coalesce(promotion_ids, '{}')
+    from jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+end;
+$$;
+
+create or replace function update_sale_unchecked(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_branch_id text;
+    v_line jsonb;
+    v_tx record;
+begin
+    select branch_id into v_branch_id from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+
+    perform check_deduction_branch(p_deductions, v_branch_id);
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric, v_branch_id);
+    end loop;
+
+    for v_tx in
+        select id, customer_id, amount from customer_transactions
+        where invoice_id::text = p_invoice_id and type = 'credit_sale'
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+        delete from customer_transactions where id = v_tx.id;
+    end loop;
+
+    perform deduct_batch_stock(p_deductions);
+
+    perform check_sale_payments(p_invoice);
+
+    update sale_invoices s
+    set subtotal = r.subtotal,
+        total_discount = r.total_discount,
+        total_amount = r.total_amount,
+        customer_id = r.customer_id,
+        payments = coalesce(r.payments, '[]'::jsonb),
+        change_amount = coalesce(r.change_amount, 0),
+        promotion_ids = coalesce(r.promotion_ids, '{}')
+    from jsonb_populate_record(null::sale_invoices, p_invoice) r
+    where s.id::text = p_invoice_id;
+
+    delete from sale_invoice_items where invoice_id::text = p_invoice_id;
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_customer_transaction(p_customer);
+end;
+$$;
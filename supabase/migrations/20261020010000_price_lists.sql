@@ -0,0 +1,77 @@
+-- Customer price lists and package prices.
+--
+-- A price list (wholesale, schools, ...) sets the price a customer pays: per product, a
+-- unit_price and/or a package_price (a full package of items_per_package units), and for every
+-- other product percent_off the retail prices. A customer with price_list_id buys at that list;
+-- everybody else at products.sale_price, or products.package_price for full packages.
+-- The POS works the prices out (see utils/priceLists.ts); invoices keep the prices charged.
+
+alter table products add column if not exists package_price numeric check (package_price > 0);
+
+create table if not exists price_lists (
+    id text primary key,
+    name text not null unique,
+    percent_off numeric not null default 0 check (percent_off between 0 and 100)
+);
+
+create table if not exists price_list_items (
+    price_list_id text not null references price_lists(id) on delete cascade,
+    product_id text not null references products(id) on delete cascade,
+    unit_price numeric check (unit_price >= 0),
+    package_price numeric check (package_price >= 0),
+    primary key (price_list_id, product_id)
+);
+
+alter table customers add column if not exists price_list_id text references price_lists(id) on delete set null;
+
+-- Whoever may change the store details today may maintain price lists
+update roles
+set permissions = array_append(permissions, 'settings:manage_price_lists')
+where 'settings:manage_store' = any(permissions)
+  and not ('settings:manage_price_lists' = any(permissions));
+
+alter table price_lists enable row level security;
+alter table price_list_items enable row level security;
+
+drop policy if exists "authenticated access" on price_lists;
+create policy "authenticated access" on price_lists for all to authenticated using (true) with check (true);
+
+drop policy if exists "authenticated access" on price_list_items;
+create policy "authenticated access" on price_list_items for all to authenticated using (true) with check (true);
+
+drop trigger if exists enforce_write_permission on price_lists;
+create trigger enforce_write_permission before insert or update or delete on price_lists
+    for each statement execute function enforce_write_permission('', '', 'settings:manage_price_lists');
+
+-- Written by save_price_list only
+drop trigger if exists enforce_write_permission on price_list_items;
+create trigger enforce_write_permission before insert or update or delete on price_list_items
+    for each statement execute function enforce_write_permission('', '', '');
+
+-- Creates or replaces a price list with all of its product prices.
+-- p_list: price_lists row, p_items: price_list_items rows
+create or replace function save_price_list(p_list jsonb, p_items jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_list price_lists;
+begin
+    perform require_permission('settings:manage_price_lists');
+
+    v_list := jsonb_populate_record(null::price_lists, p_list);
+
+    insert into price_lists (id, name, percent_off)
+    values (v_list.id, v_list.name, coalesce(v_list.percent_off, 0))
+    on conflict (id) do update set name = excluded.name, percent_off = excluded.percent_off;
+
+    delete from price_list_items where price_list_id = v_list.id;
+
+    insert into price_list_items (price_list_id, product_id, unit_price, package_price)
+    select v_list.id, product_id, unit_price, package_price
+    from jsonb_populate_recordset(null::price_list_items, coalesce(p_items, '[]'::jsonb))
+    where unit_price is not null or package_price is not null;
+end;
+$$;
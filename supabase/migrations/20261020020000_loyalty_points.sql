@@ -0,0 +1,262 @@
+-- Loyalty points for registered customers.
+--
+-- Sales to a customer earn points by the rule in store_settings: loyalty_earn_points for every
+-- loyalty_earn_amount of the invoice (per_amount) or for every unit sold (per_item). Points are
+-- spent at the till as the "loyalty_points" tender, each worth loyalty_point_value. The app
+-- works the numbers out (see utils/loyalty.ts) and the invoice carries them:
+--   sale:   points_earned are added to customers.loyalty_points, points_redeemed taken off
+--   return: points_earned are the points its goods earned, taken back again, and
+--           points_redeemed the points that had paid for them, given back
+-- Every change is a loyalty_transactions row with an id made from the invoice id, so an
+-- offline sale shows the same rows in the app before it reaches the server.
+
+alter table store_settings add column if not exists loyalty_enabled boolean not null default false;
+alter table store_settings add column if not exists loyalty_earn_mode text not null default 'per_amount'
+    check (loyalty_earn_mode in ('per_amount', 'per_item'));
+alter table store_settings add column if not exists loyalty_earn_points numeric not null default 1 check (loyalty_earn_points >= 0);
+alter table store_settings add column if not exists loyalty_earn_amount numeric not null default 100 check (loyalty_earn_amount > 0);
+alter table store_settings add column if not exists loyalty_point_value numeric not null default 1 check (loyalty_point_value > 0);
+
+alter table customers add column if not exists loyalty_points numeric not null default 0;
+
+alter table sale_invoices add column if not exists points_earned numeric not null default 0 check (points_earned >= 0);
+alter table sale_invoices add column if not exists points_redeemed numeric not null default 0 check (points_redeemed >= 0);
+
+create table if not exists loyalty_transactions (
+    id text primary key, -- '<invoice id>:earn' or '<invoice id>:redeem'
+    customer_id text not null,
+    type text not null check (type in ('earn', 'redeem', 'earn_reversal', 'redeem_refund')),
+    points numeric not null, -- What the balance moved by (negative when points are taken off)
+    date timestamptz not null default now(),
+    invoice_id text not null
+);
+
+create index if not exists loyalty_transactions_customer on loyalty_transactions (customer_id, date desc);
+
+alter table loyalty_transactions enable row level security;
+
+drop policy if exists "authenticated access" on loyalty_transactions;
+create policy "authenticated access" on loyalty_transactions for all to authenticated using (true) with check (true);
+
+-- Written by the sale functions only
+drop trigger if exists enforce_write_permission on loyalty_transactions;
+create trigger enforce_write_permission before insert or update or delete on loyalty_transactions
+    for each statement execute function enforce_write_permission('', '', '');
+
+-- Books the points of a sale or return invoice. Points are spent before the sale's own points
+-- are added, and never below zero; taking back earned points on a return may go below zero
+-- when the customer has already spent them.
+create or replace function apply_invoice_loyalty(p_invoice jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_invoice sale_invoices;
+    v_sign numeric;
+    v_point_value numeric;
+    v_tendered numeric;
+    v_balance numeric;
+begin
+    v_invoice := jsonb_populate_record(null::sale_invoices, p_invoice);
+    if coalesce(v_invoice.points_earned, 0) = 0 and coalesce(v_invoice.points_redeemed, 0) = 0 then
+        return;
+    end if;
+    if v_invoice.customer_id is null then
+        raise exception 'invalid_points:%', v_invoice.id;
+    end if;
+
+    v_sign := case when v_invoice.type = 'return' then -1 else 1 end;
+
+    -- The points tender of a sale is worth no more than the points spent on it
+    if v_invoice.type = 'sale' then
+        select loyalty_point_value into v_point_value from store_settings limit 1;
+        select coalesce(sum((p->>'amount')::numeric), 0) into v_tendered
+        from jsonb_array_elements(coalesce(v_invoice.payments, '[]'::jsonb)) p
+        where p->>'method' = 'loyalty_points';
+        if v_tendered > coalesce(v_invoice.points_redeemed, 0) * v_point_value + 0.01 then
+            raise exception 'invalid_points:%', v_invoice.id;
+        end if;
+    end if;
+
+    if coalesce(v_invoice.points_redeemed, 0) > 0 then
+        update customers
+        set loyalty_points = loyalty_points - v_sign * v_invoice.points_redeemed
+        where id::text = v_invoice.customer_id
+        returning loyalty_points into v_balance;
+
+        if not found then
+            raise exception 'customer_not_found:%', v_invoice.customer_id;
+        end if;
+        if v_balance < -0.001 then
+            raise exception 'insufficient_points:%', v_invoice.customer_id;
+        end if;
+
+        insert into loyalty_transactions (id, customer_id, type, points, date, invoice_id)
+        values (v_invoice.id || ':redeem', v_invoice.customer_id,
+                case when v_sign > 0 then 'redeem' else 'redeem_refund' end,
+                -v_sign * v_invoice.points_redeemed, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+    end if;
+
+    if coalesce(v_invoice.points_earned, 0) > 0 then
+        update customers
+        set loyalty_points = loyalty_points + v_sign * v_invoice.points_earned
+        where id::text = v_invoice.customer_id;
+
+        if not found then
+            raise exception 'customer_not_found:%', v_invoice.customer_id;
+        end if;
+
+        insert into loyalty_transactions (id, customer_id, type, points, date, invoice_id)
+        values (v_invoice.id || ':earn', v_invoice.customer_id,
+                case when v_sign > 0 then 'earn' else 'earn_reversal' end,
+                v_sign * v_invoice.points_earned, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+    end if;
+end;
+$$;
+
+-- Takes the points of an invoice off the customers again (before an edit re-books them)
+create or replace function revert_invoice_loyalty(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in select id, customer_id, points from loyalty_transactions where invoice_id = p_invoice_id loop
+        update customers set loyalty_points = loyalty_points - v_tx.points where id::text = v_tx.customer_id;
+        delete from loyalty_transactions where id = v_tx.id;
+    end loop;
+end;
+$$;
+
+-- Same as before, but "loyalty_points" is a tender too, and like "on_account" needs a customer
+create or replace function check_sale_payments(p_invoice jsonb)
+returns void
+language plpgsql
+immutable
+as $$
+declare
+    v_payments jsonb := coalesce(p_invoice->'payments', '[]'::jsonb);
+    v_change numeric := coalesce((p_invoice->>'change_amount')::numeric, 0);
+    v_paid numeric;
+    v_cash numeric;
+begin
+    if jsonb_typeof(v_payments) <> 'array' or jsonb_array_length(v_payments) = 0 then
+        return;
+    end if;
+
+    if exists (
+        select 1 from jsonb_array_elements(v_payments) p
+        where p->>'method' not in ('cash_afn', 'cash_usd', 'card', 'mobile_money', 'on_account', 'loyalty_points')
+           or coalesce((p->>'amount')::numeric, -1) < 0
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    if nullif(p_invoice->>'customer_id', '') is null and exists (
+        select 1 from jsonb_array_elements(v_payments) p where p->>'method' in ('on_account', 'loyalty_points')
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0),
+           coalesce(sum((p->>'amount')::numeric) filter (where p->>'method' in ('cash_afn', 'cash_usd')), 0)
+    into v_paid, v_cash
+    from jsonb_array_elements(v_payments) p;
+
+    -- Change only comes out of cash, and what is left must cover the total exactly
+    if v_change < 0 or v_change > v_cash or abs(v_paid - v_change - (p_invoice->>'total_amount')::numeric) > 0.01 then
+        raise exception 'payment_mismatch:%', p_invoice->>'id';
+    end if;
+end;
+$$;
+
+-- Same as before, plus the points columns; sales and returns book their points here
+
+create or replace function insert_sale_invoice(p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    perform check_sale_payments(p_invoice);
+
+    insert into sale_invoices (id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+                               payments, change_amount, promotion_ids, points_earned, points_redeemed)
+    select id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+           coalesce(payments, '[]'::jsonb), coalesce(change_amount, 0), coalesce(promotion_ids, '{}'),
+           coalesce(points_earned, 0), coalesce(points_redeemed, 0)
+    from jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_invoice_loyalty(p_invoice);
+end;
+$$;
+
+create or replace function update_sale_unchecked(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_branch_id text;
+    v_line jsonb;
+    v_tx record;
+begin
+    select branch_id into v_branch_id from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+
+    perform check_deduction_branch(p_deductions, v_branch_id);
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric, v_branch_id);
+    end loop;
+
+    for v_tx in
+        select id, customer_id, amount from customer_transactions
+        where invoice_id::text = p_invoice_id and type = 'credit_sale'
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+        delete from customer_transactions where id = v_tx.id;
+    end loop;
+
+    perform revert_invoice_loyalty(p_invoice_id);
+
+    perform deduct_batch_stock(p_deductions);
+
+    perform check_sale_payments(p_invoice);
+
+    update sale_invoices s
+    set subtotal = r.subtotal,
+        total_discount = r.total_discount,
+        total_amount = r.total_amount,
+        customer_id = r.customer_id,
+        payments = coalesce(r.payments, '[]'::jsonb),
+        change_amount = coalesce(r.change_amount, 0),
+        promotion_ids = coalesce(r.promotion_ids, '{}'),
+        points_earned = coalesce(r.points_earned, 0),
+        points_redeemed = coalesce(r.points_redeemed, 0)
+    from jsonb_populate_record(null::sale_invoices, p_invoice) r
+    where s.id::text = p_invoice_id;
+
+    delete from sale_invoice_items where invoice_id::text = p_invoice_id;
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_customer_transaction(p_customer);
+    perform apply_invoice_loyalty(p_invoice);
+end;
+$$;
+
+revoke execute on function apply_invoice_loyalty(jsonb), revert_invoice_loyalty(text) from public, anon, authenticated;
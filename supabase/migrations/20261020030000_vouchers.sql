@@ -0,0 +1,320 @@
+-- Gift cards and store credit vouchers.
+--
+-- A voucher has a unique code, the amount it was issued for, a remaining balance and an
+-- optional last day it can be spent. It comes from one of three places:
+--   sale:   sold over the counter through issue_voucher; the cash goes into the open shift's
+--           drawer as a "voucher_sale" cash movement
+--   return: a return refunded with the "voucher" tender issues a voucher for that amount,
+--           with the code the app put in the payment line's reference
+--   manual: given away by a manager through issue_voucher (pos:manage_vouchers)
+-- Sales spend vouchers with the "voucher" tender (reference = code). Every change to a balance
+-- is a voucher_transactions row; a redemption's id is '<invoice id>:<voucher id>'.
+
+create table if not exists vouchers (
+    id text primary key,
+    code text not null unique,
+    issued_amount numeric not null check (issued_amount > 0),
+    balance numeric not null check (balance >= 0),
+    expiry_date date,
+    source text not null check (source in ('sale', 'return', 'manual')),
+    invoice_id text,
+    customer_id text,
+    branch_id text not null references branches(id),
+    issued_at timestamptz not null default now(),
+    issued_by text not null,
+    note text
+);
+
+create table if not exists voucher_transactions (
+    id text primary key,
+    voucher_id text not null references vouchers(id) on delete cascade,
+    type text not null check (type in ('issue', 'redeem')),
+    amount numeric not null, -- What the balance moved by (negative when spent)
+    date timestamptz not null default now(),
+    invoice_id text
+);
+
+create index if not exists voucher_transactions_voucher on voucher_transactions (voucher_id, date desc);
+
+-- Vouchers are spent in any branch, so every till sees them all
+alter table vouchers enable row level security;
+alter table voucher_transactions enable row level security;
+
+drop policy if exists "authenticated access" on vouchers;
+create policy "authenticated access" on vouchers for all to authenticated using (true) with check (true);
+
+drop policy if exists "authenticated access" on voucher_transactions;
+create policy "authenticated access" on voucher_transactions for all to authenticated using (true) with check (true);
+
+-- Written by issue_voucher and the sale functions only
+drop trigger if exists enforce_write_permission on vouchers;
+create trigger enforce_write_permission before insert or update or delete on vouchers
+    for each statement execute function enforce_write_permission('', '', '');
+
+drop trigger if exists enforce_write_permission on voucher_transactions;
+create trigger enforce_write_permission before insert or update or delete on voucher_transactions
+    for each statement execute function enforce_write_permission('', '', '');
+
+-- The cash a sold voucher brings in
+alter table cash_movements drop constraint if exists cash_movements_reason_check;
+alter table cash_movements add constraint cash_movements_reason_check
+    check (reason in ('float_top_up', 'petty_purchase', 'owner_withdrawal', 'bank_deposit', 'voucher_sale', 'other'));
+
+-- Whoever manages the store may give vouchers away
+update roles
+set permissions = array_append(permissions, 'pos:manage_vouchers')
+where 'settings:manage_store' = any(permissions)
+  and not ('pos:manage_vouchers' = any(permissions));
+
+-- p_voucher: vouchers row, p_movement: the cash_movements row of a sold voucher
+create or replace function issue_voucher(p_voucher jsonb, p_movement jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_voucher vouchers;
+    v_movement cash_movements;
+begin
+    v_voucher := jsonb_populate_record(null::vouchers, p_voucher);
+    perform require_branch_access(v_voucher.branch_id);
+
+    if v_voucher.source = 'sale' then
+        perform require_permission('pos:create_invoice');
+        v_movement := jsonb_populate_record(null::cash_movements, p_movement);
+        if v_movement.type is distinct from 'in' or v_movement.reason is distinct from 'voucher_sale'
+           or v_movement.amount is distinct from v_voucher.issued_amount or v_movement.branch_id is distinct from v_voucher.branch_id then
+            raise exception 'invalid_voucher:%', v_voucher.id;
+        end if;
+
+        perform 1 from cash_shifts
+        where id = v_movement.shift_id and branch_id = v_movement.branch_id and status = 'open';
+        if not found then
+            raise exception 'shift_not_open:%', v_movement.shift_id;
+        end if;
+
+        insert into cash_movements (id, shift_id, branch_id, type, amount, reason, note, "user", timestamp)
+        values (v_movement.id, v_movement.shift_id, v_movement.branch_id, v_movement.type, v_movement.amount,
+                v_movement.reason, v_movement.note, v_movement."user", coalesce(v_movement.timestamp, now()));
+    elsif v_voucher.source = 'manual' then
+        perform require_permission('pos:manage_vouchers');
+    else
+        raise exception 'invalid_voucher:%', v_voucher.id;
+    end if;
+
+    insert into vouchers (id, code, issued_amount, balance, expiry_date, source, invoice_id, customer_id, branch_id, issued_at, issued_by, note)
+    values (v_voucher.id, upper(trim(v_voucher.code)), v_voucher.issued_amount, v_voucher.issued_amount, v_voucher.expiry_date,
+            v_voucher.source, null, v_voucher.customer_id, v_voucher.branch_id, coalesce(v_voucher.issued_at, now()),
+            v_voucher.issued_by, v_voucher.note);
+
+    insert into voucher_transactions (id, voucher_id, type, amount, date)
+    values (v_voucher.id || ':issue', v_voucher.id, 'issue', v_voucher.issued_amount, coalesce(v_voucher.issued_at, now()));
+end;
+$$;
+
+-- Books the "voucher" tender of an invoice. A sale takes the amounts off the vouchers, which
+-- must exist, not have expired on the day of the sale and hold enough; a return issues a new
+-- voucher per line.
+create or replace function apply_invoice_vouchers(p_invoice jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_invoice sale_invoices;
+    v_line record;
+    v_voucher vouchers;
+    v_voucher_id text;
+    v_index integer := 0;
+begin
+    v_invoice := jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    for v_line in
+        select upper(trim(p->>'reference')) as code, sum((p->>'amount')::numeric) as amount
+        from jsonb_array_elements(coalesce(v_invoice.payments, '[]'::jsonb)) p
+        where p->>'method' = 'voucher'
+        group by upper(trim(p->>'reference'))
+        having sum((p->>'amount')::numeric) > 0
+    loop
+        if v_invoice.type = 'return' then
+            v_index := v_index + 1;
+            v_voucher_id := v_invoice.id || ':voucher' || case when v_index > 1 then v_index::text else '' end;
+            insert into vouchers (id, code, issued_amount, balance, source, invoice_id, customer_id, branch_id, issued_at, issued_by)
+            values (v_voucher_id, v_line.code, v_line.amount, v_line.amount, 'return', v_invoice.id, v_invoice.customer_id,
+                    v_invoice.branch_id, coalesce(v_invoice.timestamp, now()), v_invoice.cashier);
+
+            insert into voucher_transactions (id, voucher_id, type, amount, date, invoice_id)
+            values (v_voucher_id || ':issue', v_voucher_id, 'issue', v_line.amount, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+            continue;
+        end if;
+
+        select * into v_voucher from vouchers where code = v_line.code for update;
+        if not found then
+            raise exception 'voucher_not_found:%', v_line.code;
+        end if;
+        if v_voucher.expiry_date is not null and coalesce(v_invoice.timestamp, now())::date > v_voucher.expiry_date then
+            raise exception 'voucher_expired:%', v_line.code;
+        end if;
+        if v_voucher.balance < v_line.amount - 0.01 then
+            raise exception 'insufficient_voucher_balance:%', v_line.code;
+        end if;
+
+        update vouchers set balance = greatest(balance - v_line.amount, 0) where id = v_voucher.id;
+
+        insert into voucher_transactions (id, voucher_id, type, amount, date, invoice_id)
+        values (v_invoice.id || ':' || v_voucher.id, v_voucher.id, 'redeem', -v_line.amount, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+    end loop;
+end;
+$$;
+
+-- Puts what an invoice spent back on its vouchers (before an edit books the tender again)
+create or replace function revert_invoice_vouchers(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in select id, voucher_id, amount from voucher_transactions where invoice_id = p_invoice_id and type = 'redeem' loop
+        update vouchers set balance = balance - v_tx.amount where id = v_tx.voucher_id;
+        delete from voucher_transactions where id = v_tx.id;
+    end loop;
+end;
+$$;
+
+-- Same as before, but "voucher" is a tender too and needs the voucher code in its reference
+create or replace function check_sale_payments(p_invoice jsonb)
+returns void
+language plpgsql
+immutable
+as $$
+declare
+    v_payments jsonb := coalesce(p_invoice->'payments', '[]'::jsonb);
+    v_change numeric := coalesce((p_invoice->>'change_amount')::numeric, 0);
+    v_paid numeric;
+    v_cash numeric;
+begin
+    if jsonb_typeof(v_payments) <> 'array' or jsonb_array_length(v_payments) = 0 then
+        return;
+    end if;
+
+    if exists (
+        select 1 from jsonb_array_elements(v_payments) p
+        where p->>'method' not in ('cash_afn', 'cash_usd', 'card', 'mobile_money', 'on_account', 'loyalty_points', 'voucher')
+           or coalesce((p->>'amount')::numeric, -1) < 0
+           or (p->>'method' = 'voucher' and nullif(trim(p->>'reference'), '') is null)
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    if nullif(p_invoice->>'customer_id', '') is null and exists (
+        select 1 from jsonb_array_elements(v_payments) p where p->>'method' in ('on_account', 'loyalty_points')
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0),
+           coalesce(sum((p->>'amount')::numeric) filter (where p->>'method' in ('cash_afn', 'cash_usd')), 0)
+    into v_paid, v_cash
+    from jsonb_array_elements(v_payments) p;
+
+    -- Change only comes out of cash, and what is left must cover the total exactly
+    if v_change < 0 or v_change > v_cash or abs(v_paid - v_change - (p_invoice->>'total_amount')::numeric) > 0.01 then
+        raise exception 'payment_mismatch:%', p_invoice->>'id';
+    end if;
+end;
+$$;
+
+-- Same as before; sales spend their vouchers here and returns issue theirs
+
+create or replace function insert_sale_invoice(p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    perform check_sale_payments(p_invoice);
+
+    insert into sale_invoices (id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+                               payments, change_amount, promotion_ids, points_earned, points_redeemed)
+    select id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+           coalesce(payments, '[]'::jsonb), coalesce(change_amount, 0), coalesce(promotion_ids, '{}'),
+           coalesce(points_earned, 0), coalesce(points_redeemed, 0)
+    from jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_invoice_loyalty(p_invoice);
+    perform apply_invoice_vouchers(p_invoice);
+end;
+$$;
+
+-- Same as before; what the invoice took off vouchers is put back and taken again
+create or replace function update_sale_unchecked(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_branch_id text;
+    v_line jsonb;
+    v_tx record;
+begin
+    select branch_id into v_branch_id from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+
+    perform check_deduction_branch(p_deductions, v_branch_id);
+
+    for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+        perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric, v_branch_id);
+    end loop;
+
+    for v_tx in
+        select id, customer_id, amount from customer_transactions
+        where invoice_id::text = p_invoice_id and type = 'credit_sale'
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+        delete from customer_transactions where id = v_tx.id;
+    end loop;
+
+    perform revert_invoice_loyalty(p_invoice_id);
+    perform revert_invoice_vouchers(p_invoice_id);
+
+    perform deduct_batch_stock(p_deductions);
+
+    perform check_sale_payments(p_invoice);
+
+    update sale_invoices s
+    set subtotal = r.subtotal,
+        total_discount = r.total_discount,
+        total_amount = r.total_amount,
+        customer_id = r.customer_id,
+        payments = coalesce(r.payments, '[]'::jsonb),
+        change_amount = coalesce(r.change_amount, 0),
+        promotion_ids = coalesce(r.promotion_ids, '{}'),
+        points_earned = coalesce(r.points_earned, 0),
+        points_redeemed = coalesce(r.points_redeemed, 0)
+    from jsonb_populate_record(null::sale_invoices, p_invoice) r
+    where s.id::text = p_invoice_id;
+
+    delete from sale_invoice_items where invoice_id::text = p_invoice_id;
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_customer_transaction(p_customer);
+    perform apply_invoice_loyalty(p_invoice);
+    perform apply_invoice_vouchers(p_invoice);
+end;
+$$;
+
+revoke execute on function apply_invoice_vouchers(jsonb), revert_invoice_vouchers(text) from public, anon, authenticated;
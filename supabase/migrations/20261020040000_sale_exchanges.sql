@@ -0,0 +1,134 @@
+-- Exchanges: goods of an earlier sale taken back against new goods, in one go.
+--
+-- An exchange is a return and a sale that share an exchange_id. What the returned goods are
+-- worth (after the customer's account and points got their share) pays for the new goods with
+-- the "exchange" tender: the return pays it out and the sale takes it in, for the same amount.
+-- The customer pays the difference with the usual tenders, or gets it back in cash or as a
+-- voucher on the return. create_exchange books both documents in one transaction, so the
+-- returned stock comes back and the new stock goes out together or not at all.
+
+alter table sale_invoices add column if not exists exchange_id text;
+
+create index if not exists sale_invoices_exchange_id_idx on sale_invoices (exchange_id) where exchange_id is not null;
+
+-- Same as before, but "exchange" is a tender too, only on the documents of an exchange
+create or replace function check_sale_payments(p_invoice jsonb)
+returns void
+language plpgsql
+immutable
+as $$
+declare
+    v_payments jsonb := coalesce(p_invoice->'payments', '[]'::jsonb);
+    v_change numeric := coalesce((p_invoice->>'change_amount')::numeric, 0);
+    v_paid numeric;
+    v_cash numeric;
+begin
+    if jsonb_typeof(v_payments) <> 'array' or jsonb_array_length(v_payments) = 0 then
+        return;
+    end if;
+
+    if exists (
+        select 1 from jsonb_array_elements(v_payments) p
+        where p->>'method' not in ('cash_afn', 'cash_usd', 'card', 'mobile_money', 'on_account', 'loyalty_points', 'voucher', 'exchange')
+           or coalesce((p->>'amount')::numeric, -1) < 0
+           or (p->>'method' = 'voucher' and nullif(trim(p->>'reference'), '') is null)
+           or (p->>'method' = 'exchange' and nullif(p_invoice->>'exchange_id', '') is null)
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    if nullif(p_invoice->>'customer_id', '') is null and exists (
+        select 1 from jsonb_array_elements(v_payments) p where p->>'method' in ('on_account', 'loyalty_points')
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0),
+           coalesce(sum((p->>'amount')::numeric) filter (where p->>'method' in ('cash_afn', 'cash_usd')), 0)
+    into v_paid, v_cash
+    from jsonb_array_elements(v_payments) p;
+
+    -- Change only comes out of cash, and what is left must cover the total exactly
+    if v_change < 0 or v_change > v_cash or abs(v_paid - v_change - (p_invoice->>'total_amount')::numeric) > 0.01 then
+        raise exception 'payment_mismatch:%', p_invoice->>'id';
+    end if;
+end;
+$$;
+
+-- Same as before, with the exchange_id
+
+create or replace function insert_sale_invoice(p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+begin
+    perform check_sale_payments(p_invoice);
+
+    insert into sale_invoices (id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+                               payments, change_amount, promotion_ids, points_earned, points_redeemed, exchange_id)
+    select id, type, original_invoice_id, subtotal, total_discount, total_amount, timestamp, cashier, customer_id, branch_id,
+           coalesce(payments, '[]'::jsonb), coalesce(change_amount, 0), coalesce(promotion_ids, '{}'),
+           coalesce(points_earned, 0), coalesce(points_redeemed, 0), nullif(exchange_id, '')
+    from jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_invoice_loyalty(p_invoice);
+    perform apply_invoice_vouchers(p_invoice);
+end;
+$$;
+
+-- The return and the sale of an exchange, checked against each other and booked together
+create or replace function create_exchange(
+    p_return jsonb,
+    p_return_items jsonb,
+    p_restores jsonb,
+    p_return_customer jsonb,
+    p_sale jsonb,
+    p_sale_items jsonb,
+    p_deductions jsonb,
+    p_sale_customer jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_paid_out numeric;
+    v_taken_in numeric;
+begin
+    perform require_permission('pos:create_invoice');
+    if p_sale_customer is not null and jsonb_typeof(p_sale_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid_out
+    from jsonb_array_elements(coalesce(p_return->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_taken_in
+    from jsonb_array_elements(coalesce(p_sale->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+
+    if p_return->>'type' <> 'return' or p_sale->>'type' <> 'sale'
+       or nullif(p_sale->>'exchange_id', '') is null
+       or p_return->>'exchange_id' is distinct from p_sale->>'exchange_id'
+       or p_return->>'branch_id' is distinct from p_sale->>'branch_id'
+       or nullif(p_return->>'customer_id', '') is distinct from nullif(p_sale->>'customer_id', '')
+       or abs(v_paid_out - v_taken_in) > 0.01 then
+        raise exception 'invalid_exchange:%', p_sale->>'exchange_id';
+    end if;
+
+    perform require_branch_access(p_sale->>'branch_id');
+
+    perform set_stock_context('sale_return', p_return->>'id');
+    perform create_sale_return_unchecked(p_return, p_return_items, p_restores, p_return_customer);
+
+    perform set_stock_context('sale', p_sale->>'id');
+    perform check_deduction_branch(p_deductions, p_sale->>'branch_id');
+    perform create_sale_unchecked(p_sale, p_sale_items, p_deductions, p_sale_customer);
+end;
+$$;
+
+revoke execute on function create_exchange(jsonb, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function create_exchange(jsonb, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb) to authenticated;
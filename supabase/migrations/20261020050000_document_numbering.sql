@@ -0,0 +1,188 @@
+-- Server-issued document numbers.
+--
+-- Sale invoices, sale returns, purchase invoices and purchase returns get a document_number
+-- when their row is inserted, from a counter per document type, branch and Jalali fiscal year.
+-- The number is laid out by store_settings.document_number_pattern, with
+--   {prefix}  the document type's prefix from store_settings.document_prefixes
+--   {year}    the Jalali fiscal year (the year it started in), {yy} its last two digits
+--   {seq}     the counter, {seq:6} zero-padded to six digits
+-- e.g. '{prefix}-{year}-{seq:6}' gives F-1405-000123. The counter starts again at 1 when a new
+-- fiscal year starts (fiscal_year_start_month, a Jalali month, in Kabul time).
+--
+-- The counter row is locked until the inserting transaction ends, so two tills never get the
+-- same number; a number is only kept by a document that was saved. Numbers are unique per
+-- branch. The id stays the key the app made up (an offline sale is numbered when it syncs),
+-- and documents from before this migration keep their id as their number.
+
+alter table store_settings add column if not exists document_number_pattern text not null default '{prefix}-{year}-{seq:6}';
+alter table store_settings add column if not exists fiscal_year_start_month integer not null default 1;
+alter table store_settings add column if not exists document_prefixes jsonb not null
+    default '{"sale": "F", "sale_return": "R", "purchase": "P", "purchase_return": "PR"}';
+
+-- A pattern without the prefix, the year or the counter would repeat numbers
+alter table store_settings drop constraint if exists store_settings_document_number_pattern_check;
+alter table store_settings add constraint store_settings_document_number_pattern_check check (
+    document_number_pattern like '%{prefix}%'
+    and document_number_pattern ~ '\{seq(:\d+)?\}'
+    and (document_number_pattern like '%{year}%' or document_number_pattern like '%{yy}%')
+);
+alter table store_settings drop constraint if exists store_settings_fiscal_year_start_month_check;
+alter table store_settings add constraint store_settings_fiscal_year_start_month_check check (fiscal_year_start_month between 1 and 12);
+-- Sales and their returns share a table, and so do purchases and theirs
+alter table store_settings drop constraint if exists store_settings_document_prefixes_check;
+alter table store_settings add constraint store_settings_document_prefixes_check check (
+    coalesce(document_prefixes->>'sale', '') <> coalesce(document_prefixes->>'sale_return', '')
+    and coalesce(document_prefixes->>'purchase', '') <> coalesce(document_prefixes->>'purchase_return', '')
+);
+
+create table if not exists document_counters (
+    doc_type text not null check (doc_type in ('sale', 'sale_return', 'purchase', 'purchase_return')),
+    branch_id text not null,
+    fiscal_year integer not null,
+    last_number bigint not null default 0,
+    primary key (doc_type, branch_id, fiscal_year)
+);
+
+alter table document_counters enable row level security;
+
+drop policy if exists "authenticated access" on document_counters;
+create policy "authenticated access" on document_counters for all to authenticated using (true) with check (true);
+
+-- Only moved on by number_document
+drop trigger if exists enforce_write_permission on document_counters;
+create trigger enforce_write_permission before insert or update or delete on document_counters
+    for each statement execute function enforce_write_permission('', '', '');
+
+alter table sale_invoices add column if not exists document_number text;
+alter table purchase_invoices add column if not exists document_number text;
+
+update sale_invoices set document_number = id::text where document_number is null;
+update purchase_invoices set document_number = id::text where document_number is null;
+
+create unique index if not exists sale_invoices_document_number_key on sale_invoices (branch_id, document_number);
+create unique index if not exists purchase_invoices_document_number_key on purchase_invoices (branch_id, document_number);
+
+-- The Jalali fiscal year a day falls in (same arithmetic as utils/jalali.ts)
+create or replace function jalali_fiscal_year(p_day date, p_start_month integer)
+returns integer
+language plpgsql
+immutable
+as $$
+declare
+    v_gy integer := extract(year from p_day);
+    v_gm integer := extract(month from p_day);
+    v_gd integer := extract(day from p_day);
+    v_gy2 integer;
+    v_days integer;
+    v_jy integer;
+    v_jm integer;
+begin
+    v_jy := case when v_gy <= 1600 then 0 else 979 end;
+    v_gy := v_gy - case when v_gy <= 1600 then 621 else 1600 end;
+    v_gy2 := case when v_gm > 2 then v_gy + 1 else v_gy end;
+    v_days := 365 * v_gy + floor((v_gy2 + 3) / 4.0) - floor((v_gy2 + 99) / 100.0) + floor((v_gy2 + 399) / 400.0) - 80 + v_gd
+              + (array[0, 31, 59, 90, 120, 151, 181, 212, 243, 273, 304, 334])[v_gm];
+    v_jy := v_jy + 33 * floor(v_days / 12053.0);
+    v_days := v_days % 12053;
+    v_jy := v_jy + 4 * floor(v_days / 1461.0);
+    v_days := v_days % 1461;
+    v_jy := v_jy + floor((v_days - 1) / 365.0);
+    if v_days > 365 then
+        v_days := (v_days - 1) % 365;
+    end if;
+    v_jm := case when v_days < 186 then 1 + floor(v_days / 31.0) else 7 + floor((v_days - 186) / 30.0) end;
+
+    return case when v_jm >= p_start_month then v_jy else v_jy - 1 end;
+end;
+$$;
+
+create or replace function format_document_number(p_pattern text, p_prefix text, p_year integer, p_seq bigint)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+    v_width integer := coalesce((regexp_match(p_pattern, '\{seq:(\d+)\}'))[1]::integer, 0);
+    v_seq text := p_seq::text;
+begin
+    return regexp_replace(
+        replace(replace(replace(p_pattern, '{prefix}', coalesce(p_prefix, '')), '{year}', p_year::text), '{yy}', lpad((p_year % 100)::text, 2, '0')),
+        '\{seq(:\d+)?\}', lpad(v_seq, greatest(v_width, length(v_seq)), '0'), 'g'
+    );
+end;
+$$;
+
+-- The next free number of a document type in a branch. Numbers already taken (restored from a
+-- backup, or left from an earlier pattern) are skipped.
+create or replace function next_document_number(p_doc_type text, p_branch_id text, p_at timestamptz)
+returns text
+language plpgsql
+as $$
+declare
+    v_settings store_settings;
+    v_year integer;
+    v_seq bigint;
+    v_number text;
+begin
+    select * into v_settings from store_settings limit 1;
+    v_year := jalali_fiscal_year((p_at at time zone 'Asia/Kabul')::date, coalesce(v_settings.fiscal_year_start_month, 1));
+
+    loop
+        insert into document_counters (doc_type, branch_id, fiscal_year, last_number)
+        values (p_doc_type, coalesce(p_branch_id, ''), v_year, 1)
+        on conflict (doc_type, branch_id, fiscal_year) do update set last_number = document_counters.last_number + 1
+        returning last_number into v_seq;
+
+        v_number := format_document_number(
+            coalesce(v_settings.document_number_pattern, '{prefix}-{year}-{seq:6}'),
+            coalesce(v_settings.document_prefixes->>p_doc_type, ''),
+            v_year,
+            v_seq
+        );
+
+        if p_doc_type in ('sale', 'sale_return') then
+            exit when not exists (select 1 from sale_invoices where branch_id is not distinct from p_branch_id and document_number = v_number);
+        else
+            exit when not exists (select 1 from purchase_invoices where branch_id is not distinct from p_branch_id and document_number = v_number);
+        end if;
+    end loop;
+
+    return v_number;
+end;
+$$;
+
+-- Security definer so the counter moves whatever the caller is allowed to write; a row that
+-- already has a number (a restore) keeps it
+create or replace function number_document()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.document_number is null then
+        new.document_number := next_document_number(
+            case
+                when tg_table_name = 'sale_invoices' then case when new.type = 'return' then 'sale_return' else 'sale' end
+                else case when new.type = 'return' then 'purchase_return' else 'purchase' end
+            end,
+            new.branch_id,
+            coalesce(new.timestamp::timestamptz, now())
+        );
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists number_document on sale_invoices;
+create trigger number_document before insert on sale_invoices
+    for each row execute function number_document();
+
+drop trigger if exists number_document on purchase_invoices;
+create trigger number_document before insert on purchase_invoices
+    for each row execute function number_document();
+
+alter table sale_invoices alter column document_number set not null;
+alter table purchase_invoices alter column document_number set not null;
+
+revoke execute on function next_document_number(text, text, timestamptz) from public, anon, authenticated;
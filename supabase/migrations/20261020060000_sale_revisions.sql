@@ -0,0 +1,267 @@
+-- Sale invoice revisions and voiding.
+--
+-- Invoices are no longer changed silently:
+--   * update_sale takes a reason and stores a sale_invoice_revisions row with the invoice as it
+--     was before and after the edit (the sale_invoices row with its items, see
+--     sale_invoice_snapshot), who made it and when.
+--   * void_sale cancels a sale (pos:void_invoice): the stock goes back, the credit, loyalty
+--     points and vouchers it moved are reverted, and the invoice stays in the list with
+--     status 'void'. A voided invoice can no longer be edited, returned or exchanged.
+-- Sales that were returned against, are part of an exchange or delivered a customer order
+-- cannot be voided; those go through a return.
+
+alter table sale_invoices add column if not exists status text not null default 'active';
+alter table sale_invoices add column if not exists voided_at timestamptz;
+alter table sale_invoices add column if not exists voided_by text;
+alter table sale_invoices add column if not exists void_reason text;
+
+alter table sale_invoices drop constraint if exists sale_invoices_status_check;
+alter table sale_invoices add constraint sale_invoices_status_check check (status in ('active', 'void'));
+
+create table if not exists sale_invoice_revisions (
+    id uuid primary key default gen_random_uuid(),
+    invoice_id text not null,
+    action text not null check (action in ('edit', 'void')),
+    reason text not null check (btrim(reason) <> ''),
+    before jsonb not null,
+    after jsonb not null,
+    changed_at timestamptz not null default now(),
+    changed_by text not null
+);
+
+create index if not exists sale_invoice_revisions_invoice on sale_invoice_revisions (invoice_id, changed_at desc);
+
+alter table sale_invoice_revisions enable row level security;
+
+drop policy if exists "authenticated access" on sale_invoice_revisions;
+create policy "authenticated access" on sale_invoice_revisions for all to authenticated using (true) with check (true);
+
+-- Written by update_sale and void_sale only
+drop trigger if exists enforce_write_permission on sale_invoice_revisions;
+create trigger enforce_write_permission before insert or update or delete on sale_invoice_revisions
+    for each statement execute function enforce_write_permission('', '', '');
+
+-- Whoever may edit invoices today may void them
+update roles
+set permissions = array_append(permissions, 'pos:void_invoice')
+where 'pos:edit_invoice' = any(permissions)
+  and not ('pos:void_invoice' = any(permissions));
+
+-- The invoice row with its items, in the shape the app reads invoices
+create or replace function sale_invoice_snapshot(p_invoice_id text)
+returns jsonb
+language sql
+stable
+as $$
+    select to_jsonb(s) || jsonb_build_object(
+        'sale_invoice_items',
+        coalesce((select jsonb_agg(to_jsonb(i)) from sale_invoice_items i where i.invoice_id::text = p_invoice_id), '[]'::jsonb)
+    )
+    from sale_invoices s
+    where s.id::text = p_invoice_id;
+$$;
+
+revoke execute on function sale_invoice_snapshot(text) from public, anon, authenticated;
+
+create or replace function insert_sale_revision(p_invoice_id text, p_action text, p_reason text, p_before jsonb)
+returns void
+language sql
+as $$
+    insert into sale_invoice_revisions (invoice_id, action, reason, before, after, changed_by)
+    values (p_invoice_id, p_action, btrim(p_reason), p_before, sale_invoice_snapshot(p_invoice_id), coalesce(auth.jwt()->>'username', 'system'));
+$$;
+
+revoke execute on function insert_sale_revision(text, text, text, jsonb) from public, anon, authenticated;
+
+-- --- Edits ---
+
+drop function if exists update_sale(text, jsonb, jsonb, jsonb, jsonb, jsonb);
+create or replace function update_sale(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null,
+    p_reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_before jsonb;
+begin
+    perform require_permission('pos:edit_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access((select branch_id from sale_invoices where id::text = p_invoice_id));
+    if coalesce(btrim(p_reason), '') = '' then
+        raise exception 'reason_required:%', p_invoice_id;
+    end if;
+    if exists (select 1 from sale_invoices where id::text = p_invoice_id and status = 'void') then
+        raise exception 'invoice_void:%', p_invoice_id;
+    end if;
+
+    v_before := sale_invoice_snapshot(p_invoice_id);
+    perform set_stock_context('sale_edit', p_invoice_id);
+    perform update_sale_unchecked(p_invoice_id, p_invoice, p_items, p_restores, p_deductions, p_customer);
+    perform insert_sale_revision(p_invoice_id, 'edit', p_reason, v_before);
+end;
+$$;
+
+revoke execute on function update_sale(text, jsonb, jsonb, jsonb, jsonb, jsonb, text) from public, anon;
+grant execute on function update_sale(text, jsonb, jsonb, jsonb, jsonb, jsonb, text) to authenticated;
+
+-- --- Voiding ---
+
+create or replace function void_sale(p_invoice_id text, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_invoice sale_invoices;
+    v_before jsonb;
+    v_item record;
+    v_tx record;
+begin
+    perform require_permission('pos:void_invoice');
+    if coalesce(btrim(p_reason), '') = '' then
+        raise exception 'reason_required:%', p_invoice_id;
+    end if;
+
+    select * into v_invoice from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+    perform require_branch_access(v_invoice.branch_id);
+
+    if v_invoice.status = 'void' then
+        raise exception 'invoice_void:%', p_invoice_id;
+    end if;
+    if v_invoice.type <> 'sale'
+       or v_invoice.exchange_id is not null
+       or exists (select 1 from sale_invoices where original_invoice_id::text = p_invoice_id)
+       or exists (select 1 from customer_orders where invoice_id = p_invoice_id) then
+        raise exception 'invoice_not_voidable:%', p_invoice_id;
+    end if;
+
+    v_before := sale_invoice_snapshot(p_invoice_id);
+    perform set_stock_context('sale_void', p_invoice_id);
+
+    for v_item in
+        select item_id, sum(quantity) as quantity from sale_invoice_items
+        where invoice_id::text = p_invoice_id and type = 'product'
+        group by item_id
+    loop
+        perform restore_product_stock(v_item.item_id::text, v_item.quantity, v_invoice.branch_id);
+    end loop;
+
+    for v_tx in
+        select id, customer_id, amount from customer_transactions
+        where invoice_id::text = p_invoice_id and type = 'credit_sale'
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+        delete from customer_transactions where id = v_tx.id;
+    end loop;
+
+    perform revert_invoice_loyalty(p_invoice_id);
+    perform revert_invoice_vouchers(p_invoice_id);
+
+    update sale_invoices
+    set status = 'void',
+        voided_at = now(),
+        voided_by = coalesce(auth.jwt()->>'username', 'system'),
+        void_reason = btrim(p_reason)
+    where id::text = p_invoice_id;
+
+    perform insert_sale_revision(p_invoice_id, 'void', p_reason, v_before);
+end;
+$$;
+
+revoke execute on function void_sale(text, text) from public, anon;
+grant execute on function void_sale(text, text) to authenticated;
+
+-- --- Returns and exchanges refuse voided sales ---
+
+create or replace function check_not_void(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+begin
+    if exists (select 1 from sale_invoices where id::text = p_invoice_id and status = 'void') then
+        raise exception 'invoice_void:%', p_invoice_id;
+    end if;
+end;
+$$;
+
+revoke execute on function check_not_void(text) from public, anon, authenticated;
+
+create or replace function create_sale_return(p_invoice jsonb, p_items jsonb, p_restores jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    perform require_branch_access(p_invoice->>'branch_id');
+    perform check_not_void(p_invoice->>'original_invoice_id');
+    perform set_stock_context('sale_return', p_invoice->>'id');
+    perform create_sale_return_unchecked(p_invoice, p_items, p_restores, p_customer);
+end;
+$$;
+
+create or replace function create_exchange(
+    p_return jsonb,
+    p_return_items jsonb,
+    p_restores jsonb,
+    p_return_customer jsonb,
+    p_sale jsonb,
+    p_sale_items jsonb,
+    p_deductions jsonb,
+    p_sale_customer jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_paid_out numeric;
+    v_taken_in numeric;
+begin
+    perform require_permission('pos:create_invoice');
+    if p_sale_customer is not null and jsonb_typeof(p_sale_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid_out
+    from jsonb_array_elements(coalesce(p_return->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_taken_in
+    from jsonb_array_elements(coalesce(p_sale->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+
+    if p_return->>'type' <> 'return' or p_sale->>'type' <> 'sale'
+       or nullif(p_sale->>'exchange_id', '') is null
+       or p_return->>'exchange_id' is distinct from p_sale->>'exchange_id'
+       or p_return->>'branch_id' is distinct from p_sale->>'branch_id'
+       or nullif(p_return->>'customer_id', '') is distinct from nullif(p_sale->>'customer_id', '')
+       or abs(v_paid_out - v_taken_in) > 0.01 then
+        raise exception 'invalid_exchange:%', p_sale->>'exchange_id';
+    end if;
+
+    perform require_branch_access(p_sale->>'branch_id');
+    perform check_not_void(p_return->>'original_invoice_id');
+
+    perform set_stock_context('sale_return', p_return->>'id');
+    perform create_sale_return_unchecked(p_return, p_return_items, p_restores, p_return_customer);
+
+    perform set_stock_context('sale', p_sale->>'id');
+    perform check_deduction_branch(p_deductions, p_sale->>'branch_id');
+    perform create_sale_unchecked(p_sale, p_sale_items, p_deductions, p_sale_customer);
+end;
+$$;
@@ -0,0 +1,152 @@
+-- Only create_exchange may book the "exchange" tender.
+--
+-- check_sale_payments used to accept the tender on any invoice that carried an exchange_id,
+-- and create_sale, update_sale and create_sale_return take the invoice from the browser. So a
+-- sale with a made-up exchange_id could be paid entirely with returned goods that never came
+-- back. create_exchange now marks the transaction with the exchange it books
+-- (app.exchange_id, like set_stock_context), and an exchange_id or "exchange" tender on any
+-- other invoice is refused. The documents of an exchange cannot be edited either.
+
+create or replace function check_sale_payments(p_invoice jsonb)
+returns void
+language plpgsql
+stable
+as $$
+declare
+    v_payments jsonb := coalesce(p_invoice->'payments', '[]'::jsonb);
+    v_change numeric := coalesce((p_invoice->>'change_amount')::numeric, 0);
+    v_exchange_id text := nullif(p_invoice->>'exchange_id', '');
+    v_paid numeric;
+    v_cash numeric;
+begin
+    if v_exchange_id is not null and v_exchange_id is distinct from nullif(current_setting('app.exchange_id', true), '') then
+        raise exception 'invalid_exchange:%', v_exchange_id;
+    end if;
+
+    if jsonb_typeof(v_payments) <> 'array' or jsonb_array_length(v_payments) = 0 then
+        return;
+    end if;
+
+    if exists (
+        select 1 from jsonb_array_elements(v_payments) p
+        where p->>'method' not in ('cash_afn', 'cash_usd', 'card', 'mobile_money', 'on_account', 'loyalty_points', 'voucher', 'exchange')
+           or coalesce((p->>'amount')::numeric, -1) < 0
+           or (p->>'method' = 'voucher' and nullif(trim(p->>'reference'), '') is null)
+           or (p->>'method' = 'exchange' and v_exchange_id is null)
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    if nullif(p_invoice->>'customer_id', '') is null and exists (
+        select 1 from jsonb_array_elements(v_payments) p where p->>'method' in ('on_account', 'loyalty_points')
+    ) then
+        raise exception 'invalid_payment:%', p_invoice->>'id';
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0),
+           coalesce(sum((p->>'amount')::numeric) filter (where p->>'method' in ('cash_afn', 'cash_usd')), 0)
+    into v_paid, v_cash
+    from jsonb_array_elements(v_payments) p;
+
+    -- Change only comes out of cash, and what is left must cover the total exactly
+    if v_change < 0 or v_change > v_cash or abs(v_paid - v_change - (p_invoice->>'total_amount')::numeric) > 0.01 then
+        raise exception 'payment_mismatch:%', p_invoice->>'id';
+    end if;
+end;
+$$;
+
+-- Same as before, and the exchange being booked is marked for check_sale_payments
+create or replace function create_exchange(
+    p_return jsonb,
+    p_return_items jsonb,
+    p_restores jsonb,
+    p_return_customer jsonb,
+    p_sale jsonb,
+    p_sale_items jsonb,
+    p_deductions jsonb,
+    p_sale_customer jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_paid_out numeric;
+    v_taken_in numeric;
+begin
+    perform require_permission('pos:create_invoice');
+    if p_sale_customer is not null and jsonb_typeof(p_sale_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid_out
+    from jsonb_array_elements(coalesce(p_return->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_taken_in
+    from jsonb_array_elements(coalesce(p_sale->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+
+    if p_return->>'type' <> 'return' or p_sale->>'type' <> 'sale'
+       or nullif(p_sale->>'exchange_id', '') is null
+       or p_return->>'exchange_id' is distinct from p_sale->>'exchange_id'
+       or p_return->>'branch_id' is distinct from p_sale->>'branch_id'
+       or nullif(p_return->>'customer_id', '') is distinct from nullif(p_sale->>'customer_id', '')
+       or abs(v_paid_out - v_taken_in) > 0.01
+       or exists (select 1 from sale_invoices where exchange_id = p_sale->>'exchange_id') then
+        raise exception 'invalid_exchange:%', p_sale->>'exchange_id';
+    end if;
+
+    perform require_branch_access(p_sale->>'branch_id');
+    perform check_not_void(p_return->>'original_invoice_id');
+    perform set_config('app.exchange_id', p_sale->>'exchange_id', true);
+
+    perform set_stock_context('sale_return', p_return->>'id');
+    perform create_sale_return_unchecked(p_return, p_return_items, p_restores, p_return_customer);
+
+    perform set_stock_context('sale', p_sale->>'id');
+    perform check_deduction_branch(p_deductions, p_sale->>'branch_id');
+    perform create_sale_unchecked(p_sale, p_sale_items, p_deductions, p_sale_customer);
+
+    perform set_config('app.exchange_id', '', true);
+end;
+$$;
+
+-- Same as before, and the documents of an exchange are refused: the sale is paid with the
+-- returned goods, so neither side can change on its own
+create or replace function update_sale(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null,
+    p_reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_before jsonb;
+begin
+    perform require_permission('pos:edit_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access((select branch_id from sale_invoices where id::text = p_invoice_id));
+    if coalesce(btrim(p_reason), '') = '' then
+        raise exception 'reason_required:%', p_invoice_id;
+    end if;
+    if exists (select 1 from sale_invoices where id::text = p_invoice_id and status = 'void') then
+        raise exception 'invoice_void:%', p_invoice_id;
+    end if;
+    if exists (select 1 from sale_invoices where id::text = p_invoice_id and (type <> 'sale' or exchange_id is not null)) then
+        raise exception 'invoice_not_editable:%', p_invoice_id;
+    end if;
+
+    v_before := sale_invoice_snapshot(p_invoice_id);
+    perform set_stock_context('sale_edit', p_invoice_id);
+    perform update_sale_unchecked(p_invoice_id, p_invoice, p_items, p_restores, p_deductions, p_customer);
+    perform insert_sale_revision(p_invoice_id, 'edit', p_reason, v_before);
+end;
+$$;
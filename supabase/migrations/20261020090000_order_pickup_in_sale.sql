@@ -0,0 +1,82 @@
+-- Collecting a customer order closes it in the same transaction as its sale, and reservations
+-- are held on the server.
+--
+--   * create_sale takes the id of the order being collected. The order is closed before the
+--     stock is taken, so its own reservations no longer hold the units the sale takes; if the
+--     sale fails the order stays open. Before, complete_customer_order ran as a second call,
+--     and when it failed the sold goods stayed reserved as well. complete_customer_order is
+--     kept for operations queued by older versions of the app.
+--   * deduct_batch_stock leaves the units reserved by open orders alone. It locks the batch
+--     before counting the reservations, as create_customer_order does, so two tills cannot
+--     reserve and sell the same units at once.
+
+create or replace function deduct_batch_stock(p_deductions jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_line jsonb;
+    v_stock numeric;
+    v_reserved numeric;
+begin
+    for v_line in select * from jsonb_array_elements(coalesce(p_deductions, '[]'::jsonb)) loop
+        select stock into v_stock
+        from product_batches
+        where id::text = v_line->>'batch_id'
+        for update;
+
+        select coalesce(sum(r.quantity), 0) into v_reserved
+        from customer_order_reservations r
+        join customer_orders o on o.id = r.order_id
+        where o.status = 'open' and r.batch_id = v_line->>'batch_id';
+
+        if v_stock is null or v_stock - v_reserved < (v_line->>'quantity')::numeric then
+            raise exception 'insufficient_stock:%', v_line->>'batch_id';
+        end if;
+
+        update product_batches
+        set stock = stock - (v_line->>'quantity')::numeric
+        where id::text = v_line->>'batch_id';
+    end loop;
+end;
+$$;
+
+revoke execute on function deduct_batch_stock(jsonb) from public, anon, authenticated;
+
+drop function if exists create_sale(jsonb, jsonb, jsonb, jsonb);
+create or replace function create_sale(p_invoice jsonb, p_items jsonb, p_deductions jsonb, p_customer jsonb default null, p_order_id text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_order customer_orders;
+begin
+    perform require_permission('pos:create_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access(p_invoice->>'branch_id');
+
+    if p_order_id is not null then
+        select * into v_order from customer_orders where id = p_order_id for update;
+        if not found or v_order.status <> 'open' then
+            raise exception 'order_not_open:%', p_order_id;
+        end if;
+        if v_order.branch_id is distinct from p_invoice->>'branch_id'
+           or v_order.customer_id is distinct from nullif(p_invoice->>'customer_id', '') then
+            raise exception 'order_mismatch:%', p_order_id;
+        end if;
+
+        update customer_orders set status = 'completed', invoice_id = p_invoice->>'id' where id = p_order_id;
+    end if;
+
+    perform set_stock_context('sale', p_invoice->>'id');
+    perform check_deduction_branch(p_deductions, p_invoice->>'branch_id');
+    perform create_sale_unchecked(p_invoice, p_items, p_deductions, p_customer);
+end;
+$$;
+
+revoke execute on function create_sale(jsonb, jsonb, jsonb, jsonb, text) from public, anon;
+grant execute on function create_sale(jsonb, jsonb, jsonb, jsonb, text) to authenticated;
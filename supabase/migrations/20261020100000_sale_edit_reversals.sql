@@ -0,0 +1,125 @@
+-- Editing a sale reverses what it booked instead of erasing it.
+--
+--   * The credit of the old version stays on the customer's statement. A credit_sale_reversal
+--     row takes it off again (reverses_transaction_id points at the charge), and the edited
+--     invoice books its credit as a new credit_sale. Before, the old row was deleted.
+--   * The stock goes back into the batches the sale took it from, as the stock_movements ledger
+--     recorded them, instead of into the newest batch, so FEFO/FIFO order and expiry dates stay
+--     right. Sales made before the ledger existed have no movements and are restored as before.
+
+alter table customer_transactions add column if not exists reverses_transaction_id text;
+
+create index if not exists stock_movements_ref_id_idx on stock_movements (ref_id);
+
+-- Puts the units an invoice still holds back into their batches. What the sale and its edits
+-- moved nets out per batch; a batch deleted since then is replaced by restore_product_stock.
+create or replace function restore_invoice_stock(p_invoice_id text, p_restores jsonb, p_branch_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_line jsonb;
+    v_batch record;
+begin
+    if not exists (select 1 from stock_movements where ref_id = p_invoice_id and reason = 'sale') then
+        for v_line in select * from jsonb_array_elements(coalesce(p_restores, '[]'::jsonb)) loop
+            perform restore_product_stock(v_line->>'product_id', (v_line->>'quantity')::numeric, p_branch_id);
+        end loop;
+        return;
+    end if;
+
+    for v_batch in
+        select batch_id, product_id, -sum(delta) as quantity
+        from stock_movements
+        where ref_id = p_invoice_id and reason in ('sale', 'sale_edit')
+        group by batch_id, product_id
+        having sum(delta) < 0
+    loop
+        update product_batches set stock = stock + v_batch.quantity where id::text = v_batch.batch_id;
+        if not found then
+            perform restore_product_stock(v_batch.product_id, v_batch.quantity, p_branch_id);
+        end if;
+    end loop;
+end;
+$$;
+
+revoke execute on function restore_invoice_stock(text, jsonb, text) from public, anon, authenticated;
+
+-- Takes the open credit of an invoice off its customers with a counter-entry each
+create or replace function reverse_invoice_credit(p_invoice_id text, p_description text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in
+        select t.id, t.customer_id, t.amount from customer_transactions t
+        where t.invoice_id::text = p_invoice_id and t.type = 'credit_sale'
+          and not exists (select 1 from customer_transactions r where r.reverses_transaction_id = t.id::text)
+    loop
+        update customers set balance = balance - v_tx.amount where id = v_tx.customer_id;
+
+        insert into customer_transactions (id, customer_id, type, amount, date, description, invoice_id, reverses_transaction_id)
+        values (gen_random_uuid(), v_tx.customer_id, 'credit_sale_reversal', v_tx.amount, now(), p_description, p_invoice_id, v_tx.id::text);
+    end loop;
+end;
+$$;
+
+revoke execute on function reverse_invoice_credit(text, text) from public, anon, authenticated;
+
+-- Same as before, with the stock and credit of the old version reversed as above
+create or replace function update_sale_unchecked(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null
+)
+returns void
+language plpgsql
+as $$
+declare
+    v_branch_id text;
+begin
+    select branch_id into v_branch_id from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+
+    perform check_deduction_branch(p_deductions, v_branch_id);
+
+    perform restore_invoice_stock(p_invoice_id, p_restores, v_branch_id);
+    perform reverse_invoice_credit(p_invoice_id, 'برگشت اعتبار فاکتور فروش #' || p_invoice_id || ' (ویرایش)');
+
+    perform revert_invoice_loyalty(p_invoice_id);
+    perform revert_invoice_vouchers(p_invoice_id);
+
+    perform deduct_batch_stock(p_deductions);
+
+    perform check_sale_payments(p_invoice);
+
+    update sale_invoices s
+    set subtotal = r.subtotal,
+        total_discount = r.total_discount,
+        total_amount = r.total_amount,
+        customer_id = r.customer_id,
+        payments = coalesce(r.payments, '[]'::jsonb),
+        change_amount = coalesce(r.change_amount, 0),
+        promotion_ids = coalesce(r.promotion_ids, '{}'),
+        points_earned = coalesce(r.points_earned, 0),
+        points_redeemed = coalesce(r.points_redeemed, 0)
+    from jsonb_populate_record(null::sale_invoices, p_invoice) r
+    where s.id::text = p_invoice_id;
+
+    delete from sale_invoice_items where invoice_id::text = p_invoice_id;
+    insert into sale_invoice_items (invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id)
+    select invoice_id, item_id, type, name, quantity, price, final_price, purchase_price, promotion_id
+    from jsonb_populate_recordset(null::sale_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    perform apply_customer_transaction(p_customer);
+    perform apply_invoice_loyalty(p_invoice);
+    perform apply_invoice_vouchers(p_invoice);
+end;
+$$;
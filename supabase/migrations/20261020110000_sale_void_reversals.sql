@@ -0,0 +1,152 @@
+-- Voiding a sale books its reversal instead of erasing what the sale booked.
+--
+--   * The cash the sale took is paid back out of the drawer that is open when the void happens:
+--     void_sale takes a "sale_void" cash movement for that shift, like issue_voucher takes the
+--     cash of a sold voucher. The sale itself stays in the shift it was rung up in, so the
+--     Z report of that shift does not change afterwards.
+--   * The credit, points and voucher spending of the sale stay on the customer's and the
+--     vouchers' history, each with a counter-entry dated at the void (reverse_invoice_credit,
+--     'earn_void' / 'redeem_void' points, 'redeem_void' voucher rows).
+--   * The stock goes back into the batches the sale took it from (restore_invoice_stock).
+
+alter table cash_movements drop constraint if exists cash_movements_reason_check;
+alter table cash_movements add constraint cash_movements_reason_check
+    check (reason in ('float_top_up', 'petty_purchase', 'owner_withdrawal', 'bank_deposit', 'voucher_sale', 'sale_void', 'other'));
+
+alter table loyalty_transactions drop constraint if exists loyalty_transactions_type_check;
+alter table loyalty_transactions add constraint loyalty_transactions_type_check
+    check (type in ('earn', 'redeem', 'earn_reversal', 'redeem_refund', 'earn_void', 'redeem_void'));
+
+alter table voucher_transactions drop constraint if exists voucher_transactions_type_check;
+alter table voucher_transactions add constraint voucher_transactions_type_check
+    check (type in ('issue', 'redeem', 'redeem_void'));
+
+-- Gives the customer back the points a voided invoice spent and takes off those it earned
+create or replace function reverse_invoice_loyalty(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in select id, customer_id, type, points from loyalty_transactions where invoice_id = p_invoice_id and type in ('earn', 'redeem') loop
+        update customers set loyalty_points = loyalty_points - v_tx.points where id::text = v_tx.customer_id;
+
+        insert into loyalty_transactions (id, customer_id, type, points, date, invoice_id)
+        values (v_tx.id || ':void', v_tx.customer_id, v_tx.type || '_void', -v_tx.points, now(), p_invoice_id);
+    end loop;
+end;
+$$;
+
+-- Puts what a voided invoice spent back on its vouchers
+create or replace function reverse_invoice_vouchers(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in select id, voucher_id, amount from voucher_transactions where invoice_id = p_invoice_id and type = 'redeem' loop
+        update vouchers set balance = balance - v_tx.amount where id = v_tx.voucher_id;
+
+        insert into voucher_transactions (id, voucher_id, type, amount, date, invoice_id)
+        values (v_tx.id || ':void', v_tx.voucher_id, 'redeem_void', -v_tx.amount, now(), p_invoice_id);
+    end loop;
+end;
+$$;
+
+revoke execute on function reverse_invoice_loyalty(text), reverse_invoice_vouchers(text) from public, anon, authenticated;
+
+-- p_movement: the "sale_void" cash_movements row paying the sale's cash back, or null when the
+-- sale took no cash. Invoices saved before split tender were paid in cash unless on account.
+drop function if exists void_sale(text, text);
+create or replace function void_sale(p_invoice_id text, p_reason text, p_movement jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_invoice sale_invoices;
+    v_before jsonb;
+    v_restores jsonb;
+    v_cash numeric;
+    v_movement cash_movements;
+begin
+    perform require_permission('pos:void_invoice');
+    if coalesce(btrim(p_reason), '') = '' then
+        raise exception 'reason_required:%', p_invoice_id;
+    end if;
+
+    select * into v_invoice from sale_invoices where id::text = p_invoice_id for update;
+    if not found then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+    perform require_branch_access(v_invoice.branch_id);
+
+    if v_invoice.status = 'void' then
+        raise exception 'invoice_void:%', p_invoice_id;
+    end if;
+    if v_invoice.type <> 'sale'
+       or v_invoice.exchange_id is not null
+       or exists (select 1 from sale_invoices where original_invoice_id::text = p_invoice_id)
+       or exists (select 1 from customer_orders where invoice_id = p_invoice_id) then
+        raise exception 'invoice_not_voidable:%', p_invoice_id;
+    end if;
+
+    if jsonb_array_length(coalesce(v_invoice.payments, '[]'::jsonb)) = 0 then
+        v_cash := case when v_invoice.customer_id is null then v_invoice.total_amount else 0 end;
+    else
+        select coalesce(sum((p->>'amount')::numeric), 0) - coalesce(v_invoice.change_amount, 0) into v_cash
+        from jsonb_array_elements(v_invoice.payments) p
+        where p->>'method' in ('cash_afn', 'cash_usd');
+    end if;
+
+    if v_cash > 0.01 then
+        v_movement := jsonb_populate_record(null::cash_movements, p_movement);
+        if v_movement.id is null or v_movement.type is distinct from 'out' or v_movement.reason is distinct from 'sale_void'
+           or abs(v_movement.amount - v_cash) > 0.01 or v_movement.branch_id is distinct from v_invoice.branch_id then
+            raise exception 'invalid_void_refund:%', p_invoice_id;
+        end if;
+
+        perform 1 from cash_shifts
+        where id = v_movement.shift_id and branch_id = v_movement.branch_id and status = 'open';
+        if not found then
+            raise exception 'shift_not_open:%', v_movement.shift_id;
+        end if;
+
+        insert into cash_movements (id, shift_id, branch_id, type, amount, reason, note, "user", timestamp)
+        values (v_movement.id, v_movement.shift_id, v_movement.branch_id, v_movement.type, v_movement.amount,
+                v_movement.reason, v_movement.note, v_movement."user", coalesce(v_movement.timestamp, now()));
+    elsif p_movement is not null and jsonb_typeof(p_movement) <> 'null' then
+        raise exception 'invalid_void_refund:%', p_invoice_id;
+    end if;
+
+    v_before := sale_invoice_snapshot(p_invoice_id);
+    perform set_stock_context('sale_void', p_invoice_id);
+
+    select coalesce(jsonb_agg(jsonb_build_object('product_id', item_id, 'quantity', quantity)), '[]'::jsonb) into v_restores
+    from (
+        select item_id, sum(quantity) as quantity from sale_invoice_items
+        where invoice_id::text = p_invoice_id and type = 'product'
+        group by item_id
+    ) items;
+    perform restore_invoice_stock(p_invoice_id, v_restores, v_invoice.branch_id);
+
+    perform reverse_invoice_credit(p_invoice_id, 'ابطال فاکتور فروش #' || p_invoice_id);
+    perform reverse_invoice_loyalty(p_invoice_id);
+    perform reverse_invoice_vouchers(p_invoice_id);
+
+    update sale_invoices
+    set status = 'void',
+        voided_at = now(),
+        voided_by = coalesce(auth.jwt()->>'username', 'system'),
+        void_reason = btrim(p_reason)
+    where id::text = p_invoice_id;
+
+    perform insert_sale_revision(p_invoice_id, 'void', p_reason, v_before);
+end;
+$$;
+
+revoke execute on function void_sale(text, text, jsonb) from public, anon;
+grant execute on function void_sale(text, text, jsonb) to authenticated;
@@ -0,0 +1,103 @@
+-- The down payment of a partial credit sale is on the customer's statement.
+--
+-- Before, only the on-account part of the sale was written, as its credit_sale, and what the
+-- customer paid at the till was left to the invoice's payment lines. Now the credit_sale
+-- charges the whole invoice and a 'payment' row of the same invoice takes the paid part off
+-- again. The balance still moves by the on-account part only. The payment has no shift: its
+-- cash is already counted in the shift through the invoice. Edits and voids reverse both rows
+-- (a payment_reversal for the payment).
+
+-- Same as before, with the optional p_customer.payment row of a credit sale
+create or replace function apply_customer_transaction(p_customer jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_amount numeric;
+    v_balance numeric;
+    v_limit numeric;
+    v_override_id text;
+    v_transaction customer_transactions;
+    v_payment customer_transactions;
+begin
+    if p_customer is null or jsonb_typeof(p_customer) = 'null' then
+        return;
+    end if;
+
+    v_amount := (p_customer->>'amount')::numeric;
+    v_transaction := jsonb_populate_record(null::customer_transactions, p_customer->'transaction');
+
+    if p_customer->'payment' is not null and jsonb_typeof(p_customer->'payment') <> 'null' then
+        v_payment := jsonb_populate_record(null::customer_transactions, p_customer->'payment');
+        if v_transaction.type is distinct from 'credit_sale' or v_payment.type is distinct from 'payment'
+           or v_payment.customer_id is distinct from v_transaction.customer_id
+           or v_payment.invoice_id is null or v_payment.invoice_id is distinct from v_transaction.invoice_id
+           or v_payment.amount <= 0 or abs(v_transaction.amount - v_payment.amount - v_amount) > 0.01 then
+            raise exception 'invalid_payment:%', v_transaction.invoice_id;
+        end if;
+    end if;
+
+    update customers
+    set balance = balance + v_amount
+    where id::text = p_customer->>'id'
+    returning balance, credit_limit into v_balance, v_limit;
+
+    if not found then
+        raise exception 'customer_not_found:%', p_customer->>'id';
+    end if;
+
+    if v_amount > 0 and v_limit is not null and v_balance > v_limit + 0.01
+       and coalesce(v_transaction.type, '') <> 'deposit_refund' then
+        v_override_id := nullif(p_customer->>'override_id', '');
+        if v_override_id is null then
+            raise exception 'credit_limit_exceeded:%', p_customer->>'id';
+        end if;
+
+        update credit_limit_overrides
+        set invoice_id = v_transaction.invoice_id
+        where id::text = v_override_id
+          and customer_id = p_customer->>'id'
+          and amount >= v_amount - 0.01
+          and created_at > now() - interval '15 minutes'
+          and (invoice_id is null or invoice_id = v_transaction.invoice_id);
+
+        if not found then
+            raise exception 'credit_override_invalid:%', v_override_id;
+        end if;
+    end if;
+
+    insert into customer_transactions (id, customer_id, type, amount, date, description, invoice_id, shift_id, order_id)
+    values (v_transaction.id, v_transaction.customer_id, v_transaction.type, v_transaction.amount, v_transaction.date,
+            v_transaction.description, v_transaction.invoice_id, v_transaction.shift_id, v_transaction.order_id);
+
+    if v_payment.id is not null then
+        insert into customer_transactions (id, customer_id, type, amount, date, description, invoice_id)
+        values (v_payment.id, v_payment.customer_id, 'payment', v_payment.amount, v_payment.date, v_payment.description, v_payment.invoice_id);
+    end if;
+end;
+$$;
+
+revoke execute on function apply_customer_transaction(jsonb) from public, anon, authenticated;
+
+-- Same as before, and the payment of a credit sale is reversed with its charge
+create or replace function reverse_invoice_credit(p_invoice_id text, p_description text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in
+        select t.id, t.customer_id, t.type, t.amount from customer_transactions t
+        where t.invoice_id::text = p_invoice_id and t.type in ('credit_sale', 'payment')
+          and not exists (select 1 from customer_transactions r where r.reverses_transaction_id = t.id::text)
+    loop
+        update customers
+        set balance = balance - case when v_tx.type = 'credit_sale' then v_tx.amount else -v_tx.amount end
+        where id = v_tx.customer_id;
+
+        insert into customer_transactions (id, customer_id, type, amount, date, description, invoice_id, reverses_transaction_id)
+        values (gen_random_uuid(), v_tx.customer_id, v_tx.type || '_reversal', v_tx.amount, now(), p_description, p_invoice_id, v_tx.id::text);
+    end loop;
+end;
+$$;
@@ -0,0 +1,207 @@
+-- The stock a sale, edit or return moves has to match its items.
+--
+-- create_sale, update_sale, create_sale_return and create_exchange took the batches to deduct
+-- and the products to restore from the browser as they came. A sale could deduct another
+-- product's batch or nothing at all, a return could restore unrelated stock, and a negative
+-- quantity passed the stock check and added stock instead. check_stock_lines now refuses
+-- quantities that are not positive and lists whose per-product totals differ from the items.
+
+-- p_lines are deductions ({batch_id, quantity}) or restores ({product_id, quantity})
+create or replace function check_stock_lines(p_items jsonb, p_lines jsonb)
+returns void
+language plpgsql
+stable
+as $$
+declare
+    v_product_id text;
+begin
+    if exists (
+        select 1 from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) i
+        where coalesce((i->>'quantity')::numeric, 0) <= 0
+    ) or exists (
+        select 1 from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) l
+        where coalesce((l->>'quantity')::numeric, 0) <= 0
+    ) then
+        raise exception 'invalid_quantity';
+    end if;
+
+    select coalesce(i.product_id, l.product_id) into v_product_id
+    from (
+        select i->>'item_id' as product_id, sum((i->>'quantity')::numeric) as quantity
+        from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) i
+        where i->>'type' = 'product'
+        group by 1
+    ) i
+    full join (
+        select coalesce(l->>'product_id', b.product_id::text) as product_id, sum((l->>'quantity')::numeric) as quantity
+        from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) l
+        left join product_batches b on b.id::text = l->>'batch_id'
+        group by 1
+    ) l on l.product_id = i.product_id
+    where abs(coalesce(i.quantity, 0) - coalesce(l.quantity, 0)) > 0.0001
+    limit 1;
+
+    if found then
+        raise exception 'stock_mismatch:%', v_product_id;
+    end if;
+end;
+$$;
+
+revoke execute on function check_stock_lines(jsonb, jsonb) from public, anon, authenticated;
+
+-- Same as before, with the deductions checked against the items
+create or replace function create_sale(p_invoice jsonb, p_items jsonb, p_deductions jsonb, p_customer jsonb default null, p_order_id text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_order customer_orders;
+begin
+    perform require_permission('pos:create_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access(p_invoice->>'branch_id');
+    perform check_stock_lines(p_items, p_deductions);
+
+    if p_order_id is not null then
+        select * into v_order from customer_orders where id = p_order_id for update;
+        if not found or v_order.status <> 'open' then
+            raise exception 'order_not_open:%', p_order_id;
+        end if;
+        if v_order.branch_id is distinct from p_invoice->>'branch_id'
+           or v_order.customer_id is distinct from nullif(p_invoice->>'customer_id', '') then
+            raise exception 'order_mismatch:%', p_order_id;
+        end if;
+
+        update customer_orders set status = 'completed', invoice_id = p_invoice->>'id' where id = p_order_id;
+    end if;
+
+    perform set_stock_context('sale', p_invoice->>'id');
+    perform check_deduction_branch(p_deductions, p_invoice->>'branch_id');
+    perform create_sale_unchecked(p_invoice, p_items, p_deductions, p_customer);
+end;
+$$;
+
+-- Same as before, with the deductions checked against the new items and the restores against
+-- the items the invoice holds now
+create or replace function update_sale(
+    p_invoice_id text,
+    p_invoice jsonb,
+    p_items jsonb,
+    p_restores jsonb,
+    p_deductions jsonb,
+    p_customer jsonb default null,
+    p_reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_before jsonb;
+begin
+    perform require_permission('pos:edit_invoice');
+    if p_customer is not null and jsonb_typeof(p_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+    perform require_branch_access((select branch_id from sale_invoices where id::text = p_invoice_id));
+    if coalesce(btrim(p_reason), '') = '' then
+        raise exception 'reason_required:%', p_invoice_id;
+    end if;
+    if exists (select 1 from sale_invoices where id::text = p_invoice_id and status = 'void') then
+        raise exception 'invoice_void:%', p_invoice_id;
+    end if;
+    if exists (select 1 from sale_invoices where id::text = p_invoice_id and (type <> 'sale' or exchange_id is not null)) then
+        raise exception 'invoice_not_editable:%', p_invoice_id;
+    end if;
+
+    perform check_stock_lines(p_items, p_deductions);
+    perform check_stock_lines(
+        (select coalesce(jsonb_agg(to_jsonb(i)), '[]'::jsonb) from sale_invoice_items i where i.invoice_id::text = p_invoice_id),
+        p_restores
+    );
+
+    v_before := sale_invoice_snapshot(p_invoice_id);
+    perform set_stock_context('sale_edit', p_invoice_id);
+    perform update_sale_unchecked(p_invoice_id, p_invoice, p_items, p_restores, p_deductions, p_customer);
+    perform insert_sale_revision(p_invoice_id, 'edit', p_reason, v_before);
+end;
+$$;
+
+-- Same as before, with the restores checked against the returned items
+create or replace function create_sale_return(p_invoice jsonb, p_items jsonb, p_restores jsonb, p_customer jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform require_permission('pos:create_invoice');
+    perform require_branch_access(p_invoice->>'branch_id');
+    perform check_not_void(p_invoice->>'original_invoice_id');
+    perform check_stock_lines(p_items, p_restores);
+    perform set_stock_context('sale_return', p_invoice->>'id');
+    perform create_sale_return_unchecked(p_invoice, p_items, p_restores, p_customer);
+end;
+$$;
+
+-- Same as before, with both sides of the exchange checked the same way
+create or replace function create_exchange(
+    p_return jsonb,
+    p_return_items jsonb,
+    p_restores jsonb,
+    p_return_customer jsonb,
+    p_sale jsonb,
+    p_sale_items jsonb,
+    p_deductions jsonb,
+    p_sale_customer jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_paid_out numeric;
+    v_taken_in numeric;
+begin
+    perform require_permission('pos:create_invoice');
+    if p_sale_customer is not null and jsonb_typeof(p_sale_customer) <> 'null' then
+        perform require_permission('pos:create_credit_sale');
+    end if;
+
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid_out
+    from jsonb_array_elements(coalesce(p_return->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_taken_in
+    from jsonb_array_elements(coalesce(p_sale->'payments', '[]'::jsonb)) p where p->>'method' = 'exchange';
+
+    if p_return->>'type' <> 'return' or p_sale->>'type' <> 'sale'
+       or nullif(p_sale->>'exchange_id', '') is null
+       or p_return->>'exchange_id' is distinct from p_sale->>'exchange_id'
+       or p_return->>'branch_id' is distinct from p_sale->>'branch_id'
+       or nullif(p_return->>'customer_id', '') is distinct from nullif(p_sale->>'customer_id', '')
+       or abs(v_paid_out - v_taken_in) > 0.01
+       or exists (select 1 from sale_invoices where exchange_id = p_sale->>'exchange_id') then
+        raise exception 'invalid_exchange:%', p_sale->>'exchange_id';
+    end if;
+
+    perform require_branch_access(p_sale->>'branch_id');
+    perform check_not_void(p_return->>'original_invoice_id');
+    perform check_stock_lines(p_return_items, p_restores);
+    perform check_stock_lines(p_sale_items, p_deductions);
+    perform set_config('app.exchange_id', p_sale->>'exchange_id', true);
+
+    perform set_stock_context('sale_return', p_return->>'id');
+    perform create_sale_return_unchecked(p_return, p_return_items, p_restores, p_return_customer);
+
+    perform set_stock_context('sale', p_sale->>'id');
+    perform check_deduction_branch(p_deductions, p_sale->>'branch_id');
+    perform create_sale_unchecked(p_sale, p_sale_items, p_deductions, p_sale_customer);
+
+    perform set_config('app.exchange_id', '', true);
+end;
+$$;
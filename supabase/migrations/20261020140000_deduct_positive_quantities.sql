@@ -0,0 +1,43 @@
+-- deduct_batch_stock refuses quantities that are not positive.
+--
+-- A negative quantity passed "v_stock - v_reserved < quantity" and "stock - quantity" then added
+-- stock to the batch. check_stock_lines guards the sale entry points; this covers every caller,
+-- stock transfers included.
+
+-- Same as before, and a line must take at least something
+create or replace function deduct_batch_stock(p_deductions jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_line jsonb;
+    v_stock numeric;
+    v_reserved numeric;
+begin
+    for v_line in select * from jsonb_array_elements(coalesce(p_deductions, '[]'::jsonb)) loop
+        if coalesce((v_line->>'quantity')::numeric, 0) <= 0 then
+            raise exception 'invalid_quantity:%', v_line->>'batch_id';
+        end if;
+
+        select stock into v_stock
+        from product_batches
+        where id::text = v_line->>'batch_id'
+        for update;
+
+        select coalesce(sum(r.quantity), 0) into v_reserved
+        from customer_order_reservations r
+        join customer_orders o on o.id = r.order_id
+        where o.status = 'open' and r.batch_id = v_line->>'batch_id';
+
+        if v_stock is null or v_stock - v_reserved < (v_line->>'quantity')::numeric then
+            raise exception 'insufficient_stock:%', v_line->>'batch_id';
+        end if;
+
+        update product_batches
+        set stock = stock - (v_line->>'quantity')::numeric
+        where id::text = v_line->>'batch_id';
+    end loop;
+end;
+$$;
+
+revoke execute on function deduct_batch_stock(jsonb) from public, anon, authenticated;
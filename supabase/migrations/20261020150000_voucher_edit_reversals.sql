@@ -0,0 +1,122 @@
+-- Editing a sale keeps its voucher redemptions on the ledger, and vouchers expire by the clock.
+--
+--   * revert_invoice_vouchers used to delete the redemptions of the old version. It now books a
+--     'redeem_edit' counter-entry for each ('<redemption id>:edit'), the way a void books
+--     'redeem_void', and the edited invoice redeems again under a new id ('<invoice id>:<voucher
+--     id>:<n>'). A redemption with a counter-entry is never reversed twice, so voiding an edited
+--     sale only gives back what the current version spent.
+--   * apply_invoice_vouchers checked the expiry date against the invoice's timestamp, which comes
+--     from the browser, so a backdated sale could spend an expired voucher. It checks against
+--     today now. An edit may still keep what the sale had already spent from a voucher that
+--     has expired since.
+
+alter table voucher_transactions drop constraint if exists voucher_transactions_type_check;
+alter table voucher_transactions add constraint voucher_transactions_type_check
+    check (type in ('issue', 'redeem', 'redeem_edit', 'redeem_void'));
+
+-- Same as before, with expiry checked against today and a new id for each redemption an edit books
+create or replace function apply_invoice_vouchers(p_invoice jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_invoice sale_invoices;
+    v_line record;
+    v_voucher vouchers;
+    v_voucher_id text;
+    v_index integer := 0;
+    v_booked integer;
+    v_spent numeric;
+begin
+    v_invoice := jsonb_populate_record(null::sale_invoices, p_invoice);
+
+    for v_line in
+        select upper(trim(p->>'reference')) as code, sum((p->>'amount')::numeric) as amount
+        from jsonb_array_elements(coalesce(v_invoice.payments, '[]'::jsonb)) p
+        where p->>'method' = 'voucher'
+        group by upper(trim(p->>'reference'))
+        having sum((p->>'amount')::numeric) > 0
+    loop
+        if v_invoice.type = 'return' then
+            v_index := v_index + 1;
+            v_voucher_id := v_invoice.id || ':voucher' || case when v_index > 1 then v_index::text else '' end;
+            insert into vouchers (id, code, issued_amount, balance, source, invoice_id, customer_id, branch_id, issued_at, issued_by)
+            values (v_voucher_id, v_line.code, v_line.amount, v_line.amount, 'return', v_invoice.id, v_invoice.customer_id,
+                    v_invoice.branch_id, coalesce(v_invoice.timestamp, now()), v_invoice.cashier);
+
+            insert into voucher_transactions (id, voucher_id, type, amount, date, invoice_id)
+            values (v_voucher_id || ':issue', v_voucher_id, 'issue', v_line.amount, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+            continue;
+        end if;
+
+        select * into v_voucher from vouchers where code = v_line.code for update;
+        if not found then
+            raise exception 'voucher_not_found:%', v_line.code;
+        end if;
+
+        -- Earlier versions of this invoice (an edit reversed them just before)
+        select count(*), coalesce(max(-amount), 0) into v_booked, v_spent
+        from voucher_transactions
+        where invoice_id = v_invoice.id and voucher_id = v_voucher.id and type = 'redeem';
+
+        if v_voucher.expiry_date is not null and current_date > v_voucher.expiry_date
+           and v_line.amount > v_spent + 0.01 then
+            raise exception 'voucher_expired:%', v_line.code;
+        end if;
+        if v_voucher.balance < v_line.amount - 0.01 then
+            raise exception 'insufficient_voucher_balance:%', v_line.code;
+        end if;
+
+        update vouchers set balance = greatest(balance - v_line.amount, 0) where id = v_voucher.id;
+
+        insert into voucher_transactions (id, voucher_id, type, amount, date, invoice_id)
+        values (v_invoice.id || ':' || v_voucher.id || case when v_booked > 0 then ':' || (v_booked + 1)::text else '' end,
+                v_voucher.id, 'redeem', -v_line.amount, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+    end loop;
+end;
+$$;
+
+-- Puts what the old version of an edited invoice spent back on its vouchers, with a
+-- counter-entry per redemption
+create or replace function revert_invoice_vouchers(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in
+        select t.id, t.voucher_id, t.amount from voucher_transactions t
+        where t.invoice_id = p_invoice_id and t.type = 'redeem'
+          and not exists (select 1 from voucher_transactions r where r.id in (t.id || ':edit', t.id || ':void'))
+    loop
+        update vouchers set balance = balance - v_tx.amount where id = v_tx.voucher_id;
+
+        insert into voucher_transactions (id, voucher_id, type, amount, date, invoice_id)
+        values (v_tx.id || ':edit', v_tx.voucher_id, 'redeem_edit', -v_tx.amount, now(), p_invoice_id);
+    end loop;
+end;
+$$;
+
+-- Same as before, leaving out the redemptions an edit has already reversed
+create or replace function reverse_invoice_vouchers(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in
+        select t.id, t.voucher_id, t.amount from voucher_transactions t
+        where t.invoice_id = p_invoice_id and t.type = 'redeem'
+          and not exists (select 1 from voucher_transactions r where r.id in (t.id || ':edit', t.id || ':void'))
+    loop
+        update vouchers set balance = balance - v_tx.amount where id = v_tx.voucher_id;
+
+        insert into voucher_transactions (id, voucher_id, type, amount, date, invoice_id)
+        values (v_tx.id || ':void', v_tx.voucher_id, 'redeem_void', -v_tx.amount, now(), p_invoice_id);
+    end loop;
+end;
+$$;
+
+revoke execute on function apply_invoice_vouchers(jsonb), revert_invoice_vouchers(text), reverse_invoice_vouchers(text) from public, anon, authenticated;
@@ -0,0 +1,169 @@
+-- Editing a sale keeps its points history.
+--
+-- revert_invoice_loyalty used to delete the earn and redeem rows of the old version. It now
+-- books an 'earn_edit' / 'redeem_edit' counter-entry for each ('<row id>:edit'), the way a void
+-- books 'earn_void' / 'redeem_void', and the edited invoice books its points under new ids
+-- ('<invoice id>:earn:<n>', '<invoice id>:redeem:<n>'). A row with a counter-entry is never
+-- reversed twice, so voiding an edited sale only reverses the points of the current version.
+
+alter table loyalty_transactions drop constraint if exists loyalty_transactions_type_check;
+alter table loyalty_transactions add constraint loyalty_transactions_type_check
+    check (type in ('earn', 'redeem', 'earn_reversal', 'redeem_refund', 'earn_edit', 'redeem_edit', 'earn_void', 'redeem_void'));
+
+-- Same as before, with a new id for each row an edit books
+create or replace function apply_invoice_loyalty(p_invoice jsonb)
+returns void
+language plpgsql
+as $$
+declare
+    v_invoice sale_invoices;
+    v_settings store_settings;
+    v_original sale_invoices;
+    v_sign numeric;
+    v_tendered numeric;
+    v_balance numeric;
+    v_units numeric;
+    v_paid_share numeric;
+    v_max_earned numeric;
+    v_earned_left numeric;
+    v_redeemed_left numeric;
+    v_booked integer;
+begin
+    v_invoice := jsonb_populate_record(null::sale_invoices, p_invoice);
+    if coalesce(v_invoice.points_earned, 0) = 0 and coalesce(v_invoice.points_redeemed, 0) = 0 then
+        return;
+    end if;
+    if v_invoice.customer_id is null then
+        raise exception 'invalid_points:%', v_invoice.id;
+    end if;
+
+    v_sign := case when v_invoice.type = 'return' then -1 else 1 end;
+    select * into v_settings from store_settings limit 1;
+
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_tendered
+    from jsonb_array_elements(coalesce(v_invoice.payments, '[]'::jsonb)) p
+    where p->>'method' = 'loyalty_points';
+
+    if v_invoice.type = 'sale' then
+        -- The points tender of a sale is worth no more than the points spent on it
+        if v_tendered > coalesce(v_invoice.points_redeemed, 0) * v_settings.loyalty_point_value + 0.01 then
+            raise exception 'invalid_points:%', v_invoice.id;
+        end if;
+
+        -- Only the part not paid with points earns, like getEarnedPoints
+        v_max_earned := 0;
+        if v_settings.loyalty_enabled and v_settings.loyalty_earn_points > 0 and v_invoice.total_amount > 0 then
+            v_paid_share := greatest(v_invoice.total_amount - v_tendered, 0) / v_invoice.total_amount;
+            if v_settings.loyalty_earn_mode = 'per_item' then
+                select coalesce(sum(quantity), 0) into v_units
+                from sale_invoice_items
+                where invoice_id::text = v_invoice.id and type = 'product';
+                v_max_earned := floor(v_units * v_settings.loyalty_earn_points * v_paid_share);
+            else
+                v_max_earned := floor(v_invoice.total_amount * v_paid_share / v_settings.loyalty_earn_amount) * v_settings.loyalty_earn_points;
+            end if;
+        end if;
+        if coalesce(v_invoice.points_earned, 0) > v_max_earned + 0.001 then
+            raise exception 'invalid_points:%', v_invoice.id;
+        end if;
+    else
+        select * into v_original from sale_invoices where id::text = v_invoice.original_invoice_id;
+        if not found or v_original.customer_id is distinct from v_invoice.customer_id then
+            raise exception 'invalid_points:%', v_invoice.id;
+        end if;
+
+        -- This return is already saved, so it is left out of the earlier ones
+        select v_original.points_earned - coalesce(sum(points_earned), 0),
+               v_original.points_redeemed - coalesce(sum(points_redeemed), 0)
+        into v_earned_left, v_redeemed_left
+        from sale_invoices
+        where type = 'return' and original_invoice_id::text = v_original.id::text and id::text <> v_invoice.id;
+
+        if coalesce(v_invoice.points_earned, 0) > v_earned_left + 0.001
+           or coalesce(v_invoice.points_redeemed, 0) > v_redeemed_left + 0.001 then
+            raise exception 'invalid_points:%', v_invoice.id;
+        end if;
+    end if;
+
+    if coalesce(v_invoice.points_redeemed, 0) > 0 then
+        update customers
+        set loyalty_points = loyalty_points - v_sign * v_invoice.points_redeemed
+        where id::text = v_invoice.customer_id
+        returning loyalty_points into v_balance;
+
+        if not found then
+            raise exception 'customer_not_found:%', v_invoice.customer_id;
+        end if;
+        if v_balance < -0.001 then
+            raise exception 'insufficient_points:%', v_invoice.customer_id;
+        end if;
+
+        select count(*) into v_booked from loyalty_transactions where invoice_id = v_invoice.id and type = 'redeem';
+        insert into loyalty_transactions (id, customer_id, type, points, date, invoice_id)
+        values (v_invoice.id || ':redeem' || case when v_booked > 0 then ':' || (v_booked + 1)::text else '' end, v_invoice.customer_id,
+                case when v_sign > 0 then 'redeem' else 'redeem_refund' end,
+                -v_sign * v_invoice.points_redeemed, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+    end if;
+
+    if coalesce(v_invoice.points_earned, 0) > 0 then
+        update customers
+        set loyalty_points = loyalty_points + v_sign * v_invoice.points_earned
+        where id::text = v_invoice.customer_id;
+
+        if not found then
+            raise exception 'customer_not_found:%', v_invoice.customer_id;
+        end if;
+
+        select count(*) into v_booked from loyalty_transactions where invoice_id = v_invoice.id and type = 'earn';
+        insert into loyalty_transactions (id, customer_id, type, points, date, invoice_id)
+        values (v_invoice.id || ':earn' || case when v_booked > 0 then ':' || (v_booked + 1)::text else '' end, v_invoice.customer_id,
+                case when v_sign > 0 then 'earn' else 'earn_reversal' end,
+                v_sign * v_invoice.points_earned, coalesce(v_invoice.timestamp, now()), v_invoice.id);
+    end if;
+end;
+$$;
+
+-- Takes the points of the old version of an edited invoice off the customers again, with a
+-- counter-entry per row
+create or replace function revert_invoice_loyalty(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in
+        select t.id, t.customer_id, t.type, t.points from loyalty_transactions t
+        where t.invoice_id = p_invoice_id and t.type in ('earn', 'redeem')
+          and not exists (select 1 from loyalty_transactions r where r.id in (t.id || ':edit', t.id || ':void'))
+    loop
+        update customers set loyalty_points = loyalty_points - v_tx.points where id::text = v_tx.customer_id;
+
+        insert into loyalty_transactions (id, customer_id, type, points, date, invoice_id)
+        values (v_tx.id || ':edit', v_tx.customer_id, v_tx.type || '_edit', -v_tx.points, now(), p_invoice_id);
+    end loop;
+end;
+$$;
+
+-- Same as before, leaving out the rows an edit has already reversed
+create or replace function reverse_invoice_loyalty(p_invoice_id text)
+returns void
+language plpgsql
+as $$
+declare
+    v_tx record;
+begin
+    for v_tx in
+        select t.id, t.customer_id, t.type, t.points from loyalty_transactions t
+        where t.invoice_id = p_invoice_id and t.type in ('earn', 'redeem')
+          and not exists (select 1 from loyalty_transactions r where r.id in (t.id || ':edit', t.id || ':void'))
+    loop
+        update customers set loyalty_points = loyalty_points - v_tx.points where id::text = v_tx.customer_id;
+
+        insert into loyalty_transactions (id, customer_id, type, points, date, invoice_id)
+        values (v_tx.id || ':void', v_tx.customer_id, v_tx.type || '_void', -v_tx.points, now(), p_invoice_id);
+    end loop;
+end;
+$$;
+
+revoke execute on function apply_invoice_loyalty(jsonb), revert_invoice_loyalty(text), reverse_invoice_loyalty(text) from public, anon, authenticated;
@@ -0,0 +1,119 @@
+-- Document numbers carry the branch, so no two tills issue the same number.
+--
+-- The counters are per branch, but the pattern had no branch in it, so every branch issued
+-- F-1405-000001 and so on. Branches get a short code (01, 02, ... for the existing ones, in the
+-- order they were named) and the pattern has to hold it as {branch}, e.g.
+-- '{prefix}-{branch}-{year}-{seq:6}' gives F-01-1405-000123. Patterns without it get the code
+-- after the prefix. The number already taken is still looked up per branch, which is enough now
+-- that the branch is part of the number.
+
+alter table branches add column if not exists code text;
+
+update branches b
+set code = lpad(n.rank::text, 2, '0')
+from (select id, row_number() over (order by (id = 'main') desc, name, id) as rank from branches) n
+where b.id = n.id and b.code is null;
+
+-- A branch added without a code (from an older backup) gets the next free number
+create or replace function assign_branch_code()
+returns trigger
+language plpgsql
+as $$
+declare
+    v_next integer;
+begin
+    if coalesce(btrim(new.code), '') = '' then
+        select count(*) + 1 into v_next from branches;
+        loop
+            new.code := lpad(v_next::text, 2, '0');
+            exit when not exists (select 1 from branches where code = new.code);
+            v_next := v_next + 1;
+        end loop;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists assign_branch_code on branches;
+create trigger assign_branch_code before insert on branches
+    for each row execute function assign_branch_code();
+
+alter table branches alter column code set not null;
+alter table branches drop constraint if exists branches_code_check;
+alter table branches add constraint branches_code_check check (code ~ '^[A-Za-z0-9]{1,6}$');
+create unique index if not exists branches_code_key on branches (code);
+
+alter table store_settings alter column document_number_pattern set default '{prefix}-{branch}-{year}-{seq:6}';
+update store_settings
+set document_number_pattern = replace(document_number_pattern, '{prefix}', '{prefix}-{branch}')
+where document_number_pattern not like '%{branch}%';
+
+-- A pattern without the prefix, the branch, the year or the counter would repeat numbers
+alter table store_settings drop constraint if exists store_settings_document_number_pattern_check;
+alter table store_settings add constraint store_settings_document_number_pattern_check check (
+    document_number_pattern like '%{prefix}%'
+    and document_number_pattern like '%{branch}%'
+    and document_number_pattern ~ '\{seq(:\d+)?\}'
+    and (document_number_pattern like '%{year}%' or document_number_pattern like '%{yy}%')
+);
+
+drop function if exists format_document_number(text, text, integer, bigint);
+create or replace function format_document_number(p_pattern text, p_prefix text, p_branch text, p_year integer, p_seq bigint)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+    v_width integer := coalesce((regexp_match(p_pattern, '\{seq:(\d+)\}'))[1]::integer, 0);
+    v_seq text := p_seq::text;
+begin
+    return regexp_replace(
+        replace(replace(replace(replace(p_pattern, '{prefix}', coalesce(p_prefix, '')), '{branch}', coalesce(p_branch, '')),
+                '{year}', p_year::text), '{yy}', lpad((p_year % 100)::text, 2, '0')),
+        '\{seq(:\d+)?\}', lpad(v_seq, greatest(v_width, length(v_seq)), '0'), 'g'
+    );
+end;
+$$;
+
+-- Same as before, with the branch code in the number
+create or replace function next_document_number(p_doc_type text, p_branch_id text, p_at timestamptz)
+returns text
+language plpgsql
+as $$
+declare
+    v_settings store_settings;
+    v_branch_code text;
+    v_year integer;
+    v_seq bigint;
+    v_number text;
+begin
+    select * into v_settings from store_settings limit 1;
+    select code into v_branch_code from branches where id = p_branch_id;
+    v_year := jalali_fiscal_year((p_at at time zone 'Asia/Kabul')::date, coalesce(v_settings.fiscal_year_start_month, 1));
+
+    loop
+        insert into document_counters (doc_type, branch_id, fiscal_year, last_number)
+        values (p_doc_type, coalesce(p_branch_id, ''), v_year, 1)
+        on conflict (doc_type, branch_id, fiscal_year) do update set last_number = document_counters.last_number + 1
+        returning last_number into v_seq;
+
+        v_number := format_document_number(
+            coalesce(v_settings.document_number_pattern, '{prefix}-{branch}-{year}-{seq:6}'),
+            coalesce(v_settings.document_prefixes->>p_doc_type, ''),
+            v_branch_code,
+            v_year,
+            v_seq
+        );
+
+        if p_doc_type in ('sale', 'sale_return') then
+            exit when not exists (select 1 from sale_invoices where branch_id is not distinct from p_branch_id and document_number = v_number);
+        else
+            exit when not exists (select 1 from purchase_invoices where branch_id is not distinct from p_branch_id and document_number = v_number);
+        end if;
+    end loop;
+
+    return v_number;
+end;
+$$;
+
+revoke execute on function next_document_number(text, text, timestamptz) from public, anon, authenticated;
@@ -0,0 +1,10 @@
+-- The activity log is append-only.
+--
+-- activity_logs had no enforce_write_permission trigger and its policy allows every write, so
+-- any logged-in user could rewrite or delete the trail, credit limit approvals and sale voids
+-- and edits included. Every user still writes their own entries; updating and deleting rows is
+-- left to a backup restore (settings:manage_backup).
+
+drop trigger if exists enforce_write_permission on activity_logs;
+create trigger enforce_write_permission before update or delete on activity_logs
+    for each statement execute function enforce_write_permission('', '', '');
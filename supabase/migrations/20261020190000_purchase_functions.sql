@@ -0,0 +1,248 @@
+-- Purchases, their edits and returns run as single Postgres functions, and the weighted average
+-- cost is worked out on the server inside them.
+--
+-- Before, the app wrote the invoice, its items, batches and supplier balance one request at a
+-- time, worked the average cost out in the browser and then rewrote purchase_price on every
+-- batch of the product. Two purchases at once, or a failure half-way, left the costs (and the
+-- rest) inconsistent, and edits and returns never revalued the stock at all. With the average
+-- costing method:
+--   purchase: the branch's batches of each product are revalued at the average of what they
+--             hold, the new batches included (the same sum as getAverageCost in utils/costing.ts)
+--   edit:     a corrected price moves the value of the units the invoice brought in; the stock
+--             itself is still corrected by hand, so a changed quantity does not count
+--   return:   the goods leave at the price they were bought for, so what stays keeps its value
+-- The product row is locked while its cost is worked out, so concurrent purchases of the same
+-- product take turns and each sees the batches the other one added.
+
+-- Revalues the batches of a product in a branch at their weighted average cost, with the stock
+-- on hand worth p_value_delta more (or less) than its batches say
+create or replace function recompute_average_cost(p_product_id text, p_branch_id text, p_value_delta numeric default 0)
+returns void
+language plpgsql
+as $$
+declare
+    v_quantity numeric;
+    v_value numeric;
+begin
+    if (select costing_method from store_settings limit 1) is distinct from 'average' then
+        return;
+    end if;
+
+    perform 1 from products where id::text = p_product_id for update;
+
+    select coalesce(sum(greatest(stock, 0)), 0), coalesce(sum(greatest(stock, 0) * purchase_price), 0)
+    into v_quantity, v_value
+    from product_batches
+    where product_id::text = p_product_id and branch_id = p_branch_id;
+
+    if v_quantity <= 0 then
+        return;
+    end if;
+
+    update product_batches
+    set purchase_price = greatest((v_value + p_value_delta) / v_quantity, 0)
+    where product_id::text = p_product_id and branch_id = p_branch_id;
+end;
+$$;
+
+-- Items of a purchase or purchase return must move something
+create or replace function check_purchase_items(p_items jsonb)
+returns void
+language plpgsql
+immutable
+as $$
+begin
+    if exists (
+        select 1 from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) i
+        where coalesce((i->>'quantity')::numeric, 0) <= 0 or coalesce((i->>'purchase_price')::numeric, -1) < 0
+    ) then
+        raise exception 'invalid_quantity';
+    end if;
+end;
+$$;
+
+revoke execute on function recompute_average_cost(text, text, numeric), check_purchase_items(jsonb) from public, anon, authenticated;
+
+-- p_batches: product_batches rows for the received goods, p_transaction: the supplier_transactions
+-- row. The supplier's balance goes up by the invoice total (in the base currency).
+create or replace function create_purchase(p_invoice jsonb, p_items jsonb, p_batches jsonb, p_transaction jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_invoice purchase_invoices;
+    v_product_id text;
+begin
+    perform require_permission('purchase:create_invoice');
+    v_invoice := jsonb_populate_record(null::purchase_invoices, p_invoice);
+    perform require_branch_access(v_invoice.branch_id);
+    perform check_purchase_items(p_items);
+    perform set_stock_context('purchase', v_invoice.id::text);
+
+    insert into purchase_invoices (id, type, original_invoice_id, supplier_id, invoice_number, total_amount, timestamp, currency, exchange_rate, branch_id)
+    values (v_invoice.id, 'purchase', null, v_invoice.supplier_id, v_invoice.invoice_number, v_invoice.total_amount,
+            v_invoice.timestamp, v_invoice.currency, v_invoice.exchange_rate, v_invoice.branch_id);
+
+    insert into purchase_invoice_items (invoice_id, product_id, product_name, quantity, purchase_price, lot_number, expiry_date)
+    select invoice_id, product_id, product_name, quantity, purchase_price, lot_number, expiry_date
+    from jsonb_populate_recordset(null::purchase_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    insert into product_batches (id, product_id, lot_number, stock, purchase_price, purchase_date, expiry_date, branch_id)
+    select id, product_id, lot_number, stock, purchase_price, purchase_date, expiry_date, v_invoice.branch_id
+    from jsonb_populate_recordset(null::product_batches, coalesce(p_batches, '[]'::jsonb));
+
+    update suppliers set balance = balance + v_invoice.total_amount where id = v_invoice.supplier_id;
+    if not found then
+        raise exception 'supplier_not_found:%', v_invoice.supplier_id;
+    end if;
+
+    insert into supplier_transactions (id, supplier_id, type, amount, date, description, invoice_id, currency)
+    select id, v_invoice.supplier_id, 'purchase', amount, date, description, v_invoice.id, currency
+    from jsonb_populate_record(null::supplier_transactions, p_transaction);
+
+    for v_product_id in select distinct i->>'product_id' from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) i loop
+        perform recompute_average_cost(v_product_id, v_invoice.branch_id);
+    end loop;
+end;
+$$;
+
+-- Header and items are replaced; the supplier's balance and purchase transaction follow the new
+-- total. Stock is not touched (the app asks for a manual correction).
+create or replace function update_purchase(p_invoice_id text, p_invoice jsonb, p_items jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_old purchase_invoices;
+    v_invoice purchase_invoices;
+    v_line record;
+begin
+    perform require_permission('purchase:edit_invoice');
+    select * into v_old from purchase_invoices where id::text = p_invoice_id for update;
+    if not found or v_old.type <> 'purchase' then
+        raise exception 'invoice_not_found:%', p_invoice_id;
+    end if;
+    perform require_branch_access(v_old.branch_id);
+    perform check_purchase_items(p_items);
+    v_invoice := jsonb_populate_record(null::purchase_invoices, p_invoice);
+
+    -- Per product, what the units the invoice brought in were worth before and after the edit
+    for v_line in
+        select o.product_id, o.quantity * (n.value / n.quantity - o.value / o.quantity) as value_delta
+        from (
+            select product_id::text as product_id, sum(quantity) as quantity, sum(quantity * purchase_price) as value
+            from purchase_invoice_items where invoice_id::text = p_invoice_id group by 1
+        ) o
+        join (
+            select i->>'product_id' as product_id, sum((i->>'quantity')::numeric) as quantity,
+                   sum((i->>'quantity')::numeric * (i->>'purchase_price')::numeric) as value
+            from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) i group by 1
+        ) n on n.product_id = o.product_id
+    loop
+        if abs(v_line.value_delta) > 0.0001 then
+            perform recompute_average_cost(v_line.product_id, v_old.branch_id, v_line.value_delta);
+        end if;
+    end loop;
+
+    update purchase_invoices
+    set supplier_id = v_invoice.supplier_id,
+        invoice_number = v_invoice.invoice_number,
+        total_amount = v_invoice.total_amount,
+        timestamp = v_invoice.timestamp,
+        currency = v_invoice.currency,
+        exchange_rate = v_invoice.exchange_rate
+    where id::text = p_invoice_id;
+
+    delete from purchase_invoice_items where invoice_id::text = p_invoice_id;
+    insert into purchase_invoice_items (invoice_id, product_id, product_name, quantity, purchase_price, lot_number, expiry_date)
+    select invoice_id, product_id, product_name, quantity, purchase_price, lot_number, expiry_date
+    from jsonb_populate_recordset(null::purchase_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    update suppliers set balance = balance - v_old.total_amount where id = v_old.supplier_id;
+    update suppliers set balance = balance + v_invoice.total_amount where id = v_invoice.supplier_id;
+    if not found then
+        raise exception 'supplier_not_found:%', v_invoice.supplier_id;
+    end if;
+
+    update supplier_transactions
+    set supplier_id = v_invoice.supplier_id, amount = v_invoice.total_amount
+    where invoice_id::text = p_invoice_id and type = 'purchase';
+end;
+$$;
+
+-- Stock leaves the branch's batch with the lot number of the returned item (never below zero),
+-- and the supplier's balance goes down by the return's total.
+create or replace function create_purchase_return(p_invoice jsonb, p_items jsonb, p_transaction jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_invoice purchase_invoices;
+    v_item purchase_invoice_items;
+    v_batch product_batches;
+    v_taken numeric;
+begin
+    perform require_permission('purchase:create_invoice');
+    v_invoice := jsonb_populate_record(null::purchase_invoices, p_invoice);
+    perform require_branch_access(v_invoice.branch_id);
+    perform check_purchase_items(p_items);
+    perform set_stock_context('purchase_return', v_invoice.id::text);
+
+    perform 1 from purchase_invoices
+    where id::text = v_invoice.original_invoice_id::text and type = 'purchase' and branch_id = v_invoice.branch_id;
+    if not found then
+        raise exception 'invoice_not_found:%', v_invoice.original_invoice_id;
+    end if;
+
+    insert into purchase_invoices (id, type, original_invoice_id, supplier_id, invoice_number, total_amount, timestamp, branch_id)
+    values (v_invoice.id, 'return', v_invoice.original_invoice_id, v_invoice.supplier_id, v_invoice.invoice_number,
+            v_invoice.total_amount, v_invoice.timestamp, v_invoice.branch_id);
+
+    insert into purchase_invoice_items (invoice_id, product_id, product_name, quantity, purchase_price, lot_number, expiry_date)
+    select invoice_id, product_id, product_name, quantity, purchase_price, lot_number, expiry_date
+    from jsonb_populate_recordset(null::purchase_invoice_items, coalesce(p_items, '[]'::jsonb));
+
+    for v_item in select * from jsonb_populate_recordset(null::purchase_invoice_items, coalesce(p_items, '[]'::jsonb)) loop
+        select * into v_batch
+        from product_batches
+        where product_id = v_item.product_id and lot_number is not distinct from v_item.lot_number and branch_id = v_invoice.branch_id
+        limit 1
+        for update;
+        continue when not found;
+
+        v_taken := least(greatest(v_batch.stock, 0), v_item.quantity);
+        update product_batches set stock = stock - v_taken where id = v_batch.id;
+
+        -- The units left at the batch's (average) cost, but were bought for the item's price
+        perform recompute_average_cost(v_item.product_id::text, v_invoice.branch_id, v_taken * (v_batch.purchase_price - v_item.purchase_price));
+    end loop;
+
+    if p_transaction is not null and jsonb_typeof(p_transaction) <> 'null' then
+        update suppliers set balance = balance - v_invoice.total_amount where id = v_invoice.supplier_id;
+        if not found then
+            raise exception 'supplier_not_found:%', v_invoice.supplier_id;
+        end if;
+
+        insert into supplier_transactions (id, supplier_id, type, amount, date, description, invoice_id)
+        select id, v_invoice.supplier_id, 'purchase_return', v_invoice.total_amount, date, description, v_invoice.id
+        from jsonb_populate_record(null::supplier_transactions, p_transaction);
+    end if;
+end;
+$$;
+
+revoke execute on function
+    create_purchase(jsonb, jsonb, jsonb, jsonb),
+    update_purchase(text, jsonb, jsonb),
+    create_purchase_return(jsonb, jsonb, jsonb)
+from public, anon;
+grant execute on function
+    create_purchase(jsonb, jsonb, jsonb, jsonb),
+    update_purchase(text, jsonb, jsonb),
+    create_purchase_return(jsonb, jsonb, jsonb)
+to authenticated;
@@ -7,6 +7,7 @@ export interface ProductBatch {
   purchasePrice: number;
   purchaseDate: string; // ISO string, crucial for FIFO
   expiryDate?: string; // Optional ISO string
+  branchId: string; // Stock is held per branch
 }
 
 
@@ -20,12 +21,15 @@ export interface Product {
   barcode?: string;
   manufacturer?: string;
   itemsPerPackage?: number;
+  packagePrice?: number; // Retail price of a full package (itemsPerPackage units)
 }
 
 export interface InvoiceItem extends Product {
   quantity: number;
   purchasePrice: number; // This is calculated at the time of sale for profit reporting.
   finalPrice?: number; // Added for individual item discounts
+  promotionId?: string; // Rule that set finalPrice; without it a finalPrice was entered by hand
+  promotionName?: string;
 }
 
 // Service items can also be in an invoice
@@ -38,6 +42,19 @@ export interface Service {
 export type CartItem = (InvoiceItem & { type: 'product' }) | (Service & { quantity: number; type: 'service' });
 
 
+// --- Payment Types ---
+export type PaymentMethod = 'cash_afn' | 'cash_usd' | 'card' | 'mobile_money' | 'on_account' | 'loyalty_points' | 'voucher' | 'exchange';
+
+// One tender of a sale; amount is in the base currency (AFN)
+export interface PaymentLine {
+  method: PaymentMethod;
+  amount: number;
+  foreignAmount?: number; // cash_usd: dollars received
+  exchangeRate?: number; // cash_usd
+  provider?: string; // mobile_money: M-Paisa, HesabPay, ...
+  reference?: string; // Card slip or mobile money transaction id; voucher: its code
+}
+
 export interface SaleInvoice {
   id: string;
   type: 'sale' | 'return';
@@ -49,6 +66,43 @@ export interface SaleInvoice {
   timestamp: string;
   cashier: string;
   customerId?: string; // Optional: for credit sales
+  branchId: string;
+  payments?: PaymentLine[]; // What the customer handed over; missing on invoices saved before split tender
+  changeAmount?: number; // Cash given back (AFN); payments minus change equals totalAmount
+  promotionIds?: string[]; // Promotions applied to any of the lines
+  pointsEarned?: number; // Loyalty points the sale earned (on a return: taken back)
+  pointsRedeemed?: number; // Loyalty points spent on the "loyalty_points" tender (on a return: given back)
+  exchangeId?: string; // Shared by the return and the sale of one exchange; the "exchange" tender moves the credit between them
+  documentNumber?: string; // Issued by the server when the invoice is saved (e.g. F-1405-000123); missing until then
+  status?: 'active' | 'void'; // A voided sale stays listed but no longer counts; missing means active
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+}
+
+// One edit or void of a sale invoice, with the invoice as it was before and after (see update_sale)
+export interface SaleInvoiceRevision {
+  id: string;
+  invoiceId: string;
+  action: 'edit' | 'void';
+  reason: string;
+  before: SaleInvoice;
+  after: SaleInvoice;
+  changedAt: string;
+  changedBy: string;
+}
+
+export interface ReturnLine {
+  id: string;
+  type: 'product' | 'service';
+  quantity: number;
+}
+
+// Goods of an earlier invoice handed back against the cart (see completeSale)
+export interface ExchangeReturn {
+  originalInvoiceId: string;
+  returnItems: ReturnLine[];
+  refundAsVoucher?: boolean; // What the new goods do not use up comes back as a voucher instead of cash
 }
 
 export interface PurchaseInvoiceItem {
@@ -71,16 +125,18 @@ export interface PurchaseInvoice {
   timestamp: string;
   currency?: 'AFN' | 'USD'; // New field
   exchangeRate?: number;    // New field
+  branchId: string; // Branch that received (or returned) the goods
+  documentNumber?: string; // Our own number, issued by the server; invoiceNumber is the supplier's
 }
 
 export interface ActivityLog {
   id: string;
-  type: 'sale' | 'purchase' | 'inventory' | 'login' | 'payroll';
+  type: 'sale' | 'purchase' | 'inventory' | 'transfer' | 'login' | 'payroll';
   description: string;
   timestamp: string;
   user: string;
   refId?: string; // ID of the related entity (invoice, product, etc.)
-  refType?: 'saleInvoice' | 'purchaseInvoice' | 'product'; // To know what to look for
+  refType?: 'saleInvoice' | 'purchaseInvoice' | 'product' | 'stockTransfer'; // To know what to look for
 }
 
 // --- Accounting Module Types ---
@@ -129,26 +185,43 @@ export interface Customer {
     phone?: string;
     creditLimit?: number;
     balance: number; // Positive means they owe us
+    priceListId?: string; // Buys at this price list instead of retail
+    loyaltyPoints: number;
 }
 
 export interface CustomerTransaction {
     id: string;
     customerId: string;
-    type: 'credit_sale' | 'payment' | 'sale_return';
+    type: 'credit_sale' | 'payment' | 'sale_return' | 'deposit_refund' | 'credit_sale_reversal' | 'payment_reversal';
     amount: number;
     date: string;
     description: string; // e.g., Invoice # or Payment received
     invoiceId?: string; // Link to the sale invoice
+    shiftId?: string; // Cash shift whose drawer took a payment
+    orderId?: string; // Deposit (or its refund) of a customer order
+    reversesTransactionId?: string; // The credit_sale or payment a *_reversal takes back
+}
+
+// One movement of a customer's loyalty points; id is '<invoice id>:earn' or '<invoice id>:redeem'
+export interface LoyaltyTransaction {
+    id: string;
+    customerId: string;
+    type: 'earn' | 'redeem' | 'earn_reversal' | 'redeem_refund' | 'earn_edit' | 'redeem_edit' | 'earn_void' | 'redeem_void';
+    points: number; // Negative when points are taken off
+    date: string;
+    invoiceId: string;
 }
 
 export type AnyTransaction = CustomerTransaction | SupplierTransaction | PayrollTransaction;
 
 export interface Expense {
     id: string;
-    category: 'rent' | 'utilities' | 'supplies' | 'salary' | 'other';
+    category: 'rent' | 'utilities' | 'supplies' | 'salary' | 'shrinkage' | 'other'; // shrinkage: stock lost in a stocktake
     description: string;
     amount: number;
     date: string;
+    branchId: string;
+    shiftId?: string; // Paid from the drawer of this cash shift
 }
 
 export interface SalesMemoImage {
@@ -156,7 +229,306 @@ export interface SalesMemoImage {
     imageData: string;
 }
 
+// --- Offline Sync Types ---
+export interface SyncOperation {
+    id?: number; // Auto-incremented by IndexedDB, defines the replay order
+    method: string; // Name of the api method to replay against Supabase
+    args: any[];
+    label: string; // Human readable description shown to the user
+    createdAt: string;
+    status: 'pending' | 'conflict';
+    error?: string; // Server error message when status is 'conflict'
+    userId?: string; // Who queued it: only replayed with that user's session
+}
+
+// --- Branch Types ---
+export interface Branch {
+    id: string;
+    name: string;
+    code: string; // Short code in document numbers ({branch})
+    type: 'store' | 'warehouse';
+    address?: string;
+    phone?: string;
+}
+
+// --- Stock Transfer Types ---
+// Stock leaves the source batch when the transfer is sent and arrives at the destination
+// (same lot, cost and expiry) when it is received.
+export interface StockTransferItem {
+    id: string;
+    productId: string;
+    productName: string; // Denormalized for easier display
+    sourceBatchId: string;
+    lotNumber: string;
+    purchasePrice: number;
+    purchaseDate: string; // Kept so FIFO order is the same at the destination
+    expiryDate?: string;
+    quantity: number; // Sent
+    receivedQuantity?: number; // Counted at the destination
+}
+
+export interface StockTransfer {
+    id: string;
+    sourceBranchId: string;
+    destinationBranchId: string;
+    status: 'sent' | 'received';
+    items: StockTransferItem[];
+    sentAt: string;
+    sentBy: string;
+    receivedAt?: string;
+    receivedBy?: string;
+    notes?: string;
+}
+
+// Shortage found when a transfer is received; one per transfer item, so it shares the item's id
+export interface TransferDiscrepancy {
+    id: string;
+    transferId: string;
+    productId: string;
+    productName: string;
+    lotNumber: string;
+    sentQuantity: number;
+    receivedQuantity: number;
+    createdAt: string;
+    reportedBy: string;
+}
+
+// --- Stocktake Types ---
+// The expected stock of every batch is frozen when the count starts; posting applies
+// (counted - expected) to the batch, so sales made during the count are not lost.
+export interface StocktakeLine {
+    batchId: string;
+    productId: string;
+    productName: string;
+    lotNumber: string;
+    purchasePrice: number;
+    expectedStock: number;
+    countedStock?: number; // Not counted yet (left unchanged when posting)
+}
+
+export interface Stocktake {
+    id: string;
+    branchId: string;
+    status: 'counting' | 'posted';
+    lines: StocktakeLine[];
+    startedAt: string;
+    startedBy: string;
+    postedAt?: string;
+    postedBy?: string;
+    shrinkageExpenseId?: string;
+}
+
+// --- Stock Movement Types ---
+// Every change to a batch's stock is recorded server side (see supabase/migrations), so the
+// stock of a batch is the sum of its movements.
+export type StockAdjustmentReason = 'damage' | 'theft' | 'internal_use' | 'gift' | 'correction' | 'expiry_writeoff';
+
+export type StockMovementReason =
+    | StockAdjustmentReason
+    | 'opening' | 'purchase' | 'purchase_return'
+    | 'sale' | 'sale_edit' | 'sale_return' | 'sale_void'
+    | 'transfer_out' | 'transfer_in' | 'stocktake';
+
+export interface StockMovement {
+    id: string;
+    batchId: string;
+    productId: string;
+    branchId: string;
+    lotNumber: string;
+    delta: number; // Positive = stock in
+    stockAfter: number; // Batch stock after the movement
+    unitCost: number; // Purchase price of the batch
+    reason: StockMovementReason;
+    refId?: string; // Invoice, transfer or stocktake the movement belongs to
+    note?: string;
+    user: string;
+    timestamp: string;
+}
+
+// --- Cash Shift Types ---
+// A cashier's drawer session in one branch. Sales belong to it by cashier, branch and time;
+// customer payments and expenses paid from the drawer carry its id.
+export interface CashShift {
+    id: string;
+    branchId: string;
+    cashier: string;
+    status: 'open' | 'closed';
+    openedAt: string;
+    openingFloat: number; // Cash counted into the drawer at opening
+    closedAt?: string;
+    countedCash?: number; // Cash counted at closing
+    expectedCash?: number; // Computed at closing, kept for reprinting the Z report
+    note?: string;
+}
+
+// Priced offer built from the cart; reserves no stock until it is converted into a sale
+export interface Quotation {
+  id: string;
+  items: CartItem[];
+  subtotal: number;
+  totalDiscount: number;
+  totalAmount: number;
+  timestamp: string;
+  cashier: string;
+  customerId?: string;
+  customerName?: string; // Buyer without an account (school, office, ...)
+  branchId: string;
+  validUntil: string; // yyyy-mm-dd, last day the prices are offered
+  note?: string;
+  status: 'open' | 'converted' | 'cancelled';
+  convertedInvoiceId?: string;
+}
+
+// Units of one batch held back for a customer order
+export interface OrderReservation {
+    batchId: string;
+    productId: string;
+    quantity: number;
+}
+
+// Layaway: goods reserved for a customer against deposits, collected (and sold) later
+export interface CustomerOrder {
+  id: string;
+  customerId: string;
+  branchId: string;
+  items: CartItem[]; // At the agreed prices
+  reservations: OrderReservation[];
+  subtotal: number;
+  totalDiscount: number;
+  totalAmount: number;
+  depositPaid: number;
+  status: 'open' | 'completed' | 'cancelled';
+  createdAt: string;
+  cashier: string;
+  dueDate?: string; // yyyy-mm-dd, expected pickup
+  note?: string;
+  invoiceId?: string; // Sale saved at pickup
+  depositRefunded?: boolean; // Cancelled with the deposit paid back instead of kept as credit
+}
+
+// A cart put aside at a till; any cashier of the branch can recall it
+export interface ParkedCart {
+    id: string;
+    branchId: string;
+    label: string;
+    items: CartItem[];
+    customerId?: string;
+    parkedBy: string;
+    parkedAt: string;
+}
+
+// Cash put into or taken out of the drawer outside of sales
+export type CashMovementReason = 'float_top_up' | 'petty_purchase' | 'owner_withdrawal' | 'bank_deposit' | 'voucher_sale' | 'sale_void' | 'other';
+
+export interface CashMovement {
+    id: string;
+    shiftId: string;
+    branchId: string;
+    type: 'in' | 'out';
+    amount: number;
+    reason: CashMovementReason;
+    note?: string;
+    user: string;
+    timestamp: string;
+    expenseId?: string; // Cash-out also booked as an expense
+}
+
+// --- Voucher Types ---
+// Gift cards and store credit, spent at the till as the "voucher" tender (see utils/vouchers.ts)
+export type VoucherSource = 'sale' | 'return' | 'manual';
+
+export interface Voucher {
+    id: string;
+    code: string; // Printed on the voucher and typed in at the till
+    issuedAmount: number;
+    balance: number;
+    expiryDate?: string; // yyyy-mm-dd, last day it can be spent
+    source: VoucherSource; // sold for cash, a refund of a return, or given away by a manager
+    invoiceId?: string; // Return invoice the voucher refunds
+    customerId?: string;
+    branchId: string;
+    issuedAt: string;
+    issuedBy: string;
+    note?: string;
+}
+
+// One movement of a voucher's balance; redemptions have the id '<invoice id>:<voucher id>'
+export interface VoucherTransaction {
+    id: string;
+    voucherId: string;
+    type: 'issue' | 'redeem' | 'redeem_edit' | 'redeem_void';
+    amount: number; // Negative when spent
+    date: string;
+    invoiceId?: string;
+}
+
+// --- Price List Types ---
+// Prices for a group of customers (wholesale, schools, ...); see utils/priceLists.ts
+export interface PriceListItem {
+    productId: string;
+    unitPrice?: number;
+    packagePrice?: number; // A full package of the product's itemsPerPackage units
+}
+
+export interface PriceList {
+    id: string;
+    name: string;
+    percentOff: number; // Off the retail prices of products the list has no price for
+    items: PriceListItem[];
+}
+
+// --- Promotion Types ---
+// Rules the POS applies to the cart by itself (see utils/promotions.ts). Lines a cashier priced
+// by hand are left alone.
+export type PromotionType = 'percent_off' | 'fixed_off' | 'quantity_tier' | 'buy_x_get_y' | 'bundle';
+
+export interface PromotionTier {
+    minQuantity: number;
+    percentOff: number;
+}
+
+export interface Promotion {
+    id: string;
+    name: string;
+    type: PromotionType;
+    active: boolean;
+    productIds: string[]; // Products covered; for a bundle, one unit of each makes a set
+    manufacturer?: string; // Also covers every product of this manufacturer (not for bundles)
+    percentOff?: number; // percent_off
+    amountOff?: number; // fixed_off, per unit
+    tiers?: PromotionTier[]; // quantity_tier
+    buyQuantity?: number; // buy_x_get_y: of every buyQuantity + getQuantity units of a product,
+    getQuantity?: number; // getQuantity are free
+    bundlePrice?: number; // bundle, per set
+    startDate?: string; // yyyy-mm-dd, inclusive
+    endDate?: string;
+    startTime?: string; // HH:mm, daily window; may run past midnight
+    endTime?: string;
+    daysOfWeek?: number[]; // 0 = Sunday; empty means every day
+}
+
 // --- Settings Module Types ---
+export type CostingMethod = 'fifo' | 'fefo' | 'average';
+
+export type LoyaltyEarnMode = 'per_amount' | 'per_item';
+
+export interface LoyaltySettings {
+    enabled: boolean;
+    earnMode: LoyaltyEarnMode;
+    earnPoints: number; // Points for every earnAmount of the invoice (per_amount) or every unit sold (per_item)
+    earnAmount: number; // Base currency, per_amount only
+    pointValue: number; // What one point pays for at the till (base currency)
+}
+
+// Documents the server numbers (see next_document_number)
+export type DocumentType = 'sale' | 'sale_return' | 'purchase' | 'purchase_return';
+
+export interface NumberingSettings {
+    pattern: string; // e.g. '{prefix}-{year}-{seq:6}'
+    fiscalYearStartMonth: number; // Jalali month (1 = Farvardin/Hamal); the counters start again on its first day
+    prefixes: Record<DocumentType, string>;
+}
+
 export interface StoreSettings {
     storeName: string;
     address: string;
@@ -165,6 +537,9 @@ export interface StoreSettings {
     expiryThresholdMonths: number;
     currencyName: string; // e.g., 'افغانی'
     currencySymbol: string; // e.g., 'AFN'
+    costingMethod: CostingMethod; // Drives batch depletion and the cost stored on sale items
+    loyalty: LoyaltySettings;
+    numbering: NumberingSettings;
 }
 
 // --- Package/Unit Management ---
@@ -180,18 +555,33 @@ export interface Role {
     id: string;
     name: string;
     permissions: Permission[];
+    branchIds: string[]; // Branches this role can see; empty means all branches
 }
 
 export interface User {
     id: string;
     username: string;
-    password?: string; // Should be hashed in a real app
+    password?: string; // Only sent when creating a user or changing the password; never loaded back
     roleId: string;
+    branchId?: string; // Home branch, selected after login
+}
+
+export interface AuthSession {
+    token: string; // Signed by /api/login
+    expiresAt: string; // ISO string
+    user: User;
+}
+
+// A manager's approval (from /api/credit-override) for one credit sale above the customer's limit
+export interface CreditOverride {
+    id: string;
+    approvedBy: string;
 }
 
 export interface AppState {
     products: Product[];
     saleInvoices: SaleInvoice[];
+    saleInvoiceRevisions: SaleInvoiceRevision[];
     purchaseInvoices: PurchaseInvoice[];
     customers: Customer[];
     suppliers: Supplier[];
@@ -201,17 +591,39 @@ export interface AppState {
     storeSettings: StoreSettings;
     cart: CartItem[];
     customerTransactions: CustomerTransaction[];
+    loyaltyTransactions: LoyaltyTransaction[];
     supplierTransactions: SupplierTransaction[];
     payrollTransactions: PayrollTransaction[];
     activities: ActivityLog[];
     saleInvoiceCounter: number;
     editingSaleInvoiceId: string | null;
+    editingSaleReason: string | null; // Why the invoice being edited is changed; stored with its revision
     editingPurchaseInvoiceId: string | null;
     // Auth State
     isAuthenticated: boolean;
     currentUser: User | null;
     users: User[];
     roles: Role[];
+    // Branches
+    branches: Branch[];
+    activeBranchId: string | null; // Branch this till sells from and receives purchases into
+    stockTransfers: StockTransfer[];
+    transferDiscrepancies: TransferDiscrepancy[];
+    stocktakes: Stocktake[]; // Posted counts
+    activeStocktake: Stocktake | null; // Count in progress on this device
+    stockMovements: StockMovement[];
+    cashShifts: CashShift[];
+    cashMovements: CashMovement[];
+    parkedCarts: ParkedCart[];
+    quotations: Quotation[];
+    promotions: Promotion[];
+    priceLists: PriceList[];
+    cartPriceListId: string | null; // Price list of the customer selected at the POS
+    convertingQuotationId: string | null; // Quotation loaded into the cart for checkout
+    customerOrders: CustomerOrder[];
+    vouchers: Voucher[];
+    voucherTransactions: VoucherTransaction[];
+    pickingUpOrderId: string | null; // Customer order loaded into the cart for pickup
 }
 
 // --- Types for Web Speech API ---
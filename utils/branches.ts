@@ -0,0 +1,21 @@
+import type { Branch, Product, ProductBatch, Role, User } from '../types';
+
+// Value used by the branch selectors for the consolidated view
+export const ALL_BRANCHES = 'all';
+
+export const getAllowedBranches = (user: User | null, roles: Role[], branches: Branch[]): Branch[] => {
+    if (!user) return [];
+    const role = roles.find(r => r.id === user.roleId);
+    if (!role || role.branchIds.length === 0) return branches;
+    return branches.filter(b => role.branchIds.includes(b.id));
+};
+
+// True if the record belongs to the selected branch (or the consolidated view is selected)
+export const isInBranch = (record: { branchId?: string }, branchId: string): boolean =>
+    branchId === ALL_BRANCHES || record.branchId === branchId;
+
+export const getBranchBatches = (product: Product, branchId: string): ProductBatch[] =>
+    product.batches.filter(b => isInBranch(b, branchId));
+
+export const getBranchStock = (product: Product, branchId: string): number =>
+    getBranchBatches(product, branchId).reduce((sum, b) => sum + b.stock, 0);
@@ -0,0 +1,27 @@
+import type { CostingMethod, ProductBatch } from '../types';
+
+export const COSTING_METHODS: Record<CostingMethod, string> = {
+    fifo: 'اولین صادره از اولین وارده (FIFO)',
+    fefo: 'اولین انقضا، اولین خروج (FEFO)',
+    average: 'میانگین موزون متحرک'
+};
+
+const byPurchaseDate = (a: ProductBatch, b: ProductBatch) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime();
+
+// Order in which a sale takes stock out of the batches. Weighted average costing does not
+// care which batch is hit, so goods leave in purchase order.
+export const getDeductionOrder = (batches: ProductBatch[], method: CostingMethod): ProductBatch[] => {
+    const inStock = batches.filter(b => b.stock > 0);
+    if (method !== 'fefo') return inStock.sort(byPurchaseDate);
+
+    const withExpiry = inStock.filter(b => b.expiryDate).sort((a, b) => new Date(a.expiryDate!).getTime() - new Date(b.expiryDate!).getTime());
+    const withoutExpiry = inStock.filter(b => !b.expiryDate).sort(byPurchaseDate);
+    return [...withExpiry, ...withoutExpiry];
+};
+
+// Weighted average cost of the stock held in the given batches
+export const getAverageCost = (batches: ProductBatch[]): number => {
+    const quantity = batches.reduce((sum, b) => sum + Math.max(b.stock, 0), 0);
+    const value = batches.reduce((sum, b) => sum + Math.max(b.stock, 0) * b.purchasePrice, 0);
+    return quantity > 0 ? value / quantity : 0;
+};
@@ -1,8 +1,10 @@
-import type { SalesMemoImage } from '../types';
+import type { SalesMemoImage, SyncOperation } from '../types';
 
 const DB_NAME = 'StationeryProDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'salesMemos';
+const SNAPSHOT_STORE = 'snapshots'; // Local mirror of the last data loaded from Supabase, keyed '<user id>:<name>'
+const QUEUE_STORE = 'syncQueue'; // Writes waiting to be replayed to Supabase
 
 let db: IDBDatabase;
 
@@ -29,6 +31,12 @@ export const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
       }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+      }
     };
   });
 };
@@ -79,4 +87,114 @@ export const deleteMemoImage = async (id: number): Promise<void> => {
       reject('Could not delete image.');
     };
   });
-};
\ No newline at end of file
+};
+
+// --- Offline Mirror ---
+
+export const saveSnapshot = async (key: string, data: unknown): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOT_STORE);
+    const request = store.put({ key, data, savedAt: new Date().toISOString() });
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error saving snapshot:', request.error);
+      reject('Could not save snapshot.');
+    };
+  });
+};
+
+export const getSnapshot = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const store = transaction.objectStore(SNAPSHOT_STORE);
+    const request = store.get(key);
+
+    request.onsuccess = () => resolve(request.result?.data);
+    request.onerror = () => {
+      console.error('Error reading snapshot:', request.error);
+      reject('Could not read snapshot.');
+    };
+  });
+};
+
+export const clearSnapshots = async (): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOT_STORE);
+    const request = store.clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error clearing snapshots:', request.error);
+      reject('Could not clear snapshots.');
+    };
+  });
+};
+
+// --- Sync Queue ---
+
+export const addSyncOperation = async (operation: Omit<SyncOperation, 'id'>): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(QUEUE_STORE);
+    const request = store.add(operation);
+
+    request.onsuccess = () => resolve(request.result as number);
+    request.onerror = () => {
+      console.error('Error queueing operation:', request.error);
+      reject('Could not queue operation.');
+    };
+  });
+};
+
+export const getAllSyncOperations = async (): Promise<SyncOperation[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readonly');
+    const store = transaction.objectStore(QUEUE_STORE);
+    const request = store.getAll();
+
+    // Keys are auto-incremented, so getAll already returns them in the order they were queued
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Error getting sync queue:', request.error);
+      reject('Could not get sync queue.');
+    };
+  });
+};
+
+export const updateSyncOperation = async (operation: SyncOperation): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(QUEUE_STORE);
+    const request = store.put(operation);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error updating operation:', request.error);
+      reject('Could not update operation.');
+    };
+  });
+};
+
+export const deleteSyncOperation = async (id: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(QUEUE_STORE);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error('Error deleting operation:', request.error);
+      reject('Could not delete operation.');
+    };
+  });
+};
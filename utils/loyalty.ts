@@ -0,0 +1,82 @@
+import type { CartItem, Customer, LoyaltySettings, LoyaltyTransaction, PaymentLine, SaleInvoice } from '../types';
+
+export const LOYALTY_TRANSACTION_TYPES: Record<LoyaltyTransaction['type'], string> = {
+    earn: 'امتیاز خرید',
+    redeem: 'پرداخت با امتیاز',
+    earn_reversal: 'کسر امتیاز کالای مرجوعی',
+    redeem_refund: 'برگشت امتیاز کالای مرجوعی',
+    earn_edit: 'کسر امتیاز فاکتور ویرایش شده',
+    redeem_edit: 'برگشت امتیاز فاکتور ویرایش شده',
+    earn_void: 'کسر امتیاز فاکتور باطل شده',
+    redeem_void: 'برگشت امتیاز فاکتور باطل شده'
+};
+
+export const getLoyaltyAmount = (payments: PaymentLine[]): number =>
+    payments.filter(p => p.method === 'loyalty_points').reduce((sum, p) => sum + p.amount, 0);
+
+// Whole points needed to pay `amount` with the points tender
+export const getPointsForAmount = (amount: number, settings: LoyaltySettings): number =>
+    amount > 0 ? Math.ceil(amount / settings.pointValue - 1e-9) : 0;
+
+/**
+ * Points a sale earns. Only the part not paid with points counts, so spending points does
+ * not earn new ones; per_item counts the units of products, not services.
+ */
+export const getEarnedPoints = (items: CartItem[], totalAmount: number, loyaltyAmount: number, settings: LoyaltySettings): number => {
+    if (!settings.enabled || settings.earnPoints <= 0 || totalAmount <= 0) return 0;
+    const paidShare = Math.max(totalAmount - loyaltyAmount, 0) / totalAmount;
+    if (settings.earnMode === 'per_item') {
+        const units = items.filter(i => i.type === 'product').reduce((sum, i) => sum + i.quantity, 0);
+        return Math.floor(units * settings.earnPoints * paidShare);
+    }
+    return Math.floor(totalAmount * paidShare / settings.earnAmount) * settings.earnPoints;
+};
+
+// Points a customer can spend now. While an invoice is being edited its own points are
+// booked again, so what it earned is not there and what it spent is.
+export const getAvailablePoints = (customer: Customer, editedInvoice?: SaleInvoice): number => {
+    const sameCustomer = editedInvoice?.customerId === customer.id;
+    return Math.max(customer.loyaltyPoints - (sameCustomer ? (editedInvoice!.pointsEarned || 0) - (editedInvoice!.pointsRedeemed || 0) : 0), 0);
+};
+
+/**
+ * Points of a return of `returnTotal` from `original`: the share of the points the sale earned
+ * (what earlier returns took back is left out), and the points behind `loyaltyRefund`, the part
+ * of the refund that goes back as points.
+ */
+export const getReturnPoints = (
+    original: SaleInvoice,
+    previousReturns: SaleInvoice[],
+    returnTotal: number,
+    loyaltyRefund: number
+): { pointsEarned: number; pointsRedeemed: number } => {
+    const earnedLeft = (original.pointsEarned || 0) - previousReturns.reduce((sum, r) => sum + (r.pointsEarned || 0), 0);
+    const redeemedLeft = (original.pointsRedeemed || 0) - previousReturns.reduce((sum, r) => sum + (r.pointsRedeemed || 0), 0);
+    const share = original.totalAmount > 0 ? Math.min(returnTotal / original.totalAmount, 1) : 0;
+    const originalLoyaltyAmount = getLoyaltyAmount(original.payments || []);
+    const pointsRedeemed = originalLoyaltyAmount > 0
+        ? Math.round((original.pointsRedeemed || 0) * loyaltyRefund / originalLoyaltyAmount * 100) / 100
+        : 0;
+    return {
+        pointsEarned: Math.max(Math.min(Math.ceil((original.pointsEarned || 0) * share), earnedLeft), 0),
+        pointsRedeemed: Math.max(Math.min(pointsRedeemed, redeemedLeft), 0)
+    };
+};
+
+// The rows the server books for an invoice (see apply_invoice_loyalty), for showing an offline sale
+export const getInvoiceLoyaltyTransactions = (invoice: SaleInvoice): LoyaltyTransaction[] => {
+    if (!invoice.customerId) return [];
+    const sign = invoice.type === 'return' ? -1 : 1;
+    const rows: LoyaltyTransaction[] = [];
+    if (invoice.pointsRedeemed) {
+        rows.push({ id: `${invoice.id}:redeem`, customerId: invoice.customerId, type: sign > 0 ? 'redeem' : 'redeem_refund', points: -sign * invoice.pointsRedeemed, date: invoice.timestamp, invoiceId: invoice.id });
+    }
+    if (invoice.pointsEarned) {
+        rows.push({ id: `${invoice.id}:earn`, customerId: invoice.customerId, type: sign > 0 ? 'earn' : 'earn_reversal', points: sign * invoice.pointsEarned, date: invoice.timestamp, invoiceId: invoice.id });
+    }
+    return rows;
+};
+
+// What the points of an invoice do to the customer's balance
+export const getLoyaltyBalanceChange = (invoice: SaleInvoice): number =>
+    getInvoiceLoyaltyTransactions(invoice).reduce((sum, t) => sum + t.points, 0);
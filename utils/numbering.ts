@@ -0,0 +1,58 @@
+import type { Branch, DocumentType, NumberingSettings, PurchaseInvoice, SaleInvoice } from '../types';
+import { getJalaliDate } from './jalali';
+
+export const DOCUMENT_TYPES: Record<DocumentType, string> = {
+    sale: 'فاکتور فروش',
+    sale_return: 'مرجوعی فروش',
+    purchase: 'فاکتور خرید',
+    purchase_return: 'مرجوعی خرید'
+};
+
+export const DEFAULT_NUMBERING: NumberingSettings = {
+    pattern: '{prefix}-{branch}-{year}-{seq:6}',
+    fiscalYearStartMonth: 1,
+    prefixes: { sale: 'F', sale_return: 'R', purchase: 'P', purchase_return: 'PR' }
+};
+
+// The Jalali year the fiscal year of `date` started in (see jalali_fiscal_year)
+export const getFiscalYear = (date: Date, startMonth: number): number => {
+    const { jy, jm } = getJalaliDate(date);
+    return jm >= startMonth ? jy : jy - 1;
+};
+
+// Same layout as format_document_number on the server, for showing what numbers will look like
+export const formatDocumentNumber = (settings: NumberingSettings, type: DocumentType, branchCode: string, date: Date, seq: number): string => {
+    const year = getFiscalYear(date, settings.fiscalYearStartMonth);
+    const width = Number(settings.pattern.match(/\{seq:(\d+)\}/)?.[1] || 0);
+    return settings.pattern
+        .replace(/\{prefix\}/g, settings.prefixes[type] || '')
+        .replace(/\{branch\}/g, branchCode)
+        .replace(/\{year\}/g, String(year))
+        .replace(/\{yy\}/g, String(year % 100).padStart(2, '0'))
+        .replace(/\{seq(:\d+)?\}/g, String(seq).padStart(width, '0'));
+};
+
+// What the server would refuse (store_settings checks), so numbers never repeat
+export const getNumberingProblem = (settings: NumberingSettings): string | undefined => {
+    const { pattern, prefixes } = settings;
+    if (!pattern.includes('{prefix}')) return 'الگوی شماره باید {prefix} را داشته باشد.';
+    if (!pattern.includes('{branch}')) return 'الگوی شماره باید {branch} را داشته باشد.';
+    if (!/\{seq(:\d+)?\}/.test(pattern)) return 'الگوی شماره باید {seq} را داشته باشد.';
+    if (!pattern.includes('{year}') && !pattern.includes('{yy}')) return 'الگوی شماره باید {year} یا {yy} را داشته باشد.';
+    if (prefixes.sale === prefixes.sale_return) return 'پیشوند فاکتور فروش و مرجوعی فروش باید متفاوت باشد.';
+    if (prefixes.purchase === prefixes.purchase_return) return 'پیشوند فاکتور خرید و مرجوعی خرید باید متفاوت باشد.';
+    return undefined;
+};
+
+// Same rule as branches_code_check; two-digit numbers are suggested for new branches
+export const isValidBranchCode = (code: string): boolean => /^[A-Za-z0-9]{1,6}$/.test(code);
+
+export const getNextBranchCode = (branches: Branch[]): string => {
+    let next = branches.length + 1;
+    while (branches.some(b => b.code === String(next).padStart(2, '0'))) next++;
+    return String(next).padStart(2, '0');
+};
+
+// What is printed and shown: the server's number, or the app's own id while the invoice waits to sync
+export const getDocumentNumber = (invoice: SaleInvoice | PurchaseInvoice): string =>
+    invoice.documentNumber || invoice.id;
@@ -0,0 +1,49 @@
+import type { CostingMethod, CustomerOrder, OrderReservation, Product, ProductBatch } from '../types';
+import { getBranchBatches } from './branches';
+import { getDeductionOrder } from './costing';
+
+export const ORDER_STATUSES: Record<CustomerOrder['status'], string> = {
+    open: 'در انتظار تحویل',
+    completed: 'تحویل شده',
+    cancelled: 'لغو شده'
+};
+
+// Units held back per batch by the open orders (optionally leaving one order out, e.g. the one being collected)
+export const getReservedQuantities = (orders: CustomerOrder[], excludeOrderId?: string | null): Map<string, number> => {
+    const reserved = new Map<string, number>();
+    for (const order of orders) {
+        if (order.status !== 'open' || order.id === excludeOrderId) continue;
+        for (const r of order.reservations) reserved.set(r.batchId, (reserved.get(r.batchId) || 0) + r.quantity);
+    }
+    return reserved;
+};
+
+export const getUnreservedBatchStock = (batch: ProductBatch, reserved: Map<string, number>): number =>
+    Math.max(batch.stock - (reserved.get(batch.id) || 0), 0);
+
+// What a till may still sell of a product in a branch
+export const getUnreservedStock = (product: Product, branchId: string, reserved: Map<string, number>): number =>
+    getBranchBatches(product, branchId).reduce((sum, b) => sum + getUnreservedBatchStock(b, reserved), 0);
+
+// Picks the batches an order holds back, in the order a sale would take them; null if there is not enough
+export const planReservations = (
+    product: Product,
+    branchId: string,
+    quantity: number,
+    reserved: Map<string, number>,
+    method: CostingMethod
+): OrderReservation[] | null => {
+    const reservations: OrderReservation[] = [];
+    let remaining = quantity;
+    for (const batch of getDeductionOrder(getBranchBatches(product, branchId), method)) {
+        if (remaining <= 0) break;
+        const take = Math.min(remaining, getUnreservedBatchStock(batch, reserved));
+        if (take <= 0) continue;
+        reservations.push({ batchId: batch.id, productId: product.id, quantity: take });
+        remaining -= take;
+    }
+    return remaining > 0 ? null : reservations;
+};
+
+export const getOrderBalanceDue = (order: CustomerOrder): number =>
+    Math.max(order.totalAmount - order.depositPaid, 0);
@@ -0,0 +1,48 @@
+import type { Customer, PaymentLine, PaymentMethod, SaleInvoice } from '../types';
+
+export const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+    cash_afn: 'نقد (افغانی)',
+    cash_usd: 'نقد (دالر)',
+    card: 'کارت بانکی',
+    mobile_money: 'پول موبایلی',
+    on_account: 'نسیه (حساب مشتری)',
+    loyalty_points: 'امتیاز باشگاه مشتریان',
+    voucher: 'کارت هدیه / اعتبار خرید',
+    exchange: 'تعویض کالا'
+};
+
+export const MOBILE_MONEY_PROVIDERS = ['M-Paisa', 'HesabPay', 'M-Hawala', 'MyMoney'];
+
+export const isCashPayment = (method: PaymentMethod) => method === 'cash_afn' || method === 'cash_usd';
+
+// Invoices saved before split tender were paid in cash, or on account when a customer is set
+export const getInvoicePayments = (invoice: SaleInvoice): PaymentLine[] =>
+    invoice.payments && invoice.payments.length > 0
+        ? invoice.payments
+        : [{ method: invoice.customerId ? 'on_account' : 'cash_afn', amount: invoice.totalAmount }];
+
+// The part of an invoice that went onto (or, for returns, came off) the customer's account
+export const getOnAccountAmount = (invoice: SaleInvoice): number =>
+    getInvoicePayments(invoice).filter(p => p.method === 'on_account').reduce((sum, p) => sum + p.amount, 0);
+
+// Net takings per method in the base currency. Change is paid out of the AFN cash and
+// returns are refunded the way they were booked, so they count negative.
+export const getTakingsByMethod = (invoices: SaleInvoice[]): Record<PaymentMethod, number> => {
+    const totals: Record<PaymentMethod, number> = { cash_afn: 0, cash_usd: 0, card: 0, mobile_money: 0, on_account: 0, loyalty_points: 0, voucher: 0, exchange: 0 };
+    for (const invoice of invoices) {
+        const sign = invoice.type === 'return' ? -1 : 1;
+        for (const payment of getInvoicePayments(invoice)) totals[payment.method] += sign * payment.amount;
+        totals.cash_afn -= sign * (invoice.changeAmount || 0);
+    }
+    return totals;
+};
+
+// The cash an invoice left in the drawer, after change
+export const getNetCash = (invoice: SaleInvoice): number => {
+    const takings = getTakingsByMethod([invoice]);
+    return takings.cash_afn + takings.cash_usd;
+};
+
+// What a customer can still buy on account; undefined when no limit is set
+export const getAvailableCredit = (customer: Customer): number | undefined =>
+    customer.creditLimit === undefined ? undefined : customer.creditLimit - customer.balance;
@@ -12,12 +12,20 @@ export const ALL_PERMISSIONS = [
     { id: 'inventory:add_product', name: 'افزودن محصول', group: 'انبارداری' },
     { id: 'inventory:edit_product', name: 'ویرایش محصول', group: 'انبارداری' },
     { id: 'inventory:delete_product', name: 'حذف محصول', group: 'انبارداری' },
+    { id: 'inventory:transfer_stock', name: 'ارسال حواله انتقال بین شعب', group: 'انبارداری' },
+    { id: 'inventory:receive_transfer', name: 'دریافت حواله انتقال', group: 'انبارداری' },
+    { id: 'inventory:stocktake', name: 'شمارش انبار و ثبت مغایرت', group: 'انبارداری' },
+    { id: 'inventory:adjust_stock', name: 'تعدیل دستی موجودی (ضایعات، سرقت، ...)', group: 'انبارداری' },
 
     // Point of Sale (POS)
     { id: 'pos:create_invoice', name: 'ثبت فاکتور فروش', group: 'فروش' },
     { id: 'pos:edit_invoice', name: 'ویرایش فاکتور فروش', group: 'فروش' },
+    { id: 'pos:void_invoice', name: 'ابطال فاکتور فروش', group: 'فروش' },
     { id: 'pos:apply_discount', name: 'اعمال تخفیف', group: 'فروش' },
     { id: 'pos:create_credit_sale', name: 'فروش نسیه', group: 'فروش' },
+    { id: 'pos:override_credit_limit', name: 'تأیید فروش نسیه بیش از سقف اعتبار', group: 'فروش' },
+    { id: 'pos:cash_movement', name: 'ورود و برداشت وجه صندوق', group: 'فروش' },
+    { id: 'pos:manage_vouchers', name: 'صدور کارت هدیه رایگان', group: 'فروش' },
     
     // Purchases
     { id: 'purchase:create_invoice', name: 'ثبت فاکتور خرید', group: 'خرید' },
@@ -31,9 +39,12 @@ export const ALL_PERMISSIONS = [
 
     // Settings (Super Admin / Owner level)
     { id: 'settings:manage_store', name: 'تغییر مشخصات فروشگاه', group: 'تنظیمات' },
+    { id: 'settings:manage_branches', name: 'مدیریت شعب و انبارها', group: 'تنظیمات' },
     { id: 'settings:manage_users', name: 'مدیریت کاربران و نقش‌ها', group: 'تنظیمات' },
     { id: 'settings:manage_backup', name: 'پشتیبان‌گیری و بازیابی', group: 'تنظیمات' },
     { id: 'settings:manage_services', name: 'مدیریت خدمات', group: 'تنظیمات' },
+    { id: 'settings:manage_promotions', name: 'مدیریت طرح‌های تخفیف', group: 'تنظیمات' },
+    { id: 'settings:manage_price_lists', name: 'مدیریت لیست‌های قیمت', group: 'تنظیمات' },
     { id: 'settings:manage_alerts', name: 'مدیریت هشدارها', group: 'تنظیمات' },
 ];
 
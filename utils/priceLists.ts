@@ -0,0 +1,37 @@
+import type { CartItem, PriceList, Product } from '../types';
+
+const applyPercentOff = (price: number, priceList?: PriceList): number =>
+    priceList && priceList.percentOff > 0 ? price * (1 - priceList.percentOff / 100) : price;
+
+// Price of one unit and of a full package of a product, for a price list or retail
+export const getListPrices = (product: Product, priceList?: PriceList): { unitPrice: number; packagePrice?: number } => {
+    const item = priceList?.items.find(i => i.productId === product.id);
+    const unitPrice = item?.unitPrice ?? applyPercentOff(product.salePrice, priceList);
+    const packagePrice = item?.packagePrice ?? (product.packagePrice !== undefined ? applyPercentOff(product.packagePrice, priceList) : undefined);
+    return { unitPrice, packagePrice };
+};
+
+/**
+ * Unit price of a cart line of `quantity` units: full packages at the package price and the
+ * rest at the unit price, averaged over the line so quantity x price is the line total. A
+ * package price never makes the line dearer than buying the units one by one.
+ */
+export const getUnitPrice = (product: Product, quantity: number, priceList?: PriceList): number => {
+    const { unitPrice, packagePrice } = getListPrices(product, priceList);
+    const perPackage = product.itemsPerPackage || 1;
+    if (packagePrice === undefined || perPackage <= 1 || quantity < perPackage) return unitPrice;
+    const packages = Math.floor(quantity / perPackage);
+    const total = packages * packagePrice + (quantity - packages * perPackage) * unitPrice;
+    return Math.min(total / quantity, unitPrice);
+};
+
+// Sets the price of every product line from the price list (or retail); promotions and prices
+// entered by hand are worked out on top of it
+export const applyPriceList = (cart: CartItem[], products: Product[], priceList?: PriceList): CartItem[] =>
+    cart.map(item => {
+        if (item.type !== 'product') return item;
+        const product = products.find(p => p.id === item.id);
+        if (!product) return item;
+        const salePrice = getUnitPrice(product, item.quantity, priceList);
+        return salePrice === item.salePrice ? item : { ...item, salePrice };
+    });
@@ -0,0 +1,127 @@
+import type { CartItem, InvoiceItem, Promotion, PromotionType } from '../types';
+import { toDateInputValue } from './quotations';
+
+type ProductLine = InvoiceItem & { type: 'product' };
+
+export const PROMOTION_TYPES: Record<PromotionType, string> = {
+    percent_off: 'درصد تخفیف',
+    fixed_off: 'تخفیف مبلغ ثابت',
+    quantity_tier: 'تخفیف پلکانی (بر اساس تعداد)',
+    buy_x_get_y: 'بخر X، بگیر Y رایگان',
+    bundle: 'بسته ترکیبی با قیمت ثابت'
+};
+
+export const WEEK_DAYS = ['یکشنبه', 'دوشنبه', 'سه‌شنبه', 'چهارشنبه', 'پنجشنبه', 'جمعه', 'شنبه'];
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+};
+
+// Active, inside its dates, on one of its days and within its daily time window
+export const isPromotionRunning = (promotion: Promotion, now: Date = new Date()): boolean => {
+    if (!promotion.active) return false;
+    const today = toDateInputValue(now);
+    if (promotion.startDate && today < promotion.startDate) return false;
+    if (promotion.endDate && today > promotion.endDate) return false;
+    if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(now.getDay())) return false;
+    if (promotion.startTime && promotion.endTime) {
+        const minutes = now.getHours() * 60 + now.getMinutes();
+        const start = toMinutes(promotion.startTime);
+        const end = toMinutes(promotion.endTime);
+        // A window such as 22:00-02:00 runs past midnight
+        const inWindow = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+        if (!inWindow) return false;
+    }
+    return true;
+};
+
+const coversProduct = (promotion: Promotion, item: ProductLine): boolean =>
+    promotion.productIds.includes(item.id) || (!!promotion.manufacturer && item.manufacturer === promotion.manufacturer);
+
+// Unit price of a line under a single-line rule, or null when the rule does not fire
+const getLinePrice = (promotion: Promotion, item: ProductLine): number | null => {
+    if (!coversProduct(promotion, item)) return null;
+    const price = item.salePrice;
+    switch (promotion.type) {
+        case 'percent_off':
+            return promotion.percentOff ? price * (1 - promotion.percentOff / 100) : null;
+        case 'fixed_off':
+            return promotion.amountOff ? Math.max(price - promotion.amountOff, 0) : null;
+        case 'quantity_tier': {
+            const tier = (promotion.tiers || [])
+                .filter(t => item.quantity >= t.minQuantity)
+                .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+            return tier ? price * (1 - tier.percentOff / 100) : null;
+        }
+        case 'buy_x_get_y': {
+            const buy = promotion.buyQuantity || 0;
+            const get = promotion.getQuantity || 0;
+            if (buy <= 0 || get <= 0) return null;
+            const free = Math.floor(item.quantity / (buy + get)) * get;
+            // The free units are spread over the line, so quantity x finalPrice stays the line total
+            return free > 0 ? price * (item.quantity - free) / item.quantity : null;
+        }
+        default:
+            return null;
+    }
+};
+
+// A line a cashier priced by hand
+const isPricedByHand = (item: ProductLine): boolean => item.finalPrice !== undefined && !item.promotionId;
+
+/**
+ * Prices the cart with the promotions running at `now`. Bundles are matched first; every other
+ * line gets the single rule that makes it cheapest. Lines priced by hand keep their price, and
+ * a line whose promotion no longer fires goes back to its sale price.
+ */
+export const applyPromotions = (cart: CartItem[], promotions: Promotion[], now: Date = new Date()): CartItem[] => {
+    const running = promotions.filter(p => isPromotionRunning(p, now));
+    const isOpen = (item: CartItem): item is ProductLine => item.type === 'product' && !isPricedByHand(item) && item.quantity > 0;
+    const bundled = new Map<number, { finalPrice: number; promotion: Promotion }>();
+
+    for (const promotion of running) {
+        if (promotion.type !== 'bundle' || promotion.productIds.length < 2 || promotion.bundlePrice === undefined) continue;
+        const indexes = promotion.productIds.map(id => cart.findIndex((item, i) => item.id === id && isOpen(item) && !bundled.has(i)));
+        if (indexes.some(i => i < 0)) continue;
+        const lines = indexes.map(i => cart[i] as ProductLine);
+        const sets = Math.min(...lines.map(l => l.quantity));
+        const listPrice = lines.reduce((sum, l) => sum + l.salePrice, 0);
+        if (listPrice <= promotion.bundlePrice) continue;
+        // The bundle discount is shared by the lines in proportion to their prices
+        const ratio = promotion.bundlePrice / listPrice;
+        indexes.forEach(i => {
+            const line = cart[i] as ProductLine;
+            bundled.set(i, { finalPrice: line.salePrice - sets * line.salePrice * (1 - ratio) / line.quantity, promotion });
+        });
+    }
+
+    return cart.map((item, i) => {
+        if (item.type !== 'product' || isPricedByHand(item)) return item;
+        let best = isOpen(item) ? bundled.get(i) : undefined;
+        if (!best && isOpen(item)) {
+            for (const promotion of running) {
+                if (promotion.type === 'bundle') continue;
+                const finalPrice = getLinePrice(promotion, item);
+                if (finalPrice !== null && finalPrice < item.salePrice && (!best || finalPrice < best.finalPrice)) best = { finalPrice, promotion };
+            }
+        }
+        if (!best) return item.promotionId ? { ...item, finalPrice: undefined, promotionId: undefined, promotionName: undefined } : item;
+        return { ...item, finalPrice: best.finalPrice, promotionId: best.promotion.id, promotionName: best.promotion.name };
+    });
+};
+
+// Distinct promotions on the lines of an invoice
+export const getPromotionIds = (items: CartItem[]): string[] =>
+    [...new Set(items.flatMap(item => item.type === 'product' && item.promotionId ? [item.promotionId] : []))];
+
+// One-line description of the rule, for lists
+export const describePromotion = (promotion: Promotion): string => {
+    switch (promotion.type) {
+        case 'percent_off': return `${promotion.percentOff || 0}% تخفیف`;
+        case 'fixed_off': return `${promotion.amountOff || 0} تخفیف برای هر عدد`;
+        case 'quantity_tier': return (promotion.tiers || []).map(t => `از ${t.minQuantity} عدد: ${t.percentOff}%`).join('، ');
+        case 'buy_x_get_y': return `بخر ${promotion.buyQuantity || 0}، بگیر ${promotion.getQuantity || 0} رایگان`;
+        case 'bundle': return `بسته ${promotion.productIds.length} کالایی به قیمت ${promotion.bundlePrice || 0}`;
+    }
+};
@@ -0,0 +1,23 @@
+import type { Quotation } from '../types';
+
+export type QuotationDisplayStatus = Quotation['status'] | 'expired';
+
+export const QUOTATION_STATUSES: Record<QuotationDisplayStatus, string> = {
+    open: 'معتبر',
+    expired: 'منقضی',
+    converted: 'تبدیل به فروش',
+    cancelled: 'لغو شده'
+};
+
+// Local date as yyyy-mm-dd (the format of validUntil)
+export const toDateInputValue = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// An open quotation stays valid through the whole of its last day
+export const isQuotationExpired = (quotation: Quotation, now: Date = new Date()): boolean =>
+    quotation.validUntil < toDateInputValue(now);
+
+export const getQuotationStatus = (quotation: Quotation): QuotationDisplayStatus =>
+    quotation.status === 'open' && isQuotationExpired(quotation) ? 'expired' : quotation.status;
@@ -0,0 +1,37 @@
+import type { CartItem, ReturnLine, SaleInvoice } from '../types';
+import { getOnAccountAmount } from './payments';
+import { getLoyaltyAmount } from './loyalty';
+
+// The returned lines at the price they were sold at
+export const getReturnItems = (original: SaleInvoice, returnItems: ReturnLine[]): CartItem[] =>
+    returnItems.flatMap(ri => {
+        const item = original.items.find(i => i.id === ri.id && i.type === ri.type);
+        return item ? [{ ...item, quantity: ri.quantity }] : [];
+    });
+
+export const getSoldPrice = (item: CartItem): number =>
+    item.type === 'product' ? (item.finalPrice !== undefined ? item.finalPrice : item.salePrice) : item.price;
+
+export const getReturnTotal = (items: CartItem[]): number =>
+    items.reduce((sum, item) => sum + getSoldPrice(item) * item.quantity, 0);
+
+/**
+ * How a return of `returnTotal` is paid back: first what is still owed on the original invoice
+ * comes off the account, then what was paid with points goes back as points; `rest` is paid
+ * back in cash, as a voucher, or towards the new goods of an exchange.
+ */
+export const getReturnRefunds = (
+    original: SaleInvoice,
+    previousReturns: SaleInvoice[],
+    returnTotal: number
+): { accountRefund: number; loyaltyRefund: number; rest: number } => {
+    if (!original.customerId) return { accountRefund: 0, loyaltyRefund: 0, rest: returnTotal };
+    const creditLeft = getOnAccountAmount(original) - previousReturns.reduce((sum, i) => sum + getOnAccountAmount(i), 0);
+    const accountRefund = Math.min(returnTotal, Math.max(0, creditLeft));
+    const loyaltyLeft = getLoyaltyAmount(original.payments || []) - previousReturns.reduce((sum, i) => sum + getLoyaltyAmount(i.payments || []), 0);
+    const loyaltyRefund = Math.min(returnTotal - accountRefund, Math.max(0, loyaltyLeft));
+    return { accountRefund, loyaltyRefund, rest: returnTotal - accountRefund - loyaltyRefund };
+};
+
+export const getPreviousReturns = (saleInvoices: SaleInvoice[], originalInvoiceId: string): SaleInvoice[] =>
+    saleInvoices.filter(i => i.type === 'return' && i.originalInvoiceId === originalInvoiceId);
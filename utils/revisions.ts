@@ -0,0 +1,64 @@
+import type { CartItem, Customer, CustomerOrder, SaleInvoice, SaleInvoiceRevision, StoreSettings } from '../types';
+import { formatCurrency } from './formatters';
+import { getInvoicePayments, PAYMENT_METHODS } from './payments';
+import { getSoldPrice } from './returns';
+
+export const REVISION_ACTIONS: Record<SaleInvoiceRevision['action'], string> = {
+    edit: 'ویرایش',
+    void: 'ابطال'
+};
+
+export interface RevisionChange {
+    label: string;
+    before: string;
+    after: string;
+}
+
+export const isVoided = (invoice: SaleInvoice): boolean => invoice.status === 'void';
+
+// Newest first, as they come from the server
+export const getInvoiceRevisions = (revisions: SaleInvoiceRevision[], invoiceId: string): SaleInvoiceRevision[] =>
+    revisions.filter(r => r.invoiceId === invoiceId);
+
+// Why a sale cannot be voided (the same rules as void_sale); undefined if it can
+export const getVoidProblem = (invoice: SaleInvoice, saleInvoices: SaleInvoice[], customerOrders: CustomerOrder[]): string | undefined => {
+    if (isVoided(invoice)) return 'این فاکتور قبلاً باطل شده است.';
+    if (invoice.type !== 'sale') return 'فقط فاکتور فروش قابل ابطال است.';
+    if (invoice.exchangeId) return 'فاکتور تعویض کالا قابل ابطال نیست.';
+    if (saleInvoices.some(i => i.originalInvoiceId === invoice.id)) return 'برای این فاکتور مرجوعی ثبت شده است و قابل ابطال نیست.';
+    if (customerOrders.some(o => o.invoiceId === invoice.id)) return 'این فاکتور تحویل یک سفارش است و قابل ابطال نیست.';
+    return undefined;
+};
+
+const describeLine = (item: CartItem | undefined, settings: StoreSettings): string =>
+    item ? `${item.quantity} × ${formatCurrency(getSoldPrice(item), settings)}` : '—';
+
+const describePayments = (invoice: SaleInvoice, settings: StoreSettings): string =>
+    getInvoicePayments(invoice).map(p => `${PAYMENT_METHODS[p.method]} ${formatCurrency(p.amount, settings)}`).join('، ') || '—';
+
+/**
+ * What a revision changed: the lines added, removed or sold at another quantity or price,
+ * then the customer, the payments and the totals. A void changes nothing on the invoice
+ * itself, so it lists only its status.
+ */
+export const getRevisionChanges = (revision: SaleInvoiceRevision, customers: Customer[], settings: StoreSettings): RevisionChange[] => {
+    const { before, after } = revision;
+    const changes: RevisionChange[] = [];
+    const add = (label: string, from: string, to: string) => { if (from !== to) changes.push({ label, before: from, after: to }); };
+
+    const keyOf = (item: CartItem) => `${item.type}:${item.id}`;
+    const keys = [...new Set([...before.items, ...after.items].map(keyOf))];
+    for (const key of keys) {
+        const old = before.items.find(i => keyOf(i) === key);
+        const next = after.items.find(i => keyOf(i) === key);
+        add((next || old)!.name, describeLine(old, settings), describeLine(next, settings));
+    }
+
+    const customerName = (id?: string) => id ? (customers.find(c => c.id === id)?.name || id) : 'مشتری نقدی';
+    add('مشتری', customerName(before.customerId), customerName(after.customerId));
+    add('پرداخت', describePayments(before, settings), describePayments(after, settings));
+    add('تخفیف', formatCurrency(before.totalDiscount, settings), formatCurrency(after.totalDiscount, settings));
+    add('مبلغ کل', formatCurrency(before.totalAmount, settings), formatCurrency(after.totalAmount, settings));
+    add('وضعیت', isVoided(before) ? 'باطل شده' : 'فعال', isVoided(after) ? 'باطل شده' : 'فعال');
+    return changes;
+};
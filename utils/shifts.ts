@@ -0,0 +1,91 @@
+import type { CashMovement, CashMovementReason, CashShift, CustomerTransaction, Expense, PaymentMethod, SaleInvoice } from '../types';
+import { getTakingsByMethod } from './payments';
+
+export interface ShiftSummary {
+    saleCount: number;
+    grossSales: number;
+    discounts: number;
+    returnCount: number;
+    returnsAmount: number;
+    takingsByMethod: Record<PaymentMethod, number>;
+    cashSales: number; // Net cash from sales and returns (AFN and USD, in the base currency)
+    customerPayments: number;
+    cashExpenses: number;
+    cashIn: number;
+    cashOut: number;
+    expectedCash: number;
+}
+
+export const CASH_MOVEMENT_REASONS: Record<CashMovementReason, string> = {
+    float_top_up: 'افزایش موجودی صندوق',
+    petty_purchase: 'خرید جزئی (تنخواه)',
+    owner_withdrawal: 'برداشت مالک',
+    bank_deposit: 'واریز به بانک',
+    voucher_sale: 'فروش کارت هدیه',
+    sale_void: 'برگشت نقد فاکتور باطل شده',
+    other: 'سایر'
+};
+
+// Reasons offered for each direction
+export const CASH_IN_REASONS: CashMovementReason[] = ['float_top_up', 'other'];
+export const CASH_OUT_REASONS: CashMovementReason[] = ['petty_purchase', 'owner_withdrawal', 'bank_deposit', 'other'];
+
+// The open drawer of a cashier in a branch, if any
+export const getOpenShift = (shifts: CashShift[], cashier: string | undefined, branchId: string | null): CashShift | undefined =>
+    shifts.find(s => s.status === 'open' && s.cashier === cashier && s.branchId === branchId);
+
+export const getShiftMovements = (shift: CashShift, cashMovements: CashMovement[]): CashMovement[] =>
+    cashMovements.filter(m => m.shiftId === shift.id);
+
+// Voided sales stay in the shift they were rung up in; their cash goes back out of the drawer
+// open at the void, as a "sale_void" cash movement of that shift
+export const getShiftInvoices = (shift: CashShift, saleInvoices: SaleInvoice[]): SaleInvoice[] => {
+    const start = new Date(shift.openedAt).getTime();
+    const end = shift.closedAt ? new Date(shift.closedAt).getTime() : Date.now();
+    return saleInvoices.filter(inv => {
+        const time = new Date(inv.timestamp).getTime();
+        return inv.cashier === shift.cashier && inv.branchId === shift.branchId && time >= start && time <= end;
+    });
+};
+
+// Expected cash = float + cash taken for sales (less change and cash refunds)
+//               + customer payments received - expenses paid from the drawer
+//               + cash put in - cash taken out
+export const getShiftSummary = (
+    shift: CashShift,
+    saleInvoices: SaleInvoice[],
+    customerTransactions: CustomerTransaction[],
+    expenses: Expense[],
+    cashMovements: CashMovement[]
+): ShiftSummary => {
+    const invoices = getShiftInvoices(shift, saleInvoices);
+    const sales = invoices.filter(inv => inv.type === 'sale');
+    const returns = invoices.filter(inv => inv.type === 'return');
+    const takingsByMethod = getTakingsByMethod(invoices);
+    const cashSales = takingsByMethod.cash_afn + takingsByMethod.cash_usd;
+    // Order deposits paid back in cash leave the same drawer
+    const customerPayments = customerTransactions
+        .filter(t => t.shiftId === shift.id && (t.type === 'payment' || t.type === 'deposit_refund'))
+        .reduce((sum, t) => sum + (t.type === 'payment' ? t.amount : -t.amount), 0);
+    const cashExpenses = expenses
+        .filter(e => e.shiftId === shift.id)
+        .reduce((sum, e) => sum + e.amount, 0);
+    const movements = getShiftMovements(shift, cashMovements);
+    const cashIn = movements.filter(m => m.type === 'in').reduce((sum, m) => sum + m.amount, 0);
+    const cashOut = movements.filter(m => m.type === 'out').reduce((sum, m) => sum + m.amount, 0);
+
+    return {
+        saleCount: sales.length,
+        grossSales: sales.reduce((sum, inv) => sum + inv.totalAmount, 0),
+        discounts: sales.reduce((sum, inv) => sum + Math.max(inv.totalDiscount, 0), 0),
+        returnCount: returns.length,
+        returnsAmount: returns.reduce((sum, inv) => sum + inv.totalAmount, 0),
+        takingsByMethod,
+        cashSales,
+        customerPayments,
+        cashExpenses,
+        cashIn,
+        cashOut,
+        expectedCash: shift.openingFloat + cashSales + customerPayments - cashExpenses + cashIn - cashOut
+    };
+};
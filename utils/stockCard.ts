@@ -0,0 +1,110 @@
+import type { Product, SaleInvoice, PurchaseInvoice, StockMovement, StockMovementReason } from '../types';
+import { isInBranch } from './branches';
+import { STOCK_MOVEMENT_REASONS } from './stockMovements';
+
+export interface StockCardEntry {
+    id: string;
+    timestamp: string;
+    description: string;
+    refId?: string;
+    quantityIn: number;
+    quantityOut: number;
+    unitCost: number;
+    balance: number; // Running balance after this entry
+}
+
+// Invoices are read from the invoices themselves; the ledger only adds what has no invoice
+const INVOICE_REASONS: StockMovementReason[] = ['purchase', 'purchase_return', 'sale', 'sale_edit', 'sale_return'];
+
+// The ledger started with the stock every batch held at that moment: 'opening' rows the
+// migration wrote as 'system', with no document
+const isLedgerBackfill = (m: StockMovement): boolean => m.reason === 'opening' && m.user === 'system' && !m.refId;
+
+// Chronological stock card (kardex) of one product in a branch (or all branches), oldest first.
+// The opening balance of the ledger repeats the invoices before it, so only the part those
+// invoices do not explain is shown; every later movement without an invoice counts in full.
+export const buildStockCard = (
+    product: Product,
+    saleInvoices: SaleInvoice[],
+    purchaseInvoices: PurchaseInvoice[],
+    stockMovements: StockMovement[],
+    branchId: string
+): StockCardEntry[] => {
+    const entries: Omit<StockCardEntry, 'balance'>[] = [];
+
+    for (const invoice of purchaseInvoices) {
+        if (!isInBranch(invoice, branchId)) continue;
+        invoice.items.filter(item => item.productId === product.id).forEach((item, index) => {
+            const isReturn = invoice.type === 'return';
+            entries.push({
+                id: `${invoice.id}-${index}`,
+                timestamp: invoice.timestamp,
+                description: isReturn ? `مرجوعی خرید (فاکتور ${invoice.invoiceNumber || invoice.originalInvoiceId || '-'})` : `خرید (فاکتور ${invoice.invoiceNumber || '-'})`,
+                refId: invoice.id,
+                quantityIn: isReturn ? 0 : item.quantity,
+                quantityOut: isReturn ? item.quantity : 0,
+                unitCost: item.purchasePrice
+            });
+        });
+    }
+
+    for (const invoice of saleInvoices) {
+        if (!isInBranch(invoice, branchId)) continue;
+        invoice.items.forEach((item, index) => {
+            if (item.type !== 'product' || item.id !== product.id) return;
+            const isReturn = invoice.type === 'return';
+            entries.push({
+                id: `${invoice.id}-${index}`,
+                timestamp: invoice.timestamp,
+                description: isReturn ? 'مرجوعی فروش' : 'فروش',
+                refId: invoice.id,
+                quantityIn: isReturn ? item.quantity : 0,
+                quantityOut: isReturn ? 0 : item.quantity,
+                unitCost: item.purchasePrice
+            });
+        });
+    }
+
+    const movements = stockMovements.filter(m => m.productId === product.id && isInBranch(m, branchId));
+    const backfill = movements.filter(isLedgerBackfill);
+    if (backfill.length > 0) {
+        const timestamp = backfill[0].timestamp;
+        const time = new Date(timestamp).getTime();
+        const openingStock = backfill.reduce((sum, m) => sum + m.delta, 0);
+        const invoicedStock = entries
+            .filter(e => new Date(e.timestamp).getTime() <= time)
+            .reduce((sum, e) => sum + e.quantityIn - e.quantityOut, 0);
+        const difference = openingStock - invoicedStock;
+        if (Math.abs(difference) > 1e-9) {
+            entries.push({
+                id: `opening-${product.id}`,
+                timestamp,
+                description: STOCK_MOVEMENT_REASONS.opening,
+                quantityIn: Math.max(difference, 0),
+                quantityOut: Math.max(-difference, 0),
+                unitCost: openingStock !== 0 ? backfill.reduce((sum, m) => sum + m.delta * m.unitCost, 0) / openingStock : backfill[0].unitCost
+            });
+        }
+    }
+
+    for (const m of movements) {
+        if (INVOICE_REASONS.includes(m.reason) || isLedgerBackfill(m)) continue;
+        entries.push({
+            id: m.id,
+            timestamp: m.timestamp,
+            description: m.note ? `${STOCK_MOVEMENT_REASONS[m.reason]} - ${m.note}` : STOCK_MOVEMENT_REASONS[m.reason],
+            refId: m.refId,
+            quantityIn: Math.max(m.delta, 0),
+            quantityOut: Math.max(-m.delta, 0),
+            unitCost: m.unitCost
+        });
+    }
+
+    let balance = 0;
+    return entries
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        .map(entry => {
+            balance += entry.quantityIn - entry.quantityOut;
+            return { ...entry, balance };
+        });
+};
@@ -0,0 +1,29 @@
+import type { StockAdjustmentReason, StockMovement, StockMovementReason } from '../types';
+
+export const STOCK_MOVEMENT_REASONS: Record<StockMovementReason, string> = {
+    opening: 'موجودی اولیه',
+    purchase: 'خرید',
+    purchase_return: 'مرجوعی خرید',
+    sale: 'فروش',
+    sale_edit: 'ویرایش فاکتور فروش',
+    sale_return: 'مرجوعی فروش',
+    sale_void: 'ابطال فاکتور فروش',
+    transfer_out: 'ارسال حواله انتقال',
+    transfer_in: 'دریافت حواله انتقال',
+    stocktake: 'شمارش انبار',
+    damage: 'ضایعات و آسیب',
+    theft: 'سرقت',
+    internal_use: 'مصرف داخلی',
+    gift: 'هدیه',
+    correction: 'اصلاح موجودی',
+    expiry_writeoff: 'حذف کالای تاریخ گذشته'
+};
+
+// Reasons a user can pick for a manual adjustment; the rest come from documents
+export const STOCK_ADJUSTMENT_REASONS: StockAdjustmentReason[] = ['damage', 'theft', 'internal_use', 'gift', 'correction', 'expiry_writeoff'];
+
+// Stock of a product (or a single batch) rebuilt from its movements
+export const getStockFromMovements = (movements: StockMovement[], productId: string, batchId?: string): number =>
+    movements
+        .filter(m => m.productId === productId && (!batchId || m.batchId === batchId))
+        .reduce((sum, m) => sum + m.delta, 0);
@@ -0,0 +1,86 @@
+import type { PaymentLine, SaleInvoice, Voucher, VoucherSource, VoucherTransaction } from '../types';
+import { toDateInputValue } from './quotations';
+
+export const VOUCHER_SOURCES: Record<VoucherSource, string> = {
+    sale: 'فروش کارت هدیه',
+    return: 'اعتبار کالای مرجوعی',
+    manual: 'صدور دستی'
+};
+
+export const VOUCHER_TRANSACTION_TYPES: Record<VoucherTransaction['type'], string> = {
+    issue: 'صدور',
+    redeem: 'خرید',
+    redeem_edit: 'برگشت خرید فاکتور ویرایش شده',
+    redeem_void: 'برگشت خرید باطل شده'
+};
+
+// No 0/O or 1/I, so a code read off a printed voucher is typed in right
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateVoucherCode = (): string => {
+    const bytes = crypto.getRandomValues(new Uint8Array(8));
+    const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+    return `GV-${chars.slice(0, 4)}-${chars.slice(4)}`;
+};
+
+// Codes are compared the way the server stores them
+export const normalizeVoucherCode = (code: string): string => code.trim().toUpperCase();
+
+export const findVoucher = (vouchers: Voucher[], code: string): Voucher | undefined => {
+    const normalized = normalizeVoucherCode(code);
+    return normalized ? vouchers.find(v => v.code === normalized) : undefined;
+};
+
+export const isVoucherExpired = (voucher: Voucher, now: Date = new Date()): boolean =>
+    !!voucher.expiryDate && toDateInputValue(now) > voucher.expiryDate;
+
+// Why a voucher cannot pay `amount` now, or null when it can
+export const getVoucherProblem = (voucher: Voucher | undefined, amount: number, now: Date = new Date()): string | null => {
+    if (!voucher) return 'کارت هدیه با این کد یافت نشد.';
+    if (isVoucherExpired(voucher, now)) return `کارت هدیه ${voucher.code} منقضی شده است.`;
+    if (amount > voucher.balance + 0.01) return `مانده کارت هدیه ${voucher.code} کافی نیست.`;
+    return null;
+};
+
+// What each voucher code of the tender pays, summed over lines with the same code
+export const getVoucherAmounts = (payments: PaymentLine[]): Map<string, number> => {
+    const amounts = new Map<string, number>();
+    for (const p of payments) {
+        if (p.method !== 'voucher' || p.amount <= 0) continue;
+        const code = normalizeVoucherCode(p.reference || '');
+        amounts.set(code, (amounts.get(code) || 0) + p.amount);
+    }
+    return amounts;
+};
+
+/**
+ * The vouchers and ledger rows the server books for an invoice (see apply_invoice_vouchers), for
+ * showing an offline sale or return: a sale spends from existing vouchers, a return issues one.
+ */
+export const getInvoiceVoucherChanges = (
+    invoice: SaleInvoice,
+    vouchers: Voucher[]
+): { issued: Voucher[]; transactions: VoucherTransaction[] } => {
+    const issued: Voucher[] = [];
+    const transactions: VoucherTransaction[] = [];
+    let index = 0;
+    getVoucherAmounts(invoice.payments || []).forEach((amount, code) => {
+        if (invoice.type === 'return') {
+            index++;
+            const id = `${invoice.id}:voucher${index > 1 ? index : ''}`;
+            issued.push({ id, code, issuedAmount: amount, balance: amount, source: 'return', invoiceId: invoice.id, customerId: invoice.customerId, branchId: invoice.branchId, issuedAt: invoice.timestamp, issuedBy: invoice.cashier });
+            transactions.push({ id: `${id}:issue`, voucherId: id, type: 'issue', amount, date: invoice.timestamp, invoiceId: invoice.id });
+            return;
+        }
+        const voucher = vouchers.find(v => v.code === code);
+        if (voucher) transactions.push({ id: `${invoice.id}:${voucher.id}`, voucherId: voucher.id, type: 'redeem', amount: -amount, date: invoice.timestamp, invoiceId: invoice.id });
+    });
+    return { issued, transactions };
+};
+
+// Applies getInvoiceVoucherChanges to the vouchers in state
+export const applyVoucherChanges = (vouchers: Voucher[], changes: { issued: Voucher[]; transactions: VoucherTransaction[] }): Voucher[] =>
+    [...changes.issued, ...vouchers.map(v => {
+        const spent = changes.transactions.filter(t => t.voucherId === v.id && t.type === 'redeem').reduce((sum, t) => sum + t.amount, 0);
+        return spent ? { ...v, balance: Math.max(v.balance + spent, 0) } : v;
+    })];